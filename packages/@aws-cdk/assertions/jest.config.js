@@ -0,0 +1,10 @@
+const baseConfig = require('cdk-build-tools/config/jest.config');
+module.exports = {
+    ...baseConfig,
+    coverageThreshold: {
+        global: {
+            statements: 75,
+            branches: 65,
+        },
+    },
+};
@@ -0,0 +1,140 @@
+import { Stack } from '@aws-cdk/core';
+import { SynthesisMessage, SynthesisMessageLevel } from '@aws-cdk/cx-api';
+import { Match, Matcher } from './match';
+import { toMessages } from './private/synth';
+
+/**
+ * The messages (errors, warnings and info) that the constructs of a stack added with
+ * `Annotations.of(construct)` in `@aws-cdk/core`, with methods to make assertions on them
+ *
+ * The methods select messages by the path of their construct, and by their text. Construct
+ * paths start with a slash (`/Stack/Bucket/Resource`) and may contain `*` wildcards; pass `*`
+ * to select the messages of all constructs. The text is matched with a pattern, which may be
+ * a literal string or a matcher (such as `Match.stringLikeRegexp()`).
+ */
+export class Annotations {
+  /**
+   * The messages of the constructs in a stack (or nested stack), from its synthesized cloud assembly
+   */
+  public static fromStack(stack: Stack): Annotations {
+    return new Annotations(toMessages(stack));
+  }
+
+  private constructor(private readonly messages: SynthesisMessage[]) {
+  }
+
+  /**
+   * Assert that a construct has an error that matches the pattern
+   */
+  public hasError(constructPath: string, message: any): void {
+    this.assertHas(SynthesisMessageLevel.ERROR, constructPath, message);
+  }
+
+  /**
+   * Assert that no construct has an error that matches the pattern
+   */
+  public hasNoError(constructPath: string, message: any): void {
+    this.assertHasNo(SynthesisMessageLevel.ERROR, constructPath, message);
+  }
+
+  /**
+   * The errors that match the pattern
+   */
+  public findError(constructPath: string, message: any): SynthesisMessage[] {
+    return this.find(SynthesisMessageLevel.ERROR, constructPath, message);
+  }
+
+  /**
+   * Assert that a construct has a warning that matches the pattern
+   */
+  public hasWarning(constructPath: string, message: any): void {
+    this.assertHas(SynthesisMessageLevel.WARNING, constructPath, message);
+  }
+
+  /**
+   * Assert that no construct has a warning that matches the pattern
+   */
+  public hasNoWarning(constructPath: string, message: any): void {
+    this.assertHasNo(SynthesisMessageLevel.WARNING, constructPath, message);
+  }
+
+  /**
+   * The warnings that match the pattern
+   */
+  public findWarning(constructPath: string, message: any): SynthesisMessage[] {
+    return this.find(SynthesisMessageLevel.WARNING, constructPath, message);
+  }
+
+  /**
+   * Assert that a construct has an info message that matches the pattern
+   */
+  public hasInfo(constructPath: string, message: any): void {
+    this.assertHas(SynthesisMessageLevel.INFO, constructPath, message);
+  }
+
+  /**
+   * Assert that no construct has an info message that matches the pattern
+   */
+  public hasNoInfo(constructPath: string, message: any): void {
+    this.assertHasNo(SynthesisMessageLevel.INFO, constructPath, message);
+  }
+
+  /**
+   * The info messages that match the pattern
+   */
+  public findInfo(constructPath: string, message: any): SynthesisMessage[] {
+    return this.find(SynthesisMessageLevel.INFO, constructPath, message);
+  }
+
+  private assertHas(level: SynthesisMessageLevel, constructPath: string, message: any) {
+    if (this.find(level, constructPath, message).length > 0) { return; }
+
+    const candidates = this.messages.filter(m => m.level === level && pathMatches(constructPath, m.id));
+    throw new Error([
+      `Expected ${describeLevel(level)} at ${constructPath} matching ${describePattern(message)}, but found ${candidates.length > 0 ? 'only:' : 'none'}`,
+      ...candidates.map(formatMessage),
+    ].join('\n'));
+  }
+
+  private assertHasNo(level: SynthesisMessageLevel, constructPath: string, message: any) {
+    const found = this.find(level, constructPath, message);
+    if (found.length === 0) { return; }
+
+    throw new Error([
+      `Expected no ${level} at ${constructPath} matching ${describePattern(message)}, but found:`,
+      ...found.map(formatMessage),
+    ].join('\n'));
+  }
+
+  private find(level: SynthesisMessageLevel, constructPath: string, message: any): SynthesisMessage[] {
+    const matcher = Matcher.isMatcher(message) ? message : Match.exact(message);
+    return this.messages.filter(m => m.level === level
+      && pathMatches(constructPath, m.id)
+      && !matcher.test(m.entry.data).finished().hasFailed());
+  }
+}
+
+function pathMatches(pattern: string, constructPath: string): boolean {
+  const regex = pattern.split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`^${regex}$`).test(constructPath);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function describeLevel(level: SynthesisMessageLevel): string {
+  switch (level) {
+    case SynthesisMessageLevel.ERROR: return 'an error';
+    case SynthesisMessageLevel.WARNING: return 'a warning';
+    case SynthesisMessageLevel.INFO: return 'an info message';
+  }
+}
+
+function describePattern(pattern: any): string {
+  return Matcher.isMatcher(pattern) ? `Match.${pattern.name}()` : JSON.stringify(pattern);
+}
+
+function formatMessage(message: SynthesisMessage): string {
+  return `  ${message.id}: ${message.entry.data}`;
+}
@@ -0,0 +1,108 @@
+import { Match, Matcher, MatchResult } from './match';
+import { getType, Type } from './private/type';
+
+/**
+ * Capture values while matching templates
+ *
+ * Use an instance of this class as a matcher inside a pattern, and read the
+ * captured values after the match with `asString()`, `asObject()` and the like.
+ * If the pattern matched more than once, use `next()` to go to the next value.
+ */
+export class Capture extends Matcher {
+  public readonly name = 'Capture';
+
+  private readonly captured = new Array<any>();
+  private idx = 0;
+
+  /**
+   * @param pattern only capture values that match this pattern
+   * @default - capture any value that is not `null` or `undefined`
+   */
+  constructor(private readonly pattern?: any) {
+    super();
+  }
+
+  public test(actual: any): MatchResult {
+    const result = new MatchResult(actual);
+    if (actual === undefined || actual === null) {
+      return result.push(this, [], `Can only capture values that are not null or undefined, found ${actual}`);
+    }
+
+    if (this.pattern !== undefined) {
+      const matcher = Matcher.isMatcher(this.pattern) ? this.pattern : Match.exact(this.pattern);
+      const inner = matcher.test(actual);
+      if (inner.hasFailed()) { return inner; }
+    }
+
+    result.recordCapture({ capture: this, value: actual });
+    return result;
+  }
+
+  /**
+   * Go to the next captured value
+   *
+   * @returns false if there are no more captured values
+   */
+  public next(): boolean {
+    if (this.idx < this.captured.length - 1) {
+      this.idx++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * The captured value, as a string
+   */
+  public asString(): string {
+    return this.current('string');
+  }
+
+  /**
+   * The captured value, as a number
+   */
+  public asNumber(): number {
+    return this.current('number');
+  }
+
+  /**
+   * The captured value, as a boolean
+   */
+  public asBoolean(): boolean {
+    return this.current('boolean');
+  }
+
+  /**
+   * The captured value, as an array
+   */
+  public asArray(): any[] {
+    return this.current('array');
+  }
+
+  /**
+   * The captured value, as an object
+   */
+  public asObject(): { [key: string]: any } {
+    return this.current('object');
+  }
+
+  /**
+   * Record a value that was captured by a successful match
+   *
+   * @internal
+   */
+  public _captureValue(value: any) {
+    this.captured.push(value);
+  }
+
+  private current(type: Type): any {
+    if (this.captured.length === 0) {
+      throw new Error('No value captured');
+    }
+    const value = this.captured[this.idx];
+    if (getType(value) !== type) {
+      throw new Error(`Captured value is expected to be ${type} but found ${getType(value)}. Value is ${JSON.stringify(value, undefined, 2)}`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './annotations';
+export * from './capture';
+export * from './match';
+export * from './template';
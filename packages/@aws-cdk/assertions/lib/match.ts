@@ -0,0 +1,420 @@
+import { Capture } from './capture';
+import { getType } from './private/type';
+
+/**
+ * A matcher for a value in a template, for use with `Template`
+ *
+ * Create matchers with the static methods of `Match`.
+ */
+export abstract class Matcher {
+  /**
+   * Whether the given value is a matcher
+   */
+  public static isMatcher(x: any): x is Matcher {
+    return x && x instanceof Matcher;
+  }
+
+  /**
+   * The name of the matcher, used in failure messages
+   */
+  public abstract readonly name: string;
+
+  /**
+   * Test whether a value matches
+   */
+  public abstract test(actual: any): MatchResult;
+}
+
+/**
+ * A mismatch found while matching a value
+ */
+export interface MatchFailure {
+  /**
+   * The matcher that found the mismatch
+   */
+  readonly matcher: Matcher;
+
+  /**
+   * Where in the value the mismatch was found, as a list of keys and array indexes
+   */
+  readonly path: string[];
+
+  readonly message: string;
+}
+
+/**
+ * A value captured by a `Capture` while matching
+ */
+export interface MatchCapture {
+  readonly capture: Capture;
+  readonly value: any;
+}
+
+/**
+ * The result of matching a value
+ */
+export class MatchResult {
+  /**
+   * The value that was matched
+   */
+  public readonly target: any;
+
+  private readonly failures = new Array<MatchFailure>();
+  private readonly captures = new Array<MatchCapture>();
+  private finalized = false;
+
+  constructor(target: any) {
+    this.target = target;
+  }
+
+  /**
+   * Record a mismatch
+   *
+   * @param path where in the target the mismatch was found, relative to the target
+   */
+  public push(matcher: Matcher, path: string[], message: string): this {
+    this.failures.push({ matcher, path, message });
+    return this;
+  }
+
+  /**
+   * Add the mismatches and captures of matching a part of the target
+   *
+   * @param id the key or array index of the part in the target
+   */
+  public compose(id: string, inner: MatchResult): this {
+    for (const failure of inner.failures) {
+      this.failures.push({ ...failure, path: [id, ...failure.path] });
+    }
+    this.captures.push(...inner.captures);
+    return this;
+  }
+
+  /**
+   * Record a captured value, to be passed to its `Capture` if the match succeeds
+   */
+  public recordCapture(options: MatchCapture) {
+    this.captures.push(options);
+  }
+
+  /**
+   * Whether any mismatches were found
+   */
+  public hasFailed(): boolean {
+    return this.failures.length > 0;
+  }
+
+  /**
+   * The number of mismatches found
+   */
+  public get failCount(): number {
+    return this.failures.length;
+  }
+
+  /**
+   * Finish matching: pass the captured values to their `Capture`s, if the match succeeded
+   */
+  public finished(): this {
+    if (this.finalized) { return this; }
+
+    if (!this.hasFailed()) {
+      for (const { capture, value } of this.captures) {
+        capture._captureValue(value);
+      }
+    }
+    this.finalized = true;
+    return this;
+  }
+
+  /**
+   * Render the mismatches for a failure message
+   */
+  public toHumanStrings(): string[] {
+    return this.failures.map(failure => {
+      const location = failure.path.length > 0 ? ` at /${failure.path.join('/')}` : '';
+      return `${failure.message}${location} (using ${failure.matcher.name} matcher)`;
+    });
+  }
+}
+
+/**
+ * Partial and special matching of the values in a template
+ *
+ * Matchers can be nested inside the patterns of other matchers, and inside
+ * the literal values that are passed to the methods of `Template`.
+ */
+export abstract class Match {
+  /**
+   * Match a key that is not present (or set to `undefined`)
+   */
+  public static absent(): Matcher {
+    return new AbsentMatch('absent');
+  }
+
+  /**
+   * Match an array that contains the elements of the pattern, in the same order,
+   * but possibly with other elements in between
+   */
+  public static arrayWith(pattern: any[]): Matcher {
+    return new ArrayMatch('arrayWith', pattern, { subsequence: true });
+  }
+
+  /**
+   * Match an array that has exactly the elements of the pattern
+   */
+  public static arrayEquals(pattern: any[]): Matcher {
+    return new ArrayMatch('arrayEquals', pattern, { subsequence: false });
+  }
+
+  /**
+   * Match the pattern exactly, without the partial matching of objects that is done by default
+   */
+  public static exact(pattern: any): Matcher {
+    return new LiteralMatch('exact', pattern, { partialObjects: false });
+  }
+
+  /**
+   * Match an object that has at least the keys of the pattern, with matching values
+   *
+   * Objects nested in the pattern are matched in the same way.
+   */
+  public static objectLike(pattern: { [key: string]: any }): Matcher {
+    return new ObjectMatch('objectLike', pattern, { partial: true });
+  }
+
+  /**
+   * Match an object that has exactly the keys of the pattern, with matching values
+   */
+  public static objectEquals(pattern: { [key: string]: any }): Matcher {
+    return new ObjectMatch('objectEquals', pattern, { partial: false });
+  }
+
+  /**
+   * Match any value that does not match the pattern
+   */
+  public static not(pattern: any): Matcher {
+    return new NotMatch('not', pattern);
+  }
+
+  /**
+   * Match a string that contains serialized JSON, whose deserialized value matches the pattern
+   */
+  public static serializedJson(pattern: any): Matcher {
+    return new SerializedJsonMatch('serializedJson', pattern);
+  }
+
+  /**
+   * Match any value that is not `null` or `undefined`
+   */
+  public static anyValue(): Matcher {
+    return new AnyMatch('anyValue');
+  }
+
+  /**
+   * Match a string that matches the regular expression
+   */
+  public static stringLikeRegexp(pattern: string): Matcher {
+    return new StringLikeRegexpMatch('stringLikeRegexp', pattern);
+  }
+}
+
+/**
+ * The matcher for a pattern that may be a matcher or a literal value
+ */
+function matcherFor(name: string, pattern: any, partialObjects: boolean): Matcher {
+  return Matcher.isMatcher(pattern) ? pattern : new LiteralMatch(name, pattern, { partialObjects });
+}
+
+/**
+ * Match a literal value, with matchers nested in it
+ */
+class LiteralMatch extends Matcher {
+  private readonly partialObjects: boolean;
+
+  constructor(public readonly name: string, private readonly pattern: any, options: { partialObjects: boolean }) {
+    super();
+    this.partialObjects = options.partialObjects;
+
+    if (Matcher.isMatcher(pattern)) {
+      throw new Error('Match.exact() cannot directly contain another matcher. Remove the top-level matcher or nest it more deeply.');
+    }
+  }
+
+  public test(actual: any): MatchResult {
+    if (Array.isArray(this.pattern)) {
+      return new ArrayMatch(this.name, this.pattern, { subsequence: false, partialObjects: this.partialObjects }).test(actual);
+    }
+    if (typeof this.pattern === 'object' && this.pattern !== null) {
+      return new ObjectMatch(this.name, this.pattern, { partial: this.partialObjects }).test(actual);
+    }
+
+    const result = new MatchResult(actual);
+    if (getType(actual) !== getType(this.pattern)) {
+      return result.push(this, [], `Expected type ${getType(this.pattern)} but received ${getType(actual)}`);
+    }
+    if (actual !== this.pattern) {
+      result.push(this, [], `Expected ${this.pattern} but received ${actual}`);
+    }
+    return result;
+  }
+}
+
+/**
+ * Match an array, or a subsequence of it
+ */
+class ArrayMatch extends Matcher {
+  private readonly subsequence: boolean;
+  private readonly partialObjects: boolean;
+
+  constructor(public readonly name: string, private readonly pattern: any[], options: { subsequence: boolean, partialObjects?: boolean }) {
+    super();
+    this.subsequence = options.subsequence;
+    this.partialObjects = options.partialObjects ?? false;
+  }
+
+  public test(actual: any): MatchResult {
+    const result = new MatchResult(actual);
+    if (!Array.isArray(actual)) {
+      return result.push(this, [], `Expected type array but received ${getType(actual)}`);
+    }
+    if (!this.subsequence && this.pattern.length !== actual.length) {
+      return result.push(this, [], `Expected array of length ${this.pattern.length} but received ${actual.length}`);
+    }
+
+    // Match the elements of the pattern left to right. For a subsequence, elements of
+    // the array that do not match the next element of the pattern are skipped.
+    let patternIdx = 0;
+    let actualIdx = 0;
+    while (patternIdx < this.pattern.length && actualIdx < actual.length) {
+      const matcher = matcherFor(this.name, this.pattern[patternIdx], this.partialObjects);
+      const inner = matcher.test(actual[actualIdx]);
+      if (!this.subsequence || !inner.hasFailed()) {
+        result.compose(`[${actualIdx}]`, inner);
+        patternIdx++;
+      }
+      actualIdx++;
+    }
+
+    if (patternIdx < this.pattern.length) {
+      result.push(this, [], `Could not match element ${patternIdx} of the pattern (${JSON.stringify(this.pattern[patternIdx])}). `
+        + 'The elements of the pattern are matched in order.');
+    }
+    return result;
+  }
+}
+
+/**
+ * Match an object, or a part of it
+ */
+class ObjectMatch extends Matcher {
+  private readonly partial: boolean;
+
+  constructor(public readonly name: string, private readonly pattern: { [key: string]: any }, options: { partial: boolean }) {
+    super();
+    this.partial = options.partial;
+  }
+
+  public test(actual: any): MatchResult {
+    const result = new MatchResult(actual);
+    if (getType(actual) !== 'object') {
+      return result.push(this, [], `Expected type object but received ${getType(actual)}`);
+    }
+
+    if (!this.partial) {
+      for (const key of Object.keys(actual)) {
+        if (!(key in this.pattern)) {
+          result.push(this, [key], `Unexpected key ${key}`);
+        }
+      }
+    }
+
+    for (const [key, patternValue] of Object.entries(this.pattern)) {
+      if (!(key in actual) && !(patternValue instanceof AbsentMatch)) {
+        result.push(this, [key], `Missing key ${key}`);
+        continue;
+      }
+      result.compose(key, matcherFor(this.name, patternValue, this.partial).test(actual[key]));
+    }
+    return result;
+  }
+}
+
+class AbsentMatch extends Matcher {
+  constructor(public readonly name: string) {
+    super();
+  }
+
+  public test(actual: any): MatchResult {
+    const result = new MatchResult(actual);
+    if (actual !== undefined) {
+      result.push(this, [], `Received ${JSON.stringify(actual)}, but key should be absent`);
+    }
+    return result;
+  }
+}
+
+class NotMatch extends Matcher {
+  constructor(public readonly name: string, private readonly pattern: any) {
+    super();
+  }
+
+  public test(actual: any): MatchResult {
+    const result = new MatchResult(actual);
+    if (!matcherFor(this.name, this.pattern, false).test(actual).hasFailed()) {
+      result.push(this, [], `Found unexpected match: ${JSON.stringify(actual, undefined, 2)}`);
+    }
+    return result;
+  }
+}
+
+class SerializedJsonMatch extends Matcher {
+  constructor(public readonly name: string, private readonly pattern: any) {
+    super();
+  }
+
+  public test(actual: any): MatchResult {
+    const result = new MatchResult(actual);
+    if (getType(actual) !== 'string') {
+      return result.push(this, [], `Expected JSON as a string but received ${getType(actual)}`);
+    }
+
+    let parsed;
+    try {
+      parsed = JSON.parse(actual);
+    } catch (e) {
+      return result.push(this, [], `Invalid JSON string: ${actual}`);
+    }
+    return result.compose('(deserializedJson)', matcherFor(this.name, this.pattern, false).test(parsed));
+  }
+}
+
+class AnyMatch extends Matcher {
+  constructor(public readonly name: string) {
+    super();
+  }
+
+  public test(actual: any): MatchResult {
+    const result = new MatchResult(actual);
+    if (actual === undefined || actual === null) {
+      result.push(this, [], 'Expected a value but found none');
+    }
+    return result;
+  }
+}
+
+class StringLikeRegexpMatch extends Matcher {
+  constructor(public readonly name: string, private readonly pattern: string) {
+    super();
+  }
+
+  public test(actual: any): MatchResult {
+    const result = new MatchResult(actual);
+    if (getType(actual) !== 'string') {
+      return result.push(this, [], `Expected type string but received ${getType(actual)}`);
+    }
+    if (!new RegExp(this.pattern).test(actual)) {
+      result.push(this, [], `String '${actual}' did not match pattern '${this.pattern}'`);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Stack, Stage } from '@aws-cdk/core';
+import * as cxapi from '@aws-cdk/cx-api';
+
+/**
+ * The template synthesized from a stack (or nested stack)
+ */
+export function toTemplate(stack: Stack): any {
+  const assembly = synthesizeStage(stack);
+
+  // Nested stacks are not artifacts of the assembly, read their template directly
+  if (stack.nestedStackParent) {
+    return JSON.parse(fs.readFileSync(path.join(assembly.directory, stack.templateFile)).toString('utf-8'));
+  }
+  return assembly.getStackArtifact(stack.artifactId).template;
+}
+
+/**
+ * The messages of the constructs in a stack (or nested stack)
+ */
+export function toMessages(stack: Stack): cxapi.SynthesisMessage[] {
+  const assembly = synthesizeStage(stack);
+
+  // The metadata of the constructs in nested stacks is recorded in the artifact of their top-level stack
+  let topLevelStack = stack;
+  while (topLevelStack.nestedStackParent) {
+    topLevelStack = topLevelStack.nestedStackParent;
+  }
+
+  const prefix = `/${stack.node.path}`;
+  return assembly.getStackArtifact(topLevelStack.artifactId).messages
+    .filter(message => message.id === prefix || message.id.startsWith(`${prefix}/`));
+}
+
+/**
+ * Synthesize the stage (or app) that the stack is part of
+ *
+ * A stack in a nested stage is an artifact of the assembly of that stage, not of the app.
+ */
+function synthesizeStage(stack: Stack): cxapi.CloudAssembly {
+  const stage = Stage.of(stack);
+  if (!stage) {
+    throw new Error('unexpected: all stacks must be part of a Stage or an App');
+  }
+
+  // Force synthesis, so a stack can be changed and asserted on again
+  return stage.synth({ force: true });
+}
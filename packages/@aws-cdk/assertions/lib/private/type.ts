@@ -0,0 +1,9 @@
+export type Type = 'string' | 'number' | 'bigint' | 'boolean' | 'symbol' | 'undefined' | 'object' | 'function' | 'array' | 'null';
+
+/**
+ * The type of a value as it appears in failure messages, telling arrays and `null` apart from objects
+ */
+export function getType(obj: any): Type {
+  if (obj === null) { return 'null'; }
+  return Array.isArray(obj) ? 'array' : typeof obj;
+}
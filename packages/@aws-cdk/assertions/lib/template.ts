@@ -0,0 +1,227 @@
+import { Stack } from '@aws-cdk/core';
+import { Match, Matcher, MatchResult } from './match';
+import { toTemplate } from './private/synth';
+
+type Section = { [logicalId: string]: any };
+
+/**
+ * A CloudFormation template, with methods to make assertions on it
+ *
+ * The methods throw an error when the assertion fails, so they can be used with any test framework.
+ * Unless a method says otherwise, objects in patterns are matched partially (as with `Match.objectLike()`).
+ */
+export class Template {
+  /**
+   * The template synthesized from a stack (or nested stack)
+   */
+  public static fromStack(stack: Stack): Template {
+    return new Template(toTemplate(stack));
+  }
+
+  /**
+   * A template given as a JSON object
+   */
+  public static fromJSON(template: { [key: string]: any }): Template {
+    return new Template(template);
+  }
+
+  /**
+   * A template given as a JSON string
+   */
+  public static fromString(template: string): Template {
+    return new Template(JSON.parse(template));
+  }
+
+  private constructor(private readonly template: { [key: string]: any }) {
+  }
+
+  /**
+   * The template as a JSON object, for example to compare it with a snapshot
+   */
+  public toJSON(): { [key: string]: any } {
+    return this.template;
+  }
+
+  /**
+   * Assert that the template has the given number of resources of a type
+   */
+  public resourceCountIs(type: string, count: number): void {
+    const found = Object.keys(this.resourcesOfType(type)).length;
+    if (found !== count) {
+      throw new Error(`Expected ${count} resources of type ${type} but found ${found}`);
+    }
+  }
+
+  /**
+   * Assert that the template has a resource of a type whose properties match the pattern
+   *
+   * Resources without properties are matched as if they had empty properties.
+   *
+   * @param props the pattern for the `Properties` of the resource. Pass `Match.absent()` to
+   * assert that the resource has no properties.
+   */
+  public hasResourceProperties(type: string, props: any): void {
+    const absent = Matcher.isMatcher(props) && props.name === 'absent';
+    const resources = absent ? this.resourcesOfType(type) : withProperties(this.resourcesOfType(type));
+    assertSectionMatches(resources, { Properties: props }, `resources with type ${type}`);
+  }
+
+  /**
+   * Assert that the template has a resource of a type whose definition matches the pattern
+   *
+   * @param props the pattern for the complete definition of the resource, including
+   * `Properties`, `DependsOn`, `DeletionPolicy` and the like
+   */
+  public hasResource(type: string, props: any): void {
+    assertSectionMatches(this.resourcesOfType(type), props, `resources with type ${type}`);
+  }
+
+  /**
+   * The resources of a type whose definition matches the pattern, by logical ID
+   *
+   * @param props the pattern for the complete definition of the resource
+   * @default - all resources of the type
+   */
+  public findResources(type: string, props: any = {}): { [logicalId: string]: any } {
+    return matchSection(this.resourcesOfType(type), props).matches;
+  }
+
+  /**
+   * Assert that the template has an output that matches the pattern
+   *
+   * @param logicalId the logical ID of the output, or `*` to match any output
+   */
+  public hasOutput(logicalId: string, props: any): void {
+    const outputs = filterLogicalId(this.template.Outputs ?? {}, logicalId);
+    assertSectionMatches(outputs, props, logicalId === '*' ? 'outputs' : `outputs named ${logicalId}`);
+  }
+
+  /**
+   * The outputs that match the pattern, by logical ID
+   *
+   * @param logicalId the logical ID of the output, or `*` for any output
+   * @default - all outputs with the logical ID
+   */
+  public findOutputs(logicalId: string, props: any = {}): { [logicalId: string]: any } {
+    return matchSection(filterLogicalId(this.template.Outputs ?? {}, logicalId), props).matches;
+  }
+
+  /**
+   * Assert that the template has a mapping that matches the pattern
+   *
+   * @param logicalId the logical ID of the mapping, or `*` to match any mapping
+   */
+  public hasMapping(logicalId: string, props: any): void {
+    const mappings = filterLogicalId(this.template.Mappings ?? {}, logicalId);
+    assertSectionMatches(mappings, props, logicalId === '*' ? 'mappings' : `mappings named ${logicalId}`);
+  }
+
+  /**
+   * The mappings that match the pattern, by logical ID
+   *
+   * @param logicalId the logical ID of the mapping, or `*` for any mapping
+   * @default - all mappings with the logical ID
+   */
+  public findMappings(logicalId: string, props: any = {}): { [logicalId: string]: any } {
+    return matchSection(filterLogicalId(this.template.Mappings ?? {}, logicalId), props).matches;
+  }
+
+  /**
+   * Assert that the whole template matches the pattern
+   */
+  public templateMatches(expected: any): void {
+    const matcher = Matcher.isMatcher(expected) ? expected : Match.objectLike(expected);
+    const result = matcher.test(this.template).finished();
+    if (result.hasFailed()) {
+      throw new Error([
+        'Template did not match as expected. The following mismatches were found:',
+        ...result.toHumanStrings().map(s => `  ${s}`),
+      ].join('\n'));
+    }
+  }
+
+  private resourcesOfType(type: string): Section {
+    const ret: Section = {};
+    for (const [logicalId, resource] of Object.entries(this.template.Resources ?? {})) {
+      if ((resource as any)?.Type === type) {
+        ret[logicalId] = resource;
+      }
+    }
+    return ret;
+  }
+}
+
+/**
+ * The result of matching the entries of a template section against a pattern
+ */
+interface SectionMatch {
+  /**
+   * The entries that match, by logical ID
+   */
+  readonly matches: Section;
+
+  /**
+   * The entry with the fewest mismatches, if none match
+   */
+  readonly closest?: { readonly logicalId: string, readonly result: MatchResult };
+
+  /**
+   * The number of entries that were matched against the pattern
+   */
+  readonly analyzedCount: number;
+}
+
+function matchSection(section: Section, props: any): SectionMatch {
+  const matcher = Matcher.isMatcher(props) ? props : Match.objectLike(props);
+
+  const matches: Section = {};
+  let closest: SectionMatch['closest'];
+  for (const [logicalId, entry] of Object.entries(section)) {
+    const result = matcher.test(entry).finished();
+    if (!result.hasFailed()) {
+      matches[logicalId] = entry;
+    } else if (!closest || result.failCount < closest.result.failCount) {
+      closest = { logicalId, result };
+    }
+  }
+  return { matches, closest, analyzedCount: Object.keys(section).length };
+}
+
+/**
+ * Throw an error describing the closest entry if no entry of the section matches the pattern
+ *
+ * @param description what the entries of the section are, for the error message
+ */
+function assertSectionMatches(section: Section, props: any, description: string) {
+  const result = matchSection(section, props);
+  if (Object.keys(result.matches).length > 0) { return; }
+
+  if (!result.closest) {
+    throw new Error(`Template has ${result.analyzedCount} ${description}.`);
+  }
+  throw new Error([
+    `Template has ${result.analyzedCount} ${description}, but none match as expected.`,
+    `The closest result is ${result.closest.logicalId}:`,
+    indent(2, JSON.stringify(result.closest.result.target, undefined, 2)),
+    'with the following mismatches:',
+    ...result.closest.result.toHumanStrings().map(s => `  ${s}`),
+  ].join('\n'));
+}
+
+function filterLogicalId(section: Section, logicalId: string): Section {
+  if (logicalId === '*') { return section; }
+  return logicalId in section ? { [logicalId]: section[logicalId] } : {};
+}
+
+function withProperties(resources: Section): Section {
+  const ret: Section = {};
+  for (const [logicalId, resource] of Object.entries(resources)) {
+    ret[logicalId] = { ...resource, Properties: resource.Properties ?? {} };
+  }
+  return ret;
+}
+
+function indent(n: number, s: string) {
+  const prefix = ' '.repeat(n);
+  return prefix + s.replace(/\n/g, '\n' + prefix);
+}
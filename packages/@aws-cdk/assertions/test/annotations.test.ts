@@ -0,0 +1,67 @@
+import { Annotations as CoreAnnotations, App, CfnResource, Construct, NestedStack, Stack, Stage } from '@aws-cdk/core';
+import { Annotations, Match } from '../lib';
+
+describe('Annotations', () => {
+  let stack: Stack;
+  beforeEach(() => {
+    stack = new Stack(undefined, 'MyStack');
+    const foo = new CfnResource(stack, 'Foo', { type: 'Foo::Bar' });
+    const bar = new CfnResource(stack, 'Bar', { type: 'Foo::Bar' });
+    CoreAnnotations.of(foo).addError('this is an error');
+    CoreAnnotations.of(foo).addWarning('this is a warning');
+    CoreAnnotations.of(bar).addWarning('this is another warning');
+    CoreAnnotations.of(bar).addInfo('this is information');
+  });
+
+  test('hasError', () => {
+    const annotations = Annotations.fromStack(stack);
+
+    annotations.hasError('/MyStack/Foo', 'this is an error');
+    annotations.hasError('*', Match.stringLikeRegexp('an error'));
+    expect(() => annotations.hasError('/MyStack/Bar', Match.anyValue()))
+      .toThrow('Expected an error at /MyStack/Bar matching Match.anyValue(), but found none');
+    expect(() => annotations.hasError('/MyStack/Foo', 'another error'))
+      .toThrow(/but found only:\n {2}\/MyStack\/Foo: this is an error/);
+  });
+
+  test('hasNoError', () => {
+    const annotations = Annotations.fromStack(stack);
+
+    annotations.hasNoError('/MyStack/Bar', Match.anyValue());
+    expect(() => annotations.hasNoError('*', Match.anyValue()))
+      .toThrow(/Expected no error at \* matching Match.anyValue\(\), but found:\n {2}\/MyStack\/Foo: this is an error/);
+  });
+
+  test('warnings are selected by construct path pattern', () => {
+    const annotations = Annotations.fromStack(stack);
+
+    annotations.hasWarning('/MyStack/B*', 'this is another warning');
+    annotations.hasNoWarning('/MyStack/B*', 'this is a warning');
+    expect(annotations.findWarning('/MyStack/*', Match.anyValue()).map(m => m.id)).toEqual(['/MyStack/Foo', '/MyStack/Bar']);
+  });
+
+  test('info', () => {
+    const annotations = Annotations.fromStack(stack);
+
+    annotations.hasInfo('/MyStack/Bar', 'this is information');
+    annotations.hasNoInfo('/MyStack/Foo', Match.anyValue());
+    expect(annotations.findInfo('*', Match.anyValue())).toEqual([
+      expect.objectContaining({ id: '/MyStack/Bar', entry: expect.objectContaining({ data: 'this is information' }) }),
+    ]);
+  });
+
+  test('messages of nested stacks', () => {
+    const nested = new NestedStack(stack, 'Nested');
+    CoreAnnotations.of(new Construct(nested, 'Resource')).addWarning('this is a nested warning');
+
+    Annotations.fromStack(nested).hasWarning('/MyStack/Nested/Resource', 'this is a nested warning');
+    Annotations.fromStack(nested).hasNoWarning('*', 'this is a warning');
+  });
+
+  test('messages of stacks in stages', () => {
+    const stageStack = new Stack(new Stage(new App(), 'Stage'), 'StageStack');
+    CoreAnnotations.of(new Construct(stageStack, 'Resource')).addWarning('this is a warning in a stage');
+
+    Annotations.fromStack(stageStack).hasWarning('/Stage/StageStack/Resource', 'this is a warning in a stage');
+  });
+});
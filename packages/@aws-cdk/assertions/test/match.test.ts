@@ -0,0 +1,117 @@
+import { Capture, Match, Matcher } from '../lib';
+
+describe('Matchers', () => {
+  describe('exact', () => {
+    test('literals', () => {
+      expectPass(Match.exact('foo'), 'foo');
+      expectFailure(Match.exact('foo'), 'bar', [/Expected foo but received bar/]);
+      expectFailure(Match.exact(3), '3', [/Expected type number but received string/]);
+    });
+
+    test('objects must have exactly the given keys', () => {
+      expectPass(Match.exact({ foo: 'bar' }), { foo: 'bar' });
+      expectFailure(Match.exact({ foo: 'bar' }), { foo: 'bar', baz: 'qux' }, [/Unexpected key baz at \/baz/]);
+      expectFailure(Match.exact({ foo: 'bar' }), {}, [/Missing key foo at \/foo/]);
+    });
+
+    test('arrays must have exactly the given elements', () => {
+      expectPass(Match.exact([1, 2]), [1, 2]);
+      expectFailure(Match.exact([1, 2]), [1, 2, 3], [/Expected array of length 2 but received 3/]);
+      expectFailure(Match.exact([1, 2]), [2, 1], [/Expected 1 but received 2 at \/\[0\]/, /Expected 2 but received 1 at \/\[1\]/]);
+    });
+
+    test('cannot contain another matcher directly', () => {
+      expect(() => Match.exact(Match.anyValue())).toThrow(/cannot directly contain another matcher/);
+    });
+  });
+
+  describe('objectLike', () => {
+    test('objects may have other keys, also when nested', () => {
+      const matcher = Match.objectLike({ foo: { bar: 'baz' } });
+      expectPass(matcher, { foo: { bar: 'baz', qux: 'quux' }, other: 1 });
+      expectFailure(matcher, { foo: { bar: 'qux' } }, [/Expected baz but received qux at \/foo\/bar/]);
+      expectFailure(matcher, 'foo', [/Expected type object but received string/]);
+    });
+
+    test('absent keys', () => {
+      const matcher = Match.objectLike({ foo: Match.absent() });
+      expectPass(matcher, { bar: 'baz' });
+      expectFailure(matcher, { foo: 'bar' }, [/Received "bar", but key should be absent at \/foo/]);
+    });
+  });
+
+  test('objectEquals', () => {
+    const matcher = Match.objectEquals({ foo: 'bar' });
+    expectPass(matcher, { foo: 'bar' });
+    expectFailure(matcher, { foo: 'bar', baz: 'qux' }, [/Unexpected key baz/]);
+  });
+
+  describe('arrayWith', () => {
+    test('matches a subsequence, in order', () => {
+      const matcher = Match.arrayWith([1, 3]);
+      expectPass(matcher, [1, 2, 3]);
+      expectFailure(matcher, [3, 2, 1], [/Could not match element 1 of the pattern/]);
+      expectFailure(matcher, 'foo', [/Expected type array but received string/]);
+    });
+
+    test('can contain other matchers', () => {
+      expectPass(Match.arrayWith([Match.objectLike({ foo: 'bar' })]), [{ baz: 'qux' }, { foo: 'bar', baz: 'qux' }]);
+    });
+  });
+
+  test('arrayEquals', () => {
+    expectPass(Match.arrayEquals([1, 2]), [1, 2]);
+    expectFailure(Match.arrayEquals([1, 2]), [1, 2, 3], [/Expected array of length 2 but received 3/]);
+  });
+
+  test('not', () => {
+    expectPass(Match.not('foo'), 'bar');
+    expectFailure(Match.not(Match.objectLike({ foo: 'bar' })), { foo: 'bar' }, [/Found unexpected match/]);
+  });
+
+  test('serializedJson', () => {
+    const matcher = Match.serializedJson({ foo: Match.arrayWith(['bar']) });
+    expectPass(matcher, JSON.stringify({ foo: ['bar', 'baz'] }));
+    expectFailure(matcher, JSON.stringify({ foo: ['baz'] }), [/at \/\(deserializedJson\)\/foo/]);
+    expectFailure(matcher, '{ foo', [/Invalid JSON string/]);
+    expectFailure(matcher, { foo: ['bar'] }, [/Expected JSON as a string but received object/]);
+  });
+
+  test('anyValue', () => {
+    expectPass(Match.anyValue(), 'foo');
+    expectPass(Match.anyValue(), 0);
+    expectFailure(Match.anyValue(), null, [/Expected a value but found none/]);
+    expectFailure(Match.objectLike({ foo: Match.anyValue() }), {}, [/Missing key foo/]);
+  });
+
+  test('stringLikeRegexp', () => {
+    expectPass(Match.stringLikeRegexp('^arn:aws:s3:::'), 'arn:aws:s3:::bucket');
+    expectFailure(Match.stringLikeRegexp('^arn:aws:s3:::'), 'arn:aws:sqs:::queue', [/did not match pattern/]);
+    expectFailure(Match.stringLikeRegexp('foo'), 3, [/Expected type string but received number/]);
+  });
+
+  test('Capture only records values of successful matches', () => {
+    const capture = new Capture();
+
+    Match.objectLike({ foo: capture, bar: 'baz' }).test({ foo: 'failed', bar: 'qux' }).finished();
+    Match.objectLike({ foo: capture, bar: 'baz' }).test({ foo: 'captured', bar: 'baz' }).finished();
+
+    expect(capture.asString()).toEqual('captured');
+    expect(capture.next()).toBe(false);
+  });
+});
+
+function expectPass(matcher: Matcher, target: any) {
+  const result = matcher.test(target);
+  expect(result.toHumanStrings()).toEqual([]);
+  expect(result.hasFailed()).toBe(false);
+}
+
+function expectFailure(matcher: Matcher, target: any, expected: RegExp[]) {
+  const result = matcher.test(target);
+  expect(result.failCount).toEqual(expected.length);
+  const actual = result.toHumanStrings();
+  for (let i = 0; i < expected.length; i++) {
+    expect(actual[i]).toMatch(expected[i]);
+  }
+}
@@ -0,0 +1,176 @@
+import { App, CfnMapping, CfnOutput, CfnResource, NestedStack, Stack, Stage } from '@aws-cdk/core';
+import { Capture, Match, Template } from '../lib';
+
+describe('Template', () => {
+  test('fromStack', () => {
+    const app = new App();
+    const stack = new Stack(app, 'Stack');
+    new CfnResource(stack, 'Foo', {
+      type: 'Foo::Bar',
+      properties: { Baz: 'Qux' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    expect(template.toJSON()).toEqual({
+      Resources: {
+        Foo: { Type: 'Foo::Bar', Properties: { Baz: 'Qux' } },
+      },
+    });
+  });
+
+  test('fromStack with a nested stack', () => {
+    const stack = new Stack();
+    const nested = new NestedStack(stack, 'Nested');
+    new CfnResource(nested, 'Foo', { type: 'Foo::Bar' });
+
+    Template.fromStack(nested).resourceCountIs('Foo::Bar', 1);
+  });
+
+  test('fromStack with a stack in a stage', () => {
+    const app = new App();
+    const stack = new Stack(new Stage(app, 'Stage'), 'Stack');
+    new CfnResource(stack, 'Foo', { type: 'Foo::Bar' });
+    const nested = new NestedStack(stack, 'Nested');
+    new CfnResource(nested, 'Baz', { type: 'Baz::Qux' });
+
+    Template.fromStack(stack).resourceCountIs('Foo::Bar', 1);
+    Template.fromStack(nested).resourceCountIs('Baz::Qux', 1);
+  });
+
+  test('fromString', () => {
+    const template = Template.fromString('{ "Resources": { "Foo": { "Type": "Foo::Bar" } } }');
+
+    expect(template.toJSON()).toEqual({ Resources: { Foo: { Type: 'Foo::Bar' } } });
+  });
+
+  describe('resourceCountIs', () => {
+    test('counts the resources of a type', () => {
+      const template = Template.fromJSON({
+        Resources: {
+          Foo1: { Type: 'Foo::Bar' },
+          Foo2: { Type: 'Foo::Bar' },
+          Baz: { Type: 'Baz::Qux' },
+        },
+      });
+
+      template.resourceCountIs('Foo::Bar', 2);
+      template.resourceCountIs('Other::Type', 0);
+      expect(() => template.resourceCountIs('Foo::Bar', 1)).toThrow('Expected 1 resources of type Foo::Bar but found 2');
+    });
+  });
+
+  describe('hasResourceProperties', () => {
+    const template = Template.fromJSON({
+      Resources: {
+        Queue: { Type: 'AWS::SQS::Queue', Properties: { VisibilityTimeout: 300, Tags: [{ Key: 'Env', Value: 'test' }] } },
+        OtherQueue: { Type: 'AWS::SQS::Queue', Properties: { VisibilityTimeout: 30, FifoQueue: true } },
+        Topic: { Type: 'AWS::SNS::Topic' },
+      },
+    });
+
+    test('matches properties partially', () => {
+      template.hasResourceProperties('AWS::SQS::Queue', { VisibilityTimeout: 300 });
+      template.hasResourceProperties('AWS::SQS::Queue', { Tags: Match.arrayWith([{ Key: 'Env' }]) });
+      template.hasResourceProperties('AWS::SNS::Topic', {});
+    });
+
+    test('matches resources without properties', () => {
+      template.hasResourceProperties('AWS::SNS::Topic', Match.absent());
+      template.hasResourceProperties('AWS::SQS::Queue', { FifoQueue: Match.absent() });
+    });
+
+    test('the failure message points to the closest resource', () => {
+      expect(() => template.hasResourceProperties('AWS::SQS::Queue', { VisibilityTimeout: 600, FifoQueue: true }))
+        .toThrow(/2 resources with type AWS::SQS::Queue, but none match as expected.\nThe closest result is OtherQueue:.*Expected 600 but received 30 at \/Properties\/VisibilityTimeout/s);
+    });
+
+    test('fails if there are no resources of the type', () => {
+      expect(() => template.hasResourceProperties('AWS::S3::Bucket', {})).toThrow('Template has 0 resources with type AWS::S3::Bucket.');
+    });
+
+    test('captures values', () => {
+      const capture = new Capture();
+      template.hasResourceProperties('AWS::SQS::Queue', { VisibilityTimeout: capture, FifoQueue: true });
+
+      expect(capture.asNumber()).toEqual(30);
+    });
+  });
+
+  describe('hasResource', () => {
+    test('matches the complete definition of the resource', () => {
+      const template = Template.fromJSON({
+        Resources: {
+          Bucket: { Type: 'AWS::S3::Bucket', DeletionPolicy: 'Retain', DependsOn: ['Other'] },
+        },
+      });
+
+      template.hasResource('AWS::S3::Bucket', { DeletionPolicy: 'Retain' });
+      expect(() => template.hasResource('AWS::S3::Bucket', { DependsOn: Match.absent() })).toThrow(/key should be absent at \/DependsOn/);
+    });
+  });
+
+  describe('findResources', () => {
+    test('returns the matching resources by logical ID', () => {
+      const template = Template.fromJSON({
+        Resources: {
+          Foo: { Type: 'Foo::Bar', Properties: { Baz: 'Qux' } },
+          Bar: { Type: 'Foo::Bar', Properties: { Baz: 'Quux' } },
+        },
+      });
+
+      expect(Object.keys(template.findResources('Foo::Bar'))).toEqual(['Foo', 'Bar']);
+      expect(template.findResources('Foo::Bar', { Properties: { Baz: 'Qux' } })).toEqual({
+        Foo: { Type: 'Foo::Bar', Properties: { Baz: 'Qux' } },
+      });
+    });
+  });
+
+  describe('outputs', () => {
+    const stack = new Stack();
+    new CfnOutput(stack, 'Foo', { value: 'Bar', exportName: 'FooExport' });
+    new CfnOutput(stack, 'Baz', { value: 'Qux' });
+    const template = Template.fromStack(stack);
+
+    test('hasOutput', () => {
+      template.hasOutput('Foo', { Value: 'Bar' });
+      template.hasOutput('*', { Value: 'Qux' });
+      expect(() => template.hasOutput('Foo', { Value: 'Qux' })).toThrow(/1 outputs named Foo, but none match as expected/);
+      expect(() => template.hasOutput('Other', {})).toThrow('Template has 0 outputs named Other.');
+    });
+
+    test('findOutputs', () => {
+      expect(Object.keys(template.findOutputs('*', { Export: { Name: 'FooExport' } }))).toEqual(['Foo']);
+      expect(template.findOutputs('Other')).toEqual({});
+    });
+  });
+
+  describe('mappings', () => {
+    const stack = new Stack();
+    new CfnMapping(stack, 'Regions', {
+      mapping: { 'us-east-1': { AMI: 'ami-1234' } },
+    });
+    const template = Template.fromStack(stack);
+
+    test('hasMapping', () => {
+      template.hasMapping('Regions', { 'us-east-1': { AMI: Match.stringLikeRegexp('^ami-') } });
+      expect(() => template.hasMapping('*', { 'eu-west-1': Match.anyValue() })).toThrow(/1 mappings, but none match/);
+    });
+
+    test('findMappings', () => {
+      expect(template.findMappings('*')).toEqual({ Regions: { 'us-east-1': { AMI: 'ami-1234' } } });
+    });
+  });
+
+  describe('templateMatches', () => {
+    test('matches the whole template', () => {
+      const template = Template.fromJSON({
+        Resources: { Foo: { Type: 'Foo::Bar', Properties: { Baz: 'Qux' } } },
+      });
+
+      template.templateMatches({ Resources: { Foo: { Type: 'Foo::Bar' } } });
+      expect(() => template.templateMatches(Match.objectEquals({ Resources: { Foo: { Type: 'Foo::Bar' } } })))
+        .toThrow(/Unexpected key Properties at \/Resources\/Foo\/Properties/);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { expect, haveResource, matchTemplate, SynthUtils } from '@aws-cdk/assert';
+import { expect, haveResource, matchTemplate, ResourcePart, SynthUtils } from '@aws-cdk/assert';
 import * as s3_assets from '@aws-cdk/aws-s3-assets';
 import * as sns from '@aws-cdk/aws-sns';
 import { App, CfnParameter, CfnResource, ContextProvider, LegacyStackSynthesizer, Names, Stack } from '@aws-cdk/core';
@@ -101,6 +101,23 @@ export = {
     test.done();
   },
 
+  'the template of the nested stack is recorded in the metadata of its resource, if asset metadata is enabled'(test: Test) {
+    // GIVEN
+    const app = new App({ context: { 'aws:cdk:enable-asset-metadata': true } });
+    const parent = new Stack(app, 'parent-stack');
+    const nested = new NestedStack(parent, 'nested-stack');
+    new CfnResource(nested, 'ResourceInNestedStack', { type: 'AWS::Resource::Nested' });
+
+    // THEN
+    expect(parent).to(haveResource('AWS::CloudFormation::Stack', {
+      Metadata: {
+        'aws:asset:path': 'parentstacknestedstack844892C0.nested.template.json',
+        'aws:asset:property': 'TemplateURL',
+      },
+    }, ResourcePart.CompleteDefinition));
+    test.done();
+  },
+
   'aws::cloudformation::stack is synthesized in the parent scope'(test: Test) {
     // GIVEN
     const app = new App();
@@ -1,6 +1,8 @@
 import * as events from '@aws-cdk/aws-events';
 import * as iam from '@aws-cdk/aws-iam';
-import { IResource, Lazy, RemovalPolicy, Resource, Stack, Token } from '@aws-cdk/core';
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
+import { ContextProvider, IResource, Lazy, RemovalPolicy, Resource, Stack, Token } from '@aws-cdk/core';
+import * as cxapi from '@aws-cdk/cx-api';
 import { IConstruct, Construct } from 'constructs';
 import { CfnRepository } from './ecr.generated';
 import { LifecycleRule, TagStatus } from './lifecycle';
@@ -331,6 +333,45 @@ export interface RepositoryAttributes {
   readonly repositoryArn: string;
 }
 
+/**
+ * Properties for looking up an image in an existing repository.
+ */
+export interface RepositoryLookupOptions {
+  /**
+   * The name of the repository
+   */
+  readonly repositoryName: string;
+
+  /**
+   * The tag of the image to look up
+   *
+   * @default - the most recently pushed image
+   */
+  readonly imageTag?: string;
+}
+
+/**
+ * A repository imported using `Repository.fromLookup()`, along with the image that was looked up in it
+ */
+export interface ILookedUpRepository extends IRepository {
+  /**
+   * The digest of the image that was looked up
+   */
+  readonly imageDigest: string;
+
+  /**
+   * The tags of the image that was looked up, at the time it was looked up
+   */
+  readonly imageTags: string[];
+
+  /**
+   * The URI of the image that was looked up, pinned to its digest:
+   *
+   *    ACCOUNT.dkr.ecr.REGION.amazonaws.com/REPOSITORY@DIGEST
+   */
+  readonly imageUri: string;
+}
+
 /**
  * Define an ECR repository
  */
@@ -390,6 +431,51 @@ export class Repository extends RepositoryBase {
     return new Import(scope, id);
   }
 
+  /**
+   * Import a repository in the same account/region as the stack, and look up the digest of one of its images
+   *
+   * Referencing the image by digest makes sure the same image is used until the lookup is refreshed,
+   * even if the tag is moved to a different image in the meantime.
+   *
+   * The digest will be cached in `cdk.context.json` and the same image will be used on future runs.
+   * To use a newer image, you will have to evict the value from the cache using the `cdk context` command.
+   */
+  public static fromLookup(scope: Construct, id: string, options: RepositoryLookupOptions): ILookedUpRepository {
+    if (Token.isUnresolved(options.repositoryName) || Token.isUnresolved(options.imageTag)) {
+      throw new Error('All arguments to Repository.fromLookup() must be concrete (no Tokens)');
+    }
+
+    const attributes: cxapi.EcrImageContextResponse = ContextProvider.getValue(scope, {
+      provider: cxschema.ContextProvider.ECR_IMAGE_PROVIDER,
+      props: {
+        repositoryName: options.repositoryName,
+        imageTag: options.imageTag,
+      } as cxschema.EcrImageContextQuery,
+      dummyValue: {
+        imageDigest: 'sha256:0000000000000000000000000000000000000000000000000000000000000000',
+        imageTags: options.imageTag ? [options.imageTag] : [],
+      } as cxapi.EcrImageContextResponse,
+    }).value;
+
+    class Import extends RepositoryBase implements ILookedUpRepository {
+      public readonly repositoryName = options.repositoryName;
+      public readonly repositoryArn = Repository.arnForLocalRepository(options.repositoryName, scope);
+      public readonly imageDigest = attributes.imageDigest;
+      public readonly imageTags = attributes.imageTags;
+
+      public get imageUri() {
+        return `${this.repositoryUri}@${this.imageDigest}`;
+      }
+
+      public addToResourcePolicy(_statement: iam.PolicyStatement): iam.AddToResourcePolicyResult {
+        // dropped
+        return { statementAdded: false };
+      }
+    }
+
+    return new Import(scope, id);
+  }
+
   /**
    * Returns an ECR ARN for a repository that resides in the same account/region
    * as the current stack.
@@ -255,6 +255,38 @@ export = {
     test.done();
   },
 
+  'import with a looked up image'(test: Test) {
+    // GIVEN
+    const stack = new cdk.Stack(new cdk.App(), 'Stack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+    // WHEN
+    const repo = ecr.Repository.fromLookup(stack, 'Repo', { repositoryName: 'my-repo', imageTag: 'v1' });
+
+    // THEN
+    test.deepEqual(repo.repositoryName, 'my-repo');
+    test.deepEqual(repo.imageDigest, 'sha256:0000000000000000000000000000000000000000000000000000000000000000');
+    test.deepEqual(repo.imageTags, ['v1']);
+    test.deepEqual(stack.resolve(repo.imageUri), {
+      'Fn::Join': ['', [
+        '123456789012.dkr.ecr.us-east-1.',
+        { Ref: 'AWS::URLSuffix' },
+        '/my-repo@sha256:0000000000000000000000000000000000000000000000000000000000000000',
+      ]],
+    });
+    test.done();
+  },
+
+  'cannot look up an image with tokens'(test: Test) {
+    // GIVEN
+    const stack = new cdk.Stack(new cdk.App(), 'Stack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+    // THEN
+    test.throws(() => ecr.Repository.fromLookup(stack, 'Repo', {
+      repositoryName: cdk.Lazy.string({ produce: () => 'my-repo' }),
+    }), /All arguments to Repository.fromLookup\(\) must be concrete/);
+    test.done();
+  },
+
   'arnForLocalRepository can be used to render an ARN for a local repository'(test: Test) {
     // GIVEN
     const stack = new cdk.Stack();
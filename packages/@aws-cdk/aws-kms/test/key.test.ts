@@ -580,6 +580,25 @@ describe('imported keys', () => {
       },
     });
   });
+
+  testFutureBehavior('can be looked up by alias', flags, cdk.App, (app) => {
+    const stack = new cdk.Stack(app, 'Stack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+    const key = kms.Key.fromLookup(stack, 'Imported', { aliasName: 'alias/my-key' });
+
+    expect(key.keyId).toEqual('1234abcd-12ab-34cd-56ef-1234567890ab');
+    expect(stack.resolve(key.keyArn)).toEqual({
+      'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':kms:us-east-1:123456789012:key/1234abcd-12ab-34cd-56ef-1234567890ab']],
+    });
+  });
+
+  testFutureBehavior('cannot be looked up with tokens', flags, cdk.App, (app) => {
+    const stack = new cdk.Stack(app, 'Stack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+    expect(() => {
+      kms.Key.fromLookup(stack, 'Imported', { aliasName: cdk.Lazy.string({ produce: () => 'alias/my-key' }) });
+    }).toThrow(/All arguments to Key.fromLookup\(\) must be concrete/);
+  });
 });
 
 describe('addToResourcePolicy allowNoOp and there is no policy', () => {
@@ -1,5 +1,7 @@
 import * as ec2 from '@aws-cdk/aws-ec2';
-import { IResource, RemovalPolicy, Resource } from '@aws-cdk/core';
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
+import { ContextProvider, IResource, RemovalPolicy, Resource, Token } from '@aws-cdk/core';
+import * as cxapi from '@aws-cdk/cx-api';
 import { Construct } from 'constructs';
 import { CfnDBSubnetGroup } from './rds.generated';
 
@@ -14,6 +16,21 @@ export interface ISubnetGroup extends IResource {
   readonly subnetGroupName: string;
 }
 
+/**
+ * A subnet group that was looked up in the AWS environment
+ */
+export interface ILookedUpSubnetGroup extends ISubnetGroup {
+  /**
+   * The ID of the VPC of the subnet group.
+   */
+  readonly vpcId: string;
+
+  /**
+   * The IDs of the subnets in the subnet group.
+   */
+  readonly subnetIds: string[];
+}
+
 /**
  * Properties for creating a SubnetGroup.
  */
@@ -51,6 +68,16 @@ export interface SubnetGroupProps {
   readonly removalPolicy?: RemovalPolicy
 }
 
+/**
+ * Properties for looking up an existing SubnetGroup.
+ */
+export interface SubnetGroupLookupOptions {
+  /**
+   * The name of the subnet group.
+   */
+  readonly subnetGroupName: string;
+}
+
 /**
  * Class for creating a RDS DB subnet group
  *
@@ -67,6 +94,36 @@ export class SubnetGroup extends Resource implements ISubnetGroup {
     }(scope, id);
   }
 
+  /**
+   * Imports an existing subnet group by looking it up in the AWS environment this stack is deployed to.
+   *
+   * Fails if no subnet group with this name exists. The result, including the VPC and subnets
+   * of the subnet group, is cached in `cdk.context.json`.
+   */
+  public static fromLookup(scope: Construct, id: string, options: SubnetGroupLookupOptions): ILookedUpSubnetGroup {
+    if (Token.isUnresolved(options.subnetGroupName)) {
+      throw new Error('All arguments to SubnetGroup.fromLookup() must be concrete (no Tokens)');
+    }
+
+    const attributes: cxapi.DbSubnetGroupContextResponse = ContextProvider.getValue(scope, {
+      provider: cxschema.ContextProvider.DB_SUBNET_GROUP_PROVIDER,
+      props: {
+        subnetGroupName: options.subnetGroupName,
+      } as cxschema.DbSubnetGroupContextQuery,
+      dummyValue: {
+        subnetGroupName: options.subnetGroupName,
+        vpcId: 'vpc-12345',
+        subnetIds: ['subnet-12345'],
+      } as cxapi.DbSubnetGroupContextResponse,
+    }).value;
+
+    return new class extends Resource implements ILookedUpSubnetGroup {
+      public readonly subnetGroupName = attributes.subnetGroupName;
+      public readonly vpcId = attributes.vpcId;
+      public readonly subnetIds = attributes.subnetIds;
+    }(scope, id);
+  }
+
   public readonly subnetGroupName: string;
 
   constructor(scope: Construct, id: string, props: SubnetGroupProps) {
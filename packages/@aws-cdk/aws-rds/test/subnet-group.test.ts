@@ -95,4 +95,26 @@ nodeunitShim({
     test.done();
   },
 
+  'look up group by name'(test: Test) {
+    const lookupStack = new cdk.Stack(new cdk.App(), 'Stack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+    const subnetGroup = rds.SubnetGroup.fromLookup(lookupStack, 'Group', { subnetGroupName: 'my-subnet-group' });
+
+    test.equals(subnetGroup.subnetGroupName, 'my-subnet-group');
+    test.equals(subnetGroup.vpcId, 'vpc-12345');
+    test.deepEqual(subnetGroup.subnetIds, ['subnet-12345']);
+
+    test.done();
+  },
+
+  'cannot look up group with tokens'(test: Test) {
+    const lookupStack = new cdk.Stack(new cdk.App(), 'Stack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+    test.throws(() => rds.SubnetGroup.fromLookup(lookupStack, 'Group', {
+      subnetGroupName: cdk.Lazy.string({ produce: () => 'my-subnet-group' }),
+    }), /All arguments to SubnetGroup.fromLookup\(\) must be concrete/);
+
+    test.done();
+  },
+
 });
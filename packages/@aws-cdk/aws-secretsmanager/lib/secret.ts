@@ -1,6 +1,7 @@
 import * as iam from '@aws-cdk/aws-iam';
 import * as kms from '@aws-cdk/aws-kms';
-import { FeatureFlags, Fn, IResource, RemovalPolicy, Resource, SecretValue, Stack, Token } from '@aws-cdk/core';
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
+import { ContextProvider, FeatureFlags, Fn, IResource, RemovalPolicy, Resource, SecretValue, Stack, Token } from '@aws-cdk/core';
 import * as cxapi from '@aws-cdk/cx-api';
 import { IConstruct, Construct } from 'constructs';
 import { ResourcePolicy } from './policy';
@@ -297,6 +298,23 @@ abstract class SecretBase extends Resource implements ISecret {
   }
 }
 
+/**
+ * Properties for looking up an existing Secret.
+ */
+export interface SecretLookupOptions {
+  /**
+   * The name of the secret, without the SecretsManager-provided suffix.
+   */
+  readonly secretName: string;
+
+  /**
+   * The encryption key that is used to encrypt the secret, unless the default SecretsManager key is used.
+   *
+   * @default - the default SecretsManager key
+   */
+  readonly encryptionKey?: kms.IKey;
+}
+
 /**
  * Creates a new secret in AWS SecretsManager.
  */
@@ -367,6 +385,36 @@ export class Secret extends SecretBase {
     }(scope, id);
   }
 
+  /**
+   * Imports a secret by looking up its complete ARN in the AWS environment this stack is deployed to.
+   *
+   * Unlike `fromSecretNameV2`, the imported secret has a complete ARN, which is required
+   * by some services (for example, to reference the secret from an ECS task definition).
+   *
+   * The ARN will be cached in `cdk.context.json` and the same ARN will be used on future runs.
+   * To refresh the lookup, you will have to evict the value from the cache using the `cdk context` command.
+   */
+  public static fromLookup(scope: Construct, id: string, options: SecretLookupOptions): ISecret {
+    if (Token.isUnresolved(options.secretName)) {
+      throw new Error('All arguments to Secret.fromLookup() must be concrete (no Tokens)');
+    }
+
+    const attributes: cxapi.SecretContextResponse = ContextProvider.getValue(scope, {
+      provider: cxschema.ContextProvider.SECRET_PROVIDER,
+      props: {
+        secretName: options.secretName,
+      } as cxschema.SecretContextQuery,
+      dummyValue: {
+        secretArn: `arn:aws:secretsmanager:us-east-1:123456789012:secret:${options.secretName}-AbCdEf`,
+      } as cxapi.SecretContextResponse,
+    }).value;
+
+    return Secret.fromSecretAttributes(scope, id, {
+      secretCompleteArn: attributes.secretArn,
+      encryptionKey: options.encryptionKey,
+    });
+  }
+
   /**
    * Import an existing secret into the Stack.
    *
@@ -653,6 +653,29 @@ test('fromSecretCompleteArn', () => {
   expect(stack.resolve(secret.secretValueFromJson('password'))).toEqual(`{{resolve:secretsmanager:${secretArn}:SecretString:password::}}`);
 });
 
+test('fromLookup', () => {
+  // GIVEN
+  const lookupStack = new cdk.Stack(app, 'LookupStack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+  // WHEN
+  const secret = secretsmanager.Secret.fromLookup(lookupStack, 'Secret', { secretName: 'MySecret' });
+
+  // THEN
+  expect(secret.secretArn).toBe('arn:aws:secretsmanager:us-east-1:123456789012:secret:MySecret-AbCdEf');
+  expect(secret.secretFullArn).toBe('arn:aws:secretsmanager:us-east-1:123456789012:secret:MySecret-AbCdEf');
+  expect(secret.secretName).toBe('MySecret');
+});
+
+test('fromLookup with tokens', () => {
+  // GIVEN
+  const lookupStack = new cdk.Stack(app, 'LookupStack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+  // THEN
+  expect(() => secretsmanager.Secret.fromLookup(lookupStack, 'Secret', {
+    secretName: cdk.Lazy.string({ produce: () => 'MySecret' }),
+  })).toThrow(/All arguments to Secret.fromLookup\(\) must be concrete/);
+});
+
 test('fromSecretCompleteArn - grants', () => {
   // GIVEN
   const secretArn = 'arn:aws:secretsmanager:eu-west-1:111111111111:secret:MySecret-f3gDy9';
@@ -68,8 +68,21 @@ export interface DockerImageSource {
  * Where to publish docker images
  */
 export interface DockerImageDestination extends AwsDestination {
+  /**
+   * The type of handler that publishes the image to this destination
+   *
+   * The built-in handlers are 'ecr', which pushes to Amazon ECR, and 'oci',
+   * which pushes to any OCI-compliant registry at `registry`. Other types can
+   * be provided by `cdk-assets` plugins.
+   *
+   * @default 'ecr'
+   */
+  readonly type?: string;
+
   /**
    * Name of the ECR repository to publish to
+   *
+   * For the 'oci' type, the name of the repository in the registry.
    */
   readonly repositoryName: string;
 
@@ -77,4 +90,21 @@ export interface DockerImageDestination extends AwsDestination {
    * Tag of the image to publish
    */
   readonly imageTag: string;
+
+  /**
+   * Host name (and optionally port) of the registry to push to
+   *
+   * Required for the 'oci' type. The registry must already be logged into
+   * with `docker login`.
+   *
+   * @default - The ECR registry of the account and region
+   */
+  readonly registry?: string;
+
+  /**
+   * Additional properties for handlers provided by plugins
+   *
+   * @default - No additional properties
+   */
+  readonly properties?: { [key: string]: string };
 }
@@ -64,6 +64,17 @@ export interface FileSource {
  * Where in S3 a file asset needs to be published
  */
 export interface FileDestination extends AwsDestination {
+  /**
+   * The type of handler that publishes the asset to this destination
+   *
+   * The built-in handlers are 's3', which uploads to Amazon S3, and
+   * 's3-compatible', which uploads to an S3-compatible object store at
+   * `endpointUrl`. Other types can be provided by `cdk-assets` plugins.
+   *
+   * @default 's3'
+   */
+  readonly type?: string;
+
   /**
    * The name of the bucket
    */
@@ -73,4 +84,20 @@ export interface FileDestination extends AwsDestination {
    * The destination object key
    */
   readonly objectKey: string;
+
+  /**
+   * The URL of the S3-compatible endpoint to upload to
+   *
+   * Required for the 's3-compatible' type.
+   *
+   * @default - The Amazon S3 endpoint of the region
+   */
+  readonly endpointUrl?: string;
+
+  /**
+   * Additional properties for handlers provided by plugins
+   *
+   * @default - No additional properties
+   */
+  readonly properties?: { [key: string]: string };
 }
@@ -48,6 +48,31 @@ export enum ContextProvider {
    * Security group provider
    */
   SECURITY_GROUP_PROVIDER = 'security-group',
+
+  /**
+   * KMS Key Provider
+   */
+  KEY_PROVIDER = 'key-provider',
+
+  /**
+   * ECR Image Provider
+   */
+  ECR_IMAGE_PROVIDER = 'ecr-image',
+
+  /**
+   * Secrets Manager Secret Provider
+   */
+  SECRET_PROVIDER = 'secret',
+
+  /**
+   * RDS DB Subnet Group Provider
+   */
+  DB_SUBNET_GROUP_PROVIDER = 'db-subnet-group',
+
+  /**
+   * A context provider registered by a CLI plug-in
+   */
+  PLUGIN_PROVIDER = 'plugin',
 }
 
 /**
@@ -351,6 +376,120 @@ export interface SecurityGroupContextQuery {
   readonly securityGroupId: string;
 }
 
+/**
+ * Query input for looking up a KMS Key
+ */
+export interface KeyContextQuery {
+  /**
+   * Query account
+   */
+  readonly account: string;
+
+  /**
+   * Query region
+   */
+  readonly region: string;
+
+  /**
+   * Alias name used to search the Key
+   */
+  readonly aliasName: string;
+}
+
+/**
+ * Query input for looking up an image in an ECR repository
+ */
+export interface EcrImageContextQuery {
+  /**
+   * Query account
+   */
+  readonly account: string;
+
+  /**
+   * Query region
+   */
+  readonly region: string;
+
+  /**
+   * The name of the repository
+   */
+  readonly repositoryName: string;
+
+  /**
+   * The tag of the image
+   *
+   * @default - the most recently pushed image
+   */
+  readonly imageTag?: string;
+}
+
+/**
+ * Query input for looking up a Secrets Manager secret
+ */
+export interface SecretContextQuery {
+  /**
+   * Query account
+   */
+  readonly account: string;
+
+  /**
+   * Query region
+   */
+  readonly region: string;
+
+  /**
+   * The name of the secret
+   */
+  readonly secretName: string;
+}
+
+/**
+ * Query input for looking up an RDS DB subnet group
+ */
+export interface DbSubnetGroupContextQuery {
+  /**
+   * Query account
+   */
+  readonly account: string;
+
+  /**
+   * Query region
+   */
+  readonly region: string;
+
+  /**
+   * The name of the subnet group
+   */
+  readonly subnetGroupName: string;
+}
+
+/**
+ * Query to a context provider registered by a CLI plug-in
+ */
+export interface PluginContextQuery {
+  /**
+   * Query account
+   */
+  readonly account: string;
+
+  /**
+   * Query region
+   */
+  readonly region: string;
+
+  /**
+   * The name under which the plug-in registered the provider
+   */
+  readonly pluginName: string;
+
+  /**
+   * Provider-specific options, passed on to the plug-in as-is
+   *
+   * @default - no options
+   */
+  readonly properties?: { [key: string]: any };
+}
+
 export type ContextQueryProperties = AmiContextQuery
 | AvailabilityZonesContextQuery
 | HostedZoneContextQuery
@@ -359,4 +498,9 @@ export type ContextQueryProperties = AmiContextQuery
 | EndpointServiceAvailabilityZonesContextQuery
 | LoadBalancerContextQuery
 | LoadBalancerListenerContextQuery
-| SecurityGroupContextQuery;
+| SecurityGroupContextQuery
+| KeyContextQuery
+| EcrImageContextQuery
+| SecretContextQuery
+| DbSubnetGroupContextQuery
+| PluginContextQuery;
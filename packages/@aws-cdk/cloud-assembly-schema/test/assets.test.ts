@@ -38,6 +38,30 @@ describe('Docker image asset', () => {
     }).not.toThrow();
   });
 
+  test('destination with a handler type', () => {
+    expect(() => {
+      validate({
+        version: Manifest.version(),
+        dockerImages: {
+          asset: {
+            source: {
+              directory: '.',
+            },
+            destinations: {
+              dest: {
+                type: 'oci',
+                registry: 'localhost:5000',
+                repositoryName: 'REPO',
+                imageTag: 'TAG',
+                properties: { some: 'property' },
+              },
+            },
+          },
+        },
+      });
+    }).not.toThrow();
+  });
+
   test('invalid input', () => {
     expect(() => {
       validate({
@@ -33,12 +33,17 @@ const DIFF_HANDLERS: HandlerRegistry = {
  *
  * @param currentTemplate the current state of the stack.
  * @param newTemplate     the target state of the stack.
+ * @param replacements    replacement details from a CloudFormation change set. If given, these
+ *      take precedence over the replacement behavior derived from the resource specification.
  *
  * @returns a +types.TemplateDiff+ object that represents the changes that will happen if
  *      a stack which current state is described by +currentTemplate+ is updated with
  *      the template +newTemplate+.
  */
-export function diffTemplate(currentTemplate: { [key: string]: any }, newTemplate: { [key: string]: any }): types.TemplateDiff {
+export function diffTemplate(
+  currentTemplate: { [key: string]: any },
+  newTemplate: { [key: string]: any },
+  replacements?: types.ResourceReplacements): types.TemplateDiff {
   // Base diff
   const theDiff = calculateTemplateDiff(currentTemplate, newTemplate);
 
@@ -74,6 +79,10 @@ export function diffTemplate(currentTemplate: { [key: string]: any }, newTemplat
       }
     });
 
+  if (replacements) {
+    applyResourceReplacements(theDiff, replacements);
+  }
+
   return theDiff;
 }
 
@@ -93,6 +102,39 @@ function propagatePropertyReplacement(source: types.ResourceDifference, dest: ty
   }
 }
 
+/**
+ * Overwrite the impact of property updates with what CloudFormation reported in a change set
+ *
+ * Resources that are not in the change set keep the impact derived from the
+ * resource specification. Properties of a resource that will not be replaced
+ * can no longer cause a replacement.
+ */
+function applyResourceReplacements(diff: types.TemplateDiff, replacements: types.ResourceReplacements) {
+  diff.resources.forEachDifference((logicalId, change) => {
+    const replacement = replacements[logicalId];
+    if (!replacement || !change.isUpdate) { return; }
+
+    for (const [propertyName, propertyDiff] of Object.entries(change.propertyUpdates)) {
+      let changeImpact = propertyImpactFromReplacement(replacement.propertyReplacements[propertyName]);
+      if (changeImpact === undefined && replacement.replacement === 'False' && isReplacement(propertyDiff.changeImpact!)) {
+        changeImpact = types.ResourceImpact.WILL_UPDATE;
+      }
+      if (changeImpact !== undefined && changeImpact !== propertyDiff.changeImpact) {
+        change.setPropertyChange(propertyName, new types.PropertyDifference(propertyDiff.oldValue, propertyDiff.newValue, { changeImpact }));
+      }
+    }
+  });
+}
+
+function propertyImpactFromReplacement(replacement?: types.PropertyReplacement): types.ResourceImpact | undefined {
+  switch (replacement) {
+    case 'Always': return types.ResourceImpact.WILL_REPLACE;
+    case 'Conditionally': return types.ResourceImpact.MAY_REPLACE;
+    case 'Never': return types.ResourceImpact.WILL_UPDATE;
+    default: return undefined;
+  }
+}
+
 function calculateTemplateDiff(currentTemplate: { [key: string]: any }, newTemplate: { [key: string]: any }): types.TemplateDiff {
   const differences: types.ITemplateDiff = {};
   const unknown: { [key: string]: types.Difference<any> } = {};
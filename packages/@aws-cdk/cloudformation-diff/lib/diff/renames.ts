@@ -0,0 +1,71 @@
+import { ResourceDifference } from './types';
+import { deepEqual, unionOf } from './util';
+
+/**
+ * The fraction of top-level properties that must be equal for a removed and an
+ * added resource to be considered the same resource under a new logical ID
+ */
+const RENAME_SIMILARITY_THRESHOLD = 0.75;
+
+/**
+ * A resource that was likely renamed: removed under one logical ID, and added
+ * under another with the same type and (nearly) the same properties
+ *
+ * This typically happens when a construct is moved in the construct tree. CloudFormation
+ * treats it as a removal plus an addition, so the resource will be replaced.
+ */
+export interface ResourceRename {
+  readonly oldLogicalId: string;
+  readonly newLogicalId: string;
+  readonly resourceType: string;
+
+  /**
+   * The fraction of the top-level properties that are equal, 1 if all properties are the same
+   */
+  readonly similarity: number;
+}
+
+/**
+ * Pair up removed and added resources that are likely the same resource
+ *
+ * Candidates are paired greedily, most similar first, so every resource is part
+ * of at most one rename.
+ */
+export function detectResourceRenames(changes: { [logicalId: string]: ResourceDifference | undefined }): ResourceRename[] {
+  const entries = Object.entries(changes).filter(([_, change]) => change !== undefined) as Array<[string, ResourceDifference]>;
+  const removals = entries.filter(([_, change]) => change.isRemoval && change.oldResourceType !== 'AWS::CDK::Metadata');
+  const additions = entries.filter(([_, change]) => change.isAddition && change.newResourceType !== 'AWS::CDK::Metadata');
+
+  const candidates = new Array<ResourceRename>();
+  for (const [oldLogicalId, removal] of removals) {
+    for (const [newLogicalId, addition] of additions) {
+      if (removal.oldResourceType !== addition.newResourceType) { continue; }
+
+      const similarity = propertySimilarity(removal.oldProperties ?? {}, addition.newProperties ?? {});
+      if (similarity >= RENAME_SIMILARITY_THRESHOLD) {
+        candidates.push({ oldLogicalId, newLogicalId, resourceType: removal.oldResourceType!, similarity });
+      }
+    }
+  }
+
+  // Most similar first; the sort is stable, so ties keep the template order
+  candidates.sort((a, b) => b.similarity - a.similarity);
+
+  const ret = new Array<ResourceRename>();
+  const paired = new Set<string>();
+  for (const candidate of candidates) {
+    if (paired.has(`old:${candidate.oldLogicalId}`) || paired.has(`new:${candidate.newLogicalId}`)) { continue; }
+    paired.add(`old:${candidate.oldLogicalId}`);
+    paired.add(`new:${candidate.newLogicalId}`);
+    ret.push(candidate);
+  }
+  return ret;
+}
+
+function propertySimilarity(oldProperties: { [name: string]: any }, newProperties: { [name: string]: any }): number {
+  const names = unionOf(Object.keys(oldProperties), Object.keys(newProperties));
+  if (names.length === 0) { return 1; }
+
+  const equal = names.filter(name => deepEqual(oldProperties[name], newProperties[name]));
+  return equal.length / names.length;
+}
@@ -1,7 +1,8 @@
 import { AssertionError } from 'assert';
 import * as cfnspec from '@aws-cdk/cfnspec';
-import { IamChanges } from '../iam/iam-changes';
-import { SecurityGroupChanges } from '../network/security-group-changes';
+import { IamChanges, IamChangesJson } from '../iam/iam-changes';
+import { SecurityGroupChanges, SecurityGroupChangesJson } from '../network/security-group-changes';
+import { detectResourceRenames, ResourceRename } from './renames';
 import { deepEqual } from './util';
 
 export type PropertyMap = {[key: string]: any };
@@ -30,6 +31,11 @@ export class TemplateDiff implements ITemplateDiff {
    */
   public readonly securityGroupChanges: SecurityGroupChanges;
 
+  /**
+   * Removed and added resources that are likely the same resource under a new logical ID
+   */
+  public readonly resourceRenames: ResourceRename[];
+
   constructor(args: ITemplateDiff) {
     if (args.awsTemplateFormatVersion !== undefined) {
       this.awsTemplateFormatVersion = args.awsTemplateFormatVersion;
@@ -60,6 +66,8 @@ export class TemplateDiff implements ITemplateDiff {
       egressRuleResourceChanges: this.scrutinizableResourceChanges([cfnspec.schema.ResourceScrutinyType.EgressRuleResource]),
       ingressRuleResourceChanges: this.scrutinizableResourceChanges([cfnspec.schema.ResourceScrutinyType.IngressRuleResource]),
     });
+
+    this.resourceRenames = detectResourceRenames(this.resources.changes);
   }
 
   public get differenceCount() {
@@ -104,6 +112,40 @@ export class TemplateDiff implements ITemplateDiff {
     return this.iamChanges.hasChanges || this.securityGroupChanges.hasChanges;
   }
 
+  /**
+   * Return a machine-readable version of the changes
+   *
+   * Every section is always present (empty if it has no changes), so that
+   * consumers can rely on the shape of the result.
+   */
+  public toJson(): TemplateDiffJson {
+    const template = new Array<DifferenceJson>();
+    for (const [name, diff] of Object.entries({
+      AWSTemplateFormatVersion: this.awsTemplateFormatVersion,
+      Description: this.description,
+      Transform: this.transform,
+    })) {
+      if (diff && diff.isDifferent) {
+        template.push(differenceToJson(name, diff));
+      }
+    }
+
+    return {
+      template,
+      parameters: collectionToJson(this.parameters, differenceToJson),
+      metadata: collectionToJson(this.metadata, differenceToJson),
+      mappings: collectionToJson(this.mappings, differenceToJson),
+      conditions: collectionToJson(this.conditions, differenceToJson),
+      resources: collectionToJson(this.resources, resourceDifferenceToJson),
+      outputs: collectionToJson(this.outputs, differenceToJson),
+      unknown: collectionToJson(this.unknown, differenceToJson),
+      iamChanges: this.iamChanges.toJson(),
+      securityGroupChanges: this.securityGroupChanges.toJson(),
+      permissionsBroadened: this.permissionsBroadened,
+      renames: this.resourceRenames,
+    };
+  }
+
   /**
    * Return all property changes of a given scrutiny type
    *
@@ -659,3 +701,135 @@ function onlyChanges<V, T extends IDifference<V>>(xs: {[key: string]: T}): {[key
   }
   return ret;
 }
+
+/**
+ * Machine-readable version of the differences between two templates
+ */
+export interface TemplateDiffJson {
+  /** Changes to AWSTemplateFormatVersion, Description and Transform */
+  readonly template: DifferenceJson[];
+  readonly parameters: DifferenceJson[];
+  readonly metadata: DifferenceJson[];
+  readonly mappings: DifferenceJson[];
+  readonly conditions: DifferenceJson[];
+  readonly resources: ResourceDifferenceJson[];
+  readonly outputs: DifferenceJson[];
+  /** Changes to unknown/unexpected parts of the template */
+  readonly unknown: DifferenceJson[];
+  readonly iamChanges: IamChangesJson;
+  readonly securityGroupChanges: SecurityGroupChangesJson;
+  /** Whether any of the IAM or security group changes broaden permissions */
+  readonly permissionsBroadened: boolean;
+  /** Removed and added resources that are likely the same resource under a new logical ID */
+  readonly renames: ResourceRename[];
+}
+
+export type ChangeType = 'ADDITION' | 'REMOVAL' | 'UPDATE';
+
+/**
+ * Machine-readable version of a change to a single template element
+ */
+export interface DifferenceJson {
+  /** The logical ID or name of the element */
+  readonly id: string;
+  readonly changeType: ChangeType;
+  readonly oldValue?: any;
+  readonly newValue?: any;
+}
+
+/**
+ * Machine-readable version of a change to a single resource
+ */
+export interface ResourceDifferenceJson {
+  readonly logicalId: string;
+  readonly changeType: ChangeType;
+  readonly oldResourceType?: string;
+  readonly newResourceType?: string;
+  readonly impact: ResourceImpact;
+  /** Whether the resource will be replaced, in the same terms as CloudFormation change sets */
+  readonly replacement: Replacement;
+  readonly propertyChanges: PropertyDifferenceJson[];
+  /** Changes to resource attributes other than Properties (such as DeletionPolicy) */
+  readonly otherChanges: DifferenceJson[];
+}
+
+/**
+ * Machine-readable version of a change to a single resource property
+ */
+export interface PropertyDifferenceJson extends DifferenceJson {
+  /** The impact of the change, if it could be determined */
+  readonly impact?: ResourceImpact;
+  readonly replacement: Replacement;
+}
+
+export type Replacement = 'True' | 'Conditional' | 'False';
+
+/**
+ * Replacement details of a single resource, as reported by a CloudFormation change set
+ */
+export interface ResourceReplacement {
+  /** Whether CloudFormation will replace the resource */
+  readonly replacement: Replacement;
+  /** Whether changing a property requires recreating the resource, by property name */
+  readonly propertyReplacements: { [propertyName: string]: PropertyReplacement };
+}
+
+export type PropertyReplacement = 'Always' | 'Conditionally' | 'Never';
+
+/**
+ * Replacement details of the resources of a stack, by logical ID
+ */
+export type ResourceReplacements = { [logicalId: string]: ResourceReplacement };
+
+function collectionToJson<V, T extends IDifference<V>, J>(
+  collection: DifferenceCollection<V, T>,
+  toJson: (id: string, diff: T) => J): J[] {
+  return Object.entries(collection.changes).map(([id, diff]) => toJson(id, diff));
+}
+
+function differenceToJson(id: string, diff: IDifference<any>): DifferenceJson {
+  return {
+    id,
+    changeType: changeTypeOf(diff),
+    oldValue: diff.oldValue,
+    newValue: diff.newValue,
+  };
+}
+
+function resourceDifferenceToJson(logicalId: string, diff: ResourceDifference): ResourceDifferenceJson {
+  const propertyChanges = new Array<PropertyDifferenceJson>();
+  const otherChanges = new Array<DifferenceJson>();
+  diff.forEachDifference((type, name, value) => {
+    if (type === 'Property') {
+      const impact = isPropertyDifference(value) ? value.changeImpact : undefined;
+      propertyChanges.push({ ...differenceToJson(name, value), impact, replacement: replacementOf(impact) });
+    } else {
+      otherChanges.push(differenceToJson(name, value));
+    }
+  });
+
+  return {
+    logicalId,
+    changeType: changeTypeOf(diff),
+    oldResourceType: diff.oldResourceType,
+    newResourceType: diff.newResourceType,
+    impact: diff.changeImpact,
+    replacement: replacementOf(diff.changeImpact),
+    propertyChanges,
+    otherChanges,
+  };
+}
+
+function changeTypeOf(diff: IDifference<any>): ChangeType {
+  if (diff.isAddition) { return 'ADDITION'; }
+  if (diff.isRemoval) { return 'REMOVAL'; }
+  return 'UPDATE';
+}
+
+function replacementOf(impact?: ResourceImpact): Replacement {
+  switch (impact) {
+    case ResourceImpact.WILL_REPLACE: return 'True';
+    case ResourceImpact.MAY_REPLACE: return 'Conditional';
+    default: return 'False';
+  }
+}
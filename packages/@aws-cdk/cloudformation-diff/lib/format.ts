@@ -1,7 +1,8 @@
 import { format } from 'util';
 import * as colors from 'colors/safe';
 import { Difference, isPropertyDifference, ResourceDifference, ResourceImpact } from './diff-template';
-import { DifferenceCollection, TemplateDiff } from './diff/types';
+import { ResourceRename } from './diff/renames';
+import { DifferenceCollection, Resource, TemplateDiff } from './diff/types';
 import { deepEqual } from './diff/util';
 import { formatTable } from './format-table';
 import { IamChanges } from './iam/iam-changes';
@@ -26,14 +27,33 @@ export interface FormatStream extends NodeJS.WritableStream {
  * @param logicalToPathMap A map from logical ID to construct path. Useful in
  *                         case there is no aws:cdk:path metadata in the template.
  * @param context          the number of context lines to use in arbitrary JSON diff (defaults to 3).
+ * @param nestedStacks     the differences of the nested stacks, rendered under their resources.
  */
 export function formatDifferences(
   stream: FormatStream,
   templateDiff: TemplateDiff,
   logicalToPathMap: { [logicalId: string]: string } = { },
-  context: number = 3) {
-  const formatter = new Formatter(stream, logicalToPathMap, templateDiff, context);
+  context: number = 3,
+  nestedStacks: { [logicalId: string]: NestedStackDifferences } = { }) {
+  formatTemplateDifferences(new Formatter(stream, logicalToPathMap, templateDiff, context, nestedStacks), templateDiff);
+}
 
+/**
+ * The differences of a nested stack, rendered under the `AWS::CloudFormation::Stack` resource of its parent stack
+ */
+export interface NestedStackDifferences {
+  /**
+   * The differences of the template of the nested stack
+   */
+  readonly diff: TemplateDiff;
+
+  /**
+   * The differences of the stacks nested in this one, by the logical ID of their `AWS::CloudFormation::Stack` resource
+   */
+  readonly nestedStacks: { [logicalId: string]: NestedStackDifferences };
+}
+
+function formatTemplateDifferences(formatter: Formatter, templateDiff: TemplateDiff) {
   if (templateDiff.awsTemplateFormatVersion || templateDiff.transform || templateDiff.description) {
     formatter.printSectionHeader('Template');
     formatter.formatDifference('AWSTemplateFormatVersion', 'AWSTemplateFormatVersion', templateDiff.awsTemplateFormatVersion);
@@ -43,31 +63,38 @@ export function formatDifferences(
   }
 
   formatSecurityChangesWithBanner(formatter, templateDiff);
+  formatter.formatResourceRenames(templateDiff.resourceRenames);
 
   formatter.formatSection('Parameters', 'Parameter', templateDiff.parameters);
   formatter.formatSection('Metadata', 'Metadata', templateDiff.metadata);
   formatter.formatSection('Mappings', 'Mapping', templateDiff.mappings);
   formatter.formatSection('Conditions', 'Condition', templateDiff.conditions);
-  formatter.formatSection('Resources', 'Resource', templateDiff.resources, formatter.formatResourceDifference.bind(formatter));
+  formatter.formatResources(templateDiff.resources);
   formatter.formatSection('Outputs', 'Output', templateDiff.outputs);
   formatter.formatSection('Other Changes', 'Unknown', templateDiff.unknown);
 }
 
 /**
  * Renders a diff of security changes to the given stream
+ *
+ * The security changes of nested stacks are rendered under the resources of the nested stacks.
  */
 export function formatSecurityChanges(
   stream: NodeJS.WriteStream,
   templateDiff: TemplateDiff,
   logicalToPathMap: {[logicalId: string]: string} = {},
-  context?: number) {
-  const formatter = new Formatter(stream, logicalToPathMap, templateDiff, context);
+  context?: number,
+  nestedStacks: { [logicalId: string]: NestedStackDifferences } = {}) {
+  formatAllSecurityChanges(new Formatter(stream, logicalToPathMap, templateDiff, context, nestedStacks), templateDiff);
+}
 
+function formatAllSecurityChanges(formatter: Formatter, templateDiff: TemplateDiff) {
   formatSecurityChangesWithBanner(formatter, templateDiff);
+  formatter.formatNestedStackSecurityChanges();
 }
 
 function formatSecurityChangesWithBanner(formatter: Formatter, templateDiff: TemplateDiff) {
-  if (!templateDiff.iamChanges.hasChanges && !templateDiff.securityGroupChanges.hasChanges) { return; }
+  if (!hasSecurityChanges(templateDiff)) { return; }
   formatter.formatIamChanges(templateDiff.iamChanges);
   formatter.formatSecurityGroupChanges(templateDiff.securityGroupChanges);
 
@@ -75,17 +102,86 @@ function formatSecurityChangesWithBanner(formatter: Formatter, templateDiff: Tem
   formatter.printSectionFooter();
 }
 
+/**
+ * The drift of a deployed resource from its definition in the template
+ */
+export interface ResourceDrift {
+  readonly logicalId: string;
+  readonly resourceType: string;
+
+  /**
+   * The drift status of the resource, as reported by CloudFormation
+   *
+   * Only resources that are `MODIFIED` or `DELETED` are rendered.
+   */
+  readonly status: string;
+
+  /**
+   * The properties that differ from their expected values
+   */
+  readonly propertyDrifts: PropertyDrift[];
+}
+
+/**
+ * The drift of a single resource property
+ */
+export interface PropertyDrift {
+  /**
+   * The path of the property (for example `/Properties/Tags/0/Value`)
+   */
+  readonly propertyPath: string;
+
+  /**
+   * The value of the property according to the template (`undefined` if it was added)
+   */
+  readonly expectedValue?: any;
+
+  /**
+   * The actual value of the property (`undefined` if it was removed)
+   */
+  readonly actualValue?: any;
+}
+
+/**
+ * Renders the drift of deployed resources from their template to the process' console.
+ *
+ * @param stream           The IO stream where to output the rendered drift.
+ * @param drifts           The drift of the stack's resources.
+ * @param logicalToPathMap A map from logical ID to construct path.
+ */
+export function formatStackDrift(
+  stream: FormatStream,
+  drifts: ResourceDrift[],
+  logicalToPathMap: { [logicalId: string]: string } = { }) {
+  const formatter = new Formatter(stream, logicalToPathMap);
+
+  const drifted = drifts.filter(drift => drift.status === 'MODIFIED' || drift.status === 'DELETED');
+  if (drifted.length === 0) {
+    return;
+  }
+
+  formatter.printSectionHeader('Resources');
+  for (const drift of drifted) {
+    formatter.formatResourceDrift(drift);
+  }
+  formatter.printSectionFooter();
+}
+
 const ADDITION = colors.green('[+]');
 const CONTEXT = colors.grey('[ ]');
 const UPDATE = colors.yellow('[~]');
 const REMOVAL = colors.red('[-]');
 
+const NESTED_STACK_INDENT = '    ';
+
 class Formatter {
   constructor(
     private readonly stream: FormatStream,
     private readonly logicalToPathMap: { [logicalId: string]: string },
     diff?: TemplateDiff,
-    private readonly context: number = 3) {
+    private readonly context: number = 3,
+    private readonly nestedStacks: { [logicalId: string]: NestedStackDifferences } = {},
+    private readonly indent: string = '') {
     // Read additional construct paths from the diff if it is supplied
     if (diff) {
       this.readConstructPathsFrom(diff);
@@ -93,11 +189,11 @@ class Formatter {
   }
 
   public print(fmt: string, ...args: any[]) {
-    this.stream.write(colors.white(format(fmt, ...args)) + '\n');
+    this.stream.write(this.indentLines(colors.white(format(fmt, ...args))) + '\n');
   }
 
   public warning(fmt: string, ...args: any[]) {
-    this.stream.write(colors.yellow(format(fmt, ...args)) + '\n');
+    this.stream.write(this.indentLines(colors.yellow(format(fmt, ...args))) + '\n');
   }
 
   public formatSection<V, T extends Difference<V>>(
@@ -147,9 +243,33 @@ class Formatter {
     this.print(`${this.formatPrefix(diff)} ${colors.cyan(type)} ${this.formatLogicalId(logicalId)}: ${value}`);
   }
 
+  /**
+   * Print the resource differences, with the differences of nested stacks under their resources.
+   *
+   * Nested stacks whose templates changed are rendered even if their resources did not change.
+   */
+  public formatResources(resources: DifferenceCollection<Resource, ResourceDifference>) {
+    const changedLogicalIds = resources.logicalIds;
+    const unchangedNestedStacks = Object.keys(this.nestedStacks)
+      .filter(logicalId => !changedLogicalIds.includes(logicalId) && anyNestedStack(this.nestedStacks[logicalId], diff => !diff.isEmpty));
+    if (changedLogicalIds.length === 0 && unchangedNestedStacks.length === 0) {
+      return;
+    }
+
+    this.printSectionHeader('Resources');
+    resources.forEachDifference((logicalId, diff) => this.formatResourceDifference('Resource', logicalId, diff));
+    for (const logicalId of unchangedNestedStacks) {
+      this.print(`${CONTEXT} ${this.formatValue('AWS::CloudFormation::Stack', colors.cyan)} ${this.formatLogicalId(logicalId)}`);
+      this.formatNestedStackDifferences(logicalId);
+    }
+    this.printSectionFooter();
+  }
+
   /**
    * Print a resource difference for a given logical ID.
    *
+   * If the resource is a nested stack, the differences of the nested stack are printed under it.
+   *
    * @param logicalId the logical ID of the resource that changed.
    * @param diff      the change to be rendered.
    */
@@ -169,6 +289,70 @@ class Formatter {
         this.formatTreeDiff(name, values, processedCount === differenceCount);
       });
     }
+
+    this.formatNestedStackDifferences(logicalId);
+  }
+
+  /**
+   * Print the differences of the nested stack with the given logical ID, indented under its resource
+   */
+  public formatNestedStackDifferences(logicalId: string) {
+    const nested = this.nestedStacks[logicalId];
+    if (!nested || !anyNestedStack(nested, diff => !diff.isEmpty)) { return; }
+
+    formatTemplateDifferences(this.nestedStackFormatter(nested), nested.diff);
+  }
+
+  /**
+   * Print the security changes of the nested stacks, each indented under the resource of its nested stack
+   */
+  public formatNestedStackSecurityChanges() {
+    for (const [logicalId, nested] of Object.entries(this.nestedStacks)) {
+      if (!anyNestedStack(nested, hasSecurityChanges)) { continue; }
+
+      this.print(`${CONTEXT} ${this.formatValue('AWS::CloudFormation::Stack', colors.cyan)} ${this.formatLogicalId(logicalId)}`);
+      formatAllSecurityChanges(this.nestedStackFormatter(nested), nested.diff);
+    }
+  }
+
+  /**
+   * Print the resources that were likely renamed, and will be replaced because of it.
+   *
+   * @param renames the likely renames to be rendered.
+   */
+  public formatResourceRenames(renames: ResourceRename[]) {
+    if (renames.length === 0) { return; }
+
+    this.printSectionHeader('Possible Renames');
+    for (const rename of renames) {
+      const similarity = rename.similarity === 1
+        ? 'identical properties'
+        : `${Math.round(rename.similarity * 100)}% of the properties are equal`;
+      this.print('%s %s %s to %s (%s)', colors.red('[!]'), this.formatValue(rename.resourceType, colors.cyan),
+        this.formatLogicalId(rename.oldLogicalId), this.formatLogicalId(rename.newLogicalId), similarity);
+    }
+    this.warning('These resources will be deleted and created again under their new logical ID. If they were moved in the construct tree, '
+      + 'keep their old logical IDs to keep the deployed resources.');
+    this.printSectionFooter();
+  }
+
+  /**
+   * Print the drift of a resource, and of its properties.
+   *
+   * @param drift the drift to be rendered.
+   */
+  public formatResourceDrift(drift: ResourceDrift) {
+    const deleted = drift.status === 'DELETED';
+    const prefix = deleted ? REMOVAL : UPDATE;
+    const status = deleted ? colors.italic(colors.bold(colors.red('deleted'))) : '';
+
+    this.print(`${prefix} ${this.formatValue(drift.resourceType, colors.cyan)} ${this.formatLogicalId(drift.logicalId)} ${status}`);
+
+    drift.propertyDrifts.forEach(({ propertyPath, expectedValue, actualValue }, i) => {
+      const last = i === drift.propertyDrifts.length - 1;
+      this.print(' %s─ %s %s', last ? '└' : '├', this.changeTag(expectedValue, actualValue), propertyPath);
+      this.formatObjectDiff(expectedValue, actualValue, ` ${last ? ' ' : '│'}`);
+    });
   }
 
   public formatPrefix<T>(diff: Difference<T>) {
@@ -366,12 +550,12 @@ class Formatter {
 
     if (changes.statements.hasChanges) {
       this.printSectionHeader('IAM Statement Changes');
-      this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarizeStatements()), this.stream.columns));
+      this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarizeStatements()), this.columns));
     }
 
     if (changes.managedPolicies.hasChanges) {
       this.printSectionHeader('IAM Policy Changes');
-      this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarizeManagedPolicies()), this.stream.columns));
+      this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarizeManagedPolicies()), this.columns));
     }
   }
 
@@ -379,7 +563,7 @@ class Formatter {
     if (!changes.hasChanges) { return; }
 
     this.printSectionHeader('Security Group Changes');
-    this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarize()), this.stream.columns));
+    this.print(formatTable(this.deepSubstituteBracedLogicalIds(changes.summarize()), this.columns));
   }
 
   public deepSubstituteBracedLogicalIds(rows: string[][]): string[][] {
@@ -394,6 +578,33 @@ class Formatter {
       return '${' + (this.normalizedLogicalIdPath(logId) || logId) + (suffix || '') + '}';
     });
   }
+
+  /**
+   * The width available to tables, after the indentation of nested stacks
+   */
+  private get columns(): number | undefined {
+    return this.stream.columns !== undefined ? this.stream.columns - this.indent.length : undefined;
+  }
+
+  private indentLines(text: string): string {
+    if (!this.indent) { return text; }
+    return text.split('\n').map(line => line ? this.indent + line : line).join('\n');
+  }
+
+  private nestedStackFormatter(nested: NestedStackDifferences): Formatter {
+    return new Formatter(this.stream, {}, nested.diff, this.context, nested.nestedStacks, this.indent + NESTED_STACK_INDENT);
+  }
+}
+
+function hasSecurityChanges(diff: TemplateDiff): boolean {
+  return diff.iamChanges.hasChanges || diff.securityGroupChanges.hasChanges;
+}
+
+/**
+ * Whether the predicate holds for the differences of the nested stack, or of any stack nested in it
+ */
+function anyNestedStack(nested: NestedStackDifferences, predicate: (diff: TemplateDiff) => boolean): boolean {
+  return predicate(nested.diff) || Object.values(nested.nestedStacks).some(n => anyNestedStack(n, predicate));
 }
 
 /**
@@ -128,11 +128,8 @@ export class IamChanges {
 
   /**
    * Return a machine-readable version of the changes.
-   * This is only used in tests.
-   *
-   * @internal
    */
-  public _toJson(): IamChangesJson {
+  public toJson(): IamChangesJson {
     return deepRemoveUndefined({
       statementAdditions: dropIfEmpty(this.statements.additions.map(s => s._toJson())),
       statementRemovals: dropIfEmpty(this.statements.removals.map(s => s._toJson())),
@@ -2,3 +2,4 @@ export * from './diff-template';
 export * from './format';
 export * from './format-table';
 export { deepEqual } from './diff/util';
+export { ResourceRename } from './diff/renames';
@@ -0,0 +1,115 @@
+import { diffTemplate, ResourceImpact } from '../lib/diff-template';
+import { poldoc, resource, role, template } from './util';
+
+test('empty diff has all sections', () => {
+  const diff = diffTemplate(template({}), template({}));
+
+  expect(diff.toJson()).toEqual({
+    template: [],
+    parameters: [],
+    metadata: [],
+    mappings: [],
+    conditions: [],
+    resources: [],
+    outputs: [],
+    unknown: [],
+    iamChanges: {},
+    securityGroupChanges: {},
+    permissionsBroadened: false,
+    renames: [],
+  });
+});
+
+test('resource changes include their impact', () => {
+  const diff = diffTemplate(template({
+    Bucket: resource('AWS::S3::Bucket', { BucketName: 'old-name' }),
+    Queue: resource('AWS::SQS::Queue', {}),
+  }), template({
+    Bucket: resource('AWS::S3::Bucket', { BucketName: 'new-name' }),
+    Topic: resource('AWS::SNS::Topic', {}),
+  }));
+
+  expect(diff.toJson().resources).toEqual([
+    {
+      logicalId: 'Bucket',
+      changeType: 'UPDATE',
+      oldResourceType: 'AWS::S3::Bucket',
+      newResourceType: 'AWS::S3::Bucket',
+      impact: ResourceImpact.WILL_REPLACE,
+      replacement: 'True',
+      propertyChanges: [{
+        id: 'BucketName',
+        changeType: 'UPDATE',
+        oldValue: 'old-name',
+        newValue: 'new-name',
+        impact: ResourceImpact.WILL_REPLACE,
+        replacement: 'True',
+      }],
+      otherChanges: [],
+    },
+    {
+      logicalId: 'Queue',
+      changeType: 'REMOVAL',
+      oldResourceType: 'AWS::SQS::Queue',
+      impact: ResourceImpact.WILL_DESTROY,
+      replacement: 'False',
+      propertyChanges: [],
+      otherChanges: [],
+    },
+    {
+      logicalId: 'Topic',
+      changeType: 'ADDITION',
+      newResourceType: 'AWS::SNS::Topic',
+      impact: ResourceImpact.WILL_CREATE,
+      replacement: 'False',
+      propertyChanges: [],
+      otherChanges: [],
+    },
+  ]);
+});
+
+test('parameter and output changes are included', () => {
+  const diff = diffTemplate({
+    Parameters: { Old: { Type: 'String' } },
+    Outputs: { Output: { Value: 'old' } },
+  }, {
+    Parameters: { New: { Type: 'String' } },
+    Outputs: { Output: { Value: 'new' } },
+  });
+
+  const json = diff.toJson();
+  expect(json.parameters).toEqual([
+    { id: 'Old', changeType: 'REMOVAL', oldValue: { Type: 'String' } },
+    { id: 'New', changeType: 'ADDITION', newValue: { Type: 'String' } },
+  ]);
+  expect(json.outputs).toEqual([
+    { id: 'Output', changeType: 'UPDATE', oldValue: { Value: 'old' }, newValue: { Value: 'new' } },
+  ]);
+});
+
+test('IAM changes are included', () => {
+  const diff = diffTemplate(template({}), template({
+    MyRole: role({
+      AssumeRolePolicyDocument: poldoc({
+        Effect: 'Allow',
+        Principal: { Service: 'lambda.amazonaws.com' },
+        Action: 'sts:AssumeRole',
+      }),
+    }),
+  }));
+
+  const json = diff.toJson();
+  expect(json.permissionsBroadened).toBe(true);
+  expect(json.iamChanges).toEqual(diff.iamChanges.toJson());
+  expect(json.iamChanges.statementAdditions).toHaveLength(1);
+});
+
+test('result can be serialized to JSON', () => {
+  const diff = diffTemplate(template({
+    Bucket: resource('AWS::S3::Bucket', { BucketName: 'old-name' }),
+  }), template({
+    Bucket: resource('AWS::S3::Bucket', { BucketName: 'new-name' }),
+  }));
+
+  expect(JSON.parse(JSON.stringify(diff.toJson()))).toEqual(diff.toJson());
+});
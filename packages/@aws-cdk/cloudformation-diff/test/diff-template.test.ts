@@ -581,3 +581,52 @@ test('when a property changes including equivalent DependsOn', () => {
   differences = diffTemplate(newTemplate, currentTemplate);
   expect(differences.resources.differenceCount).toBe(1);
 });
+
+describe('with replacement details from a change set', () => {
+  const currentTemplate = {
+    Resources: {
+      Queue: { Type: 'AWS::SQS::Queue', Properties: { QueueName: 'first', DelaySeconds: 1 } },
+    },
+  };
+  const newTemplate = {
+    Resources: {
+      Queue: { Type: 'AWS::SQS::Queue', Properties: { QueueName: 'second', DelaySeconds: 2 } },
+    },
+  };
+
+  test('the change set takes precedence over the resource specification', () => {
+    // WHEN
+    const differences = diffTemplate(currentTemplate, newTemplate, {
+      Queue: {
+        replacement: 'Conditional',
+        propertyReplacements: { QueueName: 'Never', DelaySeconds: 'Conditionally' },
+      },
+    });
+
+    // THEN
+    const queue = differences.resources.get('Queue');
+    expect(queue.propertyUpdates.QueueName.changeImpact).toBe(ResourceImpact.WILL_UPDATE);
+    expect(queue.propertyUpdates.DelaySeconds.changeImpact).toBe(ResourceImpact.MAY_REPLACE);
+    expect(queue.changeImpact).toBe(ResourceImpact.MAY_REPLACE);
+  });
+
+  test('properties cannot cause a replacement if the change set does not replace the resource', () => {
+    // WHEN
+    const differences = diffTemplate(currentTemplate, newTemplate, {
+      Queue: { replacement: 'False', propertyReplacements: {} },
+    });
+
+    // THEN
+    const queue = differences.resources.get('Queue');
+    expect(queue.propertyUpdates.QueueName.changeImpact).toBe(ResourceImpact.WILL_UPDATE);
+    expect(queue.changeImpact).toBe(ResourceImpact.WILL_UPDATE);
+  });
+
+  test('resources that are not in the change set keep their impact', () => {
+    // WHEN
+    const differences = diffTemplate(currentTemplate, newTemplate, {});
+
+    // THEN
+    expect(differences.resources.get('Queue').changeImpact).toBe(ResourceImpact.WILL_REPLACE);
+  });
+});
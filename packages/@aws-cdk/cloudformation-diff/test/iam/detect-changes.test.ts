@@ -14,7 +14,7 @@ test('shows new AssumeRolePolicyDocument', () => {
   }));
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     statementAdditions: [
       {
         effect: 'Allow',
@@ -41,7 +41,7 @@ test('implicitly knows principal of identity policy for all resource types', ()
     }));
 
     // THEN
-    expect(diff.iamChanges._toJson()).toEqual({
+    expect(diff.iamChanges.toJson()).toEqual({
       statementAdditions: [
         {
           effect: 'Allow',
@@ -73,7 +73,7 @@ test('policies on an identity object', () => {
     }));
 
     // THEN
-    expect(diff.iamChanges._toJson()).toEqual({
+    expect(diff.iamChanges.toJson()).toEqual({
       statementAdditions: [
         {
           effect: 'Allow',
@@ -100,7 +100,7 @@ test('if policy is attached to multiple roles all are shown', () => {
   }));
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     statementAdditions: [
       {
         effect: 'Allow',
@@ -131,7 +131,7 @@ test('correctly parses Lambda permissions', () => {
   }));
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     statementAdditions: [
       {
         effect: 'Allow',
@@ -162,7 +162,7 @@ test('implicitly knows resource of (queue) resource policy even if * given', ()
   }));
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     statementAdditions: [
       {
         effect: 'Allow',
@@ -189,7 +189,7 @@ test('finds sole statement removals', () => {
   }), {});
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     statementRemovals: [
       {
         effect: 'Allow',
@@ -233,7 +233,7 @@ test('finds one of many statement removals', () => {
     }));
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     statementRemovals: [
       {
         effect: 'Allow',
@@ -254,7 +254,7 @@ test('finds policy attachments', () => {
   }));
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     managedPolicyAdditions: [
       {
         identityArn: '${SomeRole}',
@@ -279,7 +279,7 @@ test('finds policy removals', () => {
     }));
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     managedPolicyRemovals: [
       {
         identityArn: '${SomeRole}',
@@ -314,7 +314,7 @@ test('queuepolicy queue change counts as removal+addition', () => {
   }));
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     statementAdditions: [
       {
         effect: 'Allow',
@@ -354,7 +354,7 @@ test('supports Fn::If in the top-level property value of Role', () => {
   }));
 
   // THEN
-  expect(diff.iamChanges._toJson()).toEqual({
+  expect(diff.iamChanges.toJson()).toEqual({
     managedPolicyAdditions: [
       {
         identityArn: '${MyRole}',
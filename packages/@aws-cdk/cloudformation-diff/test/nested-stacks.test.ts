@@ -0,0 +1,73 @@
+import { diffTemplate, formatDifferences, formatSecurityChanges } from '../lib';
+
+const NESTED_STACK = { Type: 'AWS::CloudFormation::Stack', Properties: { TemplateURL: 'https://template' } };
+
+test('the differences of a nested stack are rendered under its resource', () => {
+  // GIVEN
+  const diff = diffTemplate({ Resources: { Nested: NESTED_STACK } }, {
+    Resources: {
+      Nested: { ...NESTED_STACK, Properties: { TemplateURL: 'https://new-template' } },
+      Queue: { Type: 'AWS::SQS::Queue' },
+    },
+  });
+  const nestedDiff = diffTemplate({}, { Resources: { Topic: { Type: 'AWS::SNS::Topic' } } });
+
+  // WHEN
+  const output = stripColors(render(stream => formatDifferences(stream, diff, {}, 3, { Nested: { diff: nestedDiff, nestedStacks: {} } })));
+
+  // THEN
+  const lines = output.split('\n');
+  const nestedLine = lines.findIndex(line => line.includes('AWS::CloudFormation::Stack Nested'));
+  expect(lines[nestedLine + 1]).toContain('TemplateURL');
+  expect(lines.slice(nestedLine + 1)).toContain('    Resources');
+  expect(lines.find(line => line.includes('AWS::SNS::Topic Topic'))).toMatch(/^ {4}\[\+\]/);
+});
+
+test('nested stacks are rendered when only their templates changed', () => {
+  // GIVEN
+  const diff = diffTemplate({ Resources: { Nested: NESTED_STACK } }, { Resources: { Nested: NESTED_STACK } });
+  const innerDiff = diffTemplate({}, { Resources: { Topic: { Type: 'AWS::SNS::Topic' } } });
+  const nestedStacks = { Nested: { diff: diffTemplate({}, {}), nestedStacks: { Inner: { diff: innerDiff, nestedStacks: {} } } } };
+
+  // WHEN
+  const output = stripColors(render(stream => formatDifferences(stream, diff, {}, 3, nestedStacks)));
+
+  // THEN
+  expect(output).toContain('[ ] AWS::CloudFormation::Stack Nested');
+  expect(output).toContain('    [ ] AWS::CloudFormation::Stack Inner');
+  expect(output).toContain('        [+] AWS::SNS::Topic Topic');
+});
+
+test('the security changes of a nested stack are rendered under its resource', () => {
+  // GIVEN
+  const diff = diffTemplate({ Resources: { Nested: NESTED_STACK } }, { Resources: { Nested: NESTED_STACK } });
+  const nestedDiff = diffTemplate({}, {
+    Resources: {
+      Role: {
+        Type: 'AWS::IAM::Role',
+        Properties: {
+          AssumeRolePolicyDocument: {
+            Statement: [{ Effect: 'Allow', Principal: { Service: 'lambda.amazonaws.com' }, Action: 'sts:AssumeRole' }],
+          },
+        },
+      },
+    },
+  });
+
+  // WHEN
+  const output = stripColors(render(stream => formatSecurityChanges(stream, diff, {}, 3, { Nested: { diff: nestedDiff, nestedStacks: {} } })));
+
+  // THEN
+  expect(output).toContain('[ ] AWS::CloudFormation::Stack Nested');
+  expect(output).toContain('    IAM Statement Changes');
+});
+
+function render(cb: (stream: any) => void): string {
+  let output = '';
+  cb({ write: (chunk: string) => { output += chunk; return true; } });
+  return output;
+}
+
+function stripColors(text: string): string {
+  return text.replace(/\x1B\[[0-?]*[ -/]*[@-~]/g, '');
+}
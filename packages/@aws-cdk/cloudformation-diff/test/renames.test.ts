@@ -0,0 +1,69 @@
+import { diffTemplate, formatDifferences } from '../lib';
+import { resource, template } from './util';
+
+const TABLE_PROPERTIES = {
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+  BillingMode: 'PAY_PER_REQUEST',
+  StreamSpecification: { StreamViewType: 'NEW_IMAGE' },
+};
+
+test('a resource removed and added with the same properties is a likely rename', () => {
+  const diff = diffTemplate(template({
+    TableOld: resource('AWS::DynamoDB::Table', TABLE_PROPERTIES),
+  }), template({
+    TableNew: resource('AWS::DynamoDB::Table', TABLE_PROPERTIES),
+  }));
+
+  expect(diff.resourceRenames).toEqual([
+    { oldLogicalId: 'TableOld', newLogicalId: 'TableNew', resourceType: 'AWS::DynamoDB::Table', similarity: 1 },
+  ]);
+  expect(diff.toJson().renames).toEqual(diff.resourceRenames);
+});
+
+test('a resource with nearly the same properties is a likely rename', () => {
+  const diff = diffTemplate(template({
+    TableOld: resource('AWS::DynamoDB::Table', TABLE_PROPERTIES),
+  }), template({
+    TableNew: resource('AWS::DynamoDB::Table', { ...TABLE_PROPERTIES, BillingMode: 'PROVISIONED' }),
+  }));
+
+  expect(diff.resourceRenames).toEqual([expect.objectContaining({ oldLogicalId: 'TableOld', newLogicalId: 'TableNew', similarity: 0.75 })]);
+});
+
+test('resources of different types or with different properties are not renames', () => {
+  const diff = diffTemplate(template({
+    TableOld: resource('AWS::DynamoDB::Table', TABLE_PROPERTIES),
+    Queue: resource('AWS::SQS::Queue', {}),
+  }), template({
+    TableNew: resource('AWS::DynamoDB::Table', { KeySchema: [{ AttributeName: 'pk', KeyType: 'HASH' }], BillingMode: 'PROVISIONED' }),
+    Topic: resource('AWS::SNS::Topic', {}),
+  }));
+
+  expect(diff.resourceRenames).toEqual([]);
+});
+
+test('every resource is part of at most one rename, the most similar one', () => {
+  const diff = diffTemplate(template({
+    TableOld: resource('AWS::DynamoDB::Table', TABLE_PROPERTIES),
+  }), template({
+    TableSimilar: resource('AWS::DynamoDB::Table', { ...TABLE_PROPERTIES, BillingMode: 'PROVISIONED' }),
+    TableSame: resource('AWS::DynamoDB::Table', TABLE_PROPERTIES),
+  }));
+
+  expect(diff.resourceRenames.map(r => [r.oldLogicalId, r.newLogicalId])).toEqual([['TableOld', 'TableSame']]);
+});
+
+test('likely renames are rendered in the diff', () => {
+  const diff = diffTemplate(template({
+    TableOld: resource('AWS::DynamoDB::Table', TABLE_PROPERTIES),
+  }), template({
+    TableNew: resource('AWS::DynamoDB::Table', TABLE_PROPERTIES),
+  }));
+
+  let output = '';
+  formatDifferences({ write: (chunk: string) => { output += chunk; return true; } } as any, diff);
+
+  expect(output).toContain('Possible Renames');
+  expect(output).toMatch(/TableOld.* to .*TableNew.*identical properties/);
+});
@@ -1,4 +1,5 @@
 import * as cxapi from '@aws-cdk/cx-api';
+import { IPolicyValidationPlugin } from './policy-validation';
 import { TreeMetadata } from './private/tree-metadata';
 import { Stage } from './stage';
 
@@ -66,6 +67,17 @@ export interface AppProps {
    * @default true
    */
   readonly treeMetadata?: boolean;
+
+  /**
+   * Plugins that validate the synthesized CloudFormation templates against
+   * policies, such as the rules of an organization.
+   *
+   * Synthesis fails if any plugin reports a violation.
+   *
+   * @default - no policy validation
+   * @experimental
+   */
+  readonly policyValidation?: IPolicyValidationPlugin[];
 }
 
 /**
@@ -93,6 +105,13 @@ export class App extends Stage {
     return APP_SYMBOL in obj;
   }
 
+  /**
+   * The policy validation plugins of this app
+   *
+   * @internal
+   */
+  public readonly _policyValidationPlugins: IPolicyValidationPlugin[];
+
   /**
    * Initializes a CDK application.
    * @param props initialization properties
@@ -126,6 +145,17 @@ export class App extends Stage {
     if (props.treeMetadata === undefined || props.treeMetadata) {
       new TreeMetadata(this);
     }
+
+    this._policyValidationPlugins = [...props.policyValidation ?? []];
+  }
+
+  /**
+   * Add a plugin that validates the synthesized CloudFormation templates
+   *
+   * @experimental
+   */
+  public addPolicyValidation(plugin: IPolicyValidationPlugin) {
+    this._policyValidationPlugins.push(plugin);
   }
 
   private loadContext(defaults: { [key: string]: string } = { }) {
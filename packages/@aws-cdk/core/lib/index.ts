@@ -40,6 +40,7 @@ export * from './app';
 export * from './context-provider';
 export * from './environment';
 export * from './annotations';
+export * from './policy-validation';
 
 export * from './runtime';
 export * from './secret-value';
@@ -1,4 +1,5 @@
 import * as crypto from 'crypto';
+import * as cxapi from '@aws-cdk/cx-api';
 import { Construct, Node } from 'constructs';
 import { FileAssetPackaging } from './assets';
 import { Fn } from './cfn-fn';
@@ -140,6 +141,12 @@ export class NestedStack extends Stack {
     });
     this.resource.applyRemovalPolicy(props.removalPolicy ?? RemovalPolicy.DESTROY);
 
+    // tell tools such as the CDK CLI where the template of the nested stack is in the cloud assembly
+    if (this.node.tryGetContext(cxapi.ASSET_RESOURCE_METADATA_ENABLED_CONTEXT)) {
+      this.resource.addMetadata(cxapi.ASSET_RESOURCE_METADATA_PATH_KEY, this.templateFile);
+      this.resource.addMetadata(cxapi.ASSET_RESOURCE_METADATA_PROPERTY_KEY, 'TemplateURL');
+    }
+
     this.nestedStackResource = this.resource;
 
     // context-aware stack name: if resolved from within this stack, return AWS::StackName
@@ -0,0 +1,111 @@
+/**
+ * A plugin that validates the synthesized CloudFormation templates of an app against a set of rules
+ *
+ * Plugins are registered on the `App`, and are invoked at the end of synthesis, once all
+ * templates have been written to the cloud assembly. Synthesis fails if any plugin reports
+ * a failure.
+ *
+ * @experimental
+ */
+export interface IPolicyValidationPlugin {
+  /**
+   * The name of the plugin, used in the validation report
+   */
+  readonly name: string;
+
+  /**
+   * Validate the templates and report the violations of the rules
+   */
+  validate(context: PolicyValidationContext): PolicyValidationPluginReport;
+}
+
+/**
+ * The templates that a policy validation plugin should validate
+ *
+ * @experimental
+ */
+export interface PolicyValidationContext {
+  /**
+   * The absolute paths of all CloudFormation templates of the app, including
+   * the templates of nested stacks and of stacks in nested stages
+   */
+  readonly templatePaths: string[];
+}
+
+/**
+ * The result of the validation by a policy validation plugin
+ *
+ * @experimental
+ */
+export interface PolicyValidationPluginReport {
+  /**
+   * Whether the templates are valid
+   */
+  readonly success: boolean;
+
+  /**
+   * The rules that were violated
+   */
+  readonly violations: PolicyViolation[];
+}
+
+/**
+ * A rule that was violated by one or more resources
+ *
+ * @experimental
+ */
+export interface PolicyViolation {
+  /**
+   * The identifier of the rule
+   */
+  readonly ruleName: string;
+
+  /**
+   * What the rule checks for
+   */
+  readonly description: string;
+
+  /**
+   * The severity of the violation, as defined by the plugin
+   *
+   * @default - no severity
+   */
+  readonly severity?: string;
+
+  /**
+   * How to fix the violation
+   *
+   * @default - no fix hint
+   */
+  readonly fix?: string;
+
+  /**
+   * The resources that violate the rule
+   */
+  readonly violatingResources: PolicyViolatingResource[];
+}
+
+/**
+ * A resource that violates a rule
+ *
+ * @experimental
+ */
+export interface PolicyViolatingResource {
+  /**
+   * The logical ID of the resource in its template
+   */
+  readonly resourceLogicalId: string;
+
+  /**
+   * The path of the template that contains the resource, as given to the plugin
+   */
+  readonly templatePath: string;
+
+  /**
+   * The locations in the resource definition that violate the rule, as JSON paths
+   * (for example `Properties.BucketEncryption`)
+   *
+   * @default - the whole resource
+   */
+  readonly locations?: string[];
+}
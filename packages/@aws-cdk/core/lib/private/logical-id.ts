@@ -19,14 +19,25 @@ export class LogicalIDs {
    */
   private readonly reverse: {[id: string]: string} = {};
 
+  /**
+   * The old IDs of the renames that may go unused
+   */
+  private readonly optionalRenames = new Set<string>();
+
   /**
    * Rename a logical ID from an old ID to a new ID
+   *
+   * @param optional whether the rename may go unused, for renames that were not
+   * registered by the app itself (e.g. the ones in the context)
    */
-  public addRename(oldId: string, newId: string) {
+  public addRename(oldId: string, newId: string, optional = false) {
     if (oldId in this.renames) {
       throw new Error(`A rename has already been registered for '${oldId}'`);
     }
     this.renames[oldId] = newId;
+    if (optional) {
+      this.optionalRenames.add(oldId);
+    }
   }
 
   /**
@@ -56,7 +67,7 @@ export class LogicalIDs {
    */
   public assertAllRenamesApplied() {
     const keys = new Set<string>();
-    Object.keys(this.renames).forEach(keys.add.bind(keys));
+    Object.keys(this.renames).filter(oldId => !this.optionalRenames.has(oldId)).forEach(keys.add.bind(keys));
 
     Object.keys(this.reverse).map(newId => {
       keys.delete(this.reverse[newId]);
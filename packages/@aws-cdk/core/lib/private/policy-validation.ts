@@ -0,0 +1,76 @@
+import * as path from 'path';
+import { CfnElement } from '../cfn-element';
+import { IConstruct } from '../construct-compat';
+import { IPolicyValidationPlugin, PolicyValidationPluginReport, PolicyViolatingResource } from '../policy-validation';
+import { Stack } from '../stack';
+import { Stage } from '../stage';
+
+/**
+ * Invoke the policy validation plugins on the templates of all stacks under the root
+ *
+ * Throws an error with a report of the violations, mapped back to the constructs that
+ * define the violating resources, if any plugin reports a failure.
+ */
+export function validatePolicies(root: IConstruct, plugins: IPolicyValidationPlugin[]) {
+  // includes nested stacks and the stacks of nested stages, which have all been synthesized by now
+  const stacksByTemplate = new Map<string, Stack>();
+  for (const stack of root.node.findAll().filter(Stack.isStack)) {
+    const stage = Stage.of(stack);
+    if (stage) {
+      stacksByTemplate.set(path.resolve(stage.outdir, stack.templateFile), stack);
+    }
+  }
+
+  const context = { templatePaths: Array.from(stacksByTemplate.keys()) };
+  const failures = plugins
+    .map(plugin => ({ plugin, report: plugin.validate(context) }))
+    .filter(({ report }) => !report.success);
+
+  if (failures.length > 0) {
+    const reports = failures.map(({ plugin, report }) => formatReport(plugin, report, stacksByTemplate));
+    throw new Error(`Policy validation failed with the following violations:\n${reports.join('\n')}`);
+  }
+}
+
+function formatReport(plugin: IPolicyValidationPlugin, report: PolicyValidationPluginReport, stacksByTemplate: Map<string, Stack>): string {
+  const lines = [`\n(plugin: ${plugin.name})`];
+  for (const violation of report.violations) {
+    const severity = violation.severity ? ` (severity: ${violation.severity})` : '';
+    lines.push(`  [${violation.ruleName}]${severity} ${violation.description}`);
+    if (violation.fix) {
+      lines.push(`    How to fix: ${violation.fix}`);
+    }
+    for (const resource of violation.violatingResources) {
+      lines.push(...formatResource(resource, stacksByTemplate).map(line => `    ${line}`));
+    }
+  }
+  return lines.join('\n');
+}
+
+function formatResource(resource: PolicyViolatingResource, stacksByTemplate: Map<string, Stack>): string[] {
+  const stack = stacksByTemplate.get(path.resolve(resource.templatePath));
+  const element = stack && findElement(stack, resource.resourceLogicalId);
+
+  const lines = [
+    `- ${element?.node.path ?? '(construct not found)'}`,
+    `  Template: ${resource.templatePath}`,
+    `  Logical ID: ${resource.resourceLogicalId}`,
+  ];
+  if (resource.locations && resource.locations.length > 0) {
+    lines.push(`  Locations: ${resource.locations.join(', ')}`);
+  }
+  const trace = element?.creationStack ?? [];
+  if (trace.length > 0) {
+    lines.push(`  Creation stack:\n    ${trace.join('\n    \\_ ')}`);
+  }
+  return lines;
+}
+
+/**
+ * Find the element of a stack (not of its nested stacks) with the given logical ID
+ */
+function findElement(stack: Stack, logicalId: string): CfnElement | undefined {
+  return stack.node.findAll()
+    .filter(CfnElement.isCfnElement)
+    .find(element => element.stack === stack && stack.resolve(element.logicalId) === logicalId);
+}
@@ -6,6 +6,7 @@ import { Construct, IConstruct, SynthesisOptions, ValidationError } from '../con
 import { Stack } from '../stack';
 import { Stage, StageSynthesisOptions } from '../stage';
 import { MetadataResource } from './metadata-resource';
+import { validatePolicies } from './policy-validation';
 import { prepareApp } from './prepare-app';
 import { TreeMetadata } from './tree-metadata';
 
@@ -38,6 +39,9 @@ export function synthesize(root: IConstruct, options: SynthesisOptions = { }): c
   // stacks to add themselves to the synthesized cloud assembly.
   synthesizeTree(root, builder);
 
+  // now that all templates have been written, let the policy validation plugins of the app check them
+  invokePolicyValidation(root);
+
   return builder.buildAssembly();
 }
 
@@ -184,6 +188,20 @@ function validateTree(root: IConstruct) {
   }
 }
 
+/**
+ * Invoke the policy validation plugins registered on the app, if the root is an app
+ *
+ * Nested stages don't have plugins of their own: their templates are validated as part of the app.
+ */
+function invokePolicyValidation(root: IConstruct) {
+  // app.ts (indirectly) imports this module, so require it lazily
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { App }: typeof import('../app') = require('../app');
+  if (App.isApp(root) && root._policyValidationPlugins.length > 0) {
+    validatePolicies(root, root._policyValidationPlugins);
+  }
+}
+
 /**
  * Visit the given construct tree in either pre or post order, stopping at Assemblies
  */
@@ -395,6 +395,13 @@ export class Stack extends CoreConstruct implements ITaggable {
 
     this.templateFile = `${this.artifactId}.template.json`;
 
+    // Logical IDs kept for resources that were moved in the construct tree (see `cdk refactor`).
+    // These may outlive their resources, so they are not required to be used.
+    const logicalIdRenames = this.node.tryGetContext(cxapi.LOGICAL_ID_RENAMES_CONTEXT)?.[this.artifactId] ?? {};
+    for (const [generatedId, logicalId] of Object.entries(logicalIdRenames)) {
+      this._logicalIds.addRename(generatedId, logicalId as string, true);
+    }
+
     // Not for nested stacks
     this._versionReportingEnabled = (props.analyticsReporting ?? this.node.tryGetContext(cxapi.ANALYTICS_REPORTING_ENABLED_CONTEXT))
       && !this.nestedStackParent;
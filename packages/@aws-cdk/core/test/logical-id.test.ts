@@ -1,5 +1,6 @@
+import * as cxapi from '@aws-cdk/cx-api';
 import { nodeunitShim, Test } from 'nodeunit-shim';
-import { CfnElement, CfnResource, Construct, Stack } from '../lib';
+import { App, CfnElement, CfnResource, Construct, Stack } from '../lib';
 import { toCloudFormation } from './util';
 
 /**
@@ -81,6 +82,51 @@ nodeunitShim({
     test.done();
   },
 
+  'Logical IDs can be renamed with the logical ID renames in the context'(test: Test) {
+    // GIVEN
+    const app = new App({
+      context: {
+        [cxapi.LOGICAL_ID_RENAMES_CONTEXT]: {
+          MyStack: { ParentThingResource75D1D9CB: 'Renamed' },
+          OtherStack: { ParentThingResource75D1D9CB: 'NotThisOne' },
+        },
+      },
+    });
+    const stack = new Stack(app, 'MyStack');
+
+    // WHEN
+    const parent = new Construct(stack, 'Parent');
+    new CfnResource(parent, 'ThingResource', { type: 'AWS::TAAS::Thing' });
+
+    // THEN
+    const template = toCloudFormation(stack);
+    test.deepEqual(Object.keys(template.Resources), ['Renamed']);
+
+    test.done();
+  },
+
+  'Logical ID renames in the context for objects that don\'t exist are ignored'(test: Test) {
+    // GIVEN
+    const app = new App({
+      context: {
+        [cxapi.LOGICAL_ID_RENAMES_CONTEXT]: {
+          MyStack: { DOESNOTEXIST: 'Renamed' },
+        },
+      },
+    });
+    const stack = new Stack(app, 'MyStack');
+
+    // WHEN
+    const parent = new Construct(stack, 'Parent');
+    new CfnResource(parent, 'ThingResource', { type: 'AWS::TAAS::Thing' });
+
+    // THEN
+    const template = toCloudFormation(stack);
+    test.deepEqual(Object.keys(template.Resources), ['ParentThingResource75D1D9CB']);
+
+    test.done();
+  },
+
   'ID Renames that collide with existing IDs should fail'(test: Test) {
     // GIVEN
     const stack = new Stack();
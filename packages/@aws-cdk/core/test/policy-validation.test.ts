@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { nodeunitShim, Test } from 'nodeunit-shim';
+import * as cdk from '../lib';
+
+nodeunitShim({
+  'plugins receive the templates of all stacks'(test: Test) {
+    // GIVEN
+    const plugin = new FakePlugin();
+    const app = new cdk.App({ policyValidation: [plugin] });
+    const stack = new cdk.Stack(app, 'Stack');
+    const nested = new cdk.NestedStack(stack, 'Nested');
+    const stage = new cdk.Stage(app, 'Stage');
+    const stageStack = new cdk.Stack(stage, 'StageStack');
+
+    // WHEN
+    app.synth();
+
+    // THEN
+    test.deepEqual(plugin.templatePaths.sort(), [
+      path.join(app.outdir, stack.templateFile),
+      path.join(app.outdir, nested.templateFile),
+      path.join(stage.outdir, stageStack.templateFile),
+    ].sort());
+    for (const templatePath of plugin.templatePaths) {
+      test.ok(fs.existsSync(templatePath), templatePath);
+    }
+    test.done();
+  },
+
+  'synthesis fails with a report of the violations'(test: Test) {
+    // GIVEN
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, 'Stack');
+    new cdk.CfnResource(stack, 'Bucket', { type: 'AWS::S3::Bucket' });
+    app.addPolicyValidation(new FakePlugin(templatePath => ({
+      ruleName: 'bucket-encryption',
+      description: 'Buckets must be encrypted',
+      severity: 'high',
+      fix: 'Enable encryption',
+      violatingResources: [{ resourceLogicalId: 'Bucket', templatePath, locations: ['Properties.BucketEncryption'] }],
+    })));
+
+    // THEN
+    test.throws(() => app.synth(), /Policy validation failed with the following violations:\n\n\(plugin: fake\)\n {2}\[bucket-encryption\] \(severity: high\) Buckets must be encrypted\n {4}How to fix: Enable encryption\n {4}- Stack\/Bucket\n {6}Template: .*Stack.template.json\n {6}Logical ID: Bucket\n {6}Locations: Properties.BucketEncryption/);
+    test.done();
+  },
+
+  'violations are mapped to the constructs of nested stacks'(test: Test) {
+    // GIVEN
+    const app = new cdk.App();
+    const nested = new cdk.NestedStack(new cdk.Stack(app, 'Stack'), 'Nested');
+    const resource = new cdk.CfnResource(nested, 'Resource', { type: 'Foo::Bar' });
+    const logicalId = nested.resolve(resource.logicalId);
+    app.addPolicyValidation(new FakePlugin(templatePath => ({
+      ruleName: 'rule',
+      description: 'description',
+      violatingResources: [{ resourceLogicalId: logicalId, templatePath }],
+    }), 'nested.template.json'));
+
+    // THEN
+    test.throws(() => app.synth(), /- Stack\/Nested\/Resource\n/);
+    test.done();
+  },
+
+  'synthesis succeeds if all plugins succeed'(test: Test) {
+    // GIVEN
+    const app = new cdk.App({ policyValidation: [new FakePlugin(), new FakePlugin()] });
+    new cdk.CfnResource(new cdk.Stack(app, 'Stack'), 'Resource', { type: 'Foo::Bar' });
+
+    // THEN
+    test.doesNotThrow(() => app.synth());
+    test.done();
+  },
+});
+
+class FakePlugin implements cdk.IPolicyValidationPlugin {
+  public readonly name = 'fake';
+  public templatePaths = new Array<string>();
+
+  constructor(
+    private readonly violation?: (templatePath: string) => cdk.PolicyViolation,
+    private readonly templateSuffix = '.template.json') {
+  }
+
+  public validate(context: cdk.PolicyValidationContext): cdk.PolicyValidationPluginReport {
+    this.templatePaths = context.templatePaths;
+    const violations = this.violation
+      ? context.templatePaths.filter(p => p.endsWith(this.templateSuffix)).map(this.violation)
+      : [];
+    return { success: violations.length === 0, violations };
+  }
+}
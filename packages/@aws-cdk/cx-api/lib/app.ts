@@ -43,3 +43,11 @@ export const DISABLE_METADATA_STACK_TRACE = 'aws:cdk:disable-stack-trace';
  * Run bundling for stacks specified in this context key
  */
 export const BUNDLING_STACKS = 'aws:cdk:bundling-stacks';
+
+/**
+ * Logical IDs to use instead of the generated ones, by stack artifact ID and generated logical ID
+ *
+ * Used to keep the logical IDs of resources that were moved in the construct tree. This is
+ * set in `cdk.json`, which is why it does not use the reserved `aws:` prefix.
+ */
+export const LOGICAL_ID_RENAMES_CONTEXT = '@aws-cdk/core:logicalIdRenames';
@@ -0,0 +1,19 @@
+/**
+ * Properties of a discovered DB subnet group
+ */
+export interface DbSubnetGroupContextResponse {
+  /**
+   * The name of the subnet group
+   */
+  readonly subnetGroupName: string;
+
+  /**
+   * The ID of the VPC the subnet group belongs to
+   */
+  readonly vpcId: string;
+
+  /**
+   * The IDs of the subnets in the subnet group
+   */
+  readonly subnetIds: string[];
+}
@@ -0,0 +1,14 @@
+/**
+ * Properties of a discovered container image
+ */
+export interface EcrImageContextResponse {
+  /**
+   * The digest of the image, e.g. `sha256:0123...`
+   */
+  readonly imageDigest: string;
+
+  /**
+   * The tags of the image
+   */
+  readonly imageTags: string[];
+}
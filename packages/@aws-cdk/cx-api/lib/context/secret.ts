@@ -0,0 +1,9 @@
+/**
+ * Properties of a discovered secret
+ */
+export interface SecretContextResponse {
+  /**
+   * The complete ARN of the secret, including the suffix added by Secrets Manager
+   */
+  readonly secretArn: string;
+}
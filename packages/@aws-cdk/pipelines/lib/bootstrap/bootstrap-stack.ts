@@ -0,0 +1,505 @@
+import * as ecr from '@aws-cdk/aws-ecr';
+import * as iam from '@aws-cdk/aws-iam';
+import * as kms from '@aws-cdk/aws-kms';
+import * as s3 from '@aws-cdk/aws-s3';
+import * as ssm from '@aws-cdk/aws-ssm';
+import {
+  Aws, BootstraplessSynthesizer, CfnCondition, CfnOutput, CfnParameter, Fn, ICfnConditionExpression,
+  RemovalPolicy, Stack, StackProps, Token,
+} from '@aws-cdk/core';
+import { Construct } from 'constructs';
+
+/**
+ * Properties for a BootstrapStack
+ */
+export interface BootstrapStackProps extends StackProps {
+  /**
+   * The permissions boundary to apply to the asset publishing, deployment and CloudFormation execution roles
+   *
+   * @default - No permissions boundary
+   */
+  readonly permissionsBoundary?: iam.IManagedPolicy;
+
+  /**
+   * Additional statements to add to the policy of the staging bucket
+   *
+   * @default - Only requests over SSL are allowed
+   */
+  readonly stagingBucketPolicyStatements?: iam.PolicyStatement[];
+
+  /**
+   * Lifecycle rules for the staging bucket
+   *
+   * @default - Objects in the staging bucket are never expired
+   */
+  readonly stagingBucketLifecycleRules?: s3.CfnBucket.RuleProperty[];
+
+  /**
+   * Replication configuration for the staging bucket
+   *
+   * Turns on versioning of the staging bucket, which is required for replication.
+   *
+   * @default - The staging bucket is not replicated
+   */
+  readonly stagingBucketReplication?: s3.CfnBucket.ReplicationConfigurationProperty;
+}
+
+/**
+ * The modern bootstrap stack, which provisions the resources needed to deploy CDK apps into an environment
+ *
+ * This is the same stack as the one that `cdk bootstrap` deploys by default, defined as a
+ * construct so that it can be configured or extended. Define it in a separate app and
+ * deploy it with `cdk bootstrap --app`, which takes care of passing the same parameters
+ * (`--qualifier`, `--trust`, ...) and refuses to downgrade an existing bootstrap stack.
+ *
+ * The logical IDs of the resources, parameters and outputs are the same as those in the
+ * built-in template, so existing bootstrap stacks can be updated to this stack in place.
+ */
+export class BootstrapStack extends Stack {
+  /**
+   * The version of the bootstrap resources defined by this stack
+   */
+  public static readonly BOOTSTRAP_VERSION = 5;
+
+  /**
+   * The bucket that holds file assets
+   */
+  public readonly stagingBucket: s3.CfnBucket;
+
+  /**
+   * The policy of the staging bucket
+   */
+  public readonly stagingBucketPolicy: s3.CfnBucketPolicy;
+
+  /**
+   * The key used to encrypt the staging bucket, if a new key is created
+   */
+  public readonly fileAssetsBucketEncryptionKey: kms.CfnKey;
+
+  /**
+   * The repository that holds container image assets
+   */
+  public readonly containerAssetsRepository: ecr.CfnRepository;
+
+  /**
+   * The role used to publish file assets
+   */
+  public readonly filePublishingRole: iam.CfnRole;
+
+  /**
+   * The role used to publish container image assets
+   */
+  public readonly imagePublishingRole: iam.CfnRole;
+
+  /**
+   * The role used to create and execute change sets
+   */
+  public readonly deploymentActionRole: iam.CfnRole;
+
+  /**
+   * The role that CloudFormation assumes to deploy stacks
+   */
+  public readonly cloudFormationExecutionRole: iam.CfnRole;
+
+  constructor(scope: Construct, id: string, props: BootstrapStackProps = {}) {
+    super(scope, id, {
+      ...props,
+      description: props.description ?? 'This stack includes resources needed to deploy AWS CDK apps into this environment',
+      // Obviously the bootstrap stack cannot depend on a bootstrap stack itself
+      synthesizer: props.synthesizer ?? new BootstraplessSynthesizer({}),
+    });
+
+    // Parameters, which 'cdk bootstrap' passes
+    const trustedAccounts = new CfnParameter(this, 'TrustedAccounts', {
+      description: 'List of AWS accounts that are trusted to publish assets and deploy stacks to this environment',
+      default: '',
+      type: 'CommaDelimitedList',
+    });
+    const cloudFormationExecutionPolicies = new CfnParameter(this, 'CloudFormationExecutionPolicies', {
+      description: 'List of the ManagedPolicy ARN(s) to attach to the CloudFormation deployment role',
+      default: '',
+      type: 'CommaDelimitedList',
+    });
+    const fileAssetsBucketName = new CfnParameter(this, 'FileAssetsBucketName', {
+      description: 'The name of the S3 bucket used for file assets',
+      default: '',
+      type: 'String',
+    });
+    const fileAssetsBucketKmsKeyId = new CfnParameter(this, 'FileAssetsBucketKmsKeyId', {
+      description: 'Empty to create a new key (default), \'AWS_MANAGED_KEY\' to use a managed S3 key, or the ID/ARN of an existing key.',
+      default: '',
+      type: 'String',
+    });
+    const containerAssetsRepositoryName = new CfnParameter(this, 'ContainerAssetsRepositoryName', {
+      description: 'A user-provided custom name to use for the container assets ECR repository',
+      default: '',
+      type: 'String',
+    });
+    const qualifier = new CfnParameter(this, 'Qualifier', {
+      description: 'An identifier to distinguish multiple bootstrap stacks in the same environment',
+      default: 'hnb659fds',
+      type: 'String',
+      // "cdk-(qualifier)-image-publishing-role-(account)-(region)" needs to be <= 64 chars
+      allowedPattern: '[A-Za-z0-9_-]{1,10}',
+      constraintDescription: 'Qualifier must be an alphanumeric identifier of at most 10 characters',
+    });
+    const publicAccessBlockConfiguration = new CfnParameter(this, 'PublicAccessBlockConfiguration', {
+      description: 'Whether or not to enable S3 Staging Bucket Public Access Block Configuration',
+      default: 'true',
+      type: 'String',
+      allowedValues: ['true', 'false'],
+    });
+
+    const hasTrustedAccounts = new CfnCondition(this, 'HasTrustedAccounts', {
+      expression: isNotEmpty(Fn.join('', trustedAccounts.valueAsList)),
+    });
+    const hasCloudFormationExecutionPolicies = new CfnCondition(this, 'HasCloudFormationExecutionPolicies', {
+      expression: isNotEmpty(Fn.join('', cloudFormationExecutionPolicies.valueAsList)),
+    });
+    const hasCustomFileAssetsBucketName = new CfnCondition(this, 'HasCustomFileAssetsBucketName', {
+      expression: isNotEmpty(fileAssetsBucketName.valueAsString),
+    });
+    const createNewKey = new CfnCondition(this, 'CreateNewKey', {
+      expression: Fn.conditionEquals('', fileAssetsBucketKmsKeyId.valueAsString),
+    });
+    const useAwsManagedKey = new CfnCondition(this, 'UseAwsManagedKey', {
+      expression: Fn.conditionEquals('AWS_MANAGED_KEY', fileAssetsBucketKmsKeyId.valueAsString),
+    });
+    const hasCustomContainerAssetsRepositoryName = new CfnCondition(this, 'HasCustomContainerAssetsRepositoryName', {
+      expression: isNotEmpty(containerAssetsRepositoryName.valueAsString),
+    });
+    const usePublicAccessBlockConfiguration = new CfnCondition(this, 'UsePublicAccessBlockConfiguration', {
+      expression: Fn.conditionEquals('true', publicAccessBlockConfiguration.valueAsString),
+    });
+
+    const trustedAccountsStatement = Fn.conditionIf(hasTrustedAccounts.logicalId, {
+      Action: 'sts:AssumeRole',
+      Effect: 'Allow',
+      Principal: { AWS: trustedAccounts.valueAsList },
+    }, Aws.NO_VALUE);
+    const assumeRolePolicyDocument = {
+      Statement: [
+        {
+          Action: 'sts:AssumeRole',
+          Effect: 'Allow',
+          Principal: { AWS: Aws.ACCOUNT_ID },
+        },
+        trustedAccountsStatement,
+      ],
+    };
+    const permissionsBoundary = props.permissionsBoundary?.managedPolicyArn;
+
+    this.filePublishingRole = new iam.CfnRole(this, 'FilePublishingRole', {
+      assumeRolePolicyDocument,
+      permissionsBoundary,
+      roleName: `cdk-${qualifier.valueAsString}-file-publishing-role-${Aws.ACCOUNT_ID}-${Aws.REGION}`,
+    });
+
+    this.imagePublishingRole = new iam.CfnRole(this, 'ImagePublishingRole', {
+      assumeRolePolicyDocument,
+      permissionsBoundary,
+      roleName: `cdk-${qualifier.valueAsString}-image-publishing-role-${Aws.ACCOUNT_ID}-${Aws.REGION}`,
+    });
+
+    this.fileAssetsBucketEncryptionKey = new kms.CfnKey(this, 'FileAssetsBucketEncryptionKey', {
+      keyPolicy: {
+        Statement: [
+          {
+            Action: [
+              'kms:Create*',
+              'kms:Describe*',
+              'kms:Enable*',
+              'kms:List*',
+              'kms:Put*',
+              'kms:Update*',
+              'kms:Revoke*',
+              'kms:Disable*',
+              'kms:Get*',
+              'kms:Delete*',
+              'kms:ScheduleKeyDeletion',
+              'kms:CancelKeyDeletion',
+              'kms:GenerateDataKey',
+            ],
+            Effect: 'Allow',
+            Principal: { AWS: Aws.ACCOUNT_ID },
+            Resource: '*',
+          },
+          {
+            Action: KEY_USAGE_ACTIONS,
+            Effect: 'Allow',
+            // Not actually everyone -- see below for Conditions
+            Principal: { AWS: '*' },
+            Resource: '*',
+            Condition: {
+              StringEquals: {
+                'kms:CallerAccount': Aws.ACCOUNT_ID,
+                'kms:ViaService': [`s3.${Aws.REGION}.amazonaws.com`],
+              },
+            },
+          },
+          {
+            Action: KEY_USAGE_ACTIONS,
+            Effect: 'Allow',
+            Principal: { AWS: this.filePublishingRole.attrArn },
+            Resource: '*',
+          },
+        ],
+      },
+    });
+    this.fileAssetsBucketEncryptionKey.cfnOptions.condition = createNewKey;
+
+    const alias = new kms.CfnAlias(this, 'FileAssetsBucketEncryptionKeyAlias', {
+      aliasName: `alias/cdk-${qualifier.valueAsString}-assets-key`,
+      targetKeyId: this.fileAssetsBucketEncryptionKey.ref,
+    });
+    alias.cfnOptions.condition = createNewKey;
+
+    this.stagingBucket = new s3.CfnBucket(this, 'StagingBucket', {
+      bucketName: Fn.conditionIf(hasCustomFileAssetsBucketName.logicalId,
+        fileAssetsBucketName.valueAsString,
+        `cdk-${qualifier.valueAsString}-assets-${Aws.ACCOUNT_ID}-${Aws.REGION}`).toString(),
+      accessControl: 'Private',
+      bucketEncryption: {
+        serverSideEncryptionConfiguration: [{
+          serverSideEncryptionByDefault: {
+            sseAlgorithm: 'aws:kms',
+            kmsMasterKeyId: Fn.conditionIf(createNewKey.logicalId,
+              this.fileAssetsBucketEncryptionKey.attrArn,
+              Fn.conditionIf(useAwsManagedKey.logicalId, Aws.NO_VALUE, fileAssetsBucketKmsKeyId.valueAsString)).toString(),
+          },
+        }],
+      },
+      publicAccessBlockConfiguration: Fn.conditionIf(usePublicAccessBlockConfiguration.logicalId, {
+        BlockPublicAcls: true,
+        BlockPublicPolicy: true,
+        IgnorePublicAcls: true,
+        RestrictPublicBuckets: true,
+      }, Aws.NO_VALUE),
+      lifecycleConfiguration: props.stagingBucketLifecycleRules?.length
+        ? { rules: props.stagingBucketLifecycleRules }
+        : undefined,
+      replicationConfiguration: props.stagingBucketReplication,
+      versioningConfiguration: props.stagingBucketReplication ? { status: 'Enabled' } : undefined,
+    });
+    this.stagingBucket.applyRemovalPolicy(RemovalPolicy.RETAIN);
+
+    this.stagingBucketPolicy = new s3.CfnBucketPolicy(this, 'StagingBucketPolicy', {
+      bucket: this.stagingBucket.ref,
+      policyDocument: {
+        Id: 'AccessControl',
+        Version: '2012-10-17',
+        Statement: [
+          {
+            Sid: 'AllowSSLRequestsOnly',
+            Action: 's3:*',
+            Effect: 'Deny',
+            Resource: [
+              this.stagingBucket.attrArn,
+              `${this.stagingBucket.attrArn}/*`,
+            ],
+            Condition: {
+              Bool: { 'aws:SecureTransport': 'false' },
+            },
+            Principal: '*',
+          },
+          ...(props.stagingBucketPolicyStatements ?? []).map(s => s.toStatementJson()),
+        ],
+      },
+    });
+
+    this.containerAssetsRepository = new ecr.CfnRepository(this, 'ContainerAssetsRepository', {
+      repositoryName: Fn.conditionIf(hasCustomContainerAssetsRepositoryName.logicalId,
+        containerAssetsRepositoryName.valueAsString,
+        `cdk-${qualifier.valueAsString}-container-assets-${Aws.ACCOUNT_ID}-${Aws.REGION}`).toString(),
+    });
+
+    new iam.CfnPolicy(this, 'FilePublishingRoleDefaultPolicy', {
+      policyDocument: {
+        Statement: [
+          {
+            Action: [
+              's3:GetObject*',
+              's3:GetBucket*',
+              's3:List*',
+              's3:DeleteObject*',
+              's3:PutObject*',
+              's3:Abort*',
+            ],
+            Resource: [
+              this.stagingBucket.attrArn,
+              `${this.stagingBucket.attrArn}/*`,
+            ],
+            Effect: 'Allow',
+          },
+          {
+            Action: KEY_USAGE_ACTIONS,
+            Effect: 'Allow',
+            Resource: Fn.conditionIf(createNewKey.logicalId,
+              this.fileAssetsBucketEncryptionKey.attrArn,
+              `arn:${Aws.PARTITION}:kms:${Aws.REGION}:${Aws.ACCOUNT_ID}:key/${fileAssetsBucketKmsKeyId.valueAsString}`),
+          },
+        ],
+        Version: '2012-10-17',
+      },
+      roles: [this.filePublishingRole.ref],
+      policyName: `cdk-${qualifier.valueAsString}-file-publishing-role-default-policy-${Aws.ACCOUNT_ID}-${Aws.REGION}`,
+    });
+
+    new iam.CfnPolicy(this, 'ImagePublishingRoleDefaultPolicy', {
+      policyDocument: {
+        Statement: [
+          {
+            Action: [
+              'ecr:PutImage',
+              'ecr:InitiateLayerUpload',
+              'ecr:UploadLayerPart',
+              'ecr:CompleteLayerUpload',
+              'ecr:BatchCheckLayerAvailability',
+              'ecr:DescribeRepositories',
+              'ecr:DescribeImages',
+            ],
+            Resource: this.containerAssetsRepository.attrArn,
+            Effect: 'Allow',
+          },
+          {
+            Action: ['ecr:GetAuthorizationToken'],
+            Resource: '*',
+            Effect: 'Allow',
+          },
+        ],
+        Version: '2012-10-17',
+      },
+      roles: [this.imagePublishingRole.ref],
+      policyName: `cdk-${qualifier.valueAsString}-image-publishing-role-default-policy-${Aws.ACCOUNT_ID}-${Aws.REGION}`,
+    });
+
+    this.cloudFormationExecutionRole = new iam.CfnRole(this, 'CloudFormationExecutionRole', {
+      assumeRolePolicyDocument: {
+        Statement: [
+          {
+            Action: 'sts:AssumeRole',
+            Effect: 'Allow',
+            Principal: { Service: 'cloudformation.amazonaws.com' },
+          },
+        ],
+        Version: '2012-10-17',
+      },
+      managedPolicyArns: Token.asList(Fn.conditionIf(hasCloudFormationExecutionPolicies.logicalId,
+        cloudFormationExecutionPolicies.valueAsList,
+        Fn.conditionIf(hasTrustedAccounts.logicalId,
+          // The CLI will prevent this case from occurring
+          Aws.NO_VALUE,
+          // The CLI will advertise that we picked this implicitly
+          [`arn:${Aws.PARTITION}:iam::aws:policy/AdministratorAccess`]))),
+      permissionsBoundary,
+      roleName: `cdk-${qualifier.valueAsString}-cfn-exec-role-${Aws.ACCOUNT_ID}-${Aws.REGION}`,
+    });
+
+    // The SSM parameter is used in pipeline-deployed templates to verify the version
+    // of the bootstrap resources.
+    const bootstrapVersion = new ssm.CfnParameter(this, 'CdkBootstrapVersion', {
+      type: 'String',
+      name: `/cdk-bootstrap/${qualifier.valueAsString}/version`,
+      value: `${BootstrapStack.BOOTSTRAP_VERSION}`,
+    });
+
+    this.deploymentActionRole = new iam.CfnRole(this, 'DeploymentActionRole', {
+      assumeRolePolicyDocument,
+      policies: [{
+        policyDocument: {
+          Statement: [
+            {
+              Action: [
+                // Permissions needed in CodePipeline.
+                // S3 and KMS are needed on '*',
+                // as we don't know the IDs of the CodePipeline's bucket and key in advance
+                'cloudformation:CreateChangeSet',
+                'cloudformation:DeleteChangeSet',
+                'cloudformation:DescribeChangeSet',
+                'cloudformation:DescribeStacks',
+                'cloudformation:ExecuteChangeSet',
+                's3:GetObject*',
+                's3:GetBucket*',
+                's3:List*',
+                's3:Abort*',
+                's3:DeleteObject*',
+                's3:PutObject*',
+                // Necessary to write to the cross-region artifact replication bucket
+                ...KEY_USAGE_ACTIONS,
+              ],
+              Resource: '*',
+              Effect: 'Allow',
+            },
+            {
+              Action: 'iam:PassRole',
+              Resource: this.cloudFormationExecutionRole.attrArn,
+              Effect: 'Allow',
+            },
+            {
+              Sid: 'CliPermissions',
+              Action: [
+                // Permissions needed by the CLI when doing `cdk deploy`.
+                'cloudformation:DescribeStackEvents',
+                'cloudformation:GetTemplate',
+                'cloudformation:DeleteStack',
+                'cloudformation:UpdateTerminationProtection',
+                'sts:GetCallerIdentity',
+              ],
+              Resource: '*',
+              Effect: 'Allow',
+            },
+            {
+              Sid: 'ReadVersion',
+              Effect: 'Allow',
+              Action: ['ssm:GetParameter'],
+              Resource: [`arn:${Aws.PARTITION}:ssm:${Aws.REGION}:${Aws.ACCOUNT_ID}:parameter${bootstrapVersion.ref}`],
+            },
+          ],
+          Version: '2012-10-17',
+        },
+        policyName: 'default',
+      }],
+      permissionsBoundary,
+      roleName: `cdk-${qualifier.valueAsString}-deploy-role-${Aws.ACCOUNT_ID}-${Aws.REGION}`,
+    });
+
+    new CfnOutput(this, 'BucketName', {
+      description: 'The name of the S3 bucket owned by the CDK toolkit stack',
+      value: this.stagingBucket.ref,
+    });
+    new CfnOutput(this, 'BucketDomainName', {
+      description: 'The domain name of the S3 bucket owned by the CDK toolkit stack',
+      value: this.stagingBucket.attrRegionalDomainName,
+    });
+    // Kept for compatibility with the built-in template: stacks that use
+    // this export would otherwise prevent the bootstrap stack from being updated.
+    new CfnOutput(this, 'FileAssetKeyArn', {
+      description: 'The ARN of the KMS key used to encrypt the asset bucket (deprecated)',
+      value: Fn.conditionIf(createNewKey.logicalId,
+        this.fileAssetsBucketEncryptionKey.attrArn,
+        fileAssetsBucketKmsKeyId.valueAsString).toString(),
+      exportName: `CdkBootstrap-${qualifier.valueAsString}-FileAssetKeyArn`,
+    });
+    new CfnOutput(this, 'ImageRepositoryName', {
+      description: 'The name of the ECR repository which hosts docker image assets',
+      value: this.containerAssetsRepository.ref,
+    });
+    // The output is used by the CLI to verify the version of the bootstrap resources.
+    new CfnOutput(this, 'BootstrapVersion', {
+      description: 'The version of the bootstrap resources that are currently mastered in this stack',
+      value: bootstrapVersion.attrValue,
+    });
+  }
+}
+
+const KEY_USAGE_ACTIONS = [
+  'kms:Decrypt',
+  'kms:DescribeKey',
+  'kms:Encrypt',
+  'kms:ReEncrypt*',
+  'kms:GenerateDataKey*',
+];
+
+function isNotEmpty(value: string): ICfnConditionExpression {
+  return Fn.conditionNot(Fn.conditionEquals('', value));
+}
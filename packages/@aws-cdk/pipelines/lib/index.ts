@@ -2,4 +2,5 @@ export * from './pipeline';
 export * from './stage';
 export * from './synths';
 export * from './actions';
-export * from './validation';
\ No newline at end of file
+export * from './validation';
+export * from './bootstrap';
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { arrayWith, objectLike, SynthUtils } from '@aws-cdk/assert';
+import '@aws-cdk/assert/jest';
+import * as iam from '@aws-cdk/aws-iam';
+import * as yamlCfn from '@aws-cdk/yaml-cfn';
+import * as cdkp from '../lib';
+import { TestApp } from './testutil';
+
+/**
+ * The template that 'cdk bootstrap' deploys by default, which BootstrapStack must stay in sync with
+ */
+const BUILT_IN_TEMPLATE = path.join(__dirname, '..', '..', '..', 'aws-cdk', 'lib', 'api', 'bootstrap', 'bootstrap-template.yaml');
+
+let app: TestApp;
+
+beforeEach(() => {
+  app = new TestApp();
+});
+
+afterEach(() => {
+  app.cleanup();
+});
+
+test('has the parameters, resources, outputs and version of the built-in bootstrap template', () => {
+  // GIVEN
+  const builtIn = yamlCfn.deserialize(fs.readFileSync(BUILT_IN_TEMPLATE, { encoding: 'utf-8' }));
+
+  // WHEN
+  const stack = new cdkp.BootstrapStack(app, 'Bootstrap');
+
+  // THEN
+  const template = SynthUtils.toCloudFormation(stack);
+  expect(template.Parameters).toEqual(builtIn.Parameters);
+  expect(Object.keys(template.Conditions).sort()).toEqual(Object.keys(builtIn.Conditions).sort());
+  expect(resourceOutlines(template)).toEqual(resourceOutlines(builtIn));
+  expect(Object.keys(template.Outputs).sort()).toEqual(Object.keys(builtIn.Outputs).sort());
+  expect(template.Resources.CdkBootstrapVersion.Properties.Value).toEqual(builtIn.Resources.CdkBootstrapVersion.Properties.Value);
+});
+
+test('can apply a permissions boundary to the roles', () => {
+  // GIVEN
+  const stack = new cdkp.BootstrapStack(app, 'Bootstrap', {
+    permissionsBoundary: { managedPolicyArn: 'arn:aws:iam::123456789012:policy/Boundary' },
+  });
+
+  // THEN
+  const roles = Object.values(SynthUtils.toCloudFormation(stack).Resources).filter((r: any) => r.Type === 'AWS::IAM::Role');
+  expect(roles.length).toEqual(4);
+  for (const role of roles) {
+    expect((role as any).Properties.PermissionsBoundary).toEqual('arn:aws:iam::123456789012:policy/Boundary');
+  }
+});
+
+test('can add statements to the staging bucket policy', () => {
+  // GIVEN
+  const stack = new cdkp.BootstrapStack(app, 'Bootstrap', {
+    stagingBucketPolicyStatements: [new iam.PolicyStatement({
+      effect: iam.Effect.DENY,
+      actions: ['s3:DeleteBucket'],
+      resources: ['*'],
+      principals: [new iam.AnyPrincipal()],
+    })],
+  });
+
+  // THEN
+  expect(stack).toHaveResourceLike('AWS::S3::BucketPolicy', {
+    PolicyDocument: {
+      Statement: arrayWith(
+        objectLike({ Sid: 'AllowSSLRequestsOnly' }),
+        objectLike({ Action: 's3:DeleteBucket', Effect: 'Deny', Principal: '*' }),
+      ),
+    },
+  });
+});
+
+test('can configure lifecycle rules and replication for the staging bucket', () => {
+  // GIVEN
+  const stack = new cdkp.BootstrapStack(app, 'Bootstrap', {
+    stagingBucketLifecycleRules: [{ status: 'Enabled', expirationInDays: 30 }],
+    stagingBucketReplication: {
+      role: 'arn:aws:iam::123456789012:role/Replication',
+      rules: [{ status: 'Enabled', destination: { bucket: 'arn:aws:s3:::replica' } }],
+    },
+  });
+
+  // THEN
+  expect(stack).toHaveResourceLike('AWS::S3::Bucket', {
+    LifecycleConfiguration: {
+      Rules: [{ Status: 'Enabled', ExpirationInDays: 30 }],
+    },
+    ReplicationConfiguration: {
+      Role: 'arn:aws:iam::123456789012:role/Replication',
+      Rules: [{ Status: 'Enabled', Destination: { Bucket: 'arn:aws:s3:::replica' } }],
+    },
+    VersioningConfiguration: { Status: 'Enabled' },
+  });
+});
+
+/**
+ * The type, condition and policies of every resource in the template, by logical ID
+ */
+function resourceOutlines(template: any) {
+  const ret: { [logicalId: string]: any } = {};
+  for (const [logicalId, resource] of Object.entries<any>(template.Resources)) {
+    ret[logicalId] = {
+      Type: resource.Type,
+      Condition: resource.Condition,
+      DeletionPolicy: resource.DeletionPolicy,
+      UpdateReplacePolicy: resource.UpdateReplacePolicy,
+    };
+  }
+  return ret;
+}
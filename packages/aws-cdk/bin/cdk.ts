@@ -2,140 +2,77 @@
 import 'source-map-support/register';
 import * as cxapi from '@aws-cdk/cx-api';
 import * as colors from 'colors/safe';
-import * as yargs from 'yargs';
+import * as yargsInstance from 'yargs/yargs';
 
 import { ToolkitInfo, BootstrapSource, Bootstrapper } from '../lib';
 import { SdkProvider } from '../lib/api/aws-auth';
 import { CloudFormationDeployments } from '../lib/api/cloudformation-deployments';
 import { CloudExecutable } from '../lib/api/cxapp/cloud-executable';
 import { execProgram } from '../lib/api/cxapp/exec';
-import { StackActivityProgress } from '../lib/api/util/cloudformation/stack-activity-monitor';
+import { parseApprovalPolicy } from '../lib/approval-policy';
 import { CdkToolkit } from '../lib/cdk-toolkit';
-import { RequireApproval } from '../lib/diff';
-import { availableInitLanguages, cliInit, printAvailableTemplates } from '../lib/init';
+import { cliInit, printAvailableTemplates } from '../lib/init';
 import { data, debug, error, print, setLogLevel } from '../lib/logging';
+import { parseCommandLineArguments } from '../lib/parse-command-line-arguments';
 import { PluginHost } from '../lib/plugin';
 import { serializeStructure } from '../lib/serialize';
-import { Command, Configuration, Settings } from '../lib/settings';
+import { Command, Configuration } from '../lib/settings';
 import * as version from '../lib/version';
 
-/* eslint-disable max-len */
-/* eslint-disable @typescript-eslint/no-shadow */ // yargs
-
-async function parseCommandLineArguments() {
-  // Use the following configuration for array arguments:
-  //
-  //     { type: 'array', default: [], nargs: 1, requiresArg: true }
-  //
-  // The default behavior of yargs is to eat all strings following an array argument:
-  //
-  //   ./prog --arg one two positional  => will parse to { arg: ['one', 'two', 'positional'], _: [] } (so no positional arguments)
-  //   ./prog --arg one two -- positional  => does not help, for reasons that I can't understand. Still gets parsed incorrectly.
-  //
-  // By using the config above, every --arg will only consume one argument, so you can do the following:
-  //
-  //   ./prog --arg one --arg two position  =>  will parse to  { arg: ['one', 'two'], _: ['positional'] }.
-
-  const initTemplateLanuages = await availableInitLanguages();
-  return yargs
+if (!process.stdout.isTTY) {
+  colors.disable();
+}
+
+/**
+ * Load the plug-ins given in the configuration files and with --plugin
+ *
+ * This happens before the command line is parsed, so that the commands that
+ * plug-ins register are listed in the help. Only --plugin and --verbose are
+ * parsed here.
+ */
+async function loadPlugins() {
+  const pluginArgs = yargsInstance(process.argv.slice(2))
     .env('CDK')
-    .usage('Usage: cdk -a <cdk-app> COMMAND')
-    .option('app', { type: 'string', alias: 'a', desc: 'REQUIRED: command-line for executing your app or a cloud assembly directory (e.g. "node bin/my-app.js")', requiresArg: true })
-    .option('context', { type: 'array', alias: 'c', desc: 'Add contextual string parameter (KEY=VALUE)', nargs: 1, requiresArg: true })
-    .option('plugin', { type: 'array', alias: 'p', desc: 'Name or path of a node package that extend the CDK features. Can be specified multiple times', nargs: 1 })
-    .option('trace', { type: 'boolean', desc: 'Print trace for stack warnings' })
-    .option('strict', { type: 'boolean', desc: 'Do not construct stacks with warnings' })
-    .option('lookups', { type: 'boolean', desc: 'Perform context lookups (synthesis fails if this is disabled and context lookups need to be performed)', default: true })
-    .option('ignore-errors', { type: 'boolean', default: false, desc: 'Ignores synthesis errors, which will likely produce an invalid output' })
-    .option('json', { type: 'boolean', alias: 'j', desc: 'Use JSON output instead of YAML when templates are printed to STDOUT', default: false })
-    .option('verbose', { type: 'boolean', alias: 'v', desc: 'Show debug logs (specify multiple times to increase verbosity)', default: false })
+    .option('plugin', { type: 'array', alias: 'p', nargs: 1 })
+    .option('verbose', { type: 'boolean', alias: 'v', default: false })
     .count('verbose')
-    .option('debug', { type: 'boolean', desc: 'Enable emission of additional debugging information, such as creation stack traces of tokens', default: false })
-    .option('profile', { type: 'string', desc: 'Use the indicated AWS profile as the default environment', requiresArg: true })
-    .option('proxy', { type: 'string', desc: 'Use the indicated proxy. Will read from HTTPS_PROXY environment variable if not specified', requiresArg: true })
-    .option('ca-bundle-path', { type: 'string', desc: 'Path to CA certificate to use when validating HTTPS requests. Will read from AWS_CA_BUNDLE environment variable if not specified', requiresArg: true })
-    .option('ec2creds', { type: 'boolean', alias: 'i', default: undefined, desc: 'Force trying to fetch EC2 instance credentials. Default: guess EC2 instance status' })
-    .option('version-reporting', { type: 'boolean', desc: 'Include the "AWS::CDK::Metadata" resource in synthesized templates (enabled by default)', default: undefined })
-    .option('path-metadata', { type: 'boolean', desc: 'Include "aws:cdk:path" CloudFormation metadata for each resource (enabled by default)', default: true })
-    .option('asset-metadata', { type: 'boolean', desc: 'Include "aws:asset:*" CloudFormation metadata for resources that user assets (enabled by default)', default: true })
-    .option('role-arn', { type: 'string', alias: 'r', desc: 'ARN of Role to use when invoking CloudFormation', default: undefined, requiresArg: true })
-    .option('toolkit-stack-name', { type: 'string', desc: 'The name of the CDK toolkit stack', requiresArg: true })
-    .option('staging', { type: 'boolean', desc: 'Copy assets to the output directory (use --no-staging to disable, needed for local debugging the source files with SAM CLI)', default: true })
-    .option('output', { type: 'string', alias: 'o', desc: 'Emits the synthesized cloud assembly into a directory (default: cdk.out)', requiresArg: true })
-    .option('no-color', { type: 'boolean', desc: 'Removes colors and other style from console output', default: false })
-    .command(['list [STACKS..]', 'ls [STACKS..]'], 'Lists all stacks in the app', yargs => yargs
-      .option('long', { type: 'boolean', default: false, alias: 'l', desc: 'Display environment information for each stack' }),
-    )
-    .command(['synthesize [STACKS..]', 'synth [STACKS..]'], 'Synthesizes and prints the CloudFormation template for this stack', yargs => yargs
-      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only synthesize requested stacks, don\'t include dependencies' })
-      .option('quiet', { type: 'boolean', alias: 'q', desc: 'Do not output CloudFormation Template to stdout', default: false }))
-    .command('bootstrap [ENVIRONMENTS..]', 'Deploys the CDK toolkit stack into an AWS environment', yargs => yargs
-      .option('bootstrap-bucket-name', { type: 'string', alias: ['b', 'toolkit-bucket-name'], desc: 'The name of the CDK toolkit bucket; bucket will be created and must not exist', default: undefined })
-      .option('bootstrap-kms-key-id', { type: 'string', desc: 'AWS KMS master key ID used for the SSE-KMS encryption', default: undefined, conflicts: 'bootstrap-customer-key' })
-      .option('bootstrap-customer-key', { type: 'boolean', desc: 'Create a Customer Master Key (CMK) for the bootstrap bucket (you will be charged but can customize permissions, modern bootstrapping only)', default: undefined, conflicts: 'bootstrap-kms-key-id' })
-      .option('qualifier', { type: 'string', desc: 'Unique string to distinguish multiple bootstrap stacks', default: undefined })
-      .option('public-access-block-configuration', { type: 'boolean', desc: 'Block public access configuration on CDK toolkit bucket (enabled by default) ', default: undefined })
-      .option('tags', { type: 'array', alias: 't', desc: 'Tags to add for the stack (KEY=VALUE)', nargs: 1, requiresArg: true, default: [] })
-      .option('execute', { type: 'boolean', desc: 'Whether to execute ChangeSet (--no-execute will NOT execute the ChangeSet)', default: true })
-      .option('trust', { type: 'array', desc: 'The AWS account IDs that should be trusted to perform deployments into this environment (may be repeated, modern bootstrapping only)', default: [], nargs: 1, requiresArg: true })
-      .option('cloudformation-execution-policies', { type: 'array', desc: 'The Managed Policy ARNs that should be attached to the role performing deployments into this environment (may be repeated, modern bootstrapping only)', default: [], nargs: 1, requiresArg: true })
-      .option('force', { alias: 'f', type: 'boolean', desc: 'Always bootstrap even if it would downgrade template version', default: false })
-      .option('termination-protection', { type: 'boolean', default: undefined, desc: 'Toggle CloudFormation termination protection on the bootstrap stacks' })
-      .option('show-template', { type: 'boolean', desc: 'Instead of actual bootstrapping, print the current CLI\'s bootstrapping template to stdout for customization', default: false })
-      .option('template', { type: 'string', requiresArg: true, desc: 'Use the template from the given file instead of the built-in one (use --show-template to obtain an example)' }),
-    )
-    .command('deploy [STACKS..]', 'Deploys the stack(s) named STACKS into your AWS account', yargs => yargs
-      .option('all', { type: 'boolean', default: false, desc: 'Deploy all available stacks' })
-      .option('build-exclude', { type: 'array', alias: 'E', nargs: 1, desc: 'Do not rebuild asset with the given ID. Can be specified multiple times', default: [] })
-      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only deploy requested stacks, don\'t include dependencies' })
-      .option('require-approval', { type: 'string', choices: [RequireApproval.Never, RequireApproval.AnyChange, RequireApproval.Broadening], desc: 'What security-sensitive changes need manual approval' })
-      .option('ci', { type: 'boolean', desc: 'Force CI detection', default: process.env.CI !== undefined })
-      .option('notification-arns', { type: 'array', desc: 'ARNs of SNS topics that CloudFormation will notify with stack related events', nargs: 1, requiresArg: true })
-      // @deprecated(v2) -- tags are part of the Cloud Assembly and tags specified here will be overwritten on the next deployment
-      .option('tags', { type: 'array', alias: 't', desc: 'Tags to add to the stack (KEY=VALUE), overrides tags from Cloud Assembly (deprecated)', nargs: 1, requiresArg: true })
-      .option('execute', { type: 'boolean', desc: 'Whether to execute ChangeSet (--no-execute will NOT execute the ChangeSet)', default: true })
-      .option('change-set-name', { type: 'string', desc: 'Name of the CloudFormation change set to create' })
-      .option('force', { alias: 'f', type: 'boolean', desc: 'Always deploy stack even if templates are identical', default: false })
-      .option('parameters', { type: 'array', desc: 'Additional parameters passed to CloudFormation at deploy time (STACK:KEY=VALUE)', nargs: 1, requiresArg: true, default: {} })
-      .option('outputs-file', { type: 'string', alias: 'O', desc: 'Path to file where stack outputs will be written as JSON', requiresArg: true })
-      .option('previous-parameters', { type: 'boolean', default: true, desc: 'Use previous values for existing parameters (you must specify all parameters on every deployment if this is disabled)' })
-      .option('progress', { type: 'string', choices: [StackActivityProgress.BAR, StackActivityProgress.EVENTS], desc: 'Display mode for stack activity events' }),
-    )
-    .command('destroy [STACKS..]', 'Destroy the stack(s) named STACKS', yargs => yargs
-      .option('all', { type: 'boolean', default: false, desc: 'Destroy all available stacks' })
-      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only destroy requested stacks, don\'t include dependees' })
-      .option('force', { type: 'boolean', alias: 'f', desc: 'Do not ask for confirmation before destroying the stacks' }))
-    .command('diff [STACKS..]', 'Compares the specified stack with the deployed stack or a local template file, and returns with status 1 if any difference is found', yargs => yargs
-      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only diff requested stacks, don\'t include dependencies' })
-      .option('context-lines', { type: 'number', desc: 'Number of context lines to include in arbitrary JSON diff rendering', default: 3, requiresArg: true })
-      .option('template', { type: 'string', desc: 'The path to the CloudFormation template to compare with', requiresArg: true })
-      .option('strict', { type: 'boolean', desc: 'Do not filter out AWS::CDK::Metadata resources', default: false }))
-    .option('fail', { type: 'boolean', desc: 'Fail with exit code 1 in case of diff', default: false })
-    .command('metadata [STACK]', 'Returns all metadata associated with this stack')
-    .command('init [TEMPLATE]', 'Create a new, empty CDK project from a template.', yargs => yargs
-      .option('language', { type: 'string', alias: 'l', desc: 'The language to be used for the new project (default can be configured in ~/.cdk.json)', choices: initTemplateLanuages })
-      .option('list', { type: 'boolean', desc: 'List the available templates' })
-      .option('generate-only', { type: 'boolean', default: false, desc: 'If true, only generates project files, without executing additional operations such as setting up a git repo, installing dependencies or compiling the project' }),
-    )
-    .commandDir('../lib/commands', { exclude: /^_.*/ })
-    .version(version.DISPLAY_VERSION)
-    .demandCommand(1, '') // just print help
-    .recommendCommands()
-    .help()
-    .alias('h', 'help')
-    .epilogue([
-      'If your app has a single stack, there is no need to specify the stack name',
-      'If one of cdk.json or ~/.cdk.json exists, options specified there will be used as defaults. Settings in cdk.json take precedence.',
-    ].join('\n\n'))
+    .help(false)
+    .version(false)
     .argv;
-}
+  if (pluginArgs.verbose) {
+    setLogLevel(pluginArgs.verbose);
+  }
 
-if (!process.stdout.isTTY) {
-  colors.disable();
+  const configuration = await new Configuration({
+    commandLineArguments: {
+      _: pluginArgs._ as [Command, ...string[]],
+      plugin: pluginArgs.plugin,
+    },
+  }).load();
+
+  const loaded = new Set<string>();
+  const plugins: string[] = configuration.settings.get(['plugin']) || [];
+  for (const plugin of plugins) {
+    const resolved = tryResolve(plugin);
+    if (loaded.has(resolved)) { continue; }
+    debug(`Loading plug-in: ${colors.green(plugin)} from ${colors.blue(resolved)}`);
+    PluginHost.instance.load(plugin);
+    loaded.add(resolved);
+  }
+
+  function tryResolve(plugin: string): string {
+    try {
+      return require.resolve(plugin);
+    } catch (e) {
+      error(`Unable to resolve plugin ${colors.green(plugin)}: ${e.stack}`);
+      throw new Error(`Unable to resolve plug-in: ${plugin}`);
+    }
+  }
 }
 
 async function initCommandLine() {
-  const argv = await parseCommandLineArguments();
+  await loadPlugins();
+  const argv = await parseCommandLineArguments(process.argv.slice(2));
   if (argv.verbose) {
     setLogLevel(argv.verbose);
   }
@@ -167,32 +104,6 @@ async function initCommandLine() {
     synthesizer: execProgram,
   });
 
-  /** Function to load plug-ins, using configurations additively. */
-  function loadPlugins(...settings: Settings[]) {
-    const loaded = new Set<string>();
-    for (const source of settings) {
-      const plugins: string[] = source.get(['plugin']) || [];
-      for (const plugin of plugins) {
-        const resolved = tryResolve(plugin);
-        if (loaded.has(resolved)) { continue; }
-        debug(`Loading plug-in: ${colors.green(plugin)} from ${colors.blue(resolved)}`);
-        PluginHost.instance.load(plugin);
-        loaded.add(resolved);
-      }
-    }
-
-    function tryResolve(plugin: string): string {
-      try {
-        return require.resolve(plugin);
-      } catch (e) {
-        error(`Unable to resolve plugin ${colors.green(plugin)}: ${e.stack}`);
-        throw new Error(`Unable to resolve plug-in: ${plugin}`);
-      }
-    }
-  }
-
-  loadPlugins(configuration.settings);
-
   const cmd = argv._[0];
 
   if (typeof(cmd) !== 'string') {
@@ -229,6 +140,7 @@ async function initCommandLine() {
     args.ENVIRONMENTS = args.ENVIRONMENTS || [];
 
     const stacks = (args.all) ? ['*'] : args.STACKS;
+    const stackFilter = { withTags: args.withTag, exclude: args.exclude };
     const cli = new CdkToolkit({
       cloudExecutable,
       cloudFormation,
@@ -242,20 +154,41 @@ async function initCommandLine() {
     switch (command) {
       case 'ls':
       case 'list':
-        return cli.list(args.STACKS, { long: args.long });
+        return cli.list(args.STACKS, { long: args.long, json: args.json, graph: args.graph, stackFilter });
 
       case 'diff':
         const enableDiffNoFail = isFeatureEnabled(configuration, cxapi.ENABLE_DIFF_NO_FAIL);
         return cli.diff({
           stackNames: args.STACKS,
           exclusively: args.exclusively,
+          stackFilter,
           templatePath: args.template,
           strict: args.strict,
           contextLines: args.contextLines,
           fail: args.fail || !enableDiffNoFail,
+          json: args.json,
+          changeSet: args.changeSet,
+        });
+
+      case 'drift':
+        return cli.drift({
+          stackNames: args.STACKS,
+          exclusively: args.exclusively,
+          fail: args.fail,
+        });
+
+      case 'refactor':
+        return cli.refactor({
+          stackNames: args.STACKS,
+          exclusively: args.exclusively,
+          record: args.record,
         });
 
       case 'bootstrap':
+        if (args.status) {
+          return cli.bootstrapStatus(args.ENVIRONMENTS, { toolkitStackName });
+        }
+
         // Use new bootstrapping if it's requested via environment variable, or if
         // new style stack synthesis has been configured in `cdk.json`.
         //
@@ -267,6 +200,10 @@ async function initCommandLine() {
         if (args.template) {
           print(`Using bootstrapping template from ${args.template}`);
           source = { source: 'custom', templateFile: args.template };
+        } else if (args.fromApp) {
+          const bootstrapStack = await cli.bootstrapStackFromApp();
+          print(`Using the bootstrap stack ${bootstrapStack.displayName} defined in the app`);
+          source = { source: 'custom', templateFile: bootstrapStack.templateFullPath };
         } else if (process.env.CDK_NEW_BOOTSTRAP) {
           print('CDK_NEW_BOOTSTRAP set, using new-style bootstrapping');
           source = { source: 'default' };
@@ -299,6 +236,15 @@ async function initCommandLine() {
           },
         });
 
+      case 'gc':
+        return cli.garbageCollect(args.ENVIRONMENTS, {
+          action: args.action,
+          type: args.type,
+          gracePeriodDays: args.gracePeriod,
+          toolkitStackName: toolkitStackName,
+          force: args.force,
+        });
+
       case 'deploy':
         const parameterMap: { [name: string]: string | undefined } = {};
         for (const parameter of args.parameters) {
@@ -310,10 +256,13 @@ async function initCommandLine() {
         return cli.deploy({
           stackNames: stacks,
           exclusively: args.exclusively,
+          stackFilter,
           toolkitStackName,
           roleArn: args.roleArn,
           notificationArns: args.notificationArns,
           requireApproval: configuration.settings.get(['requireApproval']),
+          approvalPolicy: parseApprovalPolicy(configuration.settings.get(['approvalPolicy'])),
+          approvePolicyChanges: args.approvePolicyChanges,
           reuseAssets: args['build-exclude'],
           tags: configuration.settings.get(['tags']),
           execute: args.execute,
@@ -324,34 +273,83 @@ async function initCommandLine() {
           outputsFile: args.outputsFile,
           progress: configuration.settings.get(['progress']),
           ci: args.ci,
+          concurrency: args.concurrency,
+          continueOnError: args.continueOnError,
+          hotswap: args.hotswap,
+          rollback: args.rollback,
+        });
+
+      case 'watch':
+        return cli.watch({
+          stackNames: stacks,
+          exclusively: args.exclusively,
+          toolkitStackName,
+          roleArn: args.roleArn,
+          requireApproval: configuration.settings.get(['requireApproval']),
+          approvalPolicy: parseApprovalPolicy(configuration.settings.get(['approvalPolicy'])),
+          reuseAssets: args['build-exclude'],
+          changeSetName: args.changeSetName,
+          force: args.force,
+          progress: configuration.settings.get(['progress']),
+          concurrency: args.concurrency,
+          hotswap: args.hotswap,
+        });
+
+      case 'import':
+        return cli.import({
+          stackName: args.STACK,
+          toolkitStackName,
+          roleArn: args.roleArn,
+          tags: configuration.settings.get(['tags']),
+          execute: args.execute,
+          changeSetName: args.changeSetName,
+          progress: configuration.settings.get(['progress']),
+          resourceMappingFile: args.resourceMapping,
+          recordResourceMapping: args.recordResourceMapping,
+        });
+
+      case 'rollback':
+        return cli.rollback({
+          stackName: args.STACK,
+          roleArn: args.roleArn,
         });
 
       case 'destroy':
         return cli.destroy({
           stackNames: stacks,
           exclusively: args.exclusively,
+          stackFilter,
           force: args.force,
           roleArn: args.roleArn,
         });
 
       case 'synthesize':
       case 'synth':
-        return cli.synth(args.STACKS, args.exclusively, args.quiet);
+        return cli.synth(args.STACKS, args.exclusively, args.quiet, stackFilter);
 
       case 'metadata':
         return cli.metadata(args.STACK);
 
       case 'init':
         const language = configuration.settings.get(['language']);
+        const templateSources = configuration.settings.get(['initTemplateSources']);
         if (args.list) {
-          return printAvailableTemplates(language);
+          return printAvailableTemplates(language, templateSources);
         } else {
-          return cliInit(args.TEMPLATE, language, undefined, args.generateOnly);
+          return cliInit(args.TEMPLATE, language, undefined, args.generateOnly, undefined, {
+            fromPath: args.fromPath,
+            fromGitUrl: args.fromGitUrl,
+            templateSources,
+          });
         }
       case 'version':
         return data(version.DISPLAY_VERSION);
 
       default:
+        const pluginCommand = PluginHost.instance.findCommand(command);
+        if (pluginCommand) {
+          return pluginCommand.handler(commandOptions);
+        }
         throw new Error('Unknown command: ' + command);
     }
   }
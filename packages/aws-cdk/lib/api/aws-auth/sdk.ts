@@ -26,10 +26,19 @@ export interface ISDK {
   cloudFormation(): AWS.CloudFormation;
   ec2(): AWS.EC2;
   ssm(): AWS.SSM;
-  s3(): AWS.S3;
+  /**
+   * @param endpointUrl send requests to this S3-compatible endpoint instead of Amazon S3
+   */
+  s3(endpointUrl?: string): AWS.S3;
   route53(): AWS.Route53;
   ecr(): AWS.ECR;
   elbv2(): AWS.ELBv2;
+  lambda(): AWS.Lambda;
+  stepFunctions(): AWS.StepFunctions;
+  ecs(): AWS.ECS;
+  kms(): AWS.KMS;
+  secretsManager(): AWS.SecretsManager;
+  rds(): AWS.RDS;
 }
 
 /**
@@ -98,8 +107,12 @@ export class SDK implements ISDK {
     return this.wrapServiceErrorHandling(new AWS.SSM(this.config));
   }
 
-  public s3(): AWS.S3 {
-    return this.wrapServiceErrorHandling(new AWS.S3(this.config));
+  public s3(endpointUrl?: string): AWS.S3 {
+    return this.wrapServiceErrorHandling(new AWS.S3({
+      ...this.config,
+      // S3-compatible object stores generally do not support virtual-hosted-style bucket addressing
+      ...endpointUrl ? { endpoint: endpointUrl, s3ForcePathStyle: true } : {},
+    }));
   }
 
   public route53(): AWS.Route53 {
@@ -114,6 +127,30 @@ export class SDK implements ISDK {
     return this.wrapServiceErrorHandling(new AWS.ELBv2(this.config));
   }
 
+  public lambda(): AWS.Lambda {
+    return this.wrapServiceErrorHandling(new AWS.Lambda(this.config));
+  }
+
+  public stepFunctions(): AWS.StepFunctions {
+    return this.wrapServiceErrorHandling(new AWS.StepFunctions(this.config));
+  }
+
+  public ecs(): AWS.ECS {
+    return this.wrapServiceErrorHandling(new AWS.ECS(this.config));
+  }
+
+  public kms(): AWS.KMS {
+    return this.wrapServiceErrorHandling(new AWS.KMS(this.config));
+  }
+
+  public secretsManager(): AWS.SecretsManager {
+    return this.wrapServiceErrorHandling(new AWS.SecretsManager(this.config));
+  }
+
+  public rds(): AWS.RDS {
+    return this.wrapServiceErrorHandling(new AWS.RDS(this.config));
+  }
+
   public async currentAccount(): Promise<Account> {
     // Get/refresh if necessary before we can access `accessKeyId`
     await this.forceCredentialRetrieval();
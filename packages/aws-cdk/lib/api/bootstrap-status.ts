@@ -0,0 +1,251 @@
+import * as cxapi from '@aws-cdk/cx-api';
+import * as colors from 'colors/safe';
+import { print } from '../logging';
+import { ISDK, Mode, SdkProvider } from './aws-auth';
+import { ToolkitInfo } from './toolkit-info';
+
+/**
+ * The resource types of the bootstrap stack that deployments depend on
+ */
+const REPORTED_RESOURCE_TYPES = ['AWS::IAM::Role', 'AWS::S3::Bucket', 'AWS::ECR::Repository'];
+
+/**
+ * The qualifier is part of the names of the roles that the default stack synthesizer uses
+ */
+const QUALIFIER_FROM_ROLE_ARN_REGEX = /:role\/cdk-(.+?)-deploy-role-/;
+
+export interface BootstrapStatusProps {
+  readonly sdkProvider: SdkProvider;
+
+  /**
+   * The environment to inspect
+   */
+  readonly environment: cxapi.Environment;
+
+  /**
+   * Name of the bootstrap stack
+   *
+   * @default - the default toolkit stack name
+   */
+  readonly toolkitStackName?: string;
+
+  /**
+   * Stacks of the app; the ones that are deployed to the environment are checked against its bootstrap stack
+   *
+   * @default - no stacks are checked
+   */
+  readonly stacks?: cxapi.CloudFormationStackArtifact[];
+}
+
+/**
+ * A role, bucket or repository of the bootstrap stack
+ */
+export interface BootstrapResourceStatus {
+  readonly logicalId: string;
+  readonly type: string;
+  readonly physicalId?: string;
+
+  /**
+   * Whether the resource exists
+   *
+   * Roles are taken to exist if CloudFormation reports them as such, the bucket and
+   * repository are looked up.
+   */
+  readonly exists: boolean;
+}
+
+/**
+ * How a stack of the app fares against the bootstrap stack of its environment
+ */
+export interface StackBootstrapStatus {
+  readonly stackName: string;
+
+  /**
+   * The bootstrap stack version the stack requires, if any
+   */
+  readonly requiredVersion?: number;
+
+  /**
+   * The qualifier of the roles the stack deploys with, if it uses them
+   */
+  readonly qualifier?: string;
+
+  /**
+   * Why the stack cannot be deployed to the environment, if it cannot
+   */
+  readonly problems: string[];
+}
+
+/**
+ * The bootstrap state of one environment
+ */
+export interface BootstrapStatus {
+  readonly environment: cxapi.Environment;
+  readonly toolkitStackName: string;
+  readonly bootstrapped: boolean;
+
+  /**
+   * The version of the bootstrap stack, 0 for legacy bootstrap stacks
+   */
+  readonly version?: number;
+
+  /**
+   * The qualifier the environment was bootstrapped with, absent for legacy bootstrap stacks
+   */
+  readonly qualifier?: string;
+
+  readonly trustedAccounts: string[];
+  readonly cloudFormationExecutionPolicies: string[];
+  readonly resources: BootstrapResourceStatus[];
+  readonly stacks: StackBootstrapStatus[];
+}
+
+/**
+ * Inspect the bootstrap stack of an environment, and check the stacks of the app that are deployed to it against it
+ */
+export async function bootstrapStatus(props: BootstrapStatusProps): Promise<BootstrapStatus> {
+  const environment = await props.sdkProvider.resolveEnvironment(props.environment);
+  const sdk = await props.sdkProvider.forEnvironment(environment, Mode.ForReading);
+  const toolkitStackName = ToolkitInfo.determineName(props.toolkitStackName);
+  const toolkitInfo = await ToolkitInfo.lookup(environment, sdk, toolkitStackName);
+
+  const parameters = toolkitInfo.found ? toolkitInfo.bootstrapStack.parameters : {};
+  const status = {
+    environment,
+    toolkitStackName,
+    bootstrapped: toolkitInfo.found,
+    version: toolkitInfo.found ? toolkitInfo.version : undefined,
+    qualifier: parameters.Qualifier,
+    trustedAccounts: splitListParameter(parameters.TrustedAccounts),
+    cloudFormationExecutionPolicies: splitListParameter(parameters.CloudFormationExecutionPolicies),
+    resources: toolkitInfo.found ? await bootstrapResources(sdk, toolkitStackName) : [],
+  };
+
+  const stacks = new Array<StackBootstrapStatus>();
+  for (const stack of props.stacks ?? []) {
+    const stackEnvironment = await props.sdkProvider.resolveEnvironment(stack.environment);
+    if (stackEnvironment.name === environment.name) {
+      stacks.push(stackStatus(stack, status));
+    }
+  }
+
+  return { ...status, stacks };
+}
+
+/**
+ * Whether anything in the environment keeps stacks from being deployed to it
+ */
+export function bootstrapStatusHasProblems(status: BootstrapStatus): boolean {
+  return status.resources.some(r => !r.exists) || status.stacks.some(s => s.problems.length > 0);
+}
+
+/**
+ * Print a report of the bootstrap state of an environment
+ */
+export function printBootstrapStatus(status: BootstrapStatus) {
+  print('%s', colors.bold(status.environment.name));
+  if (!status.bootstrapped) {
+    print('  Not bootstrapped (no stack named %s)', colors.blue(status.toolkitStackName));
+  } else {
+    print('  Bootstrap stack:     %s', colors.blue(status.toolkitStackName));
+    print('  Version:             %s', status.version);
+    print('  Qualifier:           %s', status.qualifier ?? '(none, legacy bootstrap stack)');
+    print('  Trusted accounts:    %s', formatList(status.trustedAccounts));
+    print('  Execution policies:  %s', formatList(status.cloudFormationExecutionPolicies));
+    for (const resource of status.resources) {
+      print('  %s %s (%s): %s',
+        resource.exists ? colors.green('✔') : colors.red('✘'),
+        resource.logicalId,
+        resource.type,
+        resource.exists ? resource.physicalId : colors.red('missing'));
+    }
+  }
+
+  for (const stack of status.stacks) {
+    const requirement = stack.requiredVersion !== undefined ? `requires version ${stack.requiredVersion}` : 'has no version requirement';
+    if (stack.problems.length === 0) {
+      print('  %s Stack %s %s', colors.green('✔'), colors.bold(stack.stackName), requirement);
+    } else {
+      print('  %s Stack %s %s: %s', colors.red('✘'), colors.bold(stack.stackName), requirement, colors.red(stack.problems.join('; ')));
+    }
+  }
+}
+
+/**
+ * The roles, bucket and repository of the bootstrap stack
+ */
+async function bootstrapResources(sdk: ISDK, toolkitStackName: string): Promise<BootstrapResourceStatus[]> {
+  const cfn = sdk.cloudFormation();
+  const ret = new Array<BootstrapResourceStatus>();
+
+  let nextToken: string | undefined;
+  do {
+    const response = await cfn.listStackResources({ StackName: toolkitStackName, NextToken: nextToken }).promise();
+    for (const resource of response.StackResourceSummaries ?? []) {
+      if (!REPORTED_RESOURCE_TYPES.includes(resource.ResourceType)) { continue; }
+
+      const physicalId = resource.PhysicalResourceId;
+      ret.push({
+        logicalId: resource.LogicalResourceId,
+        type: resource.ResourceType,
+        physicalId,
+        exists: physicalId !== undefined && !resource.ResourceStatus.startsWith('DELETE_') && await resourceExists(sdk, resource.ResourceType, physicalId),
+      });
+    }
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return ret;
+}
+
+/**
+ * Whether the bucket or repository still exists, or may have been deleted outside of CloudFormation
+ */
+async function resourceExists(sdk: ISDK, type: string, physicalId: string): Promise<boolean> {
+  try {
+    switch (type) {
+      case 'AWS::S3::Bucket':
+        await sdk.s3().headBucket({ Bucket: physicalId }).promise();
+        break;
+      case 'AWS::ECR::Repository':
+        await sdk.ecr().describeRepositories({ repositoryNames: [physicalId] }).promise();
+        break;
+    }
+    return true;
+  } catch (e) {
+    if (e.code === 'NotFound' || e.code === 'NoSuchBucket' || e.code === 'RepositoryNotFoundException') {
+      return false;
+    }
+    throw e;
+  }
+}
+
+function stackStatus(stack: cxapi.CloudFormationStackArtifact, status: Omit<BootstrapStatus, 'stacks'>): StackBootstrapStatus {
+  const requiredVersion = stack.requiresBootstrapStackVersion;
+  const qualifier = stack.assumeRoleArn?.match(QUALIFIER_FROM_ROLE_ARN_REGEX)?.[1];
+  const problems = new Array<string>();
+
+  if (requiredVersion !== undefined) {
+    if (!status.bootstrapped) {
+      problems.push('the environment is not bootstrapped');
+    } else if ((status.version ?? 0) < requiredVersion) {
+      problems.push(`the environment has version ${status.version}; run 'cdk bootstrap' to upgrade it`);
+    }
+  }
+  if (status.bootstrapped && qualifier !== undefined && qualifier !== status.qualifier) {
+    problems.push(`the stack uses qualifier '${qualifier}', but the environment was bootstrapped with ${status.qualifier ? `qualifier '${status.qualifier}'` : 'no qualifier'}`);
+  }
+
+  return { stackName: stack.displayName, requiredVersion, qualifier, problems };
+}
+
+/**
+ * List parameters are passed to the bootstrap template as comma-separated strings
+ */
+function splitListParameter(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(x => x.trim()).filter(x => x !== '');
+}
+
+function formatList(xs: string[]) {
+  return xs.length > 0 ? xs.join(', ') : '(none)';
+}
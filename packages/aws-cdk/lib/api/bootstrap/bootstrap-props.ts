@@ -5,6 +5,8 @@ export const BUCKET_NAME_OUTPUT = 'BucketName';
 /** @experimental */
 export const REPOSITORY_NAME_OUTPUT = 'RepositoryName';
 /** @experimental */
+export const IMAGE_REPOSITORY_NAME_OUTPUT = 'ImageRepositoryName';
+/** @experimental */
 export const BUCKET_DOMAIN_NAME_OUTPUT = 'BucketDomainName';
 /** @experimental */
 export const BOOTSTRAP_VERSION_OUTPUT = 'BootstrapVersion';
@@ -1,12 +1,14 @@
 import * as cxapi from '@aws-cdk/cx-api';
+import { CloudFormation } from 'aws-sdk';
 import { AssetManifest } from 'cdk-assets';
 import { Tag } from '../cdk-toolkit';
 import { debug } from '../logging';
 import { publishAssets } from '../util/asset-publishing';
 import { Mode, SdkProvider } from './aws-auth';
-import { deployStack, DeployStackResult, destroyStack } from './deploy-stack';
+import { deployStack, DeployStackResult, destroyStack, makeBodyParameterAndUpload, ResourcesToImport, rollbackStack } from './deploy-stack';
+import { hasNestedStacks, loadNestedStackTemplates, NestedStackTemplates } from './nested-stacks';
 import { ToolkitInfo } from './toolkit-info';
-import { CloudFormationStack, Template } from './util/cloudformation';
+import { CloudFormationStack, describeChangeSetChanges, detectStackDrift, Template, TemplateParameters } from './util/cloudformation';
 import { StackActivityProgress } from './util/cloudformation/stack-activity-monitor';
 
 export interface DeployStackOptions {
@@ -110,6 +112,34 @@ export interface DeployStackOptions {
    * @default false
    */
   readonly ci?: boolean;
+
+  /**
+   * Whether other stacks are being deployed at the same time
+   *
+   * @default false
+   */
+  readonly concurrent?: boolean;
+
+  /**
+   * Whether to update changed resources directly through their service APIs instead of CloudFormation
+   *
+   * @default false
+   */
+  readonly hotswap?: boolean;
+
+  /**
+   * Existing resources to adopt into the stack
+   *
+   * @default - no resources are imported
+   */
+  readonly resourcesToImport?: ResourcesToImport;
+
+  /**
+   * Whether CloudFormation rolls back the stack if the deployment fails
+   *
+   * @default true
+   */
+  readonly rollback?: boolean;
 }
 
 export interface DestroyStackOptions {
@@ -120,6 +150,13 @@ export interface DestroyStackOptions {
   force?: boolean;
 }
 
+export interface RollbackStackOptions {
+  stack: cxapi.CloudFormationStackArtifact;
+  deployName?: string;
+  roleArn?: string;
+  quiet?: boolean;
+}
+
 export interface StackExistsOptions {
   stack: cxapi.CloudFormationStackArtifact;
   deployName?: string;
@@ -151,6 +188,95 @@ export class CloudFormationDeployments {
     return stack.template();
   }
 
+  /**
+   * Read the generated and deployed templates of the stacks nested in the stack, by logical ID
+   */
+  public async readCurrentNestedStackTemplates(
+    stackArtifact: cxapi.CloudFormationStackArtifact): Promise<{ [logicalId: string]: NestedStackTemplates }> {
+    if (!hasNestedStacks(stackArtifact.template)) { return {}; }
+
+    debug(`Reading existing templates of the nested stacks of ${stackArtifact.displayName}.`);
+    const { stackSdk } = await this.prepareSdkFor(stackArtifact, undefined, Mode.ForReading);
+    const cfn = stackSdk.cloudFormation();
+
+    const stack = await CloudFormationStack.lookup(cfn, stackArtifact.stackName);
+    return loadNestedStackTemplates(cfn, stackArtifact.assembly.directory, stackArtifact.template, stack.exists ? stack.stackId : undefined);
+  }
+
+  /**
+   * Run drift detection on the deployed stack, and return the drift of each of its resources
+   */
+  public async detectStackDrift(stackArtifact: cxapi.CloudFormationStackArtifact): Promise<CloudFormation.StackResourceDrift[]> {
+    debug(`Detecting drift of stack ${stackArtifact.displayName}.`);
+    const { stackSdk } = await this.prepareSdkFor(stackArtifact, undefined, Mode.ForReading);
+    return detectStackDrift(stackSdk.cloudFormation(), stackArtifact.stackName);
+  }
+
+  /**
+   * Return the resource types in the stack's template that can be imported, with the properties that identify them
+   */
+  public async resourceIdentifierSummaries(
+    stackArtifact: cxapi.CloudFormationStackArtifact,
+    toolkitStackName?: string): Promise<CloudFormation.ResourceIdentifierSummaries> {
+    debug(`Retrieving template summary for stack ${stackArtifact.displayName}.`);
+    // Needs the deploy role, since the template may have to be read from the staging bucket
+    const { stackSdk, resolvedEnvironment } = await this.prepareSdkFor(stackArtifact);
+    const toolkitInfo = await ToolkitInfo.lookup(resolvedEnvironment, stackSdk, toolkitStackName);
+
+    // The template may be one of the stack's assets, so publish those first
+    await this.publishStackAssets(stackArtifact, toolkitInfo);
+    const bodyParameter = await makeBodyParameterAndUpload(stackArtifact, resolvedEnvironment, toolkitInfo, this.sdkProvider);
+
+    const response = await stackSdk.cloudFormation().getTemplateSummary(bodyParameter).promise();
+    return response.ResourceIdentifierSummaries ?? [];
+  }
+
+  /**
+   * Return the changes CloudFormation would make to the deployed stack, by creating a change set
+   *
+   * The change set uses the current parameter values of the stack, and is
+   * deleted again afterwards. Returns `undefined` if the stack does not exist.
+   */
+  public async describeStackChanges(
+    stackArtifact: cxapi.CloudFormationStackArtifact,
+    toolkitStackName?: string): Promise<CloudFormation.Changes | undefined> {
+    debug(`Creating change set to describe the changes to stack ${stackArtifact.displayName}.`);
+    const { stackSdk, resolvedEnvironment, cloudFormationRoleArn } = await this.prepareSdkFor(stackArtifact);
+    const cfn = stackSdk.cloudFormation();
+
+    const cloudFormationStack = await CloudFormationStack.lookup(cfn, stackArtifact.stackName);
+    if (!cloudFormationStack.exists) {
+      return undefined;
+    }
+
+    const toolkitInfo = await ToolkitInfo.lookup(resolvedEnvironment, stackSdk, toolkitStackName);
+    await this.publishStackAssets(stackArtifact, toolkitInfo);
+    const bodyParameter = await makeBodyParameterAndUpload(stackArtifact, resolvedEnvironment, toolkitInfo, this.sdkProvider);
+    const parameters = TemplateParameters.fromTemplate(stackArtifact.template).updateExisting({}, cloudFormationStack.parameters);
+
+    // Remove a change set that may have been left behind by an interrupted diff
+    const changeSetName = 'cdk-diff-change-set';
+    await cfn.deleteChangeSet({ StackName: stackArtifact.stackName, ChangeSetName: changeSetName }).promise();
+
+    await cfn.createChangeSet({
+      StackName: stackArtifact.stackName,
+      ChangeSetName: changeSetName,
+      ChangeSetType: 'UPDATE',
+      Description: 'CDK Changeset for diff',
+      TemplateBody: bodyParameter.TemplateBody,
+      TemplateURL: bodyParameter.TemplateURL,
+      Parameters: parameters.apiParameters,
+      RoleARN: cloudFormationRoleArn,
+      Capabilities: ['CAPABILITY_IAM', 'CAPABILITY_NAMED_IAM', 'CAPABILITY_AUTO_EXPAND'],
+    }).promise();
+    try {
+      return await describeChangeSetChanges(cfn, stackArtifact.stackName, changeSetName);
+    } finally {
+      debug(`Removing change set ${changeSetName} of stack ${stackArtifact.displayName}`);
+      await cfn.deleteChangeSet({ StackName: stackArtifact.stackName, ChangeSetName: changeSetName }).promise();
+    }
+  }
+
   public async deployStack(options: DeployStackOptions): Promise<DeployStackResult> {
     const { stackSdk, resolvedEnvironment, cloudFormationRoleArn } = await this.prepareSdkFor(options.stack, options.roleArn);
 
@@ -185,6 +311,22 @@ export class CloudFormationDeployments {
       usePreviousParameters: options.usePreviousParameters,
       progress: options.progress,
       ci: options.ci,
+      concurrent: options.concurrent,
+      hotswap: options.hotswap,
+      resourcesToImport: options.resourcesToImport,
+      rollback: options.rollback,
+    });
+  }
+
+  public async rollbackStack(options: RollbackStackOptions): Promise<void> {
+    const { stackSdk, cloudFormationRoleArn: roleArn } = await this.prepareSdkFor(options.stack, options.roleArn);
+
+    return rollbackStack({
+      sdk: stackSdk,
+      roleArn,
+      stack: options.stack,
+      deployName: options.deployName,
+      quiet: options.quiet,
     });
   }
 
@@ -21,7 +21,32 @@ export enum DefaultSelection {
   AllStacks = 'all',
 }
 
-export interface SelectStacksOptions {
+/**
+ * Criteria that narrow down a stack selection, in addition to the stack patterns
+ */
+export interface StackFilter {
+  /**
+   * Only select stacks that have all of these tags, given as `KEY` or `KEY=VALUE`
+   *
+   * If no stack patterns are given, the stacks are selected from all stacks,
+   * including the stacks in stages.
+   *
+   * @default - the tags of the stacks are not considered
+   */
+  withTags?: string[];
+
+  /**
+   * Do not select stacks that match any of these patterns
+   *
+   * Applied after the selection has been extended with dependencies. Without stack
+   * patterns or tags, the stacks are excluded from the default selection.
+   *
+   * @default - no stacks are excluded
+   */
+  exclude?: string[];
+}
+
+export interface SelectStacksOptions extends StackFilter {
   /**
    * Extend the selection to upstread/downstream stacks
    * @default ExtendedStackSelection.None only select the specified stacks.
@@ -72,40 +97,30 @@ export class CloudAssembly {
     selectors = [...new Set(selectors)]; // make them unique
 
     const stacks = this.assembly.stacks;
-    if (stacks.length === 0) {
+    const allStacks = this.stacksRecursively();
+    if (allStacks.size === 0) {
       throw new Error('This app contains no stacks');
     }
 
-    if (selectors.length === 0) {
-      switch (options.defaultBehavior) {
-        case DefaultSelection.AllStacks:
-          return new StackCollection(this, stacks);
-        case DefaultSelection.None:
-          return new StackCollection(this, []);
-        case DefaultSelection.OnlySingle:
-          if (stacks.length === 1) {
-            return new StackCollection(this, stacks);
-          } else {
-            throw new Error('Since this app includes more than a single stack, specify which stacks to use (wildcards are supported) or specify `--all`\n' +
-              `Stacks: ${stacks.map(x => x.id).join(' ')}`);
-          }
-        default:
-          throw new Error(`invalid default behavior: ${options.defaultBehavior}`);
-      }
-    }
-
-    const allStacks = new Map<string, cxapi.CloudFormationStackArtifact>();
-    for (const stack of stacks) {
-      allStacks.set(stack.id, stack);
+    const withTags = options.withTags ?? [];
+    const exclude = options.exclude ?? [];
+    if (selectors.length === 0 && withTags.length === 0) {
+      // exclusions alone don't select stacks: they narrow down the default selection
+      const defaultStacks = selectDefaultStacks(stacks, options.defaultBehavior);
+      return new StackCollection(this, defaultStacks.filter(stack => !exclude.some(pattern => minimatch(stack.id, pattern))));
     }
 
-    // For every selector argument, pick stacks from the list.
+    // For every selector argument, pick stacks from the list. Without
+    // selectors, the tags are matched against all stacks, including those in stages.
     const selectedStacks = new Map<string, cxapi.CloudFormationStackArtifact>();
+    if (selectors.length === 0) {
+      allStacks.forEach(stack => selectedStacks.set(stack.id, stack));
+    }
     for (const pattern of selectors) {
       let found = false;
 
-      for (const stack of stacks) {
-        if (minimatch(stack.id, pattern) && !selectedStacks.has(stack.id)) {
+      for (const [hierarchicalId, stack] of allStacks) {
+        if (minimatch(hierarchicalId, pattern) && !selectedStacks.has(stack.id)) {
           selectedStacks.set(stack.id, stack);
           found = true;
         }
@@ -116,22 +131,61 @@ export class CloudAssembly {
       }
     }
 
+    if (withTags.length > 0) {
+      for (const [id, stack] of selectedStacks) {
+        if (!withTags.every(tag => hasTag(stack, tag))) {
+          selectedStacks.delete(id);
+        }
+      }
+      if (selectedStacks.size === 0) {
+        throw new Error(`No stack found with tags ${withTags.join(', ')}. Use "list" to print manifest`);
+      }
+    }
+
+    const stacksById = new Map<string, cxapi.CloudFormationStackArtifact>();
+    for (const stack of allStacks.values()) {
+      stacksById.set(stack.id, stack);
+    }
+
     const extend = options.extend || ExtendedStackSelection.None;
     switch (extend) {
       case ExtendedStackSelection.Downstream:
-        includeDownstreamStacks(selectedStacks, allStacks);
+        includeDownstreamStacks(selectedStacks, stacksById);
         break;
       case ExtendedStackSelection.Upstream:
-        includeUpstreamStacks(selectedStacks, allStacks);
+        includeUpstreamStacks(selectedStacks, stacksById);
         break;
     }
 
-    // Filter original array because it is in the right order
-    const selectedList = stacks.filter(s => selectedStacks.has(s.id));
+    // Filter original list because it is in the right order
+    const selectedList = Array.from(allStacks)
+      .filter(([hierarchicalId, stack]) => selectedStacks.has(stack.id) && !exclude.some(pattern => minimatch(hierarchicalId, pattern)))
+      .map(([_, stack]) => stack);
 
     return new StackCollection(this, selectedList);
   }
 
+  /**
+   * All stacks in this assembly and its nested assemblies (stages), by hierarchical ID
+   *
+   * The hierarchical ID of a top-level stack is its artifact ID; the ID of a
+   * stack in a nested assembly is prefixed with the display name (the
+   * construct path) of that assembly, for example `Prod/ProdService`.
+   */
+  public stacksRecursively(): Map<string, cxapi.CloudFormationStackArtifact> {
+    const ret = new Map<string, cxapi.CloudFormationStackArtifact>();
+    function recurse(assembly: cxapi.CloudAssembly, prefix: string) {
+      for (const stack of assembly.stacks) {
+        ret.set(`${prefix}${stack.id}`, stack);
+      }
+      for (const nested of assembly.nestedAssemblies) {
+        recurse(nested.nestedAssembly, `${nested.displayName}/`);
+      }
+    }
+    recurse(this.assembly, '');
+    return ret;
+  }
+
   /**
    * Select a single stack by its ID
    */
@@ -238,6 +292,38 @@ export interface MetadataMessageOptions {
   strict?: boolean;
 }
 
+/**
+ * The stacks to select when no stack patterns or tags are given
+ */
+function selectDefaultStacks(stacks: cxapi.CloudFormationStackArtifact[], defaultBehavior: DefaultSelection): cxapi.CloudFormationStackArtifact[] {
+  switch (defaultBehavior) {
+    case DefaultSelection.AllStacks:
+      return stacks;
+    case DefaultSelection.None:
+      return [];
+    case DefaultSelection.OnlySingle:
+      if (stacks.length === 1) {
+        return stacks;
+      } else {
+        throw new Error('Since this app includes more than a single stack, specify which stacks to use (wildcards are supported) or specify `--all`\n' +
+          `Stacks: ${stacks.map(x => x.id).join(' ')}`);
+      }
+    default:
+      throw new Error(`invalid default behavior: ${defaultBehavior}`);
+  }
+}
+
+/**
+ * Whether the stack has the given tag, specified as `KEY` or `KEY=VALUE`
+ */
+function hasTag(stack: cxapi.CloudFormationStackArtifact, tag: string): boolean {
+  const [key, ...value] = tag.split('=');
+  if (!(key in stack.tags)) {
+    return false;
+  }
+  return value.length === 0 || stack.tags[key] === value.join('=');
+}
+
 /**
  * Calculate the transitive closure of stack dependents.
  *
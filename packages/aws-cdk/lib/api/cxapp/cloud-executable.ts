@@ -3,6 +3,7 @@ import * as cxapi from '@aws-cdk/cx-api';
 import { RegionInfo } from '@aws-cdk/region-info';
 import * as contextproviders from '../../context-providers';
 import { debug, warning } from '../../logging';
+import { PluginHost } from '../../plugin';
 import { Configuration } from '../../settings';
 import { SdkProvider } from '../aws-auth';
 import { CloudAssembly } from './cloud-assembly';
@@ -47,9 +48,13 @@ export class CloudExecutable {
 
   /**
    * Synthesize a set of stacks
+   *
+   * @param cacheCloudAssembly whether to reuse the result of a previous synthesis.
+   *   If false, the app is synthesized again and the new cloud assembly replaces
+   *   the cached one.
    */
-  public async synthesize(): Promise<CloudAssembly> {
-    if (!this._cloudAssembly) {
+  public async synthesize(cacheCloudAssembly: boolean = true): Promise<CloudAssembly> {
+    if (!this._cloudAssembly || !cacheCloudAssembly) {
       this._cloudAssembly = await this.doSynthesize();
     }
     return this._cloudAssembly;
@@ -62,6 +67,9 @@ export class CloudExecutable {
     // (When the executable runs, it will tell us about context it wants to use
     // but it missing. We'll then look up the context and run the executable again, and
     // again, until it doesn't complain anymore or we've stopped making progress).
+    await PluginHost.instance.invokeHooks('preSynth');
+    await this.refreshStaleContext();
+
     let previouslyMissingKeys: Set<string> | undefined;
     while (true) {
       const assembly = await this.props.synthesizer(this.props.sdkProvider, this.props.configuration);
@@ -107,6 +115,8 @@ export class CloudExecutable {
         await this.addMetadataResource(assembly);
       }
 
+      await PluginHost.instance.invokeHooks('postSynth', assembly);
+
       return new CloudAssembly(assembly);
     }
   }
@@ -170,6 +180,32 @@ export class CloudExecutable {
     }
   }
 
+  /**
+   * Look up context values again that are older than the configured maximum age
+   *
+   * If lookups are disabled, or we are running in CI (where we shouldn't modify
+   * context that is supposed to be committed), we only warn about them.
+   */
+  private async refreshStaleContext() {
+    const maxAgeDays: number | undefined = this.props.configuration.settings.get(['contextMaxAgeDays']);
+    if (maxAgeDays === undefined) { return; }
+
+    const context = this.props.configuration.context;
+    const staleKeys = contextproviders.staleContextKeys(context, maxAgeDays);
+    if (staleKeys.length === 0) { return; }
+
+    // Same detection as the default of the '--ci' option
+    if (!this.canLookup || process.env.CI !== undefined) {
+      warning(`Context values looked up more than ${maxAgeDays} days ago may be out of date: ${staleKeys.join(', ')}`);
+      warning('Run \'cdk context --refresh\' to look them up again.');
+      return;
+    }
+
+    debug(`Refreshing context values older than ${maxAgeDays} days: ${staleKeys.join(', ')}`);
+    await contextproviders.refreshContextValues(staleKeys, context, this.props.sdkProvider);
+    await this.props.configuration.saveContext();
+  }
+
   private get canLookup() {
     return !!(this.props.configuration.settings.get(['lookups']) ?? true);
   }
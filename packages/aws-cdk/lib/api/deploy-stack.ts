@@ -1,16 +1,18 @@
 import * as cxapi from '@aws-cdk/cx-api';
+import { CloudFormation } from 'aws-sdk';
 import * as colors from 'colors/safe';
 import * as uuid from 'uuid';
 import { addMetadataAssetsToManifest } from '../assets';
 import { Tag } from '../cdk-toolkit';
-import { debug, error, print } from '../logging';
+import { debug, error, print, warning } from '../logging';
 import { toYAML } from '../serialize';
 import { AssetManifestBuilder } from '../util/asset-manifest-builder';
 import { publishAssets } from '../util/asset-publishing';
 import { contentHash } from '../util/content-hash';
 import { ISDK, SdkProvider } from './aws-auth';
+import { tryHotswapDeployment } from './hotswap-deployments';
 import { ToolkitInfo } from './toolkit-info';
-import { changeSetHasNoChanges, CloudFormationStack, TemplateParameters, waitForChangeSet, waitForStackDeploy, waitForStackDelete } from './util/cloudformation';
+import { changeSetHasNoChanges, CloudFormationStack, stabilizeStack, TemplateParameters, waitForChangeSet, waitForStackDeploy, waitForStackDelete } from './util/cloudformation';
 import { StackActivityMonitor, StackActivityProgress } from './util/cloudformation/stack-activity-monitor';
 
 // We need to map regions to domain suffixes, and the SDK already has a function to do this.
@@ -27,7 +29,7 @@ if (!regionUtil.getEndpointSuffix) {
   throw new Error('This version of AWS SDK for JS does not have the \'getEndpointSuffix\' function!');
 }
 
-type TemplateBodyParameter = {
+export type TemplateBodyParameter = {
   TemplateBody?: string
   TemplateURL?: string
 };
@@ -177,8 +179,50 @@ export interface DeployStackOptions {
    * @default false
    */
   readonly ci?: boolean;
+
+  /**
+   * Whether other stacks are being deployed at the same time
+   *
+   * If so, stack activity is printed as a history prefixed with the stack name.
+   *
+   * @default false
+   */
+  readonly concurrent?: boolean;
+
+  /**
+   * Whether to update changed resources directly through their service APIs instead of CloudFormation
+   *
+   * Only changes to Lambda function code, Step Functions state machine
+   * definitions and ECS task definition images can be hotswapped. If any
+   * other changes are found, a full CloudFormation deployment is performed.
+   *
+   * @default false
+   */
+  readonly hotswap?: boolean;
+
+  /**
+   * Existing resources to adopt into the stack, instead of creating or updating it
+   *
+   * If given, an IMPORT change set is created. The template may not contain
+   * any changes other than the addition of these resources.
+   *
+   * @default - no resources are imported
+   */
+  readonly resourcesToImport?: ResourcesToImport;
+
+  /**
+   * Whether CloudFormation rolls back the stack if the deployment fails
+   *
+   * If disabled, the resources that were successfully provisioned are
+   * preserved, and the next deployment continues from where this one failed.
+   *
+   * @default true
+   */
+  readonly rollback?: boolean;
 }
 
+export type ResourcesToImport = CloudFormation.ResourcesToImport;
+
 const LARGE_TEMPLATE_SIZE_KB = 50;
 
 /** @experimental */
@@ -191,6 +235,18 @@ export async function deployStack(options: DeployStackOptions): Promise<DeploySt
   const deployName = options.deployName || stackArtifact.stackName;
   let cloudFormationStack = await CloudFormationStack.lookup(cfn, deployName);
 
+  const rollback = options.rollback ?? true;
+  if (cloudFormationStack.stackStatus.isRollbackable) {
+    if (rollback) {
+      // A stack whose previous deployment failed without rolling back can only be
+      // deployed again with rollback disabled, so roll back the failed deployment first
+      print('%s: previous deployment failed without rolling back (%s), rolling back first...', colors.bold(deployName), cloudFormationStack.stackStatus);
+      cloudFormationStack = await rollbackStackAndWait(cfn, deployName, options.roleArn, stackArtifact, options.quiet);
+    } else {
+      print('%s: continuing previous deployment that failed without rolling back (%s)', colors.bold(deployName), cloudFormationStack.stackStatus);
+    }
+  }
+
   if (cloudFormationStack.stackStatus.isCreationFailure) {
     debug(`Found existing stack ${deployName} that had previously failed creation. Deleting it before attempting to re-create it.`);
     await cfn.deleteStack({ StackName: deployName }).promise();
@@ -234,6 +290,22 @@ export async function deployStack(options: DeployStackOptions): Promise<DeploySt
 
   await publishAssets(legacyAssets.toManifest(stackArtifact.assembly.directory), options.sdkProvider, stackEnv);
 
+  if (options.hotswap) {
+    warning(`${deployName}: --hotswap updates resources behind CloudFormation's back, introducing drift. Use it for development stacks only!`);
+    const hotswapDeploymentResult = await tryHotswapDeployment({
+      stackArtifact,
+      cloudFormationStack,
+      parameters: stackParams.values,
+      resolvedEnvironment: stackEnv,
+      urlSuffix: regionUtil.getEndpointSuffix(stackEnv.region),
+      sdk: options.sdk,
+    });
+    if (hotswapDeploymentResult) {
+      return hotswapDeploymentResult;
+    }
+    print('%s: could not perform a hotswap deployment, falling back to a full CloudFormation deployment', colors.bold(deployName));
+  }
+
   const changeSetName = options.changeSetName || 'cdk-deploy-change-set';
   if (cloudFormationStack.exists) {
     //Delete any existing change sets generated by CDK since change set names must be unique.
@@ -243,13 +315,15 @@ export async function deployStack(options: DeployStackOptions): Promise<DeploySt
   }
 
   const update = cloudFormationStack.exists && cloudFormationStack.stackStatus.name !== 'REVIEW_IN_PROGRESS';
+  const changeSetType = options.resourcesToImport ? 'IMPORT' : update ? 'UPDATE' : 'CREATE';
 
-  debug(`Attempting to create ChangeSet with name ${changeSetName} to ${update ? 'update' : 'create'} stack ${deployName}`);
+  debug(`Attempting to create ChangeSet with name ${changeSetName} to ${changeSetType.toLowerCase()} stack ${deployName}`);
   print('%s: creating CloudFormation changeset...', colors.bold(deployName));
   const changeSet = await cfn.createChangeSet({
     StackName: deployName,
     ChangeSetName: changeSetName,
-    ChangeSetType: update ? 'UPDATE' : 'CREATE',
+    ChangeSetType: changeSetType,
+    ResourcesToImport: options.resourcesToImport,
     Description: `CDK Changeset for execution ${executionId}`,
     TemplateBody: bodyParameter.TemplateBody,
     TemplateURL: bodyParameter.TemplateURL,
@@ -285,12 +359,13 @@ export async function deployStack(options: DeployStackOptions): Promise<DeploySt
   const execute = options.execute === undefined ? true : options.execute;
   if (execute) {
     debug('Initiating execution of changeset %s on stack %s', changeSet.Id, deployName);
-    await cfn.executeChangeSet({ StackName: deployName, ChangeSetName: changeSetName }).promise();
+    await cfn.executeChangeSet({ StackName: deployName, ChangeSetName: changeSetName, DisableRollback: !rollback }).promise();
     // eslint-disable-next-line max-len
     const monitor = options.quiet ? undefined : StackActivityMonitor.withDefaultPrinter(cfn, deployName, stackArtifact, {
       resourcesTotal: (changeSetDescription.Changes ?? []).length,
       progress: options.progress,
       changeSetCreationTime: changeSetDescription.CreationTime,
+      concurrent: options.concurrent,
     }).start();
     debug('Execution of changeset %s on stack %s has started; waiting for the update to complete...', changeSet.Id, deployName);
     try {
@@ -310,6 +385,21 @@ export async function deployStack(options: DeployStackOptions): Promise<DeploySt
   return { noOp: false, outputs: cloudFormationStack.outputs, stackArn: changeSet.StackId!, stackArtifact };
 }
 
+/**
+ * Prepares the body parameter for API calls that take a template, and uploads the template if necessary
+ */
+export async function makeBodyParameterAndUpload(
+  stack: cxapi.CloudFormationStackArtifact,
+  resolvedEnvironment: cxapi.Environment,
+  toolkitInfo: ToolkitInfo,
+  sdkProvider: SdkProvider): Promise<TemplateBodyParameter> {
+
+  const assetManifest = new AssetManifestBuilder();
+  const bodyParameter = await makeBodyParameter(stack, resolvedEnvironment, assetManifest, toolkitInfo);
+  await publishAssets(assetManifest.toManifest(stack.assembly.directory), sdkProvider, resolvedEnvironment);
+  return bodyParameter;
+}
+
 /**
  * Prepares the body parameter for +CreateChangeSet+.
  *
@@ -401,6 +491,58 @@ export async function destroyStack(options: DestroyStackOptions) {
   }
 }
 
+export interface RollbackStackOptions {
+  /**
+   * The stack to be rolled back
+   */
+  stack: cxapi.CloudFormationStackArtifact;
+
+  sdk: ISDK;
+  roleArn?: string;
+  deployName?: string;
+  quiet?: boolean;
+}
+
+/**
+ * Roll back a stack whose last deployment failed with rollback disabled
+ *
+ * @experimental
+ */
+export async function rollbackStack(options: RollbackStackOptions) {
+  const deployName = options.deployName || options.stack.stackName;
+  const cfn = options.sdk.cloudFormation();
+
+  const currentStack = await CloudFormationStack.lookup(cfn, deployName);
+  if (!currentStack.exists) {
+    throw new Error(`Stack ${deployName} does not exist`);
+  }
+  if (!currentStack.stackStatus.isRollbackable) {
+    throw new Error(`Stack ${deployName} cannot be rolled back, it is not in a failed state (current state: ${currentStack.stackStatus})`);
+  }
+
+  await rollbackStackAndWait(cfn, deployName, options.roleArn, options.stack, options.quiet);
+}
+
+async function rollbackStackAndWait(
+  cfn: CloudFormation,
+  deployName: string,
+  roleArn: string | undefined,
+  stackArtifact: cxapi.CloudFormationStackArtifact,
+  quiet?: boolean): Promise<CloudFormationStack> {
+
+  const monitor = quiet ? undefined : StackActivityMonitor.withDefaultPrinter(cfn, deployName, stackArtifact).start();
+  try {
+    await cfn.rollbackStack({ StackName: deployName, RoleARN: roleArn }).promise();
+    const rolledBackStack = await stabilizeStack(cfn, deployName);
+    if (!rolledBackStack || rolledBackStack.stackStatus.isFailure) {
+      throw new Error(`Failed to roll back ${deployName}: ${rolledBackStack?.stackStatus ?? 'the stack disappeared'}`);
+    }
+    return rolledBackStack;
+  } finally {
+    await monitor?.stop();
+  }
+}
+
 /**
  * Checks whether we can skip deployment
  *
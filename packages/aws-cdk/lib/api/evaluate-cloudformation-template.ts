@@ -0,0 +1,230 @@
+import * as AWS from 'aws-sdk';
+import { ISDK } from './aws-auth';
+
+/**
+ * Thrown when a CloudFormation expression cannot be evaluated on the client
+ */
+export class CfnEvaluationException extends Error {}
+
+/**
+ * Lists the resources of a deployed stack, but only once and only when needed
+ */
+export class LazyListStackResources {
+  private stackResources: Promise<AWS.CloudFormation.StackResourceSummary[]> | undefined;
+
+  constructor(private readonly sdk: ISDK, private readonly stackName: string) {
+  }
+
+  public async listStackResources(): Promise<AWS.CloudFormation.StackResourceSummary[]> {
+    if (this.stackResources === undefined) {
+      this.stackResources = this.getStackResources();
+    }
+    return this.stackResources;
+  }
+
+  private async getStackResources(): Promise<AWS.CloudFormation.StackResourceSummary[]> {
+    const ret = new Array<AWS.CloudFormation.StackResourceSummary>();
+    let nextToken: string | undefined;
+    do {
+      const stackResourcesResponse = await this.sdk.cloudFormation().listStackResources({
+        StackName: this.stackName,
+        NextToken: nextToken,
+      }).promise();
+      ret.push(...(stackResourcesResponse.StackResourceSummaries ?? []));
+      nextToken = stackResourcesResponse.NextToken;
+    } while (nextToken);
+    return ret;
+  }
+}
+
+export interface EvaluateCloudFormationTemplateProps {
+  /**
+   * The template the expressions are taken from
+   */
+  readonly template: { [section: string]: any };
+
+  /**
+   * The values of the template's parameters
+   */
+  readonly parameters: { [parameterName: string]: string };
+
+  /**
+   * The account the stack is deployed to
+   */
+  readonly account: string;
+
+  /**
+   * The region the stack is deployed to
+   */
+  readonly region: string;
+
+  /**
+   * The partition the stack is deployed to
+   */
+  readonly partition: string;
+
+  /**
+   * The domain suffix of the region
+   */
+  readonly urlSuffix: string;
+
+  /**
+   * The resources of the deployed stack, used to resolve physical names
+   */
+  readonly listStackResources: LazyListStackResources;
+}
+
+/**
+ * Evaluates CloudFormation expressions of a template client-side
+ *
+ * Only supports the subset of intrinsic functions whose result can be
+ * determined from the template, its parameters and the resources of the
+ * already deployed stack. Anything else throws a `CfnEvaluationException`.
+ */
+export class EvaluateCloudFormationTemplate {
+  private readonly template: { [section: string]: any };
+  private readonly context: { [k: string]: string };
+
+  constructor(private readonly props: EvaluateCloudFormationTemplateProps) {
+    this.template = props.template;
+    this.context = {
+      'AWS::AccountId': props.account,
+      'AWS::Region': props.region,
+      'AWS::Partition': props.partition,
+      'AWS::URLSuffix': props.urlSuffix,
+      ...props.parameters,
+    };
+  }
+
+  /**
+   * The resources in the template
+   */
+  public get resources(): { [logicalId: string]: any } {
+    return this.template.Resources ?? {};
+  }
+
+  /**
+   * The physical name of the given resource in the deployed stack, if it has one
+   */
+  public async findPhysicalNameFor(logicalId: string): Promise<string | undefined> {
+    const stackResources = await this.props.listStackResources.listStackResources();
+    return stackResources.find(sr => sr.LogicalResourceId === logicalId)?.PhysicalResourceId;
+  }
+
+  /**
+   * Return the value of the given CloudFormation expression
+   */
+  public async evaluateCfnExpression(cfnExpression: any): Promise<any> {
+    if (cfnExpression == null || typeof cfnExpression !== 'object') {
+      return cfnExpression;
+    }
+
+    if (Array.isArray(cfnExpression)) {
+      return Promise.all(cfnExpression.map(expr => this.evaluateCfnExpression(expr)));
+    }
+
+    const keys = Object.keys(cfnExpression);
+    if (keys.length === 1 && (keys[0] === 'Ref' || keys[0].startsWith('Fn::'))) {
+      return this.evaluateIntrinsic(keys[0], cfnExpression[keys[0]]);
+    }
+
+    const ret: { [key: string]: any } = {};
+    for (const key of keys) {
+      ret[key] = await this.evaluateCfnExpression(cfnExpression[key]);
+    }
+    return ret;
+  }
+
+  private async evaluateIntrinsic(name: string, args: any): Promise<any> {
+    switch (name) {
+      case 'Ref':
+        return this.evaluateRef(args);
+
+      case 'Fn::GetAtt': {
+        const [logicalId, attributeName] = typeof args === 'string' ? splitOnce(args, '.') : args;
+        return this.evaluateGetAtt(logicalId, attributeName);
+      }
+
+      case 'Fn::Join': {
+        const [delimiter, list] = await this.evaluateCfnExpression(args);
+        return list.join(delimiter);
+      }
+
+      case 'Fn::Split': {
+        const [delimiter, source] = await this.evaluateCfnExpression(args);
+        return source.split(delimiter);
+      }
+
+      case 'Fn::Select': {
+        const [index, list] = await this.evaluateCfnExpression(args);
+        return list[index];
+      }
+
+      case 'Fn::Sub': {
+        const [template, variables] = typeof args === 'string' ? [args, {}] : args;
+        return this.evaluateSub(template, await this.evaluateCfnExpression(variables));
+      }
+
+      default:
+        throw new CfnEvaluationException(`CloudFormation function '${name}' is not supported`);
+    }
+  }
+
+  private async evaluateRef(logicalId: string): Promise<string> {
+    if (logicalId in this.context) {
+      return this.context[logicalId];
+    }
+
+    if (logicalId in (this.template.Resources ?? {})) {
+      const physicalName = await this.findPhysicalNameFor(logicalId);
+      if (physicalName) {
+        return physicalName;
+      }
+    }
+
+    throw new CfnEvaluationException(`Could not resolve the value of '{ Ref: ${logicalId} }'`);
+  }
+
+  private async evaluateGetAtt(logicalId: string, attributeName: string): Promise<string> {
+    const physicalName = attributeName === 'Arn' ? await this.findPhysicalNameFor(logicalId) : undefined;
+    if (physicalName) {
+      // Some resources (such as state machines) have their ARN as physical name
+      if (physicalName.startsWith('arn:')) {
+        return physicalName;
+      }
+
+      const resourceType = this.template.Resources?.[logicalId]?.Type;
+      if (resourceType === 'AWS::Lambda::Function') {
+        return `arn:${this.props.partition}:lambda:${this.props.region}:${this.props.account}:function:${physicalName}`;
+      }
+    }
+
+    throw new CfnEvaluationException(`Could not resolve the value of '{ Fn::GetAtt: [${logicalId}, ${attributeName}] }'`);
+  }
+
+  private async evaluateSub(template: string, variables: { [name: string]: string }): Promise<string> {
+    const parts = template.split(/(\$\{[^}]*\})/);
+    const ret = new Array<string>();
+    for (const part of parts) {
+      const match = part.match(/^\$\{([^}]*)\}$/);
+      if (!match) {
+        ret.push(part);
+      } else if (match[1].startsWith('!')) {
+        // '${!Literal}' is an escaped '${Literal}'
+        ret.push('${' + match[1].substr(1) + '}');
+      } else if (match[1] in variables) {
+        ret.push(variables[match[1]]);
+      } else if (match[1].includes('.')) {
+        ret.push(await this.evaluateGetAtt(...splitOnce(match[1], '.')));
+      } else {
+        ret.push(await this.evaluateRef(match[1]));
+      }
+    }
+    return ret.join('');
+  }
+}
+
+function splitOnce(x: string, delimiter: string): [string, string] {
+  const i = x.indexOf(delimiter);
+  return i === -1 ? [x, ''] : [x.substr(0, i), x.substr(i + 1)];
+}
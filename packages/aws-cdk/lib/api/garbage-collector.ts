@@ -0,0 +1,361 @@
+import * as cxapi from '@aws-cdk/cx-api';
+import * as AWS from 'aws-sdk';
+import * as colors from 'colors/safe';
+import { debug, print } from '../logging';
+import { chunks, flatMap } from '../util';
+import { ISDK, Mode, SdkProvider } from './aws-auth';
+import { IMAGE_REPOSITORY_NAME_OUTPUT } from './bootstrap';
+import { ToolkitInfo } from './toolkit-info';
+
+/**
+ * What to do with unreferenced assets
+ */
+export enum GarbageCollectionAction {
+  /**
+   * Only report the unreferenced assets (dry run)
+   */
+  PRINT = 'print',
+
+  /**
+   * Tag the unreferenced assets, so they can be reviewed or expired later
+   */
+  TAG = 'tag',
+
+  /**
+   * Delete the unreferenced assets
+   */
+  DELETE = 'delete',
+}
+
+/**
+ * Which kinds of assets to collect
+ */
+export enum GarbageCollectionType {
+  /**
+   * File assets in the staging bucket
+   */
+  S3 = 's3',
+
+  /**
+   * Container images in the asset repository
+   */
+  ECR = 'ecr',
+
+  ALL = 'all',
+}
+
+/**
+ * The S3 object tag that marks an unreferenced file asset, with the time it was found as its value
+ */
+export const UNREFERENCED_OBJECT_TAG = 'aws-cdk:unreferenced';
+
+/**
+ * The prefix of the image tag that marks an unreferenced container image
+ */
+export const UNREFERENCED_IMAGE_TAG_PREFIX = 'aws-cdk-unreferenced-';
+
+/**
+ * Asset hashes are SHA-256 digests, which are part of every object key and image tag we publish
+ */
+const ASSET_HASH_REGEX = /[a-f0-9]{64}/g;
+
+export interface GarbageCollectorProps {
+  readonly sdkProvider: SdkProvider;
+
+  /**
+   * The environment to collect garbage in
+   */
+  readonly environment: cxapi.Environment;
+
+  /**
+   * Name of the bootstrap stack that owns the bucket and repository
+   *
+   * @default - the default toolkit stack name
+   */
+  readonly toolkitStackName?: string;
+
+  /**
+   * What to do with the unreferenced assets
+   */
+  readonly action: GarbageCollectionAction;
+
+  /**
+   * Which kinds of assets to collect
+   *
+   * @default GarbageCollectionType.ALL
+   */
+  readonly type?: GarbageCollectionType;
+
+  /**
+   * Assets that are younger than this many days are never collected
+   *
+   * This protects assets that were uploaded for a deployment that is still
+   * in progress, and are not referenced by a deployed template yet.
+   */
+  readonly gracePeriodDays: number;
+}
+
+/**
+ * An asset that is not referenced by any deployed stack
+ */
+export interface UnreferencedAsset {
+  /**
+   * The S3 URL of the object, or the URI of the image
+   */
+  readonly location: string;
+
+  /**
+   * When the object was last modified, or the image was pushed
+   */
+  readonly lastModified: Date;
+
+  readonly sizeBytes: number;
+}
+
+/**
+ * The outcome of a garbage collection run in one environment
+ */
+export interface GarbageCollectionResult {
+  readonly files: UnreferencedAsset[];
+  readonly images: UnreferencedAsset[];
+}
+
+/**
+ * Finds (and tags or deletes) assets in an environment's bootstrap bucket and
+ * repository that are no longer referenced by any deployed stack
+ *
+ * An asset is referenced if its hash occurs in the template or the parameters
+ * of any stack in the environment. Objects and images that do not have an
+ * asset hash in their key or tags were not put there by the CDK and are left alone.
+ */
+export class GarbageCollector {
+  private readonly cutoff: Date;
+
+  constructor(private readonly props: GarbageCollectorProps) {
+    if (props.gracePeriodDays < 0) {
+      throw new Error(`Grace period must not be negative, got: ${props.gracePeriodDays}`);
+    }
+    this.cutoff = new Date(Date.now() - props.gracePeriodDays * 24 * 60 * 60 * 1000);
+  }
+
+  public async garbageCollect(): Promise<GarbageCollectionResult> {
+    // Printing only lists and describes the assets, so it does not need write access
+    const mode = this.props.action === GarbageCollectionAction.PRINT ? Mode.ForReading : Mode.ForWriting;
+    const sdk = await this.props.sdkProvider.forEnvironment(this.props.environment, mode);
+    const toolkitInfo = await ToolkitInfo.lookup(this.props.environment, sdk, this.props.toolkitStackName);
+    if (!toolkitInfo.found) {
+      throw new Error(`Environment ${this.props.environment.name} is not bootstrapped`);
+    }
+
+    const referenced = await referencedAssetHashes(sdk);
+    debug(`Found ${referenced.size} asset hashes referenced by stacks in ${this.props.environment.name}`);
+
+    const type = this.props.type ?? GarbageCollectionType.ALL;
+    const files = new Array<UnreferencedAsset>();
+    const images = new Array<UnreferencedAsset>();
+
+    if (type !== GarbageCollectionType.ECR) {
+      files.push(...await this.collectObjects(sdk, toolkitInfo.bucketName, referenced));
+    }
+
+    const repositoryName = toolkitInfo.bootstrapStack.outputs[IMAGE_REPOSITORY_NAME_OUTPUT];
+    if (type !== GarbageCollectionType.S3) {
+      if (repositoryName) {
+        images.push(...await this.collectImages(sdk, repositoryName, referenced));
+      } else {
+        debug(`The bootstrap stack in ${this.props.environment.name} has no container asset repository`);
+      }
+    }
+
+    return { files, images };
+  }
+
+  private async collectObjects(sdk: ISDK, bucketName: string, referenced: Set<string>): Promise<UnreferencedAsset[]> {
+    const s3 = sdk.s3();
+    const unreferenced = new Array<AWS.S3.Object>();
+
+    let continuationToken: string | undefined;
+    do {
+      const response = await s3.listObjectsV2({ Bucket: bucketName, ContinuationToken: continuationToken }).promise();
+      for (const object of response.Contents ?? []) {
+        if (this.isCollectable(assetHashes(object.Key ?? ''), referenced, object.LastModified)) {
+          unreferenced.push(object);
+        }
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    const keys = unreferenced.map(object => object.Key!);
+    switch (this.props.action) {
+      case GarbageCollectionAction.TAG:
+        for (const key of keys) {
+          await tagObject(s3, bucketName, key);
+        }
+        break;
+      case GarbageCollectionAction.DELETE:
+        // DeleteObjects accepts at most 1000 keys per call
+        for (const batch of chunks(keys, 1000)) {
+          const response = await s3.deleteObjects({
+            Bucket: bucketName,
+            Delete: { Objects: batch.map(Key => ({ Key })), Quiet: true },
+          }).promise();
+          if (response.Errors && response.Errors.length > 0) {
+            throw new Error(`Failed to delete objects from ${bucketName}: ${response.Errors.map(e => `${e.Key} (${e.Message})`).join(', ')}`);
+          }
+        }
+        break;
+    }
+
+    return unreferenced.map(object => ({
+      location: `s3://${bucketName}/${object.Key}`,
+      lastModified: object.LastModified!,
+      sizeBytes: object.Size ?? 0,
+    }));
+  }
+
+  private async collectImages(sdk: ISDK, repositoryName: string, referenced: Set<string>): Promise<UnreferencedAsset[]> {
+    const ecr = sdk.ecr();
+    const unreferenced = new Array<AWS.ECR.ImageDetail>();
+
+    let nextToken: string | undefined;
+    do {
+      const response = await ecr.describeImages({ repositoryName, nextToken }).promise();
+      for (const image of response.imageDetails ?? []) {
+        const hashes = flatMap(image.imageTags ?? [], tag => assetHashes(tag));
+        if (this.isCollectable(hashes, referenced, image.imagePushedAt)) {
+          unreferenced.push(image);
+        }
+      }
+      nextToken = response.nextToken;
+    } while (nextToken);
+
+    switch (this.props.action) {
+      case GarbageCollectionAction.TAG:
+        for (const image of unreferenced) {
+          await tagImage(ecr, repositoryName, image);
+        }
+        break;
+      case GarbageCollectionAction.DELETE:
+        // BatchDeleteImage accepts at most 100 images per call
+        for (const batch of chunks(unreferenced, 100)) {
+          const response = await ecr.batchDeleteImage({
+            repositoryName,
+            imageIds: batch.map(image => ({ imageDigest: image.imageDigest })),
+          }).promise();
+          if (response.failures && response.failures.length > 0) {
+            throw new Error(`Failed to delete images from ${repositoryName}: ${response.failures.map(f => `${f.imageId?.imageDigest} (${f.failureReason})`).join(', ')}`);
+          }
+        }
+        break;
+    }
+
+    return unreferenced.map(image => ({
+      location: `${image.registryId}.dkr.ecr.${sdk.currentRegion}.amazonaws.com/${repositoryName}@${image.imageDigest}`,
+      lastModified: image.imagePushedAt!,
+      sizeBytes: image.imageSizeInBytes ?? 0,
+    }));
+  }
+
+  private isCollectable(hashes: string[], referenced: Set<string>, lastModified: Date | undefined): boolean {
+    if (hashes.length === 0 || hashes.some(hash => referenced.has(hash))) {
+      return false;
+    }
+    return lastModified !== undefined && lastModified < this.cutoff;
+  }
+}
+
+/**
+ * Print a report of the unreferenced assets found in an environment
+ */
+export function printGarbageCollectionResult(environment: cxapi.Environment, action: GarbageCollectionAction, result: GarbageCollectionResult) {
+  const verb = {
+    [GarbageCollectionAction.PRINT]: 'Found',
+    [GarbageCollectionAction.TAG]: 'Tagged',
+    [GarbageCollectionAction.DELETE]: 'Deleted',
+  }[action];
+
+  for (const asset of [...result.files, ...result.images]) {
+    print('  %s (%s, last modified %s)', asset.location, formatSize(asset.sizeBytes), asset.lastModified.toISOString());
+  }
+  print('%s %s unreferenced file assets (%s) and %s unreferenced container images (%s) in %s',
+    verb,
+    colors.bold(`${result.files.length}`), formatSize(totalSize(result.files)),
+    colors.bold(`${result.images.length}`), formatSize(totalSize(result.images)),
+    colors.blue(environment.name));
+}
+
+/**
+ * Collect the asset hashes that occur in the templates and parameters of all stacks in the environment
+ */
+async function referencedAssetHashes(sdk: ISDK): Promise<Set<string>> {
+  const cfn = sdk.cloudFormation();
+  const ret = new Set<string>();
+
+  let nextToken: string | undefined;
+  do {
+    // DescribeStacks without a stack name returns all stacks that have not been deleted
+    const response = await cfn.describeStacks({ NextToken: nextToken }).promise();
+    for (const stack of response.Stacks ?? []) {
+      const template = await cfn.getTemplate({ StackName: stack.StackId ?? stack.StackName, TemplateStage: 'Original' }).promise();
+      const texts = [template.TemplateBody ?? '', ...(stack.Parameters ?? []).map(p => p.ParameterValue ?? '')];
+      for (const hash of flatMap(texts, text => assetHashes(text))) {
+        ret.add(hash);
+      }
+    }
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return ret;
+}
+
+function assetHashes(text: string): string[] {
+  return text.match(ASSET_HASH_REGEX) ?? [];
+}
+
+async function tagObject(s3: AWS.S3, bucketName: string, key: string) {
+  const existing = await s3.getObjectTagging({ Bucket: bucketName, Key: key }).promise();
+  if (existing.TagSet.some(tag => tag.Key === UNREFERENCED_OBJECT_TAG)) { return; }
+
+  await s3.putObjectTagging({
+    Bucket: bucketName,
+    Key: key,
+    Tagging: { TagSet: [...existing.TagSet, { Key: UNREFERENCED_OBJECT_TAG, Value: new Date().toISOString() }] },
+  }).promise();
+}
+
+/**
+ * Tag an image by pushing its manifest again under an additional tag
+ *
+ * Image tags are unique within a repository, so the tag includes the image digest.
+ */
+async function tagImage(ecr: AWS.ECR, repositoryName: string, image: AWS.ECR.ImageDetail) {
+  if ((image.imageTags ?? []).some(tag => tag.startsWith(UNREFERENCED_IMAGE_TAG_PREFIX))) { return; }
+
+  const response = await ecr.batchGetImage({ repositoryName, imageIds: [{ imageDigest: image.imageDigest }] }).promise();
+  const manifest = response.images?.[0];
+  if (!manifest?.imageManifest) {
+    throw new Error(`Could not read the manifest of image ${image.imageDigest} in ${repositoryName}`);
+  }
+
+  const digest = (image.imageDigest ?? '').replace(/^sha256:/, '');
+  await ecr.putImage({
+    repositoryName,
+    imageManifest: manifest.imageManifest,
+    imageManifestMediaType: manifest.imageManifestMediaType,
+    imageTag: `${UNREFERENCED_IMAGE_TAG_PREFIX}${Date.now()}-${digest.substr(0, 12)}`,
+  }).promise();
+}
+
+function totalSize(assets: UnreferencedAsset[]) {
+  return assets.reduce((sum, asset) => sum + asset.sizeBytes, 0);
+}
+
+function formatSize(bytes: number) {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let i = 0;
+  while (bytes >= 1024 && i < units.length - 1) {
+    bytes /= 1024;
+    i++;
+  }
+  return `${i === 0 ? bytes : bytes.toFixed(1)} ${units[i]}`;
+}
@@ -0,0 +1,169 @@
+import * as cfn_diff from '@aws-cdk/cloudformation-diff';
+import * as cxapi from '@aws-cdk/cx-api';
+import * as colors from 'colors/safe';
+import { debug, print } from '../logging';
+import { ISDK } from './aws-auth';
+import { DeployStackResult } from './deploy-stack';
+import { CfnEvaluationException, EvaluateCloudFormationTemplate, LazyListStackResources } from './evaluate-cloudformation-template';
+import { ChangeHotswapImpact, ChangeHotswapResult, HotswapOperation } from './hotswap/common';
+import { isHotswappableEcsTaskDefinitionChange } from './hotswap/ecs-task-definitions';
+import { isHotswappableLambdaFunctionChange } from './hotswap/lambda-functions';
+import { isHotswappableStateMachineChange } from './hotswap/stepfunctions-state-machines';
+import { CloudFormationStack } from './util/cloudformation';
+
+export interface HotswapDeploymentOptions {
+  /**
+   * The stack to be deployed
+   */
+  readonly stackArtifact: cxapi.CloudFormationStackArtifact;
+
+  /**
+   * The currently deployed stack
+   */
+  readonly cloudFormationStack: CloudFormationStack;
+
+  /**
+   * The parameter values the stack would be deployed with
+   */
+  readonly parameters: { [name: string]: string };
+
+  /**
+   * The environment the stack is deployed to
+   */
+  readonly resolvedEnvironment: cxapi.Environment;
+
+  /**
+   * The domain suffix of the stack's region
+   */
+  readonly urlSuffix: string;
+
+  /**
+   * The SDK to use for updating the resources
+   */
+  readonly sdk: ISDK;
+}
+
+/**
+ * Perform a hotswap deployment, short-circuiting CloudFormation if possible
+ *
+ * Returns `undefined` if the changes cannot be hotswapped, in which case
+ * a full CloudFormation deployment has to be performed instead.
+ */
+export async function tryHotswapDeployment(options: HotswapDeploymentOptions): Promise<DeployStackResult | undefined> {
+  const { stackArtifact, cloudFormationStack } = options;
+  if (!cloudFormationStack.exists) {
+    debug(`${stackArtifact.displayName}: stack does not exist yet, cannot hotswap`);
+    return undefined;
+  }
+
+  const parameters = hotswappableParameters(stackArtifact.template, options.parameters, cloudFormationStack.parameters);
+  if (parameters === undefined) {
+    debug(`${stackArtifact.displayName}: parameter values changed, cannot hotswap`);
+    return undefined;
+  }
+
+  const currentTemplate = await cloudFormationStack.template();
+  const stackChanges = cfn_diff.diffTemplate(currentTemplate, stackArtifact.template);
+  if (stackChanges.differenceCount !== stackChanges.resources.differenceCount) {
+    debug(`${stackArtifact.displayName}: template sections other than Resources changed, cannot hotswap`);
+    return undefined;
+  }
+
+  const evaluateCfnTemplate = new EvaluateCloudFormationTemplate({
+    template: stackArtifact.template,
+    parameters,
+    account: options.resolvedEnvironment.account,
+    region: options.resolvedEnvironment.region,
+    partition: (await options.sdk.currentAccount()).partition,
+    urlSuffix: options.urlSuffix,
+    listStackResources: new LazyListStackResources(options.sdk, cloudFormationStack.stackName),
+  });
+
+  let hotswapOperations: HotswapOperation[] | undefined;
+  try {
+    hotswapOperations = await findAllHotswappableChanges(stackChanges, evaluateCfnTemplate);
+  } catch (e) {
+    if (!(e instanceof CfnEvaluationException)) {
+      throw e;
+    }
+    debug(`${stackArtifact.displayName}: ${e.message}, cannot hotswap`);
+    return undefined;
+  }
+  if (hotswapOperations === undefined) {
+    return undefined;
+  }
+
+  for (const operation of hotswapOperations) {
+    print('%s: hotswapping %s...', colors.bold(stackArtifact.displayName), operation.description);
+    await operation.apply(options.sdk);
+  }
+
+  return { noOp: hotswapOperations.length === 0, outputs: cloudFormationStack.outputs, stackArn: cloudFormationStack.stackId, stackArtifact };
+}
+
+/**
+ * Return the operations for all resource changes, or `undefined` if any of them requires a full deployment
+ */
+async function findAllHotswappableChanges(
+  stackChanges: cfn_diff.TemplateDiff, evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<HotswapOperation[] | undefined> {
+  const changes = new Array<[string, cfn_diff.ResourceDifference]>();
+  stackChanges.resources.forEachDifference((logicalId, change) => changes.push([logicalId, change]));
+
+  const ret = new Array<HotswapOperation>();
+  for (const [logicalId, change] of changes) {
+    const result = await isHotswappableChange(logicalId, change, evaluateCfnTemplate);
+    if (result === ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT) {
+      debug(`Change to resource '${logicalId}' cannot be hotswapped`);
+      return undefined;
+    }
+    if (result !== ChangeHotswapImpact.IRRELEVANT) {
+      ret.push(result);
+    }
+  }
+  return ret;
+}
+
+async function isHotswappableChange(
+  logicalId: string, change: cfn_diff.ResourceDifference, evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<ChangeHotswapResult> {
+  if (change.resourceTypeChanged) {
+    return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+
+  switch (change.resourceType) {
+    case 'AWS::Lambda::Function':
+      return isHotswappableLambdaFunctionChange(logicalId, change, evaluateCfnTemplate);
+    case 'AWS::StepFunctions::StateMachine':
+      return isHotswappableStateMachineChange(logicalId, change, evaluateCfnTemplate);
+    case 'AWS::ECS::TaskDefinition':
+      return isHotswappableEcsTaskDefinitionChange(logicalId, change, evaluateCfnTemplate);
+    case 'AWS::CDK::Metadata':
+      // Only used for analytics, never needs to be deployed for a hotswap
+      return ChangeHotswapImpact.IRRELEVANT;
+    default:
+      return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+}
+
+/**
+ * Return the parameter values that template expressions can be evaluated against
+ *
+ * Returns `undefined` if any parameter value changed, since that requires a
+ * CloudFormation deployment. SSM parameters are left out because only
+ * CloudFormation can resolve their values.
+ */
+function hotswappableParameters(
+  template: any, newValues: { [name: string]: string }, currentValues: { [name: string]: string },
+): { [name: string]: string } | undefined {
+  const ret: { [name: string]: string } = {};
+  for (const [name, value] of Object.entries(newValues)) {
+    if (currentValues[name] !== value) {
+      return undefined;
+    }
+    if (!template.Parameters?.[name]?.Type?.startsWith('AWS::SSM::Parameter::')) {
+      ret[name] = value;
+    }
+  }
+  return ret;
+}
@@ -0,0 +1,51 @@
+import * as cfn_diff from '@aws-cdk/cloudformation-diff';
+import { ISDK } from '../aws-auth';
+
+/**
+ * An operation that can update a resource directly through its service API
+ */
+export interface HotswapOperation {
+  /**
+   * Description of the operation, used in progress output
+   */
+  readonly description: string;
+
+  apply(sdk: ISDK): Promise<void>;
+}
+
+/**
+ * What to do with a resource change that cannot be hotswapped
+ */
+export enum ChangeHotswapImpact {
+  /**
+   * The change can only be applied with a CloudFormation deployment
+   */
+  REQUIRES_FULL_DEPLOYMENT = 'requires-full-deployment',
+
+  /**
+   * The change has no effect on the deployed resource, and can be ignored
+   */
+  IRRELEVANT = 'irrelevant',
+}
+
+export type ChangeHotswapResult = HotswapOperation | ChangeHotswapImpact;
+
+/**
+ * Return the names of the properties that changed, if the only other changes to the resource are to its metadata
+ *
+ * Returns `undefined` if the resource changed in some other way (it was added
+ * or removed, or its type or other attributes changed).
+ */
+export function changedPropertyNames(change: cfn_diff.ResourceDifference): string[] | undefined {
+  if (change.isAddition || change.isRemoval || change.resourceTypeChanged) {
+    return undefined;
+  }
+
+  // Asset metadata changes along with the asset, but doesn't need to be deployed
+  const otherChanges = Object.keys(change.otherChanges).filter(name => name !== 'Metadata');
+  if (otherChanges.length > 0) {
+    return undefined;
+  }
+
+  return Object.keys(change.propertyUpdates);
+}
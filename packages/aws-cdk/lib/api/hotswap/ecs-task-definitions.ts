@@ -0,0 +1,123 @@
+import * as cfn_diff from '@aws-cdk/cloudformation-diff';
+import * as AWS from 'aws-sdk';
+import { ISDK } from '../aws-auth';
+import { EvaluateCloudFormationTemplate } from '../evaluate-cloudformation-template';
+import { ChangeHotswapImpact, ChangeHotswapResult, changedPropertyNames } from './common';
+
+/**
+ * Returns the operation to roll out new container images, if those are the only change to the task definition
+ *
+ * Registers a new revision of the deployed task definition with the new
+ * images, and points the services in the stack that use the task definition
+ * to that revision.
+ */
+export async function isHotswappableEcsTaskDefinitionChange(
+  logicalId: string, change: cfn_diff.ResourceDifference, evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<ChangeHotswapResult> {
+  const propertyNames = changedPropertyNames(change);
+  if (propertyNames === undefined || propertyNames.some(name => name !== 'ContainerDefinitions')) {
+    return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+  if (propertyNames.length === 0) {
+    return ChangeHotswapImpact.IRRELEVANT;
+  }
+
+  const oldContainers: any[] = change.oldProperties?.ContainerDefinitions ?? [];
+  const newContainers: any[] = change.newProperties?.ContainerDefinitions ?? [];
+  if (!cfn_diff.deepEqual(oldContainers.map(withoutImage), newContainers.map(withoutImage))) {
+    return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+
+  const taskDefinitionArn = await evaluateCfnTemplate.findPhysicalNameFor(logicalId);
+  if (!taskDefinitionArn) {
+    return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+
+  const images: { [containerName: string]: string } = {};
+  for (const container of newContainers) {
+    const name = await evaluateCfnTemplate.evaluateCfnExpression(container.Name);
+    images[name] = await evaluateCfnTemplate.evaluateCfnExpression(container.Image);
+  }
+
+  const services = new Array<{ cluster?: string, service: string }>();
+  for (const [serviceLogicalId, resource] of Object.entries<any>(evaluateCfnTemplate.resources)) {
+    if (resource.Type !== 'AWS::ECS::Service' || !cfn_diff.deepEqual(resource.Properties?.TaskDefinition, { Ref: logicalId })) {
+      continue;
+    }
+    const service = await evaluateCfnTemplate.findPhysicalNameFor(serviceLogicalId);
+    if (!service) {
+      return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+    }
+    services.push({
+      service,
+      cluster: await evaluateCfnTemplate.evaluateCfnExpression(resource.Properties?.Cluster),
+    });
+  }
+
+  return new EcsTaskDefinitionHotswapOperation(taskDefinitionArn, images, services);
+}
+
+class EcsTaskDefinitionHotswapOperation {
+  public readonly description: string;
+
+  constructor(
+    private readonly taskDefinitionArn: string,
+    private readonly images: { [containerName: string]: string },
+    private readonly services: Array<{ cluster?: string, service: string }>) {
+    this.description = `ECS Task Definition '${taskDefinitionArn.split('/').pop()}'`;
+  }
+
+  public async apply(sdk: ISDK): Promise<void> {
+    const ecs = sdk.ecs();
+
+    const { taskDefinition } = await ecs.describeTaskDefinition({ taskDefinition: this.taskDefinitionArn }).promise();
+    if (!taskDefinition) {
+      throw new Error(`Task definition ${this.taskDefinitionArn} does not exist`);
+    }
+
+    const registered = await ecs.registerTaskDefinition({
+      ...registrationInput(taskDefinition),
+      containerDefinitions: (taskDefinition.containerDefinitions ?? []).map(container => ({
+        ...container,
+        image: this.images[container.name!] ?? container.image,
+      })),
+    }).promise();
+
+    for (const { cluster, service } of this.services) {
+      await ecs.updateService({
+        cluster,
+        service,
+        taskDefinition: registered.taskDefinition?.taskDefinitionArn,
+        forceNewDeployment: true,
+      }).promise();
+    }
+  }
+}
+
+/**
+ * The parts of a described task definition that can be passed to RegisterTaskDefinition
+ */
+function registrationInput(taskDefinition: AWS.ECS.TaskDefinition): AWS.ECS.RegisterTaskDefinitionRequest {
+  return {
+    family: taskDefinition.family!,
+    taskRoleArn: taskDefinition.taskRoleArn,
+    executionRoleArn: taskDefinition.executionRoleArn,
+    networkMode: taskDefinition.networkMode,
+    containerDefinitions: taskDefinition.containerDefinitions ?? [],
+    volumes: taskDefinition.volumes,
+    placementConstraints: taskDefinition.placementConstraints,
+    requiresCompatibilities: taskDefinition.requiresCompatibilities,
+    cpu: taskDefinition.cpu,
+    memory: taskDefinition.memory,
+    pidMode: taskDefinition.pidMode,
+    ipcMode: taskDefinition.ipcMode,
+    proxyConfiguration: taskDefinition.proxyConfiguration,
+    inferenceAccelerators: taskDefinition.inferenceAccelerators,
+  };
+}
+
+function withoutImage(container: any) {
+  const ret = { ...container };
+  delete ret.Image;
+  return ret;
+}
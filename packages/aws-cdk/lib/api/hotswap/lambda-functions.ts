@@ -0,0 +1,55 @@
+import * as cfn_diff from '@aws-cdk/cloudformation-diff';
+import { ISDK } from '../aws-auth';
+import { EvaluateCloudFormationTemplate } from '../evaluate-cloudformation-template';
+import { ChangeHotswapImpact, ChangeHotswapResult, changedPropertyNames } from './common';
+
+/**
+ * Returns the operation to update the code of a Lambda function, if that is the only change to the function
+ */
+export async function isHotswappableLambdaFunctionChange(
+  logicalId: string, change: cfn_diff.ResourceDifference, evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<ChangeHotswapResult> {
+  const propertyNames = changedPropertyNames(change);
+  if (propertyNames === undefined || propertyNames.some(name => name !== 'Code')) {
+    return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+  if (propertyNames.length === 0) {
+    return ChangeHotswapImpact.IRRELEVANT;
+  }
+
+  const code = await evaluateCfnTemplate.evaluateCfnExpression(change.newProperties?.Code);
+  if (!code?.S3Bucket || !code?.S3Key) {
+    // Inline code (ZipFile), container images and removed code are not supported
+    return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+
+  const functionName = change.newProperties?.FunctionName
+    ? await evaluateCfnTemplate.evaluateCfnExpression(change.newProperties.FunctionName)
+    : await evaluateCfnTemplate.findPhysicalNameFor(logicalId);
+  if (!functionName) {
+    return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+
+  return new LambdaFunctionHotswapOperation(functionName, code.S3Bucket, code.S3Key, code.S3ObjectVersion);
+}
+
+class LambdaFunctionHotswapOperation {
+  public readonly description: string;
+
+  constructor(
+    private readonly functionName: string,
+    private readonly s3Bucket: string,
+    private readonly s3Key: string,
+    private readonly s3ObjectVersion?: string) {
+    this.description = `Lambda Function '${functionName}'`;
+  }
+
+  public async apply(sdk: ISDK): Promise<void> {
+    await sdk.lambda().updateFunctionCode({
+      FunctionName: this.functionName,
+      S3Bucket: this.s3Bucket,
+      S3Key: this.s3Key,
+      S3ObjectVersion: this.s3ObjectVersion,
+    }).promise();
+  }
+}
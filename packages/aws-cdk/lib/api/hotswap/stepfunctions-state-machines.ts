@@ -0,0 +1,43 @@
+import * as cfn_diff from '@aws-cdk/cloudformation-diff';
+import { ISDK } from '../aws-auth';
+import { EvaluateCloudFormationTemplate } from '../evaluate-cloudformation-template';
+import { ChangeHotswapImpact, ChangeHotswapResult, changedPropertyNames } from './common';
+
+/**
+ * Returns the operation to update the definition of a state machine, if that is the only change to the state machine
+ */
+export async function isHotswappableStateMachineChange(
+  logicalId: string, change: cfn_diff.ResourceDifference, evaluateCfnTemplate: EvaluateCloudFormationTemplate,
+): Promise<ChangeHotswapResult> {
+  const propertyNames = changedPropertyNames(change);
+  if (propertyNames === undefined || propertyNames.some(name => name !== 'DefinitionString')) {
+    return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+  if (propertyNames.length === 0) {
+    return ChangeHotswapImpact.IRRELEVANT;
+  }
+
+  // The physical name of a state machine is its ARN
+  const stateMachineArn = await evaluateCfnTemplate.findPhysicalNameFor(logicalId);
+  if (!stateMachineArn) {
+    return ChangeHotswapImpact.REQUIRES_FULL_DEPLOYMENT;
+  }
+
+  const definition = await evaluateCfnTemplate.evaluateCfnExpression(change.newProperties?.DefinitionString);
+  return new StateMachineHotswapOperation(stateMachineArn, definition);
+}
+
+class StateMachineHotswapOperation {
+  public readonly description: string;
+
+  constructor(private readonly stateMachineArn: string, private readonly definition: string) {
+    this.description = `State Machine '${stateMachineArn.split(':').pop()}'`;
+  }
+
+  public async apply(sdk: ISDK): Promise<void> {
+    await sdk.stepFunctions().updateStateMachine({
+      stateMachineArn: this.stateMachineArn,
+      definition: this.definition,
+    }).promise();
+  }
+}
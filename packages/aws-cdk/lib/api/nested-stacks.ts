@@ -0,0 +1,103 @@
+import * as path from 'path';
+import * as cxapi from '@aws-cdk/cx-api';
+import { CloudFormation } from 'aws-sdk';
+import * as fs from 'fs-extra';
+import { debug } from '../logging';
+import { CloudFormationStack, Template } from './util/cloudformation';
+
+/**
+ * The generated and deployed templates of a nested stack, and of the stacks nested in it
+ */
+export interface NestedStackTemplates {
+  /**
+   * The template of the deployed nested stack, empty if it has not been deployed yet
+   */
+  readonly deployedTemplate: Template;
+
+  /**
+   * The template of the nested stack in the cloud assembly
+   */
+  readonly generatedTemplate: Template;
+
+  /**
+   * The templates of the stacks nested in this one, by the logical ID of their `AWS::CloudFormation::Stack` resource
+   */
+  readonly nestedStackTemplates: { [logicalId: string]: NestedStackTemplates };
+}
+
+/**
+ * Whether the template has nested stacks whose templates can be found in the cloud assembly
+ *
+ * The `NestedStack` construct records the file name of its template in the metadata of
+ * its resource when asset metadata is enabled (which it is, by default).
+ */
+export function hasNestedStacks(template: Template): boolean {
+  return Object.keys(nestedStackTemplateFiles(template)).length > 0;
+}
+
+/**
+ * Load the generated and deployed templates of the stacks nested in a stack, recursively
+ *
+ * @param cfn the CloudFormation client of the environment of the stack
+ * @param assemblyDirectory the directory of the cloud assembly with the generated templates
+ * @param generatedTemplate the generated template of the parent stack
+ * @param deployedStackName the name or ARN of the deployed parent stack, if it has been deployed
+ */
+export async function loadNestedStackTemplates(
+  cfn: CloudFormation,
+  assemblyDirectory: string,
+  generatedTemplate: Template,
+  deployedStackName: string | undefined): Promise<{ [logicalId: string]: NestedStackTemplates }> {
+
+  const templateFiles = nestedStackTemplateFiles(generatedTemplate);
+  if (Object.keys(templateFiles).length === 0) { return {}; }
+
+  const deployedNestedStacks = deployedStackName ? await nestedStackArns(cfn, deployedStackName) : {};
+
+  const ret: { [logicalId: string]: NestedStackTemplates } = {};
+  for (const [logicalId, templateFile] of Object.entries(templateFiles)) {
+    const nestedGeneratedTemplate = await fs.readJson(path.join(assemblyDirectory, templateFile));
+    const nestedStackArn = deployedNestedStacks[logicalId];
+    const deployedTemplate = nestedStackArn ? await (await CloudFormationStack.lookup(cfn, nestedStackArn)).template() : {};
+    debug(`Loaded the templates of nested stack ${logicalId} (${nestedStackArn ?? 'not deployed'})`);
+
+    ret[logicalId] = {
+      deployedTemplate,
+      generatedTemplate: nestedGeneratedTemplate,
+      nestedStackTemplates: await loadNestedStackTemplates(cfn, assemblyDirectory, nestedGeneratedTemplate, nestedStackArn),
+    };
+  }
+  return ret;
+}
+
+/**
+ * The cloud assembly files of the templates of the stacks nested in the template, by logical ID
+ */
+function nestedStackTemplateFiles(template: Template): { [logicalId: string]: string } {
+  const ret: { [logicalId: string]: string } = {};
+  for (const [logicalId, resource] of Object.entries(template.Resources ?? {})) {
+    const templateFile = (resource as any)?.Metadata?.[cxapi.ASSET_RESOURCE_METADATA_PATH_KEY];
+    if ((resource as any)?.Type === 'AWS::CloudFormation::Stack' && typeof templateFile === 'string') {
+      ret[logicalId] = templateFile;
+    }
+  }
+  return ret;
+}
+
+/**
+ * The ARNs of the deployed nested stacks of a stack, by logical ID
+ */
+async function nestedStackArns(cfn: CloudFormation, stackName: string): Promise<{ [logicalId: string]: string }> {
+  const ret: { [logicalId: string]: string } = {};
+  let nextToken: string | undefined;
+  do {
+    const response = await cfn.listStackResources({ StackName: stackName, NextToken: nextToken }).promise();
+    for (const resource of response.StackResourceSummaries ?? []) {
+      if (resource.ResourceType === 'AWS::CloudFormation::Stack' && resource.PhysicalResourceId) {
+        ret[resource.LogicalResourceId] = resource.PhysicalResourceId;
+      }
+    }
+    nextToken = response.NextToken;
+  } while (nextToken);
+  return ret;
+}
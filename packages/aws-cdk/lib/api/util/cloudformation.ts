@@ -1,5 +1,5 @@
 import { CloudFormation } from 'aws-sdk';
-import { debug } from '../../logging';
+import { debug, warning } from '../../logging';
 import { deserializeStructure } from '../../serialize';
 import { StackStatus } from './cloudformation/stack-status';
 
@@ -234,6 +234,31 @@ export async function waitForChangeSet(cfn: CloudFormation, stackName: string, c
   return ret;
 }
 
+/**
+ * Waits for a ChangeSet to finish creating, and returns all of its resource changes
+ *
+ * @param cfn       a CloudFormation client
+ * @param stackName   the name of the Stack that the ChangeSet belongs to
+ * @param changeSetName the name of the ChangeSet
+ *
+ * @returns       the resource changes of the ChangeSet, across all pages
+ */
+export async function describeChangeSetChanges(cfn: CloudFormation, stackName: string, changeSetName: string): Promise<CloudFormation.Changes> {
+  const description = await waitForChangeSet(cfn, stackName, changeSetName);
+  if (changeSetHasNoChanges(description)) {
+    return [];
+  }
+
+  const ret = [...(description.Changes ?? [])];
+  let nextToken = description.NextToken;
+  while (nextToken) {
+    const response = await cfn.describeChangeSet({ StackName: stackName, ChangeSetName: changeSetName, NextToken: nextToken }).promise();
+    ret.push(...(response.Changes ?? []));
+    nextToken = response.NextToken;
+  }
+  return ret;
+}
+
 /**
  * Return true if the given change set has no changes
  *
@@ -331,6 +356,37 @@ export async function stabilizeStack(cfn: CloudFormation, stackName: string) {
   });
 }
 
+/**
+ * Detect the drift of the given stack, and return the drift of each of its resources
+ */
+export async function detectStackDrift(cfn: CloudFormation, stackName: string): Promise<CloudFormation.StackResourceDrift[]> {
+  const { StackDriftDetectionId: detectionId } = await cfn.detectStackDrift({ StackName: stackName }).promise();
+  debug('Waiting for drift detection %s on stack %s to finish...', detectionId, stackName);
+
+  const status = await waitFor(async () => {
+    const description = await cfn.describeStackDriftDetectionStatus({ StackDriftDetectionId: detectionId }).promise();
+    if (description.DetectionStatus === 'DETECTION_IN_PROGRESS') {
+      debug('Drift detection on stack %s is still in progress', stackName);
+      return undefined;
+    }
+    return description;
+  });
+
+  // A failed detection can still have results, for the resources that could be checked
+  if (status?.DetectionStatus === 'DETECTION_FAILED') {
+    warning('Drift detection on stack %s failed for some resources: %s', stackName, status.DetectionStatusReason ?? 'no reason provided');
+  }
+
+  const ret = new Array<CloudFormation.StackResourceDrift>();
+  let nextToken: string | undefined;
+  do {
+    const response = await cfn.describeStackResourceDrifts({ StackName: stackName, NextToken: nextToken }).promise();
+    ret.push(...response.StackResourceDrifts);
+    nextToken = response.NextToken;
+  } while (nextToken);
+  return ret;
+}
+
 /**
  * The set of (formal) parameters that have been declared in a template
  */
@@ -9,6 +9,13 @@ import { RewritableBlock } from '../display';
 export interface StackActivity {
   readonly event: aws.CloudFormation.StackEvent;
   readonly metadata?: ResourceMetadata;
+
+  /**
+   * The logical IDs of the nested stacks leading to the stack the event is from, separated by ' > '
+   *
+   * @default - the event is from the monitored stack itself
+   */
+  readonly nestedStackPath?: string;
 }
 
 export interface ResourceMetadata {
@@ -81,6 +88,17 @@ export interface WithDefaultPrinterProps {
    * @default - local machine's current time
    */
   readonly changeSetCreationTime?: Date;
+
+  /**
+   * Whether other stacks are being deployed at the same time
+   *
+   * If so, the "optimized" stack monitor cannot be used (it would overwrite the
+   * output of the other deployments) and every event is prefixed with the
+   * stack name so the interleaved output can be told apart.
+   *
+   * @default false
+   */
+  readonly concurrent?: boolean;
 }
 
 export class StackActivityMonitor {
@@ -98,6 +116,7 @@ export class StackActivityMonitor {
       resourceTypeColumnWidth: calcMaxResourceTypeLength(stackArtifact.template),
       resourcesTotal: options.resourcesTotal,
       stream,
+      stackPrefix: options.concurrent ? stackName : undefined,
     };
 
     const isWindows = process.platform === 'win32';
@@ -105,7 +124,7 @@ export class StackActivityMonitor {
     // On some CI systems (such as CircleCI) output still reports as a TTY so we also
     // need an individual check for whether we're running on CI.
     // see: https://discuss.circleci.com/t/circleci-terminal-is-a-tty-but-term-is-not-set/9965
-    const fancyOutputAvailable = !isWindows && stream.isTTY && !options.ci;
+    const fancyOutputAvailable = !isWindows && stream.isTTY && !options.ci && !options.concurrent;
     const progress = options.progress ?? StackActivityProgress.BAR;
 
     const printer = fancyOutputAvailable && !verbose && (progress === StackActivityProgress.BAR)
@@ -134,6 +153,11 @@ export class StackActivityMonitor {
    */
   private readPromise?: Promise<any>;
 
+  /**
+   * The nested stacks that were seen in the events, whose events are read as well
+   */
+  private readonly nestedStacks = new Array<{ readonly stackArn: string, readonly path: string }>();
+
   constructor(
     private readonly cfn: aws.CloudFormation,
     private readonly stackName: string,
@@ -210,20 +234,36 @@ export class StackActivityMonitor {
   }
 
   /**
-   * Reads all new events from the stack history
+   * Reads all new events from the history of the stack and its nested stacks
+   */
+  private async readNewEvents(): Promise<void> {
+    const events = await this.readNewEventsOf(this.stackName);
+
+    // Nested stacks that are found while reading are appended, and read in the same pass
+    for (let i = 0; i < this.nestedStacks.length; i++) {
+      events.push(...await this.readNewEventsOf(this.nestedStacks[i].stackArn, this.nestedStacks[i].path));
+    }
+
+    events.sort((a, b) => a.event.Timestamp.valueOf() - b.event.Timestamp.valueOf());
+    for (const event of events) {
+      this.printer.addActivity(event);
+    }
+  }
+
+  /**
+   * Reads all new events from the history of a single stack, and returns them in chronological order
    *
    * The events are returned in reverse chronological order; we continue to the next page if we
    * see a next page and the last event in the page is new to us (and within the time window).
-   * haven't seen the final event
    */
-  private async readNewEvents(): Promise<void> {
+  private async readNewEventsOf(stackName: string, nestedStackPath?: string): Promise<StackActivity[]> {
     const events: StackActivity[] = [];
 
     try {
       let nextToken: string | undefined;
       let finished = false;
       while (!finished) {
-        const response = await this.cfn.describeStackEvents({ StackName: this.stackName, NextToken: nextToken }).promise();
+        const response = await this.cfn.describeStackEvents({ StackName: stackName, NextToken: nextToken }).promise();
         const eventPage = response?.StackEvents ?? [];
 
         for (const event of eventPage) {
@@ -242,8 +282,11 @@ export class StackActivityMonitor {
           // Fresh event
           events.push(this.activity[event.EventId] = {
             event: event,
-            metadata: this.findMetadataFor(event.LogicalResourceId),
+            // Logical IDs are only unique within a stack, so the metadata can only be found for the stack itself
+            metadata: nestedStackPath === undefined ? this.findMetadataFor(event.LogicalResourceId) : undefined,
+            nestedStackPath,
           });
+          this.addNestedStack(event, nestedStackPath);
         }
 
         // We're also done if there's nothing left to read
@@ -253,16 +296,27 @@ export class StackActivityMonitor {
         }
       }
     } catch (e) {
-      if (e.code === 'ValidationError' && e.message === `Stack [${this.stackName}] does not exist`) {
-        return;
+      if (e.code === 'ValidationError' && e.message === `Stack [${stackName}] does not exist`) {
+        return [];
       }
       throw e;
     }
 
-    events.reverse();
-    for (const event of events) {
-      this.printer.addActivity(event);
-    }
+    return events.reverse();
+  }
+
+  /**
+   * Start reading the events of the nested stack the event is about, if it is about one we don't know yet
+   *
+   * The events of a stack itself are about a resource of the same type, with the ID of the stack as its physical ID.
+   */
+  private addNestedStack(event: aws.CloudFormation.StackEvent, parentPath: string | undefined) {
+    const stackArn = event.PhysicalResourceId;
+    if (event.ResourceType !== 'AWS::CloudFormation::Stack' || !stackArn || stackArn === event.StackId) { return; }
+    if (this.nestedStacks.some(nested => nested.stackArn === stackArn)) { return; }
+
+    const logicalId = event.LogicalResourceId ?? stackArn;
+    this.nestedStacks.push({ stackArn, path: parentPath !== undefined ? `${parentPath} > ${logicalId}` : logicalId });
   }
 
   /**
@@ -336,6 +390,13 @@ interface PrinterProps {
    * Stream to write to
    */
   readonly stream: NodeJS.WriteStream;
+
+  /**
+   * Name to prefix every line of output with
+   *
+   * @default - No prefix
+   */
+  readonly stackPrefix?: string;
 }
 
 export interface IActivityPrinter {
@@ -400,13 +461,17 @@ abstract class ActivityPrinterBase implements IActivityPrinter {
     const status = activity.event.ResourceStatus;
     if (!status || !activity.event.LogicalResourceId) { return; }
 
-    if (status === 'ROLLBACK_IN_PROGRESS' || status === 'UPDATE_ROLLBACK_IN_PROGRESS') {
+    // The resources of nested stacks do not count towards the progress of the stack itself
+    const nested = activity.nestedStackPath !== undefined;
+    const resourceKey = nested ? `${activity.nestedStackPath} > ${activity.event.LogicalResourceId}` : activity.event.LogicalResourceId;
+
+    if (!nested && (status === 'ROLLBACK_IN_PROGRESS' || status === 'UPDATE_ROLLBACK_IN_PROGRESS')) {
       // Only triggered on the stack once we've started doing a rollback
       this.rollingBack = true;
     }
 
     if (status.endsWith('_IN_PROGRESS')) {
-      this.resourcesInProgress[activity.event.LogicalResourceId] = activity;
+      this.resourcesInProgress[resourceKey] = activity;
     }
 
     if (hasErrorMessage(status)) {
@@ -419,10 +484,10 @@ abstract class ActivityPrinterBase implements IActivityPrinter {
     }
 
     if (status.endsWith('_COMPLETE') || status.endsWith('_FAILED')) {
-      delete this.resourcesInProgress[activity.event.LogicalResourceId];
+      delete this.resourcesInProgress[resourceKey];
     }
 
-    if (status.endsWith('_COMPLETE')) {
+    if (!nested && status.endsWith('_COMPLETE')) {
       const prevState = this.resourcesPrevCompleteState[activity.event.LogicalResourceId];
       if (!prevState) {
         this.resourcesDone++;
@@ -503,7 +568,8 @@ export class HistoryActivityPrinter extends ActivityPrinterBase {
 
     const logicalId = resourceName !== e.LogicalResourceId ? `(${e.LogicalResourceId}) ` : '';
 
-    this.stream.write(util.format(' %s | %s | %s | %s | %s %s%s%s\n',
+    this.stream.write(util.format(' %s%s | %s | %s | %s | %s %s%s%s\n',
+      this.prefix(activity),
       this.progress(),
       new Date(e.Timestamp).toLocaleTimeString(),
       color(padRight(STATUS_WIDTH, (e.ResourceStatus || '').substr(0, STATUS_WIDTH))), // pad left and trim
@@ -530,6 +596,14 @@ export class HistoryActivityPrinter extends ActivityPrinterBase {
       padLeft(this.resourceDigits, this.resourcesTotal != null ? this.resourcesTotal.toString() : '?'));
   }
 
+  /**
+   * The stack name to tell the output of concurrent deployments apart, and the nested stack the event is from, if any
+   */
+  private prefix(activity?: StackActivity): string {
+    const prefix = [this.props.stackPrefix, activity?.nestedStackPath].filter(x => x !== undefined).join(' > ');
+    return prefix ? colors.bold(prefix) + ' | ' : '';
+  }
+
   /**
    * If some resources are taking a while to create, notify the user about what's currently in progress
    */
@@ -539,7 +613,8 @@ export class HistoryActivityPrinter extends ActivityPrinterBase {
     }
 
     if (Object.keys(this.resourcesInProgress).length > 0) {
-      this.stream.write(util.format('%s Currently in progress: %s\n',
+      this.stream.write(util.format('%s%s Currently in progress: %s\n',
+        this.prefix(),
         this.progress(),
         colors.bold(Object.keys(this.resourcesInProgress).join(', '))));
     }
@@ -596,7 +671,9 @@ export class CurrentActivityPrinter extends ActivityPrinterBase {
 
     lines.push(...toPrint.map(res => {
       const color = colorFromStatusActivity(res.event.ResourceStatus);
-      const resourceName = res.metadata?.constructPath ?? res.event.LogicalResourceId ?? '';
+      const resourceName = res.nestedStackPath !== undefined
+        ? `${res.nestedStackPath} > ${res.event.LogicalResourceId}`
+        : res.metadata?.constructPath ?? res.event.LogicalResourceId ?? '';
 
       return util.format('%s | %s | %s | %s%s',
         padLeft(TIMESTAMP_WIDTH, new Date(res.event.Timestamp).toLocaleTimeString()),
@@ -626,7 +703,9 @@ export class CurrentActivityPrinter extends ActivityPrinterBase {
         padLeft(TIMESTAMP_WIDTH, new Date(failure.event.Timestamp).toLocaleTimeString()),
         padRight(STATUS_WIDTH, (failure.event.ResourceStatus || '').substr(0, STATUS_WIDTH)),
         padRight(this.props.resourceTypeColumnWidth, failure.event.ResourceType || ''),
-        shorten(40, failure.event.LogicalResourceId ?? ''),
+        shorten(40, failure.nestedStackPath !== undefined
+          ? `${failure.nestedStackPath} > ${failure.event.LogicalResourceId}`
+          : failure.event.LogicalResourceId ?? ''),
         this.failureReasonOnNextLine(failure)));
 
       const trace = failure.metadata?.entry?.trace;
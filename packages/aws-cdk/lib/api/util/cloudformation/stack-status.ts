@@ -33,6 +33,16 @@ export class StackStatus {
     return this.name === 'NOT_FOUND';
   }
 
+  /**
+   * Whether the last deployment failed with rollback disabled, preserving the resources it provisioned
+   *
+   * Such a stack can either be rolled back, or deployed again with rollback
+   * disabled to continue from where the failed deployment stopped.
+   */
+  get isRollbackable(): boolean {
+    return this.name === 'CREATE_FAILED' || this.name === 'UPDATE_FAILED';
+  }
+
   get isDeploySuccess(): boolean {
     return !this.isNotFound && (this.name === 'CREATE_COMPLETE' || this.name === 'UPDATE_COMPLETE');
   }
@@ -0,0 +1,213 @@
+import * as cfnspec from '@aws-cdk/cfnspec';
+import * as cfnDiff from '@aws-cdk/cloudformation-diff';
+import * as cxapi from '@aws-cdk/cx-api';
+import * as colors from 'colors/safe';
+import * as minimatch from 'minimatch';
+import { buildLogicalToPathMap } from './diff';
+import { warning } from './logging';
+
+/**
+ * What happens to a resource in a deployment
+ */
+export enum ResourceChangeKind {
+  ADD = 'add',
+
+  /**
+   * The resource is updated in place
+   */
+  UPDATE = 'update',
+
+  /**
+   * The resource is (or may be) replaced by a new physical resource
+   */
+  REPLACE = 'replace',
+
+  /**
+   * The resource is deleted; resources that are retained when they are removed from the stack are not
+   */
+  REMOVE = 'remove',
+}
+
+/**
+ * What to do with a deployment that makes a change matched by a rule
+ */
+export enum ApprovalRuleAction {
+  /**
+   * Ask for confirmation before deploying; fails if there is no terminal to ask on
+   */
+  REQUIRE_APPROVAL = 'require-approval',
+
+  /**
+   * Never deploy the change
+   */
+  BLOCK = 'block',
+}
+
+/**
+ * A rule of the approval policy, as given in the 'approvalPolicy' setting in `cdk.json`
+ *
+ * A rule matches a change to a resource if the resource matches all of the criteria that are given.
+ */
+export interface ApprovalRule {
+  /**
+   * Resource type, may contain wildcards (for example `AWS::RDS::*`)
+   *
+   * @default - all resource types
+   */
+  readonly resourceType?: string;
+
+  /**
+   * Only match resources that hold data (`true`), or only ones that don't (`false`)
+   *
+   * @default - both
+   */
+  readonly stateful?: boolean;
+
+  /**
+   * The kinds of changes the rule applies to
+   *
+   * @default - all kinds of changes
+   */
+  readonly changes?: ResourceChangeKind[];
+
+  /**
+   * @default ApprovalRuleAction.REQUIRE_APPROVAL
+   */
+  readonly action?: ApprovalRuleAction;
+
+  /**
+   * Shown along with the changes the rule matches
+   *
+   * @default - a description derived from the criteria
+   */
+  readonly description?: string;
+}
+
+/**
+ * A change to a resource that matches a rule of the approval policy
+ */
+export interface ApprovalRuleMatch {
+  readonly rule: ApprovalRule;
+  readonly logicalId: string;
+  readonly resourceType: string;
+  readonly change: ResourceChangeKind;
+
+  /**
+   * The path of the nested stack the resource is in
+   *
+   * @default - the resource is in the deployed stack itself
+   */
+  readonly nestedStack?: string;
+}
+
+/**
+ * Validate the 'approvalPolicy' setting and return its rules
+ */
+export function parseApprovalPolicy(x: unknown): ApprovalRule[] {
+  if (x === undefined) { return []; }
+  if (!Array.isArray(x)) {
+    throw new Error(`Expected the 'approvalPolicy' setting to be a list of rules, got: ${JSON.stringify(x)}`);
+  }
+
+  return x.map((rule, i) => {
+    const problem = approvalRuleProblem(rule);
+    if (problem) {
+      throw new Error(`Invalid rule ${i} in the 'approvalPolicy' setting (${JSON.stringify(rule)}): ${problem}`);
+    }
+    return rule;
+  });
+}
+
+/**
+ * The changes in the diff that match a rule of the approval policy
+ *
+ * A change that matches more than one rule is returned once for every rule it matches.
+ */
+export function evaluateApprovalPolicy(rules: ApprovalRule[], diff: cfnDiff.TemplateDiff): ApprovalRuleMatch[] {
+  const ret = new Array<ApprovalRuleMatch>();
+  diff.resources.forEachDifference((logicalId, resourceDiff) => {
+    const change = resourceChangeKind(resourceDiff);
+    const resourceTypes = [resourceDiff.oldResourceType, resourceDiff.newResourceType].filter(isDefined);
+    // The metadata resource changes with every CDK version, it is not worth approving
+    if (!change || resourceTypes.includes('AWS::CDK::Metadata')) { return; }
+
+    for (const rule of rules) {
+      const resourceType = resourceTypes.find(type => ruleMatches(rule, type, change));
+      if (resourceType) {
+        ret.push({ rule, logicalId, resourceType, change });
+      }
+    }
+  });
+  return ret;
+}
+
+/**
+ * Print the changes of a stack that match rules of the approval policy
+ */
+export function printApprovalRuleMatches(stack: cxapi.CloudFormationStackArtifact, matches: ApprovalRuleMatch[]) {
+  const paths = buildLogicalToPathMap(stack);
+  for (const match of matches) {
+    const action = match.rule.action === ApprovalRuleAction.BLOCK ? colors.red('[blocked]') : colors.yellow('[requires approval]');
+    const resource = match.nestedStack ? `${match.nestedStack} > ${match.logicalId}` : paths[match.logicalId] ?? match.logicalId;
+    warning('%s %s (%s) will be %s: %s', action, resource, match.resourceType, pastTense(match.change), describeRule(match.rule));
+  }
+}
+
+function ruleMatches(rule: ApprovalRule, resourceType: string, change: ResourceChangeKind): boolean {
+  return (rule.resourceType === undefined || minimatch(resourceType, rule.resourceType))
+    && (rule.stateful === undefined || rule.stateful === cfnspec.cfnLintAnnotations(resourceType).stateful)
+    && (rule.changes === undefined || rule.changes.includes(change));
+}
+
+function resourceChangeKind(diff: cfnDiff.ResourceDifference): ResourceChangeKind | undefined {
+  switch (diff.changeImpact) {
+    case cfnDiff.ResourceImpact.WILL_CREATE: return ResourceChangeKind.ADD;
+    case cfnDiff.ResourceImpact.WILL_UPDATE: return ResourceChangeKind.UPDATE;
+    case cfnDiff.ResourceImpact.MAY_REPLACE:
+    case cfnDiff.ResourceImpact.WILL_REPLACE: return ResourceChangeKind.REPLACE;
+    case cfnDiff.ResourceImpact.WILL_DESTROY: return ResourceChangeKind.REMOVE;
+    default: return undefined;
+  }
+}
+
+function approvalRuleProblem(rule: any): string | undefined {
+  if (typeof rule !== 'object' || rule === null) { return 'a rule must be an object'; }
+  if (rule.resourceType !== undefined && typeof rule.resourceType !== 'string') { return '\'resourceType\' must be a string'; }
+  if (rule.stateful !== undefined && typeof rule.stateful !== 'boolean') { return '\'stateful\' must be a boolean'; }
+  if (rule.description !== undefined && typeof rule.description !== 'string') { return '\'description\' must be a string'; }
+
+  const kinds = Object.values(ResourceChangeKind) as string[];
+  if (rule.changes !== undefined && (!Array.isArray(rule.changes) || rule.changes.some((c: any) => !kinds.includes(c)))) {
+    return `'changes' must be a list of: ${kinds.join(', ')}`;
+  }
+  const actions = Object.values(ApprovalRuleAction) as string[];
+  if (rule.action !== undefined && !actions.includes(rule.action)) {
+    return `'action' must be one of: ${actions.join(', ')}`;
+  }
+  return undefined;
+}
+
+function describeRule(rule: ApprovalRule): string {
+  if (rule.description) { return rule.description; }
+
+  const resources = [
+    rule.stateful === undefined ? undefined : rule.stateful ? 'stateful' : 'stateless',
+    'resources',
+    rule.resourceType !== undefined ? `of type ${rule.resourceType}` : undefined,
+  ].filter(isDefined).join(' ');
+  const changes = rule.changes?.map(pastTense).join(' or ') ?? 'changed';
+  return `${resources} that are ${changes}`;
+}
+
+function pastTense(change: ResourceChangeKind): string {
+  switch (change) {
+    case ResourceChangeKind.ADD: return 'added';
+    case ResourceChangeKind.UPDATE: return 'updated';
+    case ResourceChangeKind.REPLACE: return 'replaced';
+    case ResourceChangeKind.REMOVE: return 'removed';
+  }
+}
+
+function isDefined<A>(x: A | undefined): x is A {
+  return x !== undefined;
+}
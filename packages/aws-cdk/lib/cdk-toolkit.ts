@@ -1,21 +1,34 @@
 import * as path from 'path';
 import { format } from 'util';
+import { diffTemplate, ResourceReplacements } from '@aws-cdk/cloudformation-diff';
 import * as cxapi from '@aws-cdk/cx-api';
+import * as chokidar from 'chokidar';
 import * as colors from 'colors/safe';
 import * as fs from 'fs-extra';
 import * as promptly from 'promptly';
 import { environmentsFromDescriptors, globEnvironmentsFromStacks, looksLikeGlob } from '../lib/api/cxapp/environments';
 import { SdkProvider } from './api/aws-auth';
 import { Bootstrapper, BootstrapEnvironmentOptions } from './api/bootstrap';
+import { bootstrapStatus, bootstrapStatusHasProblems, printBootstrapStatus } from './api/bootstrap-status';
+import { bootstrapVersionFromTemplate } from './api/bootstrap/deploy-bootstrap';
 import { CloudFormationDeployments } from './api/cloudformation-deployments';
-import { CloudAssembly, DefaultSelection, ExtendedStackSelection, StackCollection } from './api/cxapp/cloud-assembly';
+import { CloudAssembly, DefaultSelection, ExtendedStackSelection, StackCollection, StackFilter } from './api/cxapp/cloud-assembly';
 import { CloudExecutable } from './api/cxapp/cloud-executable';
+import { GarbageCollectionAction, GarbageCollectionType, GarbageCollector, printGarbageCollectionResult } from './api/garbage-collector';
+import { NestedStackTemplates } from './api/nested-stacks';
 import { StackActivityProgress } from './api/util/cloudformation/stack-activity-monitor';
-import { printSecurityDiff, printStackDiff, RequireApproval } from './diff';
-import { data, error, highlight, print, success, warning } from './logging';
+import { ApprovalRule, ApprovalRuleAction, evaluateApprovalPolicy, printApprovalRuleMatches } from './approval-policy';
+import { deployStacks } from './deploy';
+import { diffNestedStacks, printSecurityDiff, printStackDiff, printStackDrift, replacementsFromChangeSet, RequireApproval, StackDiffJson, stackDiffJson } from './diff';
+import { findResourcesToImport, makeResourcesToImport, resolveResourceIdentifiers } from './import';
+import { GraphFormat, renderDependencyGraph, stackDetails } from './list';
+import { data, debug, error, highlight, print, success, warning } from './logging';
+import { PluginHost } from './plugin';
+import { findResourceRenames, printResourceRenames, recordResourceRenames, StackResourceRenames } from './refactor';
 import { deserializeStructure } from './serialize';
-import { Configuration } from './settings';
-import { partition } from './util';
+import { Configuration, PROJECT_CONFIG, PROJECT_CONTEXT } from './settings';
+import { flatMap, partition } from './util';
+import { contentHash } from './util/content-hash';
 
 export interface CdkToolkitProps {
 
@@ -77,12 +90,27 @@ export class CdkToolkit {
   }
 
   public async diff(options: DiffOptions): Promise<number> {
-    const stacks = await this.selectStacksForDiff(options.stackNames, options.exclusively);
+    const stacks = await this.selectStacksForDiff(options.stackNames, options.exclusively, options.stackFilter);
 
     const strict = !!options.strict;
     const contextLines = options.contextLines || 3;
     const stream = options.stream || process.stderr;
 
+    // In JSON mode, the differences of all stacks are collected and written at the end
+    const jsonDiffs = new Array<StackDiffJson>();
+    const diffStack = (
+      currentTemplate: any,
+      stack: cxapi.CloudFormationStackArtifact,
+      replacements?: ResourceReplacements,
+      nestedStackTemplates?: { [logicalId: string]: NestedStackTemplates }) => {
+      if (!options.json) {
+        return printStackDiff(currentTemplate, stack, strict, contextLines, stream, replacements, nestedStackTemplates);
+      }
+      const stackDiff = stackDiffJson(currentTemplate, stack, strict, replacements, nestedStackTemplates);
+      jsonDiffs.push(stackDiff);
+      return stackDiff.differenceCount;
+    };
+
     let diffs = 0;
     if (options.templatePath !== undefined) {
       // Compare single stack against fixed template
@@ -94,23 +122,70 @@ export class CdkToolkit {
         throw new Error(`There is no file at ${options.templatePath}`);
       }
       const template = deserializeStructure(await fs.readFile(options.templatePath, { encoding: 'UTF-8' }));
-      diffs = printStackDiff(template, stacks.firstStack, strict, contextLines, stream);
+      diffs = diffStack(template, stacks.firstStack);
     } else {
       // Compare N stacks against deployed templates
       for (const stack of stacks.stackArtifacts) {
-        stream.write(format('Stack %s\n', colors.bold(stack.displayName)));
+        if (!options.json) {
+          stream.write(format('Stack %s\n', colors.bold(stack.displayName)));
+        }
         const currentTemplate = await this.props.cloudFormation.readCurrentTemplate(stack);
-        diffs += printStackDiff(currentTemplate, stack, strict, contextLines, stream);
+        const nestedStackTemplates = await this.props.cloudFormation.readCurrentNestedStackTemplates(stack);
+        const replacements = options.changeSet ? await this.changeSetReplacements(stack) : undefined;
+        diffs += diffStack(currentTemplate, stack, replacements, nestedStackTemplates);
       }
     }
 
+    if (options.json) {
+      (options.stream || process.stdout).write(JSON.stringify({ stacks: jsonDiffs }, undefined, 2) + '\n');
+    }
+
     return diffs && options.fail ? 1 : 0;
   }
 
+  public async drift(options: DriftOptions): Promise<number> {
+    const stacks = await this.selectStacksForDiff(options.stackNames, options.exclusively);
+    const stream = options.stream || process.stderr;
+
+    let drifts = 0;
+    for (const stack of stacks.stackArtifacts) {
+      stream.write(format('Stack %s\n', colors.bold(stack.displayName)));
+      if (!await this.props.cloudFormation.stackExists({ stack })) {
+        warning('%s: stack is not deployed, skipping drift detection', colors.bold(stack.displayName));
+        continue;
+      }
+
+      const stackDrifts = await this.props.cloudFormation.detectStackDrift(stack);
+      drifts += printStackDrift(stackDrifts, stack, stream);
+    }
+
+    return drifts && options.fail ? 1 : 0;
+  }
+
+  public async refactor(options: RefactorOptions): Promise<number> {
+    const stacks = await this.selectStacksForDiff(options.stackNames, options.exclusively);
+
+    const stackRenames = new Array<StackResourceRenames>();
+    for (const stack of stacks.stackArtifacts) {
+      print('Stack %s', colors.bold(stack.displayName));
+      const currentTemplate = await this.props.cloudFormation.readCurrentTemplate(stack);
+      const renames = findResourceRenames(currentTemplate, stack);
+      printResourceRenames(renames);
+      stackRenames.push(renames);
+    }
+
+    if (options.record && await recordResourceRenames(PROJECT_CONFIG, stackRenames)) {
+      success('Recorded the logical IDs to keep in %s', PROJECT_CONFIG);
+    }
+
+    return 0;
+  }
+
   public async deploy(options: DeployOptions) {
-    const stacks = await this.selectStacksForDeploy(options.stackNames, options.exclusively);
+    const stacks = await this.selectStacksForDeploy(options.stackNames, options.exclusively, options.stackFilter);
 
     const requireApproval = options.requireApproval ?? RequireApproval.Broadening;
+    const approvalPolicy = options.approvalPolicy ?? [];
 
     const parameterMap: { [name: string]: { [name: string]: string | undefined } } = { '*': {} };
     for (const key in options.parameters) {
@@ -130,8 +205,19 @@ export class CdkToolkit {
     const stackOutputs: { [key: string]: any } = { };
     const outputsFile = options.outputsFile;
 
-    for (const stack of stacks.stackArtifacts) {
-      if (stacks.stackCount !== 1) { highlight(stack.displayName); }
+    const concurrency = options.concurrency ?? 1;
+    const concurrent = concurrency > 1 && stacks.stackCount > 1;
+
+    // Security approval prompts of concurrent deployments must not be interleaved
+    let approvals = Promise.resolve();
+    const serializeApproval = (fn: () => Promise<void>) => {
+      const ret = approvals.then(fn);
+      approvals = ret.catch(() => undefined);
+      return ret;
+    };
+
+    const deployStack = async (stack: cxapi.CloudFormationStackArtifact) => {
+      if (stacks.stackCount !== 1 && !concurrent) { highlight(stack.displayName); }
       if (!stack.environment) {
         // eslint-disable-next-line max-len
         throw new Error(`Stack ${stack.displayName} does not define an environment, and AWS credentials could not be obtained from standard locations or no region was configured.`);
@@ -150,23 +236,47 @@ export class CdkToolkit {
             fromDeploy: true,
           });
         }
-        continue;
+        return;
       }
 
-      if (requireApproval !== RequireApproval.Never) {
-        const currentTemplate = await this.props.cloudFormation.readCurrentTemplate(stack);
-        if (printSecurityDiff(currentTemplate, stack, requireApproval)) {
-
-          // only talk to user if STDIN is a terminal (otherwise, fail)
-          if (!process.stdin.isTTY) {
-            throw new Error(
-              '"--require-approval" is enabled and stack includes security-sensitive updates, ' +
-              'but terminal (TTY) is not attached so we are unable to get a confirmation from the user');
+      if (requireApproval !== RequireApproval.Never || approvalPolicy.length > 0) {
+        await serializeApproval(async () => {
+          const currentTemplate = await this.props.cloudFormation.readCurrentTemplate(stack);
+          const nestedStackTemplates = await this.props.cloudFormation.readCurrentNestedStackTemplates(stack);
+
+          const policyMatches = approvalPolicy.length > 0
+            ? [
+              ...evaluateApprovalPolicy(approvalPolicy, diffTemplate(currentTemplate, stack.template)),
+              ...flatMap(diffNestedStacks(stack.displayName, nestedStackTemplates, true), nested =>
+                evaluateApprovalPolicy(approvalPolicy, nested.diff).map(match => ({ ...match, nestedStack: nested.path }))),
+            ]
+            : [];
+          printApprovalRuleMatches(stack, policyMatches);
+          const blocked = policyMatches.filter(m => m.rule.action === ApprovalRuleAction.BLOCK);
+          if (blocked.length > 0) {
+            throw new Error(`${stack.displayName}: deployment blocked by the approval policy (${blocked.length} blocked changes)`);
           }
 
-          const confirmed = await promptly.confirm('Do you wish to deploy these changes (y/n)?');
-          if (!confirmed) { throw new Error('Aborted by user'); }
-        }
+          // '--require-approval never' only turns off the prompts for security-sensitive changes
+          const securityApproval = requireApproval !== RequireApproval.Never
+            && printSecurityDiff(currentTemplate, stack, requireApproval, nestedStackTemplates);
+          const policyApproval = !options.approvePolicyChanges && policyMatches.length > 0;
+          if (securityApproval || policyApproval) {
+
+            // only talk to user if STDIN is a terminal (otherwise, fail)
+            if (!process.stdin.isTTY) {
+              throw new Error(securityApproval
+                ? '"--require-approval" is enabled and stack includes security-sensitive updates, ' +
+                  'but terminal (TTY) is not attached so we are unable to get a confirmation from the user'
+                : `The approval policy requires approval for ${policyMatches.length} changes to ${stack.displayName}, ` +
+                  'but terminal (TTY) is not attached so we are unable to get a confirmation from the user ' +
+                  '(use "--approve-policy-changes" to deploy them without confirmation)');
+            }
+
+            const confirmed = await promptly.confirm('Do you wish to deploy these changes (y/n)?');
+            if (!confirmed) { throw new Error('Aborted by user'); }
+          }
+        });
       }
 
       print('%s: deploying...', colors.bold(stack.displayName));
@@ -177,6 +287,8 @@ export class CdkToolkit {
       }
 
       try {
+        await PluginHost.instance.invokeHooks('preDeploy', stack);
+
         const result = await this.props.cloudFormation.deployStack({
           stack,
           deployName: stack.stackName,
@@ -192,6 +304,9 @@ export class CdkToolkit {
           usePreviousParameters: options.usePreviousParameters,
           progress: options.progress,
           ci: options.ci,
+          concurrent,
+          hotswap: options.hotswap,
+          rollback: options.rollback,
         });
 
         const message = result.noOp
@@ -214,26 +329,183 @@ export class CdkToolkit {
         print('\nStack ARN:');
 
         data(result.stackArn);
+
+        await PluginHost.instance.invokeHooks('postDeploy', stack, result);
       } catch (e) {
         error('\n ❌  %s failed: %s', colors.bold(stack.displayName), e);
         throw e;
+      }
+    };
+
+    try {
+      await deployStacks(stacks.stackArtifacts, {
+        concurrency,
+        deployStack,
+        continueOnError: options.continueOnError,
+      });
+    } finally {
+      // If an outputs file has been specified, create the file path and write stack outputs to it once.
+      // Outputs are written after all stacks have been deployed. If a stack deployment fails,
+      // all of the outputs from successfully deployed stacks before the failure will still be written.
+      if (outputsFile) {
+        fs.ensureFileSync(outputsFile);
+        await fs.writeJson(outputsFile, stackOutputs, {
+          spaces: 2,
+          encoding: 'utf8',
+        });
+      }
+    }
+  }
+
+  /**
+   * Watch the app for file changes, and redeploy the stacks that changed
+   *
+   * The files to watch are configured with the `watch.include` and
+   * `watch.exclude` globs in `cdk.json`. File system events are debounced,
+   * and changes that come in while a deployment is in progress are queued
+   * up for a single new deployment once the current one has finished.
+   *
+   * Every deployment re-synthesizes the app, and only deploys the stacks
+   * whose templates or assets are different from the last time they were
+   * deployed by this watch session (all selected stacks the first time).
+   */
+  public async watch(options: WatchOptions) {
+    const rootDir = path.dirname(path.resolve(PROJECT_CONFIG));
+    const watchSettings: WatchSettings = this.props.configuration.settings.get(['watch']) ?? {};
+
+    const includes = toArray(watchSettings.include ?? '**');
+    const excludes = toArray(watchSettings.exclude ?? []);
+
+    // Never watch our own output, dotfiles and dependencies
+    const outputDir: string | undefined = this.props.configuration.settings.get(['output']);
+    if (outputDir) {
+      excludes.push(`${outputDir}/**`);
+    }
+    excludes.push(PROJECT_CONTEXT, '**/.*', '**/.*/**', '**/node_modules/**');
+
+    debug(`'include' patterns for 'watch': ${includes}`);
+    debug(`'exclude' patterns for 'watch': ${excludes}`);
+
+    const deployedFingerprints = new Map<string, string>();
+    let deploying = false;
+    let queued = false;
+    let debounceTimer: NodeJS.Timer | undefined;
+
+    const deployChanges = async () => {
+      if (deploying) {
+        queued = true;
+        return;
+      }
+
+      deploying = true;
+      try {
+        do {
+          queued = false;
+          try {
+            await this.deployChangedStacks(options, deployedFingerprints);
+          } catch (e) {
+            error('\n ❌  Deployment failed: %s', e.message);
+          }
+        } while (queued);
       } finally {
-        // If an outputs file has been specified, create the file path and write stack outputs to it once.
-        // Outputs are written after all stacks have been deployed. If a stack deployment fails,
-        // all of the outputs from successfully deployed stacks before the failure will still be written.
-        if (outputsFile) {
-          fs.ensureFileSync(outputsFile);
-          await fs.writeJson(outputsFile, stackOutputs, {
-            spaces: 2,
-            encoding: 'utf8',
-          });
-        }
+        deploying = false;
       }
+      print('\nWatching for file changes...');
+    };
+
+    chokidar.watch(includes, {
+      ignored: excludes,
+      cwd: rootDir,
+      ignoreInitial: true,
+    }).on('ready', () => {
+      debug(`'watch' is observing directory '${rootDir}' for changes`);
+      return deployChanges();
+    }).on('all', (event: string, filePath?: string) => {
+      print(`Detected change to '${filePath}' (type: ${event})`);
+      if (debounceTimer) { clearTimeout(debounceTimer); }
+      debounceTimer = setTimeout(() => {
+        debounceTimer = undefined;
+        void deployChanges();
+      }, options.debounceMs ?? WATCH_DEBOUNCE_MS);
+    });
+  }
+
+  public async import(options: ImportOptions) {
+    const stacks = await this.selectStacksForDeploy([options.stackName], true);
+    if (stacks.stackCount !== 1) {
+      throw new Error(`Resources can only be imported into a single stack at a time, but the selection matched: ${stacks.stackIds}`);
+    }
+    const stack = stacks.firstStack;
+    highlight(stack.displayName);
+
+    const currentTemplate = await this.props.cloudFormation.readCurrentTemplate(stack);
+    const summaries = await this.props.cloudFormation.resourceIdentifierSummaries(stack, options.toolkitStackName);
+    const resources = findResourcesToImport(currentTemplate, stack, summaries);
+    if (resources.length === 0) {
+      warning('%s: no new resources to import', colors.bold(stack.displayName));
+      return;
+    }
+
+    const mapping = await resolveResourceIdentifiers(resources, {
+      mapping: options.resourceMappingFile ? await fs.readJson(options.resourceMappingFile) : undefined,
+      interactive: options.resourceMappingFile === undefined,
+    });
+
+    if (options.recordResourceMapping) {
+      await fs.writeJson(options.recordResourceMapping, mapping, { spaces: 2 });
+      print('%s: resource mapping recorded in %s', colors.bold(stack.displayName), options.recordResourceMapping);
+      return;
+    }
+
+    print('%s: importing %s...', colors.bold(stack.displayName), resources.map(r => r.logicalId).join(', '));
+
+    let tags = options.tags;
+    if (!tags || tags.length === 0) {
+      tags = tagsForStack(stack);
+    }
+
+    await this.props.cloudFormation.deployStack({
+      stack,
+      deployName: stack.stackName,
+      roleArn: options.roleArn,
+      toolkitStackName: options.toolkitStackName,
+      tags,
+      execute: options.execute,
+      changeSetName: options.changeSetName,
+      usePreviousParameters: true,
+      progress: options.progress,
+      resourcesToImport: makeResourcesToImport(resources, mapping),
+    });
+
+    success('\n ✅  %s (imported %s resource(s))', stack.displayName, resources.length);
+  }
+
+  /**
+   * Roll back a stack whose last deployment failed with rollback disabled
+   */
+  public async rollback(options: RollbackOptions) {
+    const stacks = await this.selectStacksForDeploy([options.stackName], true);
+    if (stacks.stackCount !== 1) {
+      throw new Error(`Only a single stack can be rolled back at a time, but the selection matched: ${stacks.stackIds}`);
+    }
+    const stack = stacks.firstStack;
+
+    print('%s: rolling back...', colors.bold(stack.displayName));
+    try {
+      await this.props.cloudFormation.rollbackStack({
+        stack,
+        deployName: stack.stackName,
+        roleArn: options.roleArn,
+      });
+      success('\n ✅  %s: rolled back', colors.blue(stack.displayName));
+    } catch (e) {
+      error('\n ❌  %s: rollback failed', colors.blue(stack.displayName), e);
+      throw e;
     }
   }
 
   public async destroy(options: DestroyOptions) {
-    let stacks = await this.selectStacksForDestroy(options.stackNames, options.exclusively);
+    let stacks = await this.selectStacksForDestroy(options.stackNames, options.exclusively, options.stackFilter);
 
     // The stacks will have been ordered for deployment, so reverse them for deletion.
     stacks = stacks.reversed();
@@ -263,25 +535,26 @@ export class CdkToolkit {
     }
   }
 
-  public async list(selectors: string[], options: { long?: boolean } = { }) {
-    const stacks = await this.selectStacksForList(selectors);
+  public async list(selectors: string[], options: ListOptions = { }) {
+    const stacks = await this.selectStacksForList(selectors, options.stackFilter);
 
-    // if we are in "long" mode, emit the array as-is (JSON/YAML)
-    if (options.long) {
-      const long = [];
-      for (const stack of stacks.stackArtifacts) {
-        long.push({
-          id: stack.id,
-          name: stack.stackName,
-          environment: stack.environment,
-        });
-      }
-      return long; // will be YAML formatted output
+    // Stacks in stages are listed by their hierarchical ID, which is what selects them
+    const hierarchicalIds = new Map(Array.from(stacks.assembly.stacksRecursively()).map(([id, stack]) => [stack, id]));
+    const details = stackDetails(stacks.stackArtifacts, hierarchicalIds);
+
+    if (options.graph) {
+      data(renderDependencyGraph(details, options.graph));
+      return 0;
+    }
+
+    // if we are in "long" or JSON mode, emit the array as-is (JSON/YAML)
+    if (options.long || options.json) {
+      return details;
     }
 
     // just print stack IDs
-    for (const stack of stacks.stackArtifacts) {
-      data(stack.id);
+    for (const stack of details) {
+      data(stack.hierarchicalId);
     }
 
     return 0; // exit-code
@@ -296,8 +569,8 @@ export class CdkToolkit {
    * OUTPUT: If more than one stack ends up being selected, an output directory
    * should be supplied, where the templates will be written.
    */
-  public async synth(stackNames: string[], exclusively: boolean, quiet: boolean): Promise<any> {
-    const stacks = await this.selectStacksForDiff(stackNames, exclusively);
+  public async synth(stackNames: string[], exclusively: boolean, quiet: boolean, stackFilter?: StackFilter): Promise<any> {
+    const stacks = await this.selectStacksForDiff(stackNames, exclusively, stackFilter);
 
     // if we have a single stack, print it to STDOUT
     if (stacks.stackCount === 1) {
@@ -335,11 +608,160 @@ export class CdkToolkit {
    * @param toolkitStackName the name to be used for the CDK Toolkit stack.
    */
   public async bootstrap(environmentSpecs: string[], bootstrapper: Bootstrapper, options: BootstrapEnvironmentOptions): Promise<void> {
-    // If there is an '--app' argument and an environment looks like a glob, we
-    // select the environments from the app. Otherwise use what the user said.
+    const environments = await this.selectEnvironments(environmentSpecs);
 
+    await Promise.all(environments.map(async (environment) => {
+      success(' ⏳  Bootstrapping environment %s...', colors.blue(environment.name));
+      try {
+        const result = await bootstrapper.bootstrapEnvironment(environment, this.props.sdkProvider, options);
+        const message = result.noOp
+          ? ' ✅  Environment %s bootstrapped (no changes).'
+          : ' ✅  Environment %s bootstrapped.';
+        success(message, colors.blue(environment.name));
+      } catch (e) {
+        error(' ❌  Environment %s failed bootstrapping: %s', colors.blue(environment.name), e);
+        throw e;
+      }
+    }));
+  }
+
+  /**
+   * Report the bootstrap state of the selected environments
+   *
+   * Checks the stacks of the app (if there is one) against the bootstrap stacks of their environments.
+   *
+   * @returns 1 if any environment has missing bootstrap resources, or a stack that cannot be deployed to it, 0 otherwise
+   */
+  public async bootstrapStatus(environmentSpecs: string[], options: BootstrapStatusOptions): Promise<number> {
+    const environments = await this.selectEnvironments(environmentSpecs);
+    const stacks = this.props.cloudExecutable.hasApp ? (await this.selectStacksForList([])).stackArtifacts : [];
+
+    let problems = false;
+    for (const environment of environments) {
+      const status = await bootstrapStatus({
+        sdkProvider: this.props.sdkProvider,
+        environment,
+        toolkitStackName: options.toolkitStackName,
+        stacks,
+      });
+      printBootstrapStatus(status);
+      problems = problems || bootstrapStatusHasProblems(status);
+    }
+
+    return problems ? 1 : 0;
+  }
+
+  /**
+   * The bootstrap stack defined in the app, for 'cdk bootstrap --from-app'
+   *
+   * A stack counts as a bootstrap stack if its template declares a bootstrap version,
+   * for example because it is a `BootstrapStack` from `@aws-cdk/pipelines`.
+   */
+  public async bootstrapStackFromApp(): Promise<cxapi.CloudFormationStackArtifact> {
+    if (!this.props.cloudExecutable.hasApp) {
+      throw new Error('--from-app requires an app that defines a bootstrap stack (specify it with --app)');
+    }
+
+    const stacks = await this.selectStacksForList([]);
+    const bootstrapStacks = stacks.stackArtifacts.filter(stack => bootstrapVersionFromTemplate(stack.template) > 0);
+    if (bootstrapStacks.length === 0) {
+      throw new Error('The app does not define a bootstrap stack');
+    }
+    if (bootstrapStacks.length > 1) {
+      throw new Error(`The app defines more than one bootstrap stack (${bootstrapStacks.map(s => s.displayName).join(', ')}). Use an app that defines only one.`);
+    }
+
+    return bootstrapStacks[0];
+  }
+
+  /**
+   * Find assets in the bootstrap bucket and repository that are not referenced by any deployed stack
+   *
+   * Depending on the action they are only reported, or also tagged or deleted.
+   */
+  public async garbageCollect(environmentSpecs: string[], options: GarbageCollectionOptions): Promise<void> {
+    const environments = await this.selectEnvironments(environmentSpecs);
+
+    if (options.action === GarbageCollectionAction.DELETE && !options.force) {
+      // eslint-disable-next-line max-len
+      const confirmed = await promptly.confirm(`Are you sure you want to delete unreferenced assets older than ${options.gracePeriodDays} days in: ${colors.blue(environments.map(e => e.name).join(', '))} (y/n)?`);
+      if (!confirmed) {
+        return;
+      }
+    }
+
+    for (const environment of environments) {
+      success(' ⏳  Collecting unreferenced assets in environment %s...', colors.blue(environment.name));
+      try {
+        const collector = new GarbageCollector({
+          sdkProvider: this.props.sdkProvider,
+          environment,
+          toolkitStackName: options.toolkitStackName,
+          action: options.action,
+          type: options.type,
+          gracePeriodDays: options.gracePeriodDays,
+        });
+        printGarbageCollectionResult(environment, options.action, await collector.garbageCollect());
+      } catch (e) {
+        error(' ❌  Environment %s failed garbage collection: %s', colors.blue(environment.name), e);
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * Re-synthesize the app and deploy the selected stacks that changed since their last deployment
+   */
+  private async deployChangedStacks(options: WatchOptions, deployedFingerprints: Map<string, string>) {
+    // Replace the cached assembly, 'deploy' will select from the fresh one
+    await this.props.cloudExecutable.synthesize(false);
+    const stacks = await this.selectStacksForDeploy(options.stackNames, options.exclusively, options.stackFilter);
+
+    const changed = stacks.stackArtifacts
+      .map(stack => ({ stack, fingerprint: stackFingerprint(stack) }))
+      .filter(({ stack, fingerprint }) => deployedFingerprints.get(stack.id) !== fingerprint);
+
+    if (changed.length === 0) {
+      print('No changes to the templates or assets of %s, skipping deployment', colors.bold(stacks.stackIds.join(', ')));
+      return;
+    }
+
+    await this.deploy({
+      ...options,
+      stackNames: changed.map(({ stack }) => stack.id),
+      exclusively: true,
+    });
+
+    for (const { stack, fingerprint } of changed) {
+      deployedFingerprints.set(stack.id, fingerprint);
+    }
+  }
+
+  /**
+   * Determine which resources will be replaced by creating a change set for the stack
+   *
+   * Returns `undefined` if that is not possible, in which case the replacement
+   * behavior is derived from the resource specification.
+   */
+  private async changeSetReplacements(stack: cxapi.CloudFormationStackArtifact): Promise<ResourceReplacements | undefined> {
+    try {
+      const changes = await this.props.cloudFormation.describeStackChanges(stack);
+      return changes && replacementsFromChangeSet(changes);
+    } catch (e) {
+      warning(`${stack.displayName}: could not create a change set, falling back to the resource specification to determine replacements: ${e.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve environment names and globs to environments
+   *
+   * If there is an '--app' argument and an environment looks like a glob, we
+   * select the environments from the app. Otherwise use what the user said.
+   */
+  private async selectEnvironments(environmentSpecs: string[]): Promise<cxapi.Environment[]> {
     // By default glob for everything
-    environmentSpecs = environmentSpecs.length > 0 ? environmentSpecs : ['**'];
+    environmentSpecs = environmentSpecs.length > 0 ? [...environmentSpecs] : ['**'];
 
     // Partition into globs and non-globs (this will mutate environmentSpecs).
     const globSpecs = partition(environmentSpecs, looksLikeGlob);
@@ -356,33 +778,22 @@ export class CdkToolkit {
       environments.push(...await globEnvironmentsFromStacks(await this.selectStacksForList([]), globSpecs, this.props.sdkProvider));
     }
 
-    await Promise.all(environments.map(async (environment) => {
-      success(' ⏳  Bootstrapping environment %s...', colors.blue(environment.name));
-      try {
-        const result = await bootstrapper.bootstrapEnvironment(environment, this.props.sdkProvider, options);
-        const message = result.noOp
-          ? ' ✅  Environment %s bootstrapped (no changes).'
-          : ' ✅  Environment %s bootstrapped.';
-        success(message, colors.blue(environment.name));
-      } catch (e) {
-        error(' ❌  Environment %s failed bootstrapping: %s', colors.blue(environment.name), e);
-        throw e;
-      }
-    }));
+    return environments;
   }
 
-  private async selectStacksForList(selectors: string[]) {
+  private async selectStacksForList(selectors: string[], stackFilter?: StackFilter) {
     const assembly = await this.assembly();
-    const stacks = await assembly.selectStacks(selectors, { defaultBehavior: DefaultSelection.AllStacks });
+    const stacks = await assembly.selectStacks(selectors, { ...stackFilter, defaultBehavior: DefaultSelection.AllStacks });
 
     // No validation
 
     return stacks;
   }
 
-  private async selectStacksForDeploy(stackNames: string[], exclusively?: boolean) {
+  private async selectStacksForDeploy(stackNames: string[], exclusively?: boolean, stackFilter?: StackFilter) {
     const assembly = await this.assembly();
     const stacks = await assembly.selectStacks(stackNames, {
+      ...stackFilter,
       extend: exclusively ? ExtendedStackSelection.None : ExtendedStackSelection.Upstream,
       defaultBehavior: DefaultSelection.OnlySingle,
     });
@@ -392,9 +803,10 @@ export class CdkToolkit {
     return stacks;
   }
 
-  private async selectStacksForDiff(stackNames: string[], exclusively?: boolean) {
+  private async selectStacksForDiff(stackNames: string[], exclusively?: boolean, stackFilter?: StackFilter) {
     const assembly = await this.assembly();
     const stacks = await assembly.selectStacks(stackNames, {
+      ...stackFilter,
       extend: exclusively ? ExtendedStackSelection.None : ExtendedStackSelection.Upstream,
       defaultBehavior: DefaultSelection.AllStacks,
     });
@@ -404,9 +816,10 @@ export class CdkToolkit {
     return stacks;
   }
 
-  private async selectStacksForDestroy(stackNames: string[], exclusively?: boolean) {
+  private async selectStacksForDestroy(stackNames: string[], exclusively?: boolean, stackFilter?: StackFilter) {
     const assembly = await this.assembly();
     const stacks = await assembly.selectStacks(stackNames, {
+      ...stackFilter,
       extend: exclusively ? ExtendedStackSelection.None : ExtendedStackSelection.Downstream,
       defaultBehavior: DefaultSelection.OnlySingle,
     });
@@ -452,6 +865,36 @@ export class CdkToolkit {
 
 }
 
+export interface ListOptions {
+  /**
+   * Return the details of every stack instead of printing their IDs
+   *
+   * @default false
+   */
+  long?: boolean;
+
+  /**
+   * Return the details of every stack, to be printed as JSON
+   *
+   * @default false
+   */
+  json?: boolean;
+
+  /**
+   * Print the dependency graph of the stacks in this format instead of their IDs
+   *
+   * @default - the graph is not printed
+   */
+  graph?: GraphFormat;
+
+  /**
+   * Further criteria to select the stacks with
+   *
+   * @default - stacks are only selected by name
+   */
+  stackFilter?: StackFilter;
+}
+
 export interface DiffOptions {
   /**
    * Stack names to diff
@@ -465,6 +908,13 @@ export interface DiffOptions {
    */
   exclusively?: boolean;
 
+  /**
+   * Further criteria to select the stacks with
+   *
+   * @default - stacks are only selected by name
+   */
+  stackFilter?: StackFilter;
+
   /**
    * Used a template from disk instead of from the server
    *
@@ -489,7 +939,7 @@ export interface DiffOptions {
   /**
    * Where to write the default
    *
-   * @default stderr
+   * @default - stderr, or stdout if `json` is set
    */
   stream?: NodeJS.WritableStream;
 
@@ -499,6 +949,72 @@ export interface DiffOptions {
    * @default false
    */
   fail?: boolean;
+
+  /**
+   * Write the differences as a JSON document instead of human-readable text
+   *
+   * @default false
+   */
+  json?: boolean;
+
+  /**
+   * Create a change set for every stack to determine which resources will actually be replaced
+   *
+   * The change sets are deleted again afterwards. Ignored when comparing
+   * against a template file.
+   *
+   * @default false
+   */
+  changeSet?: boolean;
+}
+
+export interface DriftOptions {
+  /**
+   * Stack names to detect drift of
+   */
+  stackNames: string[];
+
+  /**
+   * Only select the given stack
+   *
+   * @default false
+   */
+  exclusively?: boolean;
+
+  /**
+   * Where to write the drift
+   *
+   * @default stderr
+   */
+  stream?: NodeJS.WritableStream;
+
+  /**
+   * Whether to fail with exit code 1 in case of drift
+   *
+   * @default false
+   */
+  fail?: boolean;
+}
+
+export interface RefactorOptions {
+  /**
+   * Stack names to find renamed resources in
+   */
+  stackNames: string[];
+
+  /**
+   * Only select the given stack
+   *
+   * @default false
+   */
+  exclusively?: boolean;
+
+  /**
+   * Record the logical IDs to keep in `cdk.json`, to be applied during synthesis
+   *
+   * @default false
+   */
+  record?: boolean;
 }
 
 export interface DeployOptions {
@@ -514,6 +1030,13 @@ export interface DeployOptions {
    */
   exclusively?: boolean;
 
+  /**
+   * Further criteria to select the stacks with
+   *
+   * @default - stacks are only selected by name
+   */
+  stackFilter?: StackFilter;
+
   /**
    * Name of the toolkit stack to use/deploy
    *
@@ -538,6 +1061,22 @@ export interface DeployOptions {
    */
   requireApproval?: RequireApproval;
 
+  /**
+   * Rules for changes to resources that require approval, or must not be deployed at all
+   *
+   * @default - no rules
+   */
+  approvalPolicy?: ApprovalRule[];
+
+  /**
+   * Deploy the changes that the approval policy requires approval for without asking
+   *
+   * Changes that the approval policy blocks are never deployed.
+   *
+   * @default false
+   */
+  approvePolicyChanges?: boolean;
+
   /**
    * Reuse the assets with the given asset IDs
    */
@@ -602,6 +1141,181 @@ export interface DeployOptions {
    * @default false
    */
   readonly ci?: boolean;
+
+  /**
+   * Maximum number of stacks to deploy at the same time
+   *
+   * Stacks are only deployed once all the stacks they depend on have
+   * been deployed.
+   *
+   * @default 1
+   */
+  readonly concurrency?: number;
+
+  /**
+   * Keep deploying stacks that don't depend on a failed stack
+   *
+   * @default false - no new deployments are started after the first failure
+   */
+  readonly continueOnError?: boolean;
+
+  /**
+   * Update changed Lambda code, state machine definitions and container images directly, bypassing CloudFormation
+   *
+   * Falls back to a full deployment if the stack has any other changes.
+   * Introduces drift between the deployed resources and the stack, so
+   * should only be used for development stacks.
+   *
+   * @default false
+   */
+  readonly hotswap?: boolean;
+
+  /**
+   * Whether CloudFormation rolls back a stack if its deployment fails
+   *
+   * If disabled, the resources that were successfully provisioned are
+   * preserved, and the next deployment continues from where it failed.
+   *
+   * @default true
+   */
+  readonly rollback?: boolean;
+}
+
+export interface WatchOptions extends DeployOptions {
+  /**
+   * How long to wait for file changes to settle before deploying (in milliseconds)
+   *
+   * @default 500
+   */
+  readonly debounceMs?: number;
+}
+
+/**
+ * The 'watch' key in cdk.json
+ */
+interface WatchSettings {
+  readonly include?: string | string[];
+  readonly exclude?: string | string[];
+}
+
+export interface ImportOptions {
+  /**
+   * The name of the stack to import the resources into
+   */
+  readonly stackName: string;
+
+  /**
+   * Name of the toolkit stack to use/deploy
+   *
+   * @default CDKToolkit
+   */
+  readonly toolkitStackName?: string;
+
+  /**
+   * Role to pass to CloudFormation for the import
+   *
+   * @default - current role
+   */
+  readonly roleArn?: string;
+
+  /**
+   * Stack tags (pass through to CloudFormation)
+   *
+   * @default - the tags of the stack
+   */
+  readonly tags?: Tag[];
+
+  /**
+   * Whether to execute the change set
+   *
+   * @default true
+   */
+  readonly execute?: boolean;
+
+  /**
+   * Optional name to use for the CloudFormation change set.
+   * If not provided, a name will be generated automatically.
+   */
+  readonly changeSetName?: string;
+
+  /**
+   * Display mode for stack deployment progress.
+   *
+   * @default - StackActivityProgress.Bar
+   */
+  readonly progress?: StackActivityProgress;
+
+  /**
+   * JSON file with the identifier property values of the resources to import, by logical ID
+   *
+   * @default - values are taken from the template, or prompted for
+   */
+  readonly resourceMappingFile?: string;
+
+  /**
+   * Write the identifier property values to this file instead of importing the resources
+   *
+   * The file can be passed as `resourceMappingFile` later on.
+   *
+   * @default - resources are imported
+   */
+  readonly recordResourceMapping?: string;
+}
+
+export interface RollbackOptions {
+  /**
+   * The name of the stack to roll back
+   */
+  readonly stackName: string;
+
+  /**
+   * Role to pass to CloudFormation for the rollback
+   *
+   * @default - current role
+   */
+  readonly roleArn?: string;
+}
+
+export interface BootstrapStatusOptions {
+  /**
+   * Name of the bootstrap stack to inspect
+   *
+   * @default - the default toolkit stack name
+   */
+  readonly toolkitStackName?: string;
+}
+
+export interface GarbageCollectionOptions {
+  /**
+   * What to do with the unreferenced assets
+   */
+  readonly action: GarbageCollectionAction;
+
+  /**
+   * Which kinds of assets to collect
+   *
+   * @default GarbageCollectionType.ALL
+   */
+  readonly type?: GarbageCollectionType;
+
+  /**
+   * Assets that are younger than this many days are never collected
+   */
+  readonly gracePeriodDays: number;
+
+  /**
+   * Name of the bootstrap stack that owns the bucket and repository
+   *
+   * @default - the default toolkit stack name
+   */
+  readonly toolkitStackName?: string;
+
+  /**
+   * Whether to skip prompting for confirmation before deleting
+   *
+   * @default false
+   */
+  readonly force?: boolean;
 }
 
 export interface DestroyOptions {
@@ -615,6 +1329,13 @@ export interface DestroyOptions {
    */
   exclusively: boolean;
 
+  /**
+   * Further criteria to select the stacks with
+   *
+   * @default - stacks are only selected by name
+   */
+  stackFilter?: StackFilter;
+
   /**
    * Whether to skip prompting for confirmation
    */
@@ -638,6 +1359,27 @@ function tagsForStack(stack: cxapi.CloudFormationStackArtifact): Tag[] {
   return Object.entries(stack.tags).map(([Key, Value]) => ({ Key, Value }));
 }
 
+const WATCH_DEBOUNCE_MS = 500;
+
+/**
+ * A hash of everything that gets deployed for a stack: its template and the assets it references
+ */
+function stackFingerprint(stack: cxapi.CloudFormationStackArtifact): string {
+  const assetManifests = stack.dependencies
+    .filter((art): art is cxapi.AssetManifestArtifact => art instanceof cxapi.AssetManifestArtifact)
+    .map(art => fs.readFileSync(art.file, { encoding: 'utf-8' }));
+
+  return contentHash(JSON.stringify({
+    template: stack.template,
+    assets: stack.assets,
+    assetManifests,
+  }));
+}
+
+function toArray<A>(x: A | A[]): A[] {
+  return Array.isArray(x) ? [...x] : [x];
+}
+
 export interface Tag {
   readonly Key: string;
   readonly Value: string;
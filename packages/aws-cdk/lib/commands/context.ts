@@ -1,7 +1,9 @@
 import * as colors from 'colors/safe';
 import * as yargs from 'yargs';
 import * as version from '../../lib/version';
+import { SdkProvider } from '../api/aws-auth';
 import { CommandOptions } from '../command-api';
+import { refreshContextValues } from '../context-providers';
 import { print } from '../logging';
 import { Context, PROJECT_CONFIG } from '../settings';
 import { renderTable } from '../util';
@@ -19,6 +21,10 @@ export const builder = {
     desc: 'Clear all context',
     type: 'boolean',
   },
+  refresh: {
+    desc: 'Look up the context key (or its index) again, or all looked-up context values if no key is given',
+    type: 'string',
+  },
 };
 
 export function handler(args: yargs.Arguments) {
@@ -35,13 +41,19 @@ export async function realHandler(options: CommandOptions): Promise<number> {
   } else if (args.reset) {
     invalidateContext(configuration.context, args.reset as string);
     await configuration.saveContext();
+  } else if (args.refresh !== undefined) {
+    const failed = await refreshContext(configuration.context, args.refresh as string, options.aws);
+    await configuration.saveContext();
+    if (failed.length > 0) {
+      throw new Error(`Unable to refresh ${failed.length} context value(s): ${failed.join(', ')}`);
+    }
   } else {
     // List -- support '--json' flag
     if (args.json) {
       const contextValues = configuration.context.all;
       process.stdout.write(JSON.stringify(contextValues, undefined, 2));
     } else {
-      listContext(configuration.context);
+      listContext(configuration.context, configuration.settings.get(['contextMaxAgeDays']));
     }
   }
   await version.displayVersionMessage();
@@ -49,7 +61,7 @@ export async function realHandler(options: CommandOptions): Promise<number> {
   return 0;
 }
 
-function listContext(context: Context) {
+function listContext(context: Context, maxAgeDays?: number) {
   const keys = contextKeys(context);
 
   if (keys.length === 0) {
@@ -63,10 +75,15 @@ function listContext(context: Context) {
   }
 
   // Print config by default
-  const data: any[] = [[colors.green('#'), colors.green('Key'), colors.green('Value')]];
+  const data: any[] = [[colors.green('#'), colors.green('Key'), colors.green('Value'), colors.green('Provider'), colors.green('Age')]];
   for (const [i, key] of keys) {
     const jsonWithoutNewlines = JSON.stringify(context.all[key], undefined, 2).replace(/\s+/g, ' ');
-    data.push([i, key, jsonWithoutNewlines]);
+    const lookup = context.lookup(key);
+    const ageDays = lookup ? (Date.now() - new Date(lookup.lookedUpAt).getTime()) / DAY_MILLIS : undefined;
+    const age = ageDays === undefined ? ''
+      : maxAgeDays !== undefined && ageDays > maxAgeDays ? colors.red(formatAge(ageDays))
+        : formatAge(ageDays);
+    data.push([i, key, jsonWithoutNewlines, lookup?.provider ?? '', age]);
   }
 
   print(`Context found in ${colors.blue(PROJECT_CONFIG)}:\n`);
@@ -75,14 +92,42 @@ function listContext(context: Context) {
 
   // eslint-disable-next-line max-len
   print(`Run ${colors.blue('cdk context --reset KEY_OR_NUMBER')} to remove a context key. It will be refreshed on the next CDK synthesis run.`);
+  print(`Run ${colors.blue('cdk context --refresh [KEY_OR_NUMBER]')} to look up context values again in place.`);
 }
 
-function invalidateContext(context: Context, key: string) {
-  const i = parseInt(key, 10);
-  if (`${i}` === key) {
-    // was a number and we fully parsed it.
-    key = keyByNumber(context, i);
+const DAY_MILLIS = 24 * 60 * 60 * 1000;
+
+function formatAge(days: number) {
+  if (days < 1) { return 'less than a day'; }
+  const n = Math.floor(days);
+  return n === 1 ? '1 day' : `${n} days`;
+}
+
+/**
+ * Refresh the given context key, or all looked-up context values if the key is empty
+ *
+ * @returns the keys that could not be refreshed
+ */
+async function refreshContext(context: Context, key: string, sdk: SdkProvider): Promise<string[]> {
+  const keys = key === ''
+    ? context.keys.filter(k => context.lookup(k) !== undefined)
+    : [resolveKey(context, key)];
+
+  if (keys.length === 0) {
+    print('There are no looked-up context values to refresh.');
+    return [];
+  }
+
+  const failed = await refreshContextValues(keys, context, sdk);
+  const refreshed = keys.filter(k => !failed.includes(k));
+  for (const k of refreshed) {
+    print(`Context value ${colors.blue(k)} refreshed.`);
   }
+  return failed;
+}
+
+function invalidateContext(context: Context, key: string) {
+  key = resolveKey(context, key);
 
   // Unset!
   if (context.has(key)) {
@@ -93,6 +138,18 @@ function invalidateContext(context: Context, key: string) {
   }
 }
 
+/**
+ * Translate a context key or its index in the listing to a context key
+ */
+function resolveKey(context: Context, key: string) {
+  const i = parseInt(key, 10);
+  if (`${i}` === key) {
+    // was a number and we fully parsed it.
+    return keyByNumber(context, i);
+  }
+  return key;
+}
+
 function keyByNumber(context: Context, n: number) {
   for (const [i, key] of contextKeys(context)) {
     if (n === i) {
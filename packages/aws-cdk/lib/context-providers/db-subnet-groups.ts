@@ -0,0 +1,31 @@
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
+import * as cxapi from '@aws-cdk/cx-api';
+import { Mode, SdkProvider } from '../api';
+import { debug } from '../logging';
+import { ContextProviderPlugin } from './provider';
+
+export class DbSubnetGroupContextProviderPlugin implements ContextProviderPlugin {
+  constructor(private readonly aws: SdkProvider) {
+  }
+
+  async getValue(args: cxschema.DbSubnetGroupContextQuery): Promise<cxapi.DbSubnetGroupContextResponse> {
+    const account: string = args.account!;
+    const region: string = args.region!;
+
+    const rds = (await this.aws.forEnvironment(cxapi.EnvironmentUtils.make(account, region), Mode.ForReading)).rds();
+
+    debug(`Looking up DB subnet group ${args.subnetGroupName} in ${account}:${region}`);
+
+    const response = await rds.describeDBSubnetGroups({ DBSubnetGroupName: args.subnetGroupName }).promise();
+    const [subnetGroup] = response.DBSubnetGroups ?? [];
+    if (!subnetGroup) {
+      throw new Error(`Could not find a DB subnet group named ${args.subnetGroupName}`);
+    }
+
+    return {
+      subnetGroupName: subnetGroup.DBSubnetGroupName!,
+      vpcId: subnetGroup.VpcId!,
+      subnetIds: (subnetGroup.Subnets ?? []).map(s => s.SubnetIdentifier!),
+    };
+  }
+}
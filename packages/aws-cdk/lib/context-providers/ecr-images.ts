@@ -0,0 +1,49 @@
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
+import * as cxapi from '@aws-cdk/cx-api';
+import * as AWS from 'aws-sdk';
+import { Mode, SdkProvider } from '../api';
+import { debug } from '../logging';
+import { ContextProviderPlugin } from './provider';
+
+export class EcrImageContextProviderPlugin implements ContextProviderPlugin {
+  constructor(private readonly aws: SdkProvider) {
+  }
+
+  async getValue(args: cxschema.EcrImageContextQuery): Promise<cxapi.EcrImageContextResponse> {
+    const account: string = args.account!;
+    const region: string = args.region!;
+
+    const ecr = (await this.aws.forEnvironment(cxapi.EnvironmentUtils.make(account, region), Mode.ForReading)).ecr();
+
+    debug(`Looking up ${args.imageTag ? `image tagged ${args.imageTag}` : 'latest image'} in repository ${args.repositoryName} in ${account}:${region}`);
+
+    const images = await describeImages(ecr, {
+      repositoryName: args.repositoryName,
+      imageIds: args.imageTag ? [{ imageTag: args.imageTag }] : undefined,
+    });
+
+    // Without a tag, use the most recently pushed image
+    const image = images
+      .filter(i => i.imageDigest)
+      .sort((a, b) => (b.imagePushedAt?.getTime() ?? 0) - (a.imagePushedAt?.getTime() ?? 0))[0];
+    if (!image) {
+      throw new Error(`No images found matching ${JSON.stringify(args)}`);
+    }
+
+    return {
+      imageDigest: image.imageDigest!,
+      imageTags: image.imageTags ?? [],
+    };
+  }
+}
+
+async function describeImages(ecr: AWS.ECR, request: AWS.ECR.DescribeImagesRequest): Promise<AWS.ECR.ImageDetail[]> {
+  const ret = new Array<AWS.ECR.ImageDetail>();
+  let nextToken: string | undefined;
+  do {
+    const response = await ecr.describeImages({ ...request, nextToken }).promise();
+    ret.push(...response.imageDetails ?? []);
+    nextToken = response.nextToken;
+  } while (nextToken);
+  return ret;
+}
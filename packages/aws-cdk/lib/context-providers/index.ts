@@ -1,14 +1,19 @@
 import * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import * as cxapi from '@aws-cdk/cx-api';
 import { SdkProvider } from '../api';
-import { debug } from '../logging';
-import { Context, TRANSIENT_CONTEXT_KEY } from '../settings';
+import { debug, warning } from '../logging';
+import { PluginHost } from '../plugin';
+import { Context, ContextLookup, TRANSIENT_CONTEXT_KEY } from '../settings';
 import { AmiContextProviderPlugin } from './ami';
 import { AZContextProviderPlugin } from './availability-zones';
+import { DbSubnetGroupContextProviderPlugin } from './db-subnet-groups';
+import { EcrImageContextProviderPlugin } from './ecr-images';
 import { EndpointServiceAZContextProviderPlugin } from './endpoint-service-availability-zones';
 import { HostedZoneContextProviderPlugin } from './hosted-zones';
+import { KeyContextProviderPlugin } from './keys';
 import { LoadBalancerListenerContextProviderPlugin, LoadBalancerContextProviderPlugin } from './load-balancers';
 import { ContextProviderPlugin } from './provider';
+import { SecretContextProviderPlugin } from './secrets';
 import { SecurityGroupContextProviderPlugin } from './security-groups';
 import { SSMContextProviderPlugin } from './ssm-parameters';
 import { VpcNetworkContextProviderPlugin } from './vpcs';
@@ -26,25 +31,98 @@ export async function provideContextValues(
 
   for (const missingContext of missingValues) {
     const key = missingContext.key;
-    const constructor = availableContextProviders[missingContext.provider];
-    if (!constructor) {
-      // eslint-disable-next-line max-len
-      throw new Error(`Unrecognized context provider name: ${missingContext.provider}. You might need to update the toolkit to match the version of the construct library.`);
-    }
+    const { value, lookup } = await lookupContextValue(missingContext, sdk);
+    context.set(key, value);
+    context.setLookup(key, lookup);
+    debug(`Setting "${key}" context to ${JSON.stringify(value)}`);
+  }
+}
 
-    const provider = new constructor(sdk);
+/**
+ * Look up context values again, with the provider and query they were originally looked up with
+ *
+ * Values that cannot be looked up again keep their current value.
+ *
+ * @returns the keys of the values that could not be refreshed
+ */
+export async function refreshContextValues(keys: string[], context: Context, sdk: SdkProvider): Promise<string[]> {
+  const failed = new Array<string>();
+  for (const key of keys) {
+    const previous = context.lookup(key);
+    if (!previous) {
+      warning(`Unable to refresh "${key}": it is not known how this value was looked up. Reset it to have it looked up again on the next synthesis.`);
+      failed.push(key);
+      continue;
+    }
 
-    let value;
-    try {
-      value = await provider.getValue(missingContext.props);
-    } catch (e) {
-      // Set a specially formatted provider value which will be interpreted
-      // as a lookup failure in the toolkit.
-      value = { [cxapi.PROVIDER_ERROR_KEY]: e.message, [TRANSIENT_CONTEXT_KEY]: true };
+    const { value, lookup } = await lookupContextValue({
+      key,
+      provider: previous.provider as cxschema.ContextProvider,
+      props: previous.props as cxschema.ContextQueryProperties,
+    }, sdk);
+    if (!lookup) {
+      warning(`Unable to refresh "${key}", keeping its current value: ${value[cxapi.PROVIDER_ERROR_KEY]}`);
+      failed.push(key);
+      continue;
     }
+
     context.set(key, value);
-    debug(`Setting "${key}" context to ${JSON.stringify(value)}`);
+    context.setLookup(key, lookup);
+    debug(`Refreshed "${key}" context to ${JSON.stringify(value)}`);
+  }
+  return failed;
+}
+
+/**
+ * The keys of the looked-up context values that are older than the given age
+ */
+export function staleContextKeys(context: Context, maxAgeDays: number, now = new Date()): string[] {
+  return context.keys.filter(key => {
+    const lookup = context.lookup(key);
+    return lookup && now.getTime() - new Date(lookup.lookedUpAt).getTime() > maxAgeDays * DAY_MILLIS;
+  });
+}
+
+const DAY_MILLIS = 24 * 60 * 60 * 1000;
+
+/**
+ * Look up a single context value
+ *
+ * @returns the value, and how it was looked up if the lookup succeeded
+ */
+async function lookupContextValue(missingContext: cxschema.MissingContext, sdk: SdkProvider): Promise<{ value: any, lookup?: ContextLookup }> {
+  const provider = missingContext.provider === cxschema.ContextProvider.PLUGIN_PROVIDER
+    ? pluginContextProvider(missingContext.props as cxschema.PluginContextQuery)
+    : builtinContextProvider(missingContext.provider, sdk);
+
+  try {
+    const value = await provider.getValue(missingContext.props);
+    return {
+      value,
+      lookup: { provider: missingContext.provider, props: missingContext.props, lookedUpAt: new Date().toISOString() },
+    };
+  } catch (e) {
+    // Set a specially formatted provider value which will be interpreted
+    // as a lookup failure in the toolkit.
+    return { value: { [cxapi.PROVIDER_ERROR_KEY]: e.message, [TRANSIENT_CONTEXT_KEY]: true } };
+  }
+}
+
+function builtinContextProvider(name: string, sdk: SdkProvider): ContextProviderPlugin {
+  const constructor = availableContextProviders[name];
+  if (!constructor) {
+    // eslint-disable-next-line max-len
+    throw new Error(`Unrecognized context provider name: ${name}. You might need to update the toolkit to match the version of the construct library.`);
+  }
+  return new constructor(sdk);
+}
+
+function pluginContextProvider(props: cxschema.PluginContextQuery): ContextProviderPlugin {
+  const provider = PluginHost.instance.contextProviderPlugins[props.pluginName];
+  if (!provider) {
+    throw new Error(`Unrecognized plug-in context provider name: ${props.pluginName}. Make sure the plug-in that provides it is loaded (using --plugin or the 'plugin' setting in cdk.json).`);
   }
+  return provider;
 }
 
 /**
@@ -66,4 +144,8 @@ const availableContextProviders: ProviderMap = {
   [cxschema.ContextProvider.SECURITY_GROUP_PROVIDER]: SecurityGroupContextProviderPlugin,
   [cxschema.ContextProvider.LOAD_BALANCER_PROVIDER]: LoadBalancerContextProviderPlugin,
   [cxschema.ContextProvider.LOAD_BALANCER_LISTENER_PROVIDER]: LoadBalancerListenerContextProviderPlugin,
+  [cxschema.ContextProvider.KEY_PROVIDER]: KeyContextProviderPlugin,
+  [cxschema.ContextProvider.ECR_IMAGE_PROVIDER]: EcrImageContextProviderPlugin,
+  [cxschema.ContextProvider.SECRET_PROVIDER]: SecretContextProviderPlugin,
+  [cxschema.ContextProvider.DB_SUBNET_GROUP_PROVIDER]: DbSubnetGroupContextProviderPlugin,
 };
@@ -0,0 +1,42 @@
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
+import * as cxapi from '@aws-cdk/cx-api';
+import * as AWS from 'aws-sdk';
+import { Mode, SdkProvider } from '../api';
+import { debug } from '../logging';
+import { ContextProviderPlugin } from './provider';
+
+export class KeyContextProviderPlugin implements ContextProviderPlugin {
+  constructor(private readonly aws: SdkProvider) {
+  }
+
+  async getValue(args: cxschema.KeyContextQuery): Promise<cxapi.KeyContextResponse> {
+    const account: string = args.account!;
+    const region: string = args.region!;
+
+    const kms = (await this.aws.forEnvironment(cxapi.EnvironmentUtils.make(account, region), Mode.ForReading)).kms();
+
+    debug(`Looking up KMS key with alias ${args.aliasName} in ${account}:${region}`);
+
+    const alias = await findAlias(kms, args.aliasName);
+    if (!alias?.TargetKeyId) {
+      throw new Error(`Could not find any key with alias named ${args.aliasName}`);
+    }
+
+    return {
+      keyId: alias.TargetKeyId,
+    };
+  }
+}
+
+async function findAlias(kms: AWS.KMS, aliasName: string): Promise<AWS.KMS.AliasListEntry | undefined> {
+  let marker: string | undefined;
+  do {
+    const response = await kms.listAliases({ Marker: marker }).promise();
+    const alias = (response.Aliases ?? []).find(a => a.AliasName === aliasName);
+    if (alias) {
+      return alias;
+    }
+    marker = response.Truncated ? response.NextMarker : undefined;
+  } while (marker);
+  return undefined;
+}
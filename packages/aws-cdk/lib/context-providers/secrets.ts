@@ -0,0 +1,28 @@
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
+import * as cxapi from '@aws-cdk/cx-api';
+import { Mode, SdkProvider } from '../api';
+import { debug } from '../logging';
+import { ContextProviderPlugin } from './provider';
+
+export class SecretContextProviderPlugin implements ContextProviderPlugin {
+  constructor(private readonly aws: SdkProvider) {
+  }
+
+  async getValue(args: cxschema.SecretContextQuery): Promise<cxapi.SecretContextResponse> {
+    const account: string = args.account!;
+    const region: string = args.region!;
+
+    const secretsManager = (await this.aws.forEnvironment(cxapi.EnvironmentUtils.make(account, region), Mode.ForReading)).secretsManager();
+
+    debug(`Looking up secret ${args.secretName} in ${account}:${region}`);
+
+    const response = await secretsManager.describeSecret({ SecretId: args.secretName }).promise();
+    if (!response.ARN) {
+      throw new Error(`Could not find a secret named ${args.secretName}`);
+    }
+
+    return {
+      secretArn: response.ARN,
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import * as cxapi from '@aws-cdk/cx-api';
+import * as colors from 'colors/safe';
+import { warning } from './logging';
+
+type DeployStackFunction = (stack: cxapi.CloudFormationStackArtifact) => Promise<void>;
+
+export interface DeployStacksOptions {
+  /**
+   * Maximum number of stacks to deploy at the same time
+   */
+  readonly concurrency: number;
+
+  /**
+   * Function that deploys a single stack
+   */
+  readonly deployStack: DeployStackFunction;
+
+  /**
+   * Keep deploying stacks that don't depend on a failed stack
+   *
+   * If false, no new deployments are started once a deployment has failed,
+   * but deployments that are already in progress are allowed to finish.
+   *
+   * @default false
+   */
+  readonly continueOnError?: boolean;
+}
+
+/**
+ * Deploy a set of stacks, respecting the dependencies between them
+ *
+ * A stack is started as soon as all of the stacks it depends on (that are
+ * part of the set) have been deployed successfully, and no more than
+ * `concurrency` stacks will be in progress at any point in time. Stacks
+ * are picked in the order in which they are passed, so with a concurrency
+ * of 1 this behaves the same as deploying them one after another.
+ *
+ * If a stack fails, stacks that (transitively) depend on it are skipped, and
+ * a warning is printed for each of them.
+ */
+export async function deployStacks(stacks: cxapi.CloudFormationStackArtifact[], options: DeployStacksOptions): Promise<void> {
+  if (options.concurrency < 1) {
+    throw new Error(`Concurrency must be at least 1, got: ${options.concurrency}`);
+  }
+
+  const selected = new Set(stacks.map(s => s.id));
+  const dependenciesOf = (stack: cxapi.CloudFormationStackArtifact) =>
+    stack.dependencies.map(d => d.id).filter(id => selected.has(id));
+
+  const pending = new Map(stacks.map(s => [s.id, s] as [string, cxapi.CloudFormationStackArtifact]));
+  const deployed = new Set<string>();
+  const skipped = new Set<string>();
+  const failures = new Map<string, Error>();
+  const inProgress = new Map<string, Promise<void>>();
+
+  const startDeployment = (stack: cxapi.CloudFormationStackArtifact) => {
+    pending.delete(stack.id);
+    inProgress.set(stack.id, options.deployStack(stack)
+      .then(() => { deployed.add(stack.id); }, (e) => { failures.set(stack.id, e); })
+      .finally(() => { inProgress.delete(stack.id); }));
+  };
+
+  while (pending.size > 0 || inProgress.size > 0) {
+    const stopScheduling = failures.size > 0 && !options.continueOnError;
+
+    if (!stopScheduling) {
+      // Repeat until nothing changes, as a stack may come before the stack it depends on
+      let skippedAny = true;
+      while (skippedAny) {
+        skippedAny = false;
+        for (const stack of pending.values()) {
+          if (dependenciesOf(stack).some(id => failures.has(id) || skipped.has(id))) {
+            pending.delete(stack.id);
+            skipped.add(stack.id);
+            skippedAny = true;
+            warning('%s: skipped, because it depends on a stack that failed to deploy', colors.bold(stack.displayName));
+          }
+        }
+      }
+
+      for (const stack of pending.values()) {
+        if (inProgress.size >= options.concurrency) { break; }
+
+        if (dependenciesOf(stack).every(id => deployed.has(id))) {
+          startDeployment(stack);
+        }
+      }
+    }
+
+    if (inProgress.size === 0) {
+      if (pending.size > 0 && !stopScheduling) {
+        throw new Error(`Could not determine ordering between: ${Array.from(pending.keys()).join(', ')}`);
+      }
+      break;
+    }
+
+    await Promise.race(inProgress.values());
+  }
+
+  if (failures.size === 1) {
+    throw Array.from(failures.values())[0];
+  }
+  if (failures.size > 1) {
+    throw new Error(`Failed to deploy stacks: ${Array.from(failures.keys()).join(', ')}`);
+  }
+}
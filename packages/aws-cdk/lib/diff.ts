@@ -1,7 +1,9 @@
 import * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import * as cfnDiff from '@aws-cdk/cloudformation-diff';
 import * as cxapi from '@aws-cdk/cx-api';
+import { CloudFormation } from 'aws-sdk';
 import * as colors from 'colors/safe';
+import { NestedStackTemplates } from './api/nested-stacks';
 import { print, warning } from './logging';
 
 /**
@@ -11,35 +13,109 @@ import { print, warning } from './logging';
  * @param newTemplate the new/target state of the stack.
  * @param strict      do not filter out AWS::CDK::Metadata
  * @param context     lines of context to use in arbitrary JSON diff
+ * @param stream      where to print the differences
+ * @param replacements replacement details from a change set, overriding the ones from the resource specification
+ * @param nestedStackTemplates the templates of the nested stacks, whose differences are printed under their resources
  *
- * @returns the count of differences that were rendered.
+ * @returns the count of differences that were rendered, including the ones in nested stacks.
  */
 export function printStackDiff(
   oldTemplate: any,
   newTemplate: cxapi.CloudFormationStackArtifact,
   strict: boolean,
   context: number,
-  stream?: cfnDiff.FormatStream): number {
+  stream?: cfnDiff.FormatStream,
+  replacements?: cfnDiff.ResourceReplacements,
+  nestedStackTemplates?: { [logicalId: string]: NestedStackTemplates }): number {
 
-  const diff = cfnDiff.diffTemplate(oldTemplate, newTemplate.template);
+  const diff = diffStack(oldTemplate, newTemplate.template, strict, replacements);
+  const nestedStacks = nestedStackDifferences(nestedStackTemplates, strict);
+  const differenceCount = diff.differenceCount + nestedDifferenceCount(nestedStacks);
 
-  // filter out 'AWS::CDK::Metadata' resources from the template
-  if (diff.resources && !strict) {
-    diff.resources = diff.resources.filter(change => {
-      if (!change) { return true; }
-      if (change.newResourceType === 'AWS::CDK::Metadata') { return false; }
-      if (change.oldResourceType === 'AWS::CDK::Metadata') { return false; }
-      return true;
-    });
+  if (differenceCount > 0) {
+    cfnDiff.formatDifferences(stream || process.stderr, diff, buildLogicalToPathMap(newTemplate), context, nestedStacks);
+  } else {
+    print(colors.green('There were no differences'));
   }
 
-  if (!diff.isEmpty) {
-    cfnDiff.formatDifferences(stream || process.stderr, diff, buildLogicalToPathMap(newTemplate), context);
+  return differenceCount;
+}
+
+/**
+ * Machine-readable differences of a single stack
+ */
+export interface StackDiffJson {
+  readonly stackName: string;
+  readonly differenceCount: number;
+  readonly diff: cfnDiff.TemplateDiffJson;
+
+  /**
+   * The differences of the nested stacks, named by the logical IDs of the nested stacks leading to them
+   *
+   * @default - the stack has no nested stacks
+   */
+  readonly nestedStacks?: StackDiffJson[];
+}
+
+/**
+ * Computes the differences between two template states as a machine-readable object.
+ *
+ * @param oldTemplate the old/current state of the stack.
+ * @param newTemplate the new/target state of the stack.
+ * @param strict      do not filter out AWS::CDK::Metadata
+ * @param replacements replacement details from a change set, overriding the ones from the resource specification
+ * @param nestedStackTemplates the templates of the nested stacks
+ */
+export function stackDiffJson(
+  oldTemplate: any,
+  newTemplate: cxapi.CloudFormationStackArtifact,
+  strict: boolean,
+  replacements?: cfnDiff.ResourceReplacements,
+  nestedStackTemplates?: { [logicalId: string]: NestedStackTemplates }): StackDiffJson {
+  const diff = diffStack(oldTemplate, newTemplate.template, strict, replacements);
+  const nestedDiffs = diffNestedStacks(newTemplate.stackName, nestedStackTemplates, strict);
+  return {
+    stackName: newTemplate.stackName,
+    differenceCount: diff.differenceCount,
+    diff: diff.toJson(),
+    nestedStacks: nestedDiffs.length > 0
+      ? nestedDiffs.map(nested => ({ stackName: nested.path, differenceCount: nested.diff.differenceCount, diff: nested.diff.toJson() }))
+      : undefined,
+  };
+}
+
+/**
+ * Pretty-prints the drift of deployed resources from their template to the console.
+ *
+ * @param drifts the drift of the stack's resources, as reported by CloudFormation.
+ * @param stack  the synthesized stack, used to find construct paths.
+ *
+ * @returns the count of drifted resources that were rendered.
+ */
+export function printStackDrift(
+  drifts: CloudFormation.StackResourceDrift[],
+  stack: cxapi.CloudFormationStackArtifact,
+  stream?: cfnDiff.FormatStream): number {
+
+  const resourceDrifts = drifts.map(drift => ({
+    logicalId: drift.LogicalResourceId,
+    resourceType: drift.ResourceType,
+    status: drift.StackResourceDriftStatus,
+    propertyDrifts: (drift.PropertyDifferences ?? []).map(difference => ({
+      propertyPath: difference.PropertyPath,
+      expectedValue: difference.DifferenceType === 'ADD' ? undefined : parsePropertyValue(difference.ExpectedValue),
+      actualValue: difference.DifferenceType === 'REMOVE' ? undefined : parsePropertyValue(difference.ActualValue),
+    })),
+  }));
+  const driftCount = resourceDrifts.filter(drift => drift.status === 'MODIFIED' || drift.status === 'DELETED').length;
+
+  if (driftCount > 0) {
+    cfnDiff.formatStackDrift(stream || process.stderr, resourceDrifts, buildLogicalToPathMap(stack));
   } else {
-    print(colors.green('There were no differences'));
+    print(colors.green('No drift detected'));
   }
 
-  return diff.differenceCount;
+  return driftCount;
 }
 
 export enum RequireApproval {
@@ -53,17 +129,25 @@ export enum RequireApproval {
 /**
  * Print the security changes of this diff, if the change is impactful enough according to the approval level
  *
+ * The security changes of nested stacks count as well.
+ *
  * Returns true if the changes are prompt-worthy, false otherwise.
  */
-export function printSecurityDiff(oldTemplate: any, newTemplate: cxapi.CloudFormationStackArtifact, requireApproval: RequireApproval): boolean {
+export function printSecurityDiff(
+  oldTemplate: any,
+  newTemplate: cxapi.CloudFormationStackArtifact,
+  requireApproval: RequireApproval,
+  nestedStackTemplates?: { [logicalId: string]: NestedStackTemplates }): boolean {
   const diff = cfnDiff.diffTemplate(oldTemplate, newTemplate.template);
+  const nestedDiffs = diffNestedStacks(newTemplate.displayName, nestedStackTemplates, true);
 
-  if (difRequiresApproval(diff, requireApproval)) {
+  if (difRequiresApproval(diff, requireApproval) || nestedDiffs.some(nested => difRequiresApproval(nested.diff, requireApproval))) {
     // eslint-disable-next-line max-len
     warning(`This deployment will make potentially sensitive changes according to your current security approval level (--require-approval ${requireApproval}).`);
     warning('Please confirm you intend to make the following modifications:\n');
 
-    cfnDiff.formatSecurityChanges(process.stdout, diff, buildLogicalToPathMap(newTemplate));
+    const nestedStacks = nestedStackDifferences(nestedStackTemplates, true);
+    cfnDiff.formatSecurityChanges(process.stdout, diff, buildLogicalToPathMap(newTemplate), undefined, nestedStacks);
     return true;
   }
   return false;
@@ -84,10 +168,124 @@ function difRequiresApproval(diff: cfnDiff.TemplateDiff, requireApproval: Requir
   }
 }
 
-function buildLogicalToPathMap(stack: cxapi.CloudFormationStackArtifact) {
+/**
+ * Extract the replacement details of every resource from the changes of a change set
+ */
+export function replacementsFromChangeSet(changes: CloudFormation.Changes): cfnDiff.ResourceReplacements {
+  const ret: cfnDiff.ResourceReplacements = {};
+  for (const change of changes) {
+    const resourceChange = change.ResourceChange;
+    if (!resourceChange?.LogicalResourceId || resourceChange.Action !== 'Modify') { continue; }
+
+    const propertyReplacements: { [propertyName: string]: cfnDiff.PropertyReplacement } = {};
+    for (const detail of resourceChange.Details ?? []) {
+      const target = detail.Target;
+      if (target?.Attribute !== 'Properties' || !target.Name || !target.RequiresRecreation) { continue; }
+      // A property can be listed more than once (for example, directly and through a
+      // reference to another resource), in which case the most drastic one applies
+      const recreation = target.RequiresRecreation as cfnDiff.PropertyReplacement;
+      propertyReplacements[target.Name] = mostDrasticRecreation(propertyReplacements[target.Name], recreation);
+    }
+
+    ret[resourceChange.LogicalResourceId] = {
+      replacement: (resourceChange.Replacement ?? 'False') as cfnDiff.Replacement,
+      propertyReplacements,
+    };
+  }
+  return ret;
+}
+
+function mostDrasticRecreation(a: cfnDiff.PropertyReplacement | undefined, b: cfnDiff.PropertyReplacement): cfnDiff.PropertyReplacement {
+  const order: cfnDiff.PropertyReplacement[] = ['Never', 'Conditionally', 'Always'];
+  return a !== undefined && order.indexOf(a) > order.indexOf(b) ? a : b;
+}
+
+/**
+ * The differences of a nested stack
+ */
+export interface NestedStackDiff {
+  /**
+   * The name of the root stack, followed by the logical IDs of the nested stacks leading to this one
+   */
+  readonly path: string;
+  readonly diff: cfnDiff.TemplateDiff;
+}
+
+/**
+ * Compute the differences of all nested stacks, depth first
+ */
+export function diffNestedStacks(
+  parentPath: string,
+  nestedStackTemplates: { [logicalId: string]: NestedStackTemplates } | undefined,
+  strict: boolean): NestedStackDiff[] {
+  const ret = new Array<NestedStackDiff>();
+  for (const [logicalId, nested] of Object.entries(nestedStackTemplates ?? {})) {
+    const nestedPath = `${parentPath} > ${logicalId}`;
+    ret.push({ path: nestedPath, diff: diffStack(nested.deployedTemplate, nested.generatedTemplate, strict) });
+    ret.push(...diffNestedStacks(nestedPath, nested.nestedStackTemplates, strict));
+  }
+  return ret;
+}
+
+/**
+ * Compute the differences of the nested stacks, by the logical IDs of their resources in the parent stack
+ */
+function nestedStackDifferences(
+  nestedStackTemplates: { [logicalId: string]: NestedStackTemplates } | undefined,
+  strict: boolean): { [logicalId: string]: cfnDiff.NestedStackDifferences } {
+  const ret: { [logicalId: string]: cfnDiff.NestedStackDifferences } = {};
+  for (const [logicalId, nested] of Object.entries(nestedStackTemplates ?? {})) {
+    ret[logicalId] = {
+      diff: diffStack(nested.deployedTemplate, nested.generatedTemplate, strict),
+      nestedStacks: nestedStackDifferences(nested.nestedStackTemplates, strict),
+    };
+  }
+  return ret;
+}
+
+function nestedDifferenceCount(nestedStacks: { [logicalId: string]: cfnDiff.NestedStackDifferences }): number {
+  return Object.values(nestedStacks)
+    .reduce((count, nested) => count + nested.diff.differenceCount + nestedDifferenceCount(nested.nestedStacks), 0);
+}
+
+function diffStack(
+  oldTemplate: any,
+  newTemplate: any,
+  strict: boolean,
+  replacements?: cfnDiff.ResourceReplacements): cfnDiff.TemplateDiff {
+  const diff = cfnDiff.diffTemplate(oldTemplate, newTemplate, replacements);
+
+  // filter out 'AWS::CDK::Metadata' resources from the template
+  if (diff.resources && !strict) {
+    diff.resources = diff.resources.filter(change => {
+      if (!change) { return true; }
+      if (change.newResourceType === 'AWS::CDK::Metadata') { return false; }
+      if (change.oldResourceType === 'AWS::CDK::Metadata') { return false; }
+      return true;
+    });
+  }
+
+  return diff;
+}
+
+export function buildLogicalToPathMap(stack: cxapi.CloudFormationStackArtifact) {
   const map: { [id: string]: string } = {};
   for (const md of stack.findMetadataByType(cxschema.ArtifactMetadataEntryType.LOGICAL_ID)) {
     map[md.data as string] = md.path;
   }
   return map;
-}
\ No newline at end of file
+}
+
+/**
+ * Drifted property values are reported as strings, which are JSON for complex values
+ */
+function parsePropertyValue(value: string): any {
+  if (value.startsWith('{') || value.startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      return value;
+    }
+  }
+  return value;
+}
@@ -0,0 +1,152 @@
+import * as cfnDiff from '@aws-cdk/cloudformation-diff';
+import * as cxapi from '@aws-cdk/cx-api';
+import { CloudFormation } from 'aws-sdk';
+import * as colors from 'colors/safe';
+import * as promptly from 'promptly';
+import { ResourcesToImport } from './api/deploy-stack';
+import { Template } from './api/util/cloudformation';
+
+/**
+ * The identifier property values of the resources to import, by logical ID
+ */
+export type ResourceMapping = { [logicalId: string]: CloudFormation.ResourceIdentifierProperties };
+
+/**
+ * A resource added to the stack's template that can be adopted by CloudFormation
+ */
+export interface ImportableResource {
+  readonly logicalId: string;
+  readonly resourceType: string;
+
+  /**
+   * The resource as it is defined in the template
+   */
+  readonly resourceDefinition: any;
+
+  /**
+   * The names of the properties that together identify an existing resource of this type
+   */
+  readonly identifierProperties: string[];
+}
+
+export interface ResolveResourceIdentifiersOptions {
+  /**
+   * Identifier property values that were supplied up front (for example, from a mapping file)
+   *
+   * @default - no identifiers were supplied
+   */
+  readonly mapping?: ResourceMapping;
+
+  /**
+   * Whether to prompt for identifier property values that could not be found otherwise
+   *
+   * @default true
+   */
+  readonly interactive?: boolean;
+}
+
+/**
+ * Find the resources that were added to the stack's template and are to be imported
+ *
+ * An IMPORT change set cannot contain any other changes, so this throws if
+ * the template changed in any other way, or if any of the added resources
+ * cannot be imported.
+ *
+ * @param currentTemplate the template of the deployed stack
+ * @param stack           the synthesized stack
+ * @param summaries       the importable resource types in the synthesized template, from `GetTemplateSummary`
+ */
+export function findResourcesToImport(
+  currentTemplate: Template,
+  stack: cxapi.CloudFormationStackArtifact,
+  summaries: CloudFormation.ResourceIdentifierSummaries): ImportableResource[] {
+
+  const identifiersByType = new Map(summaries.map(s => [s.ResourceType!, s.ResourceIdentifiers ?? []] as [string, string[]]));
+
+  const diff = cfnDiff.diffTemplate(currentTemplate, stack.template);
+  if (diff.differenceCount !== diff.resources.differenceCount) {
+    throw new Error(`${stack.displayName}: only resources can be added during an import, but other parts of the template changed as well. Deploy those changes first.`);
+  }
+
+  const ret = new Array<ImportableResource>();
+  const changed = new Array<string>();
+  const notImportable = new Array<string>();
+  const withoutDeletionPolicy = new Array<string>();
+  diff.resources.forEachDifference((logicalId, change) => {
+    if (!change.isAddition) {
+      changed.push(logicalId);
+      return;
+    }
+
+    const resourceDefinition = stack.template.Resources[logicalId];
+    const identifierProperties = identifiersByType.get(resourceDefinition.Type);
+    if (identifierProperties === undefined) {
+      notImportable.push(`${logicalId} (${resourceDefinition.Type})`);
+      return;
+    }
+    if (resourceDefinition.DeletionPolicy === undefined) {
+      withoutDeletionPolicy.push(logicalId);
+    }
+
+    ret.push({ logicalId, resourceType: resourceDefinition.Type, resourceDefinition, identifierProperties });
+  });
+
+  if (changed.length > 0) {
+    throw new Error(`${stack.displayName}: resources cannot be updated or removed during an import, deploy these changes first: ${changed.join(', ')}`);
+  }
+  if (notImportable.length > 0) {
+    throw new Error(`${stack.displayName}: the following added resources do not support importing, remove them or deploy them separately: ${notImportable.join(', ')}`);
+  }
+  if (withoutDeletionPolicy.length > 0) {
+    throw new Error(`${stack.displayName}: resources to import must have a DeletionPolicy (for example, use RemovalPolicy.RETAIN): ${withoutDeletionPolicy.join(', ')}`);
+  }
+
+  return ret;
+}
+
+/**
+ * Determine the identifier property values of every resource to import
+ *
+ * Values are taken from the given mapping first, then from literal
+ * property values in the template. If those don't supply all values,
+ * the user is prompted for the missing ones.
+ */
+export async function resolveResourceIdentifiers(
+  resources: ImportableResource[],
+  options: ResolveResourceIdentifiersOptions = {}): Promise<ResourceMapping> {
+
+  const interactive = options.interactive ?? true;
+
+  const ret: ResourceMapping = {};
+  for (const resource of resources) {
+    const identifier: CloudFormation.ResourceIdentifierProperties = {};
+    for (const property of resource.identifierProperties) {
+      const supplied = options.mapping?.[resource.logicalId]?.[property];
+      const fromTemplate = resource.resourceDefinition.Properties?.[property];
+
+      if (supplied !== undefined) {
+        identifier[property] = supplied;
+      } else if (typeof fromTemplate === 'string') {
+        identifier[property] = fromTemplate;
+      } else if (interactive) {
+        identifier[property] = await promptly.prompt(
+          `${colors.blue(resource.logicalId)} (${resource.resourceType}): enter ${colors.blue(property)}`);
+      } else {
+        throw new Error(`No value for '${property}' of resource '${resource.logicalId}' (${resource.resourceType}) in the resource mapping`);
+      }
+    }
+    ret[resource.logicalId] = identifier;
+  }
+  return ret;
+}
+
+/**
+ * Turn the resources to import and their identifiers into the form CloudFormation expects
+ */
+export function makeResourcesToImport(resources: ImportableResource[], mapping: ResourceMapping): ResourcesToImport {
+  return resources.map(resource => ({
+    LogicalResourceId: resource.logicalId,
+    ResourceType: resource.resourceType,
+    ResourceIdentifier: mapping[resource.logicalId],
+  }));
+}
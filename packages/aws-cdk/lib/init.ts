@@ -5,7 +5,8 @@ import * as colors from 'colors/safe';
 import * as fs from 'fs-extra';
 import * as semver from 'semver';
 import { error, print, warning } from './logging';
-import { cdkHomeDir } from './util/directories';
+import { contentHash } from './util/content-hash';
+import { cdkCacheDir, cdkHomeDir } from './util/directories';
 import { versionNumber } from './version';
 
 export type InvokeHook = (targetDirectory: string) => Promise<void>;
@@ -16,28 +17,77 @@ const camelCase = require('camelcase');
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const decamelize = require('decamelize');
 
+/**
+ * Where to find templates other than the built-in ones
+ */
+export interface InitTemplateSources {
+  /**
+   * Only use the templates in this local directory
+   *
+   * The directory is either a template itself, or contains templates.
+   *
+   * @default - use the built-in templates
+   */
+  readonly fromPath?: string;
+
+  /**
+   * Only use the templates in this git repository
+   *
+   * The root of the repository is either a template itself, or contains templates.
+   *
+   * @default - use the built-in templates
+   */
+  readonly fromGitUrl?: string;
+
+  /**
+   * Paths or git URLs of additional templates, offered alongside the built-in ones
+   *
+   * @default - no additional templates
+   */
+  readonly templateSources?: string[];
+}
+
 /**
  * Initialize a CDK package in the current directory
  */
-export async function cliInit(type?: string, language?: string, canUseNetwork = true, generateOnly = false, workDir = process.cwd()) {
-  if (!type && !language) {
-    await printAvailableTemplates();
-    return;
+export async function cliInit(
+  type?: string,
+  language?: string,
+  canUseNetwork = true,
+  generateOnly = false,
+  workDir = process.cwd(),
+  sources: InitTemplateSources = {}) {
+
+  if (sources.fromPath && sources.fromGitUrl) {
+    throw new Error('Specify either --from-path or --from-git-url, not both');
   }
+  const explicitSource = sources.fromPath ?? sources.fromGitUrl;
 
-  type = type || 'default'; // "default" is the default type (and maps to "app")
+  if (!explicitSource && !type && !language) {
+    await printAvailableTemplates(undefined, sources.templateSources);
+    return;
+  }
 
-  const template = (await availableInitTemplates()).find(t => t.hasName(type!));
-  if (!template) {
-    await printAvailableTemplates(language);
-    throw new Error(`Unknown init template: ${type}`);
+  let template: InitTemplate | undefined;
+  if (explicitSource) {
+    // Respect the flag that was used rather than guessing from the shape of the source
+    template = selectTemplate(await templatesFromSource(explicitSource, sources.fromGitUrl !== undefined), explicitSource, type);
+  } else {
+    type = type || 'default'; // "default" is the default type (and maps to "app")
+
+    template = (await availableInitTemplates(sources.templateSources)).find(t => t.hasName(type!));
+    if (!template) {
+      await printAvailableTemplates(language, sources.templateSources);
+      throw new Error(`Unknown init template: ${type}`);
+    }
   }
+
   if (!language && template.languages.length === 1) {
     language = template.languages[0];
-    warning(`No --language was provided, but '${type}' supports only '${language}', so defaulting to --language=${language}`);
+    warning(`No --language was provided, but '${template.name}' supports only '${language}', so defaulting to --language=${language}`);
   }
   if (!language) {
-    print(`Available languages for ${colors.green(type)}: ${template.languages.map(l => colors.blue(l)).join(', ')}`);
+    print(`Available languages for ${colors.green(template.name)}: ${template.languages.map(l => colors.blue(l)).join(', ')}`);
     throw new Error('No language was selected');
   }
 
@@ -58,8 +108,20 @@ const INFO_DOT_JSON = 'info.json';
 
 export class InitTemplate {
   public static async fromName(templatesDir: string, name: string) {
-    const basePath = path.join(templatesDir, name);
-    const languages = (await listDirectory(basePath)).filter(f => f !== INFO_DOT_JSON);
+    return InitTemplate.fromPath(path.join(templatesDir, name), name);
+  }
+
+  /**
+   * @param basePath the directory of the template, containing ``info.json`` and a directory per language
+   * @param name     the name of the template
+   */
+  public static async fromPath(basePath: string, name: string) {
+    const languages = new Array<string>();
+    for (const file of await listDirectory(basePath)) {
+      if ((await fs.stat(path.join(basePath, file))).isDirectory()) {
+        languages.push(file);
+      }
+    }
     const info = await fs.readJson(path.join(basePath, INFO_DOT_JSON));
     return new InitTemplate(basePath, name, languages, info);
   }
@@ -212,7 +274,12 @@ function versionedTemplatesDir(): Promise<string> {
   });
 }
 
-export async function availableInitTemplates(): Promise<InitTemplate[]> {
+/**
+ * @param templateSources paths or git URLs of additional templates. Sources that
+ *   cannot be loaded are reported and skipped.
+ * @returns the built-in templates, followed by the templates from ``templateSources``.
+ */
+export async function availableInitTemplates(templateSources: string[] = []): Promise<InitTemplate[]> {
   return new Promise(async resolve => {
     const templatesDir = await versionedTemplatesDir();
     const templateNames = await listDirectory(templatesDir);
@@ -220,9 +287,95 @@ export async function availableInitTemplates(): Promise<InitTemplate[]> {
     for (const templateName of templateNames) {
       templates.push(await InitTemplate.fromName(templatesDir, templateName));
     }
+    for (const source of templateSources) {
+      try {
+        templates.push(...await templatesFromSource(source, isGitUrl(source)));
+      } catch (e) {
+        warning(`Skipping templates from ${source}: ${e.message}`);
+      }
+    }
     resolve(templates);
   });
 }
+
+/**
+ * Load the templates from a local directory or git repository
+ *
+ * The source is either a template itself (if it has an ``info.json`` file), in
+ * which case the template is named after the directory or repository, or a
+ * directory of templates.
+ *
+ * @param source  the local directory or git URL
+ * @param fromGit whether ``source`` must be cloned with git
+ */
+async function templatesFromSource(source: string, fromGit: boolean): Promise<InitTemplate[]> {
+  if (!fromGit) {
+    return templatesFromDirectory(path.resolve(source), path.basename(path.resolve(source)));
+  }
+
+  // Clones are kept in the cache, but refreshed every time they are used
+  const cloneDir = path.join(cdkCacheDir(), 'init-templates', contentHash(source).substr(0, 16));
+  await fs.remove(cloneDir);
+  await fs.mkdirp(path.dirname(cloneDir));
+  try {
+    await execute('git', ['clone', '--depth', '1', '--quiet', source, cloneDir], { cwd: path.dirname(cloneDir), shell: false });
+  } catch (e) {
+    throw new Error(`Unable to clone ${source}: ${e.message}`);
+  }
+  return templatesFromDirectory(cloneDir, path.basename(source.replace(/\/+$/, '')).replace(/\.git$/, ''));
+}
+
+async function templatesFromDirectory(dir: string, singleTemplateName: string): Promise<InitTemplate[]> {
+  if (!await fs.pathExists(dir)) {
+    throw new Error(`Template directory does not exist: ${dir}`);
+  }
+  if (await fs.pathExists(path.join(dir, INFO_DOT_JSON))) {
+    return [await InitTemplate.fromPath(dir, singleTemplateName)];
+  }
+
+  const templates = new Array<InitTemplate>();
+  for (const name of await listDirectory(dir)) {
+    if (await fs.pathExists(path.join(dir, name, INFO_DOT_JSON))) {
+      templates.push(await InitTemplate.fromName(dir, name));
+    }
+  }
+  if (templates.length === 0) {
+    throw new Error(`No templates found in ${dir} (a template is a directory with an '${INFO_DOT_JSON}' file and a directory per language)`);
+  }
+  return templates;
+}
+
+/**
+ * Select the template to use from an explicitly given source
+ *
+ * The type may be left out if the source contains only one template.
+ */
+function selectTemplate(templates: InitTemplate[], source: string, type?: string): InitTemplate {
+  if (!type) {
+    if (templates.length > 1) {
+      throw new Error(`${source} contains multiple templates, select one of: ${templates.map(t => t.name).join(', ')}`);
+    }
+    return templates[0];
+  }
+
+  const template = templates.find(t => t.hasName(type));
+  if (!template) {
+    throw new Error(`No template named '${type}' in ${source} (available: ${templates.map(t => t.name).join(', ')})`);
+  }
+  return template;
+}
+
+/**
+ * @returns true if ``source`` looks like a git URL rather than a local directory.
+ *
+ * Only used for the configured ``templateSources``, which do not say which kind they are.
+ */
+function isGitUrl(source: string) {
+  return /^(https?|ssh|git|file):\/\//.test(source)
+    || /^[\w.-]+@[\w.-]+:/.test(source) // scp-like syntax, e.g. git@github.com:org/repo.git
+    || source.endsWith('.git');
+}
+
 export async function availableInitLanguages(): Promise<string[]> {
   return new Promise(async resolve => {
     const templates = await availableInitTemplates();
@@ -246,9 +399,9 @@ async function listDirectory(dirPath: string) {
     .sort();
 }
 
-export async function printAvailableTemplates(language?: string) {
+export async function printAvailableTemplates(language?: string, templateSources?: string[]) {
   print('Available templates:');
-  for (const template of await availableInitTemplates()) {
+  for (const template of await availableInitTemplates(templateSources)) {
     if (language && template.languages.indexOf(language) === -1) { continue; }
     print(`* ${colors.green(template.name)}: ${template.description}`);
     const languageArg = language ? colors.bold(language)
@@ -383,8 +536,8 @@ function isRoot(dir: string) {
  *
  * @returns STDOUT (if successful).
  */
-async function execute(cmd: string, args: string[], { cwd }: { cwd: string }) {
-  const child = childProcess.spawn(cmd, args, { cwd, shell: true, stdio: ['ignore', 'pipe', 'inherit'] });
+async function execute(cmd: string, args: string[], { cwd, shell = true }: { cwd: string, shell?: boolean }) {
+  const child = childProcess.spawn(cmd, args, { cwd, shell, stdio: ['ignore', 'pipe', 'inherit'] });
   let stdout = '';
   child.stdout.on('data', chunk => stdout += chunk.toString());
   return new Promise<string>((ok, fail) => {
@@ -0,0 +1,121 @@
+import * as cxapi from '@aws-cdk/cx-api';
+import { AssetManifest } from 'cdk-assets';
+import { flatMap } from './util';
+
+/**
+ * Formats the stack dependency graph can be rendered in
+ */
+export enum GraphFormat {
+  /**
+   * Graphviz DOT
+   */
+  DOT = 'dot',
+
+  /**
+   * Mermaid flowchart
+   */
+  MERMAID = 'mermaid',
+}
+
+/**
+ * The details of a stack, as listed by 'cdk list --long'
+ */
+export interface StackDetails {
+  readonly id: string;
+
+  /**
+   * The ID that selects the stack, including the path of the stage it is in
+   */
+  readonly hierarchicalId: string;
+
+  readonly name: string;
+  readonly environment: cxapi.Environment;
+
+  /**
+   * The hierarchical IDs of the stacks this stack depends on
+   */
+  readonly dependencies: string[];
+
+  /**
+   * The IDs of the assets this stack references
+   */
+  readonly assets: string[];
+
+  readonly terminationProtection: boolean;
+}
+
+/**
+ * Collect the details of the given stacks
+ *
+ * @param stacks          the stacks to describe
+ * @param hierarchicalIds the hierarchical IDs of all stacks in the assembly
+ */
+export function stackDetails(
+  stacks: cxapi.CloudFormationStackArtifact[],
+  hierarchicalIds: Map<cxapi.CloudFormationStackArtifact, string>): StackDetails[] {
+
+  const idOf = (stack: cxapi.CloudFormationStackArtifact) => hierarchicalIds.get(stack) ?? stack.id;
+
+  return stacks.map(stack => ({
+    id: stack.id,
+    hierarchicalId: idOf(stack),
+    name: stack.stackName,
+    environment: stack.environment,
+    dependencies: stack.dependencies
+      .filter((art): art is cxapi.CloudFormationStackArtifact => art instanceof cxapi.CloudFormationStackArtifact)
+      .map(idOf),
+    assets: assetIds(stack),
+    terminationProtection: stack.terminationProtection ?? false,
+  }));
+}
+
+/**
+ * Render the dependencies between the given stacks as a graph
+ *
+ * Every edge points from a stack to a stack it depends on.
+ */
+export function renderDependencyGraph(stacks: StackDetails[], format: GraphFormat): string {
+  const nodes = new Array<string>();
+  for (const stack of stacks) {
+    for (const id of [stack.hierarchicalId, ...stack.dependencies]) {
+      if (!nodes.includes(id)) {
+        nodes.push(id);
+      }
+    }
+  }
+  // Mermaid node IDs cannot contain slashes, so nodes are numbered and labeled with the stack IDs
+  const nodeId = (id: string) => `stack${nodes.indexOf(id)}`;
+  const edges = flatMap(stacks, stack => stack.dependencies.map(dep => [stack.hierarchicalId, dep] as [string, string]));
+
+  switch (format) {
+    case GraphFormat.DOT:
+      return [
+        'digraph {',
+        ...nodes.map(node => `  ${JSON.stringify(node)};`),
+        ...edges.map(([from, to]) => `  ${JSON.stringify(from)} -> ${JSON.stringify(to)};`),
+        '}',
+      ].join('\n');
+    case GraphFormat.MERMAID:
+      return [
+        'graph TD',
+        ...nodes.map(node => `  ${nodeId(node)}["${node}"]`),
+        ...edges.map(([from, to]) => `  ${nodeId(from)} --> ${nodeId(to)}`),
+      ].join('\n');
+    default:
+      throw new Error(`Unsupported graph format: ${format}`);
+  }
+}
+
+function assetIds(stack: cxapi.CloudFormationStackArtifact): string[] {
+  const ret = stack.assets.map(asset => asset.id);
+  for (const art of stack.dependencies) {
+    if (art instanceof cxapi.AssetManifestArtifact) {
+      for (const entry of AssetManifest.fromFile(art.file).entries) {
+        if (!ret.includes(entry.id.assetId)) {
+          ret.push(entry.id.assetId);
+        }
+      }
+    }
+  }
+  return ret;
+}
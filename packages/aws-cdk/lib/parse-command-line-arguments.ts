@@ -0,0 +1,187 @@
+import * as yargs from 'yargs';
+import * as yargsInstance from 'yargs/yargs';
+import { GarbageCollectionAction, GarbageCollectionType } from './api/garbage-collector';
+import { StackActivityProgress } from './api/util/cloudformation/stack-activity-monitor';
+import { RequireApproval } from './diff';
+import { availableInitLanguages } from './init';
+import { GraphFormat } from './list';
+import { PluginHost } from './plugin';
+import * as version from './version';
+
+/* eslint-disable max-len */
+/* eslint-disable @typescript-eslint/no-shadow */ // yargs
+
+/**
+ * Parse the command line arguments of the CLI
+ *
+ * @param args the arguments, without the node executable and the script
+ */
+export async function parseCommandLineArguments(args: string[]) {
+  // Use the following configuration for array arguments:
+  //
+  //     { type: 'array', default: [], nargs: 1, requiresArg: true }
+  //
+  // The default behavior of yargs is to eat all strings following an array argument:
+  //
+  //   ./prog --arg one two positional  => will parse to { arg: ['one', 'two', 'positional'], _: [] } (so no positional arguments)
+  //   ./prog --arg one two -- positional  => does not help, for reasons that I can't understand. Still gets parsed incorrectly.
+  //
+  // By using the config above, every --arg will only consume one argument, so you can do the following:
+  //
+  //   ./prog --arg one --arg two position  =>  will parse to  { arg: ['one', 'two'], _: ['positional'] }.
+
+  const initTemplateLanuages = await availableInitLanguages();
+  return withPluginCommands(yargsInstance(args)
+    .env('CDK')
+    .usage('Usage: cdk -a <cdk-app> COMMAND')
+    .option('app', { type: 'string', alias: 'a', desc: 'REQUIRED: command-line for executing your app or a cloud assembly directory (e.g. "node bin/my-app.js")', requiresArg: true })
+    .option('context', { type: 'array', alias: 'c', desc: 'Add contextual string parameter (KEY=VALUE)', nargs: 1, requiresArg: true })
+    .option('plugin', { type: 'array', alias: 'p', desc: 'Name or path of a node package that extend the CDK features. Can be specified multiple times', nargs: 1 })
+    .option('trace', { type: 'boolean', desc: 'Print trace for stack warnings' })
+    .option('strict', { type: 'boolean', desc: 'Do not construct stacks with warnings' })
+    .option('lookups', { type: 'boolean', desc: 'Perform context lookups (synthesis fails if this is disabled and context lookups need to be performed)', default: true })
+    .option('ignore-errors', { type: 'boolean', default: false, desc: 'Ignores synthesis errors, which will likely produce an invalid output' })
+    .option('json', { type: 'boolean', alias: 'j', desc: 'Use JSON output instead of YAML when templates are printed to STDOUT, and print diffs as machine-readable JSON', default: false })
+    .option('verbose', { type: 'boolean', alias: 'v', desc: 'Show debug logs (specify multiple times to increase verbosity)', default: false })
+    .count('verbose')
+    .option('debug', { type: 'boolean', desc: 'Enable emission of additional debugging information, such as creation stack traces of tokens', default: false })
+    .option('profile', { type: 'string', desc: 'Use the indicated AWS profile as the default environment', requiresArg: true })
+    .option('proxy', { type: 'string', desc: 'Use the indicated proxy. Will read from HTTPS_PROXY environment variable if not specified', requiresArg: true })
+    .option('ca-bundle-path', { type: 'string', desc: 'Path to CA certificate to use when validating HTTPS requests. Will read from AWS_CA_BUNDLE environment variable if not specified', requiresArg: true })
+    .option('ec2creds', { type: 'boolean', alias: 'i', default: undefined, desc: 'Force trying to fetch EC2 instance credentials. Default: guess EC2 instance status' })
+    .option('version-reporting', { type: 'boolean', desc: 'Include the "AWS::CDK::Metadata" resource in synthesized templates (enabled by default)', default: undefined })
+    .option('path-metadata', { type: 'boolean', desc: 'Include "aws:cdk:path" CloudFormation metadata for each resource (enabled by default)', default: true })
+    .option('asset-metadata', { type: 'boolean', desc: 'Include "aws:asset:*" CloudFormation metadata for resources that user assets (enabled by default)', default: true })
+    .option('role-arn', { type: 'string', alias: 'r', desc: 'ARN of Role to use when invoking CloudFormation', default: undefined, requiresArg: true })
+    .option('toolkit-stack-name', { type: 'string', desc: 'The name of the CDK toolkit stack', requiresArg: true })
+    .option('staging', { type: 'boolean', desc: 'Copy assets to the output directory (use --no-staging to disable, needed for local debugging the source files with SAM CLI)', default: true })
+    .option('output', { type: 'string', alias: 'o', desc: 'Emits the synthesized cloud assembly into a directory (default: cdk.out)', requiresArg: true })
+    .option('no-color', { type: 'boolean', desc: 'Removes colors and other style from console output', default: false })
+    .command(['list [STACKS..]', 'ls [STACKS..]'], 'Lists all stacks in the app', yargs => withStackFilterOptions(yargs)
+      .option('long', { type: 'boolean', default: false, alias: 'l', desc: 'Display environment, dependency and asset information for each stack (add --json to output JSON instead of YAML)' })
+      .option('graph', { type: 'string', choices: [GraphFormat.DOT, GraphFormat.MERMAID], desc: 'Print the dependency graph of the stacks in the given format', requiresArg: true }),
+    )
+    .command(['synthesize [STACKS..]', 'synth [STACKS..]'], 'Synthesizes and prints the CloudFormation template for this stack', yargs => withStackFilterOptions(yargs)
+      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only synthesize requested stacks, don\'t include dependencies' })
+      .option('quiet', { type: 'boolean', alias: 'q', desc: 'Do not output CloudFormation Template to stdout', default: false }))
+    .command('bootstrap [ENVIRONMENTS..]', 'Deploys the CDK toolkit stack into an AWS environment', yargs => yargs
+      .option('bootstrap-bucket-name', { type: 'string', alias: ['b', 'toolkit-bucket-name'], desc: 'The name of the CDK toolkit bucket; bucket will be created and must not exist', default: undefined })
+      .option('bootstrap-kms-key-id', { type: 'string', desc: 'AWS KMS master key ID used for the SSE-KMS encryption', default: undefined, conflicts: 'bootstrap-customer-key' })
+      .option('bootstrap-customer-key', { type: 'boolean', desc: 'Create a Customer Master Key (CMK) for the bootstrap bucket (you will be charged but can customize permissions, modern bootstrapping only)', default: undefined, conflicts: 'bootstrap-kms-key-id' })
+      .option('qualifier', { type: 'string', desc: 'Unique string to distinguish multiple bootstrap stacks', default: undefined })
+      .option('public-access-block-configuration', { type: 'boolean', desc: 'Block public access configuration on CDK toolkit bucket (enabled by default) ', default: undefined })
+      .option('tags', { type: 'array', alias: 't', desc: 'Tags to add for the stack (KEY=VALUE)', nargs: 1, requiresArg: true, default: [] })
+      .option('execute', { type: 'boolean', desc: 'Whether to execute ChangeSet (--no-execute will NOT execute the ChangeSet)', default: true })
+      .option('trust', { type: 'array', desc: 'The AWS account IDs that should be trusted to perform deployments into this environment (may be repeated, modern bootstrapping only)', default: [], nargs: 1, requiresArg: true })
+      .option('cloudformation-execution-policies', { type: 'array', desc: 'The Managed Policy ARNs that should be attached to the role performing deployments into this environment (may be repeated, modern bootstrapping only)', default: [], nargs: 1, requiresArg: true })
+      .option('force', { alias: 'f', type: 'boolean', desc: 'Always bootstrap even if it would downgrade template version', default: false })
+      .option('termination-protection', { type: 'boolean', default: undefined, desc: 'Toggle CloudFormation termination protection on the bootstrap stacks' })
+      .option('show-template', { type: 'boolean', desc: 'Instead of actual bootstrapping, print the current CLI\'s bootstrapping template to stdout for customization', default: false })
+      .option('status', { type: 'boolean', desc: 'Instead of actual bootstrapping, report the version, qualifier, trust and resources of the bootstrap stacks, and whether the stacks of the app can be deployed to them', default: false })
+      .option('template', { type: 'string', requiresArg: true, desc: 'Use the template from the given file instead of the built-in one (use --show-template to obtain an example)', conflicts: 'from-app' })
+      .option('from-app', { type: 'boolean', desc: 'Deploy the bootstrap stack defined in the app (such as a BootstrapStack from @aws-cdk/pipelines) instead of the built-in template', default: false, conflicts: 'template' }),
+    )
+    .command('gc [ENVIRONMENTS..]', 'Finds assets in the bootstrap bucket and repository that are not referenced by any deployed stack, and reports, tags or deletes them', yargs => yargs
+      .option('action', { type: 'string', choices: [GarbageCollectionAction.PRINT, GarbageCollectionAction.TAG, GarbageCollectionAction.DELETE], desc: 'What to do with unreferenced assets (\'print\' only reports them)', default: GarbageCollectionAction.PRINT, requiresArg: true })
+      .option('type', { type: 'string', choices: [GarbageCollectionType.S3, GarbageCollectionType.ECR, GarbageCollectionType.ALL], desc: 'Which kinds of assets to collect', default: GarbageCollectionType.ALL, requiresArg: true })
+      .option('grace-period', { type: 'number', desc: 'Never collect assets that are younger than this many days', default: 1, requiresArg: true })
+      .option('force', { type: 'boolean', alias: 'f', desc: 'Do not ask for confirmation before deleting assets' }),
+    )
+    .command('deploy [STACKS..]', 'Deploys the stack(s) named STACKS into your AWS account', yargs => withStackFilterOptions(yargs)
+      .option('all', { type: 'boolean', default: false, desc: 'Deploy all available stacks' })
+      .option('build-exclude', { type: 'array', alias: 'E', nargs: 1, desc: 'Do not rebuild asset with the given ID. Can be specified multiple times', default: [] })
+      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only deploy requested stacks, don\'t include dependencies' })
+      .option('require-approval', { type: 'string', choices: [RequireApproval.Never, RequireApproval.AnyChange, RequireApproval.Broadening], desc: 'What security-sensitive changes need manual approval' })
+      .option('approve-policy-changes', { type: 'boolean', desc: 'Deploy the changes that the approval policy requires approval for without asking (changes that it blocks are still not deployed)', default: false })
+      .option('ci', { type: 'boolean', desc: 'Force CI detection', default: process.env.CI !== undefined })
+      .option('notification-arns', { type: 'array', desc: 'ARNs of SNS topics that CloudFormation will notify with stack related events', nargs: 1, requiresArg: true })
+      // @deprecated(v2) -- tags are part of the Cloud Assembly and tags specified here will be overwritten on the next deployment
+      .option('tags', { type: 'array', alias: 't', desc: 'Tags to add to the stack (KEY=VALUE), overrides tags from Cloud Assembly (deprecated)', nargs: 1, requiresArg: true })
+      .option('execute', { type: 'boolean', desc: 'Whether to execute ChangeSet (--no-execute will NOT execute the ChangeSet)', default: true })
+      .option('change-set-name', { type: 'string', desc: 'Name of the CloudFormation change set to create' })
+      .option('force', { alias: 'f', type: 'boolean', desc: 'Always deploy stack even if templates are identical', default: false })
+      .option('parameters', { type: 'array', desc: 'Additional parameters passed to CloudFormation at deploy time (STACK:KEY=VALUE)', nargs: 1, requiresArg: true, default: {} })
+      .option('outputs-file', { type: 'string', alias: 'O', desc: 'Path to file where stack outputs will be written as JSON', requiresArg: true })
+      .option('previous-parameters', { type: 'boolean', default: true, desc: 'Use previous values for existing parameters (you must specify all parameters on every deployment if this is disabled)' })
+      .option('progress', { type: 'string', choices: [StackActivityProgress.BAR, StackActivityProgress.EVENTS], desc: 'Display mode for stack activity events' })
+      .option('concurrency', { type: 'number', desc: 'Maximum number of simultaneous deployments (dependency permitting) to execute', default: 1, requiresArg: true })
+      .option('continue-on-error', { type: 'boolean', desc: 'Keep deploying stacks that do not depend on a failed stack, instead of stopping after the first failure', default: false })
+      .option('hotswap', { type: 'boolean', desc: 'Update changed Lambda code, Step Functions definitions and ECS images directly instead of through CloudFormation, falling back to a full deployment for other changes. Introduces drift: for development stacks only', default: false })
+      .option('rollback', { type: 'boolean', desc: 'Roll back the stack if the deployment fails (--no-rollback preserves the resources that were deployed successfully, and the next deployment continues from where it failed)', default: true }),
+    )
+    .command('watch [STACKS..]', 'Watches the app for file changes, and redeploys the stack(s) named STACKS whose templates or assets changed', yargs => yargs
+      .option('all', { type: 'boolean', default: false, desc: 'Watch and deploy all available stacks' })
+      .option('build-exclude', { type: 'array', alias: 'E', nargs: 1, desc: 'Do not rebuild asset with the given ID. Can be specified multiple times', default: [] })
+      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only deploy requested stacks, don\'t include dependencies' })
+      .option('change-set-name', { type: 'string', desc: 'Name of the CloudFormation change set to create' })
+      .option('force', { alias: 'f', type: 'boolean', desc: 'Always deploy stack even if templates are identical', default: false })
+      .option('progress', { type: 'string', choices: [StackActivityProgress.BAR, StackActivityProgress.EVENTS], desc: 'Display mode for stack activity events' })
+      .option('concurrency', { type: 'number', desc: 'Maximum number of simultaneous deployments (dependency permitting) to execute', default: 1, requiresArg: true })
+      .option('hotswap', { type: 'boolean', desc: 'Update changed Lambda code, Step Functions definitions and ECS images directly instead of through CloudFormation, falling back to a full deployment for other changes. Introduces drift: for development stacks only', default: false }),
+    )
+    .command('import [STACK]', 'Imports existing resources that were added to the stack named STACK, instead of creating them', yargs => yargs
+      .option('execute', { type: 'boolean', desc: 'Whether to execute ChangeSet (--no-execute will NOT execute the ChangeSet)', default: true })
+      .option('change-set-name', { type: 'string', desc: 'Name of the CloudFormation change set to create' })
+      .option('progress', { type: 'string', choices: [StackActivityProgress.BAR, StackActivityProgress.EVENTS], desc: 'Display mode for stack activity events' })
+      .option('resource-mapping', { type: 'string', alias: 'm', desc: 'JSON file with the identifiers of the resources to import, by logical ID (instead of prompting for them)', requiresArg: true })
+      .option('record-resource-mapping', { type: 'string', desc: 'Write the identifiers of the resources to import to the given file, instead of importing them', requiresArg: true }),
+    )
+    .command('rollback [STACK]', 'Rolls back the stack named STACK after a deployment with --no-rollback failed')
+    .command('destroy [STACKS..]', 'Destroy the stack(s) named STACKS', yargs => withStackFilterOptions(yargs)
+      .option('all', { type: 'boolean', default: false, desc: 'Destroy all available stacks' })
+      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only destroy requested stacks, don\'t include dependees' })
+      .option('force', { type: 'boolean', alias: 'f', desc: 'Do not ask for confirmation before destroying the stacks' }))
+    .command('diff [STACKS..]', 'Compares the specified stack with the deployed stack or a local template file, and returns with status 1 if any difference is found', yargs => withStackFilterOptions(yargs)
+      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only diff requested stacks, don\'t include dependencies' })
+      .option('context-lines', { type: 'number', desc: 'Number of context lines to include in arbitrary JSON diff rendering', default: 3, requiresArg: true })
+      .option('template', { type: 'string', desc: 'The path to the CloudFormation template to compare with', requiresArg: true })
+      .option('strict', { type: 'boolean', desc: 'Do not filter out AWS::CDK::Metadata resources', default: false })
+      .option('change-set', { type: 'boolean', desc: 'Create (and delete) a CloudFormation change set to find out which resources will actually be replaced', default: false }))
+    .option('fail', { type: 'boolean', desc: 'Fail with exit code 1 in case of diff', default: false })
+    .command('drift [STACKS..]', 'Detects whether the deployed resources of the specified stacks were modified outside of CloudFormation', yargs => yargs
+      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only detect drift of requested stacks, don\'t include dependencies' })
+      .option('fail', { type: 'boolean', desc: 'Fail with exit code 1 in case of drift', default: false }))
+    .command('refactor [STACKS..]', 'Finds resources whose logical ID changed since they were deployed (because their construct moved), and keeps their deployed logical IDs', yargs => yargs
+      .option('exclusively', { type: 'boolean', alias: 'e', desc: 'Only look at requested stacks, don\'t include dependencies' })
+      .option('record', { type: 'boolean', desc: 'Record the deployed logical IDs of renamed resources in cdk.json, to be used during synthesis', default: false }))
+    .command('metadata [STACK]', 'Returns all metadata associated with this stack')
+    .command('init [TEMPLATE]', 'Create a new, empty CDK project from a template.', yargs => yargs
+      .option('language', { type: 'string', alias: 'l', desc: 'The language to be used for the new project (default can be configured in ~/.cdk.json)', choices: initTemplateLanuages })
+      .option('list', { type: 'boolean', desc: 'List the available templates' })
+      .option('from-path', { type: 'string', desc: 'Use the template in the given directory, or select TEMPLATE from the templates in it', requiresArg: true, conflicts: 'from-git-url' })
+      .option('from-git-url', { type: 'string', desc: 'Use the template in the given git repository, or select TEMPLATE from the templates in it', requiresArg: true, conflicts: 'from-path' })
+      .option('generate-only', { type: 'boolean', default: false, desc: 'If true, only generates project files, without executing additional operations such as setting up a git repo, installing dependencies or compiling the project' }),
+    )
+    .commandDir('./commands', { exclude: /^_.*/ }))
+    .version(version.DISPLAY_VERSION)
+    .demandCommand(1, '') // just print help
+    .recommendCommands()
+    .help()
+    .alias('h', 'help')
+    .epilogue([
+      'If your app has a single stack, there is no need to specify the stack name',
+      'If one of cdk.json or ~/.cdk.json exists, options specified there will be used as defaults. Settings in cdk.json take precedence.',
+    ].join('\n\n'))
+    .argv;
+}
+
+/**
+ * Add the options that narrow down the stack selection to a command
+ */
+function withStackFilterOptions<T>(y: yargs.Argv<T>) {
+  return y
+    .option('with-tag', { type: 'array', desc: 'Only select stacks that have the given tag (KEY or KEY=VALUE). Can be specified multiple times', nargs: 1, requiresArg: true })
+    .option('exclude', { type: 'array', desc: 'Do not select stacks matching the given pattern. Can be specified multiple times', nargs: 1, requiresArg: true });
+}
+
+/**
+ * Add the commands registered by plug-ins, so that they are listed in the help
+ *
+ * Their arguments are not declared, see ``PluginCommand``.
+ */
+function withPluginCommands<T>(y: yargs.Argv<T>) {
+  for (const command of PluginHost.instance.commands) {
+    y = y.command([command.name, ...(command.aliases ?? [])].map(name => `${name} [ARGS..]`), command.description);
+  }
+  return y;
+}
@@ -1,6 +1,10 @@
+import * as cxapi from '@aws-cdk/cx-api';
 import { green } from 'colors/safe';
 
 import { CredentialProviderSource } from './api/aws-auth/credentials';
+import { DeployStackResult } from './api/deploy-stack';
+import { CommandOptions } from './command-api';
+import { ContextProviderPlugin } from './context-providers/provider';
 import { error } from './logging';
 
 /**
@@ -30,11 +34,85 @@ export interface Plugin {
    * When defined, this function is invoked right after the plug-in has been loaded,
    * so that the plug-in is able to initialize itself. It may call methods of the
    * ``PluginHost`` instance it receives to register new ``CredentialProviderSource``
-   * instances.
+   * instances, lifecycle hooks, context providers and commands.
    */
   init?: (host: PluginHost) => void;
 }
 
+/**
+ * Functions invoked by the CLI at points in the lifecycle of a command
+ *
+ * All hooks are optional. A hook may return a promise, which is awaited before
+ * the CLI continues. If a hook throws, the command fails with its error, so
+ * hooks can be used to enforce policies:
+ *
+ *   host.registerHooks({
+ *     preDeploy(stack) {
+ *       if (!stack.tags.owner) { throw new Error(`${stack.displayName} must have an 'owner' tag`); }
+ *     },
+ *   });
+ *
+ * @experimental
+ */
+export interface LifecycleHooks {
+  /**
+   * Invoked before the app is synthesized
+   */
+  preSynth?(): void | Promise<void>;
+
+  /**
+   * Invoked after the app has been synthesized, and all missing context has been provided
+   */
+  postSynth?(assembly: cxapi.CloudAssembly): void | Promise<void>;
+
+  /**
+   * Invoked before a stack is deployed, after any security changes have been approved
+   */
+  preDeploy?(stack: cxapi.CloudFormationStackArtifact): void | Promise<void>;
+
+  /**
+   * Invoked after a stack has been deployed successfully
+   *
+   * Not invoked for stacks whose deployment fails.
+   */
+  postDeploy?(stack: cxapi.CloudFormationStackArtifact, result: DeployStackResult): void | Promise<void>;
+}
+
+/**
+ * A subcommand contributed by a plug-in
+ *
+ * Plug-in commands are invoked as ``cdk <name> [ARGS..]``, and are listed in
+ * the help. Their arguments are not declared to the command line parser, so
+ * they are not validated, and are passed to the handler as parsed by default.
+ *
+ * @experimental
+ */
+export interface PluginCommand {
+  /**
+   * The name of the command
+   */
+  readonly name: string;
+
+  /**
+   * Other names the command can be invoked by
+   *
+   * @default - no aliases
+   */
+  readonly aliases?: string[];
+
+  /**
+   * A one-line description of the command
+   */
+  readonly description: string;
+
+  /**
+   * Run the command
+   *
+   * @returns the exit code of the CLI, or nothing to exit with 0
+   */
+  handler(options: CommandOptions): Promise<number | void>;
+}
+
 /**
  * A utility to manage plug-ins.
  *
@@ -49,6 +127,24 @@ export class PluginHost {
    */
   public readonly credentialProviderSources = new Array<CredentialProviderSource>();
 
+  /**
+   * Access the currently registered lifecycle hooks. New hooks can be registered
+   * using the +registerHooks+ method.
+   */
+  public readonly hooks = new Array<LifecycleHooks>();
+
+  /**
+   * Access the currently registered context providers, by name. New providers can
+   * be registered using the +registerContextProvider+ method.
+   */
+  public readonly contextProviderPlugins: { [name: string]: ContextProviderPlugin } = {};
+
+  /**
+   * Access the currently registered commands. New commands can be registered
+   * using the +registerCommand+ method.
+   */
+  public readonly commands = new Array<PluginCommand>();
+
   constructor() {
     if (PluginHost.instance && PluginHost.instance !== this) {
       throw new Error('New instances of PluginHost must not be built. Use PluginHost.instance instead!');
@@ -88,4 +184,67 @@ export class PluginHost {
   public registerCredentialProviderSource(source: CredentialProviderSource) {
     this.credentialProviderSources.push(source);
   }
+
+  /**
+   * Allows plug-ins to hook into the lifecycle of CLI commands.
+   *
+   * Hooks are invoked in the order in which they were registered.
+   *
+   * @param hooks the hooks to register.
+   */
+  public registerHooks(hooks: LifecycleHooks) {
+    this.hooks.push(hooks);
+  }
+
+  /**
+   * Allows plug-ins to register context providers.
+   *
+   * Apps look up values from these providers using the ``plugin`` context provider,
+   * passing the name of the provider as the ``pluginName`` property.
+   *
+   * @param name the name of the provider, which must be unique across all plug-ins.
+   * @param provider the provider to register.
+   */
+  public registerContextProvider(name: string, provider: ContextProviderPlugin) {
+    if (name in this.contextProviderPlugins) {
+      throw new Error(`A context provider named '${name}' has already been registered`);
+    }
+    this.contextProviderPlugins[name] = provider;
+  }
+
+  /**
+   * Allows plug-ins to register new subcommands.
+   *
+   * @param command the command to register.
+   */
+  public registerCommand(command: PluginCommand) {
+    for (const name of [command.name, ...(command.aliases ?? [])]) {
+      if (this.findCommand(name)) {
+        throw new Error(`A command named '${name}' has already been registered`);
+      }
+    }
+    this.commands.push(command);
+  }
+
+  /**
+   * Find the registered command with the given name or alias
+   */
+  public findCommand(name: string): PluginCommand | undefined {
+    return this.commands.find(c => c.name === name || (c.aliases ?? []).includes(name));
+  }
+
+  /**
+   * Invoke the given hook of all registered hooks, in order of registration.
+   *
+   * @param hook the name of the hook to invoke.
+   * @param args the arguments to pass to the hook.
+   */
+  public async invokeHooks<K extends keyof LifecycleHooks>(hook: K, ...args: Parameters<NonNullable<LifecycleHooks[K]>>) {
+    for (const hooks of this.hooks) {
+      const fn = hooks[hook] as ((...xs: any[]) => void | Promise<void>) | undefined;
+      if (fn) {
+        await fn.apply(hooks, args);
+      }
+    }
+  }
 }
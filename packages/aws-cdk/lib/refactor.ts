@@ -0,0 +1,74 @@
+import * as cfnDiff from '@aws-cdk/cloudformation-diff';
+import * as cxapi from '@aws-cdk/cx-api';
+import * as colors from 'colors/safe';
+import { buildLogicalToPathMap } from './diff';
+import { print } from './logging';
+import { Settings } from './settings';
+
+/**
+ * The resources of a stack that were likely renamed since it was deployed
+ */
+export interface StackResourceRenames {
+  readonly stack: cxapi.CloudFormationStackArtifact;
+  readonly renames: cfnDiff.ResourceRename[];
+}
+
+/**
+ * Find the resources of a stack that were likely renamed, by comparing its template to the deployed one
+ */
+export function findResourceRenames(currentTemplate: any, stack: cxapi.CloudFormationStackArtifact): StackResourceRenames {
+  return { stack, renames: cfnDiff.diffTemplate(currentTemplate, stack.template).resourceRenames };
+}
+
+/**
+ * Print the likely renames of a stack, with the ways to keep the deployed logical IDs
+ */
+export function printResourceRenames({ stack, renames }: StackResourceRenames) {
+  if (renames.length === 0) {
+    print(colors.green('No renamed resources found'));
+    return;
+  }
+
+  const paths = buildLogicalToPathMap(stack);
+  for (const rename of renames) {
+    const similarity = rename.similarity === 1 ? 'identical properties' : `${Math.round(rename.similarity * 100)}% of the properties are equal`;
+    print('%s %s %s was deployed as %s (%s)', colors.yellow('[~]'), colors.cyan(rename.resourceType),
+      paths[rename.newLogicalId] ?? rename.newLogicalId, colors.bold(rename.oldLogicalId), similarity);
+  }
+
+  print('\nTo keep the deployed resources, keep their old logical IDs in your app:\n');
+  for (const rename of renames) {
+    print('  stack.renameLogicalId(\'%s\', \'%s\');', rename.newLogicalId, rename.oldLogicalId);
+  }
+  print('\nOr run \'cdk refactor --record\' to record them in the \'%s\' context in cdk.json.\n', cxapi.LOGICAL_ID_RENAMES_CONTEXT);
+}
+
+/**
+ * Record the likely renames in the logical ID renames context of a configuration file, to be applied during synthesis
+ *
+ * Renames that are already in the file are kept, unless the logical ID they keep is no longer in the
+ * stack's template (because the resource was removed, or moved again).
+ *
+ * @returns whether the file was changed
+ */
+export async function recordResourceRenames(fileName: string, stackRenames: StackResourceRenames[]): Promise<boolean> {
+  const config = await new Settings().load(fileName);
+  let changed = false;
+  for (const { stack, renames } of stackRenames) {
+    const recorded: Record<string, string> = config.get(['context', cxapi.LOGICAL_ID_RENAMES_CONTEXT, stack.id]) ?? {};
+    for (const [generatedId, logicalId] of Object.entries(recorded)) {
+      if (!(logicalId in (stack.template.Resources ?? {}))) {
+        config.unset(['context', cxapi.LOGICAL_ID_RENAMES_CONTEXT, stack.id, generatedId]);
+        changed = true;
+      }
+    }
+    for (const rename of renames) {
+      config.set(['context', cxapi.LOGICAL_ID_RENAMES_CONTEXT, stack.id, rename.newLogicalId], rename.oldLogicalId);
+      changed = true;
+    }
+  }
+  if (changed) {
+    await config.save(fileName);
+  }
+  return changed;
+}
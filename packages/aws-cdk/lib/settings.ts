@@ -16,14 +16,26 @@ export const USER_DEFAULTS = '~/.cdk.json';
  */
 export const TRANSIENT_CONTEXT_KEY = '$dontSaveContext';
 
+/**
+ * Key in cdk.context.json under which we record how looked-up context values were obtained
+ *
+ * The records are not passed to the app, and not listed as context values.
+ */
+export const CONTEXT_LOOKUPS_KEY = '$lookups';
+
 const CONTEXT_KEY = 'context';
 
 export enum Command {
   LS = 'ls',
   LIST = 'list',
   DIFF = 'diff',
+  DRIFT = 'drift',
   BOOTSTRAP = 'bootstrap',
+  GC = 'gc',
   DEPLOY = 'deploy',
+  WATCH = 'watch',
+  IMPORT = 'import',
+  ROLLBACK = 'rollback',
   DESTROY = 'destroy',
   SYNTHESIZE = 'synthesize',
   SYNTH = 'synth',
@@ -34,6 +46,8 @@ export enum Command {
 
 const BUNDLING_COMMANDS = [
   Command.DEPLOY,
+  Command.WATCH,
+  Command.IMPORT,
   Command.DIFF,
   Command.SYNTH,
   Command.SYNTHESIZE,
@@ -159,6 +173,26 @@ async function loadAndLog(fileName: string): Promise<Settings> {
   return ret;
 }
 
+/**
+ * How a context value was obtained from a context provider
+ */
+export interface ContextLookup {
+  /**
+   * The name of the context provider
+   */
+  readonly provider: string;
+
+  /**
+   * The query passed to the context provider
+   */
+  readonly props: {[key: string]: any};
+
+  /**
+   * When the value was looked up, as an ISO 8601 timestamp
+   */
+  readonly lookedUpAt: string;
+}
+
 /**
  * Class that supports overlaying property bags
  *
@@ -182,6 +216,9 @@ export class Context {
     return this.keys.indexOf(key) > -1;
   }
 
+  /**
+   * All context values, excluding the records of how they were looked up
+   */
   public get all(): {[key: string]: any} {
     let ret = new Settings();
 
@@ -189,6 +226,7 @@ export class Context {
     for (const bag of [...this.bags].reverse()) {
       ret = ret.merge(bag);
     }
+    ret.unset([CONTEXT_LOOKUPS_KEY]);
 
     return ret.all;
   }
@@ -213,12 +251,42 @@ export class Context {
 
   public unset(key: string) {
     this.set(key, undefined);
+    this.setLookup(key, undefined);
   }
 
   public clear() {
     for (const key of this.keys) {
       this.unset(key);
     }
+    this.set(CONTEXT_LOOKUPS_KEY, undefined);
+  }
+
+  /**
+   * How the value of the given key was looked up, if it was obtained from a context provider
+   */
+  public lookup(key: string): ContextLookup | undefined {
+    for (const bag of this.bags) {
+      const v = bag.get([CONTEXT_LOOKUPS_KEY, key]);
+      if (v !== undefined) { return v; }
+    }
+    return undefined;
+  }
+
+  /**
+   * Record how the value of the given key was looked up (or remove the record)
+   *
+   * The record goes to the same property bag as the value.
+   */
+  public setLookup(key: string, lookup: ContextLookup | undefined) {
+    for (const bag of this.bags) {
+      if (bag.readOnly) { continue; }
+
+      // All bags past the first one have the record erased
+      if (lookup !== undefined || bag.get([CONTEXT_LOOKUPS_KEY]) !== undefined) {
+        bag.set([CONTEXT_LOOKUPS_KEY, key], lookup);
+      }
+      lookup = undefined;
+    }
   }
 }
 
@@ -29,3 +29,14 @@ export function partition<T>(collection: T[], pred: (x: T) => boolean): T[] {
   }
   return ret;
 }
+
+/**
+ * Split a list into consecutive lists of at most the given size
+ */
+export function chunks<T>(xs: T[], size: number): T[][] {
+  const ret: T[][] = [];
+  for (let i = 0; i < xs.length; i += size) {
+    ret.push(xs.slice(i, i + size));
+  }
+  return ret;
+}
@@ -52,7 +52,7 @@ class PublishingAws implements cdk_assets.IAws {
   }
 
   public async s3Client(options: cdk_assets.ClientOptions): Promise<AWS.S3> {
-    return (await this.sdk(options)).s3();
+    return (await this.sdk(options)).s3(options.endpointUrl);
   }
 
   public async ecrClient(options: cdk_assets.ClientOptions): Promise<AWS.ECR> {
@@ -0,0 +1,135 @@
+import { ToolkitInfo } from '../../lib';
+import { bootstrapStatus, bootstrapStatusHasProblems } from '../../lib/api/bootstrap-status';
+import { testStack } from '../util';
+import { errorWithCode, mockBootstrapStack, MockSdk, MockSdkProvider } from '../util/mock-sdk';
+
+const ENVIRONMENT = { account: '123456789012', region: 'here', name: 'aws://123456789012/here' };
+const DEPLOY_ROLE = 'arn:${AWS::Partition}:iam::123456789012:role/cdk-hnb659fds-deploy-role-123456789012-here';
+
+let sdkProvider: MockSdkProvider;
+let sdk: MockSdk;
+let headBucket: jest.Mock;
+
+beforeEach(() => {
+  sdkProvider = new MockSdkProvider({ realSdk: false });
+  sdk = sdkProvider.sdk as MockSdk;
+
+  jest.spyOn(ToolkitInfo, 'lookup').mockResolvedValue(ToolkitInfo.fromStack(mockBootstrapStack(sdk, {
+    Parameters: [
+      { ParameterKey: 'Qualifier', ParameterValue: 'hnb659fds' },
+      { ParameterKey: 'TrustedAccounts', ParameterValue: '111111111111,222222222222' },
+      { ParameterKey: 'CloudFormationExecutionPolicies', ParameterValue: 'arn:aws:iam::aws:policy/AdministratorAccess' },
+    ],
+    Outputs: [{ OutputKey: 'BootstrapVersion', OutputValue: '5' }],
+  }), sdk));
+
+  sdk.stubCloudFormation({
+    listStackResources: () => ({
+      StackResourceSummaries: [
+        stackResource('StagingBucket', 'AWS::S3::Bucket', 'cdk-hnb659fds-assets-123456789012-here'),
+        stackResource('ContainerAssetsRepository', 'AWS::ECR::Repository', 'cdk-hnb659fds-container-assets-123456789012-here'),
+        stackResource('DeploymentActionRole', 'AWS::IAM::Role', 'cdk-hnb659fds-deploy-role-123456789012-here'),
+        stackResource('CdkBootstrapVersion', 'AWS::SSM::Parameter', '/cdk-bootstrap/hnb659fds/version'),
+      ],
+    }),
+  });
+  headBucket = jest.fn().mockReturnValue({});
+  sdk.stubS3({ headBucket });
+  sdk.stubEcr({ describeRepositories: () => ({ repositories: [] }) });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('reports the version, qualifier, trust and resources of the bootstrap stack', async () => {
+  // WHEN
+  const status = await bootstrapStatus({ sdkProvider, environment: ENVIRONMENT });
+
+  // THEN
+  expect(status).toEqual(expect.objectContaining({
+    bootstrapped: true,
+    toolkitStackName: 'CDKToolkit',
+    version: 5,
+    qualifier: 'hnb659fds',
+    trustedAccounts: ['111111111111', '222222222222'],
+    cloudFormationExecutionPolicies: ['arn:aws:iam::aws:policy/AdministratorAccess'],
+    stacks: [],
+  }));
+  expect(status.resources.map(r => [r.logicalId, r.exists])).toEqual([
+    ['StagingBucket', true],
+    ['ContainerAssetsRepository', true],
+    ['DeploymentActionRole', true],
+  ]);
+  expect(headBucket).toHaveBeenCalledWith({ Bucket: 'cdk-hnb659fds-assets-123456789012-here' });
+  expect(bootstrapStatusHasProblems(status)).toBe(false);
+});
+
+test('reports resources that were deleted outside of CloudFormation', async () => {
+  // GIVEN
+  headBucket.mockImplementation(() => { throw errorWithCode('NotFound', 'Not Found'); });
+
+  // WHEN
+  const status = await bootstrapStatus({ sdkProvider, environment: ENVIRONMENT });
+
+  // THEN
+  expect(status.resources.find(r => r.logicalId === 'StagingBucket')?.exists).toBe(false);
+  expect(bootstrapStatusHasProblems(status)).toBe(true);
+});
+
+test('reports environments that are not bootstrapped', async () => {
+  // GIVEN
+  jest.spyOn(ToolkitInfo, 'lookup').mockResolvedValue(ToolkitInfo.bootstrapStackNotFoundInfo(sdk));
+
+  // WHEN
+  const status = await bootstrapStatus({
+    sdkProvider,
+    environment: ENVIRONMENT,
+    stacks: [testStack({ stackName: 'Stack', properties: { requiresBootstrapStackVersion: 4 } })],
+  });
+
+  // THEN
+  expect(status.bootstrapped).toBe(false);
+  expect(status.resources).toEqual([]);
+  expect(status.stacks[0].problems).toEqual(['the environment is not bootstrapped']);
+});
+
+test('checks the stacks in the environment against the bootstrap stack', async () => {
+  // WHEN
+  const status = await bootstrapStatus({
+    sdkProvider,
+    environment: ENVIRONMENT,
+    stacks: [
+      testStack({ stackName: 'Current', properties: { requiresBootstrapStackVersion: 5, assumeRoleArn: DEPLOY_ROLE } }),
+      testStack({ stackName: 'TooNew', properties: { requiresBootstrapStackVersion: 6, assumeRoleArn: DEPLOY_ROLE } }),
+      testStack({
+        stackName: 'OtherQualifier',
+        properties: { requiresBootstrapStackVersion: 5, assumeRoleArn: DEPLOY_ROLE.replace('hnb659fds', 'other') },
+      }),
+      testStack({ stackName: 'OtherEnvironment', env: 'aws://123456789012/there', properties: { requiresBootstrapStackVersion: 6 } }),
+    ],
+  });
+
+  // THEN
+  expect(status.stacks).toEqual([
+    { stackName: 'Current', requiredVersion: 5, qualifier: 'hnb659fds', problems: [] },
+    { stackName: 'TooNew', requiredVersion: 6, qualifier: 'hnb659fds', problems: [expect.stringContaining('has version 5')] },
+    {
+      stackName: 'OtherQualifier',
+      requiredVersion: 5,
+      qualifier: 'other',
+      problems: ['the stack uses qualifier \'other\', but the environment was bootstrapped with qualifier \'hnb659fds\''],
+    },
+  ]);
+  expect(bootstrapStatusHasProblems(status)).toBe(true);
+});
+
+function stackResource(logicalId: string, type: string, physicalId: string) {
+  return {
+    LogicalResourceId: logicalId,
+    ResourceType: type,
+    PhysicalResourceId: physicalId,
+    ResourceStatus: 'CREATE_COMPLETE',
+    LastUpdatedTimestamp: new Date(),
+  };
+}
@@ -1,5 +1,5 @@
 import * as cxschema from '@aws-cdk/cloud-assembly-schema';
-import { DefaultSelection } from '../../lib/api/cxapp/cloud-assembly';
+import { DefaultSelection, ExtendedStackSelection } from '../../lib/api/cxapp/cloud-assembly';
 import { MockCloudExecutable } from '../util';
 
 test('do not throw when selecting stack without errors', async () => {
@@ -73,6 +73,103 @@ test('select behavior: repeat', async () => {
   expect(x.stackCount).toBe(1);
 });
 
+test('select stacks in stages by hierarchical ID', async () => {
+  // GIVEN
+  const cxasm = await testNestedCloudAssembly();
+
+  // WHEN
+  const x = await cxasm.selectStacks(['Prod/**'], { defaultBehavior: DefaultSelection.AllStacks });
+
+  // THEN
+  expect(x.stackIds).toEqual(['ProdService', 'ProdMonitoring']);
+});
+
+test('wildcards without a path only match top-level stacks', async () => {
+  // GIVEN
+  const cxasm = await testNestedCloudAssembly();
+
+  // WHEN
+  const x = await cxasm.selectStacks(['*'], { defaultBehavior: DefaultSelection.AllStacks });
+
+  // THEN
+  expect(x.stackIds).toEqual(['Shared', 'withouterrors']);
+});
+
+test('select stacks by tag', async () => {
+  // GIVEN
+  const cxasm = await testNestedCloudAssembly();
+
+  // WHEN
+  const byKey = await cxasm.selectStacks([], { defaultBehavior: DefaultSelection.OnlySingle, withTags: ['team'] });
+  const byValue = await cxasm.selectStacks(['**'], { defaultBehavior: DefaultSelection.OnlySingle, withTags: ['team=payments'] });
+
+  // THEN
+  expect(byKey.stackIds).toEqual(['Shared', 'ProdService']);
+  expect(byValue.stackIds).toEqual(['Shared', 'ProdService']);
+});
+
+test('select stacks by tag fails if no stack has the tag', async () => {
+  // GIVEN
+  const cxasm = await testNestedCloudAssembly();
+
+  // THEN
+  await expect(cxasm.selectStacks([], { defaultBehavior: DefaultSelection.AllStacks, withTags: ['team=billing'] }))
+    .rejects.toThrow(/No stack found with tags team=billing/);
+});
+
+test('excluded stacks are not selected, even as dependencies', async () => {
+  // GIVEN
+  const cxasm = await testNestedCloudAssembly();
+
+  // WHEN
+  const x = await cxasm.selectStacks(['**'], {
+    defaultBehavior: DefaultSelection.AllStacks,
+    extend: ExtendedStackSelection.Upstream,
+    exclude: ['*/*Monitoring*', 'Shared'],
+  });
+
+  // THEN
+  expect(x.stackIds).toEqual(['withouterrors', 'ProdService']);
+});
+
+test('exclusions alone narrow down the default selection', async () => {
+  // GIVEN
+  const cxasm = await testNestedCloudAssembly();
+
+  // WHEN
+  const x = await cxasm.selectStacks([], { defaultBehavior: DefaultSelection.AllStacks, exclude: ['Shared'] });
+
+  // THEN
+  expect(x.stackIds).toEqual(['withouterrors']);
+  await expect(cxasm.selectStacks([], { defaultBehavior: DefaultSelection.OnlySingle, exclude: ['Shared'] }))
+    .rejects.toThrow(/specify which stacks to use \(wildcards are supported\) or specify `--all`/);
+});
+
+async function testNestedCloudAssembly() {
+  const cloudExec = new MockCloudExecutable({
+    stacks: [{
+      stackName: 'withouterrors',
+      depends: ['Shared'],
+    },
+    {
+      stackName: 'Shared',
+      properties: { tags: { team: 'payments' } },
+    }],
+    nestedAssemblies: [{
+      displayName: 'Prod',
+      stacks: [{
+        stackName: 'ProdService',
+        properties: { tags: { team: 'payments' } },
+      },
+      {
+        stackName: 'ProdMonitoring',
+      }],
+    }],
+  });
+
+  return cloudExec.synthesize();
+}
+
 async function testCloudAssembly({ env }: { env?: string, versionReporting?: boolean } = {}) {
   const cloudExec = new MockCloudExecutable({
     stacks: [{
@@ -2,6 +2,7 @@ import * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import * as cxapi from '@aws-cdk/cx-api';
 import { DefaultSelection } from '../../lib/api/cxapp/cloud-assembly';
 import { registerContextProvider } from '../../lib/context-providers';
+import { PluginHost } from '../../lib/plugin';
 import { MockCloudExecutable } from '../util';
 
 describe('AWS::CDK::Metadata', () => {
@@ -91,6 +92,74 @@ test('fails if lookups are disabled and missing context is synthesized', async (
   await expect(cloudExecutable.synthesize()).rejects.toThrow(/Context lookups have been disabled/);
 });
 
+test('plug-in hooks are invoked around synthesis', async () => {
+  // GIVEN
+  const preSynth = jest.fn();
+  const postSynth = jest.fn();
+  PluginHost.instance.registerHooks({ preSynth, postSynth });
+  const cloudExecutable = new MockCloudExecutable({
+    stacks: [{
+      stackName: 'thestack',
+      template: { resource: 'noerrorresource' },
+    }],
+  });
+
+  try {
+    // WHEN
+    await cloudExecutable.synthesize();
+
+    // THEN
+    expect(preSynth).toHaveBeenCalledTimes(1);
+    expect(postSynth).toHaveBeenCalledTimes(1);
+    const assembly: cxapi.CloudAssembly = postSynth.mock.calls[0][0];
+    expect(assembly.stacks.map(s => s.stackName)).toEqual(['thestack']);
+  } finally {
+    PluginHost.instance.hooks.splice(0);
+  }
+});
+
+describe('context older than the maximum age', () => {
+  const previousCI = process.env.CI;
+  let cloudExecutable: MockCloudExecutable;
+  beforeEach(() => {
+    registerContextProvider('testprovider' as any, class {
+      public async getValue(_: { [key: string]: any }): Promise<any> {
+        return 'fresh';
+      }
+    });
+
+    cloudExecutable = new MockCloudExecutable({
+      stacks: [{
+        stackName: 'thestack',
+        template: { resource: 'noerrorresource' },
+      }],
+    });
+    cloudExecutable.configuration.settings.set(['contextMaxAgeDays'], 30);
+    cloudExecutable.configuration.context.set('old', 'stale');
+    cloudExecutable.configuration.context.setLookup('old', { provider: 'testprovider', props: {}, lookedUpAt: '2020-01-01T00:00:00.000Z' });
+  });
+
+  afterEach(() => {
+    process.env.CI = previousCI;
+    if (previousCI === undefined) { delete process.env.CI; }
+  });
+
+  test('is looked up again before synthesis', async () => {
+    delete process.env.CI;
+
+    await cloudExecutable.synthesize();
+
+    expect(cloudExecutable.configuration.context.get('old')).toEqual('fresh');
+  });
+
+  test('is kept in CI', async () => {
+    process.env.CI = 'true';
+
+    await cloudExecutable.synthesize();
+
+    expect(cloudExecutable.configuration.context.get('old')).toEqual('stale');
+  });
+});
 
 async function testCloudExecutable({ env, versionReporting = true }: { env?: string, versionReporting?: boolean } = {}) {
   const cloudExec = new MockCloudExecutable({
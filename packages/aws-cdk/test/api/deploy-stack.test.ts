@@ -1,4 +1,4 @@
-import { deployStack, ToolkitInfo } from '../../lib';
+import { deployStack, rollbackStack, ToolkitInfo } from '../../lib';
 import { DEFAULT_FAKE_TEMPLATE, testStack } from '../util';
 import { MockedObject, mockResolvedEnvironment, MockSdk, MockSdkProvider, SyncHandlerSubsetOf } from '../util/mock-sdk';
 
@@ -53,6 +53,7 @@ beforeEach(() => {
     })),
     executeChangeSet: jest.fn((_o) => ({})),
     deleteStack: jest.fn((_o) => ({})),
+    rollbackStack: jest.fn((_o) => ({})),
     getTemplate: jest.fn((_o) => ({ TemplateBody: JSON.stringify(DEFAULT_FAKE_TEMPLATE) })),
     updateTerminationProtection: jest.fn((_o) => ({ StackId: 'stack-id' })),
   };
@@ -434,6 +435,72 @@ test('existing stack in UPDATE_ROLLBACK_COMPLETE state can be updated', async ()
   }));
 });
 
+test('rollback is disabled if --no-rollback is given', async () => {
+  // WHEN
+  await deployStack({
+    ...standardDeployStackArguments(),
+    rollback: false,
+  });
+
+  // THEN
+  expect(cfnMocks.executeChangeSet).toHaveBeenCalledWith(expect.objectContaining({
+    DisableRollback: true,
+  }));
+});
+
+test('existing stack in UPDATE_FAILED state is rolled back before it is updated', async () => {
+  // GIVEN
+  givenStackExists(
+    { StackStatus: 'UPDATE_FAILED' }, // This is for the initial check
+    { StackStatus: 'UPDATE_ROLLBACK_COMPLETE' }, // Poll the rollback
+    { StackStatus: 'UPDATE_COMPLETE' }, // Poll the update
+  );
+  givenTemplateIs({ changed: 123 });
+
+  // WHEN
+  await deployStack({
+    ...standardDeployStackArguments(),
+  });
+
+  // THEN
+  expect(cfnMocks.rollbackStack).toHaveBeenCalledWith(expect.objectContaining({ StackName: 'withouterrors' }));
+  expect(cfnMocks.createChangeSet).toHaveBeenCalledWith(expect.objectContaining({
+    ChangeSetType: 'UPDATE',
+  }));
+  expect(cfnMocks.executeChangeSet).toHaveBeenCalledWith(expect.objectContaining({
+    DisableRollback: false,
+  }));
+});
+
+test('existing stack in UPDATE_FAILED state continues deploying if --no-rollback is given', async () => {
+  // GIVEN
+  givenStackExists(
+    { StackStatus: 'UPDATE_FAILED' }, // This is for the initial check
+    { StackStatus: 'UPDATE_COMPLETE' }, // Poll the update
+  );
+
+  // WHEN
+  await deployStack({
+    ...standardDeployStackArguments(),
+    rollback: false,
+  });
+
+  // THEN
+  expect(cfnMocks.rollbackStack).not.toHaveBeenCalled();
+  expect(cfnMocks.createChangeSet).toHaveBeenCalledWith(expect.objectContaining({
+    ChangeSetType: 'UPDATE',
+  }));
+});
+
+test('rollbackStack fails if the stack is not in a failed state', async () => {
+  // GIVEN
+  givenStackExists({ StackStatus: 'UPDATE_COMPLETE' });
+
+  // THEN
+  await expect(rollbackStack({ stack: FAKE_STACK, sdk })).rejects.toThrow(/cannot be rolled back/);
+  expect(cfnMocks.rollbackStack).not.toHaveBeenCalled();
+});
+
 test('deploy not skipped if template changed', async () => {
   // GIVEN
   givenStackExists();
@@ -0,0 +1,176 @@
+import * as AWS from 'aws-sdk';
+import { ToolkitInfo } from '../../lib';
+import { Mode } from '../../lib/api/aws-auth';
+import { GarbageCollectionAction, GarbageCollectionType, GarbageCollector } from '../../lib/api/garbage-collector';
+import { mockBootstrapStack, MockSdk, MockSdkProvider, mockResolvedEnvironment } from '../util/mock-sdk';
+
+const TEMPLATE_HASH = 'a'.repeat(64);
+const PARAMETER_HASH = 'b'.repeat(64);
+const UNREFERENCED_HASH = 'c'.repeat(64);
+const RECENT_HASH = 'd'.repeat(64);
+
+const OLD = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+const RECENT = new Date(Date.now() - 60 * 1000);
+
+let sdkProvider: MockSdkProvider;
+let sdk: MockSdk;
+let deleteObjects: jest.Mock<AWS.S3.DeleteObjectsOutput, [AWS.S3.DeleteObjectsRequest]>;
+let putObjectTagging: jest.Mock<AWS.S3.PutObjectTaggingOutput, [AWS.S3.PutObjectTaggingRequest]>;
+let batchDeleteImage: jest.Mock<AWS.ECR.BatchDeleteImageResponse, [AWS.ECR.BatchDeleteImageRequest]>;
+let putImage: jest.Mock<AWS.ECR.PutImageResponse, [AWS.ECR.PutImageRequest]>;
+let describeImages: jest.Mock<AWS.ECR.DescribeImagesResponse, [AWS.ECR.DescribeImagesRequest]>;
+
+beforeEach(() => {
+  sdkProvider = new MockSdkProvider({ realSdk: false });
+  sdk = sdkProvider.sdk as MockSdk;
+
+  jest.spyOn(ToolkitInfo, 'lookup').mockResolvedValue(ToolkitInfo.fromStack(mockBootstrapStack(sdk, {
+    Outputs: [{ OutputKey: 'ImageRepositoryName', OutputValue: 'REPOSITORY' }],
+  }), sdk));
+
+  sdk.stubCloudFormation({
+    describeStacks: () => ({
+      Stacks: [{
+        StackName: 'Stack1',
+        StackId: 'Stack1Id',
+        StackStatus: 'UPDATE_COMPLETE',
+        CreationTime: OLD,
+        Parameters: [{ ParameterKey: 'AssetParameter', ParameterValue: `assets/Asset/||${PARAMETER_HASH}.zip` }],
+      }],
+    }),
+    getTemplate: () => ({
+      TemplateBody: JSON.stringify({ Resources: { Function: { Properties: { Code: { S3Key: `${TEMPLATE_HASH}.zip` } } } } }),
+    }),
+  });
+
+  deleteObjects = jest.fn().mockReturnValue({});
+  putObjectTagging = jest.fn().mockReturnValue({});
+  sdk.stubS3({
+    listObjectsV2: () => ({
+      Contents: [
+        { Key: `${TEMPLATE_HASH}.zip`, LastModified: OLD, Size: 10 },
+        { Key: `assets/Asset/${PARAMETER_HASH}.zip`, LastModified: OLD, Size: 10 },
+        { Key: `${UNREFERENCED_HASH}.zip`, LastModified: OLD, Size: 10 },
+        { Key: `${RECENT_HASH}.zip`, LastModified: RECENT, Size: 10 },
+        { Key: 'some-other-file.txt', LastModified: OLD, Size: 10 },
+      ],
+    }),
+    getObjectTagging: () => ({ TagSet: [{ Key: 'existing', Value: 'tag' }] }),
+    putObjectTagging,
+    deleteObjects,
+  });
+
+  describeImages = jest.fn().mockReturnValue({
+    imageDetails: [
+      { registryId: '123456789', imageDigest: 'sha256:referenced', imageTags: [TEMPLATE_HASH], imagePushedAt: OLD, imageSizeInBytes: 100 },
+      { registryId: '123456789', imageDigest: 'sha256:unreferenced', imageTags: [UNREFERENCED_HASH], imagePushedAt: OLD, imageSizeInBytes: 100 },
+    ],
+  });
+  batchDeleteImage = jest.fn().mockReturnValue({});
+  putImage = jest.fn().mockReturnValue({});
+  sdk.stubEcr({
+    describeImages,
+    batchGetImage: () => ({ images: [{ imageManifest: 'MANIFEST', imageManifestMediaType: 'MEDIA_TYPE' }] }),
+    putImage,
+    batchDeleteImage,
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('reports old assets that are not referenced by any template or parameter', async () => {
+  // WHEN
+  const result = await garbageCollector(GarbageCollectionAction.PRINT).garbageCollect();
+
+  // THEN
+  expect(result.files.map(f => f.location)).toEqual([`s3://BUCKET_NAME/${UNREFERENCED_HASH}.zip`]);
+  expect(result.images.map(i => i.location)).toEqual(['123456789.dkr.ecr.bermuda-triangle-1337.amazonaws.com/REPOSITORY@sha256:unreferenced']);
+  expect(deleteObjects).not.toHaveBeenCalled();
+  expect(putObjectTagging).not.toHaveBeenCalled();
+  expect(batchDeleteImage).not.toHaveBeenCalled();
+  expect(putImage).not.toHaveBeenCalled();
+});
+
+test('printing the assets does not require write access', async () => {
+  // GIVEN
+  const forEnvironment = jest.spyOn(sdkProvider, 'forEnvironment');
+
+  // WHEN
+  await garbageCollector(GarbageCollectionAction.PRINT).garbageCollect();
+  await garbageCollector(GarbageCollectionAction.DELETE).garbageCollect();
+
+  // THEN
+  expect(forEnvironment).toHaveBeenNthCalledWith(1, expect.anything(), Mode.ForReading);
+  expect(forEnvironment).toHaveBeenNthCalledWith(2, expect.anything(), Mode.ForWriting);
+});
+
+test('deletes unreferenced objects and images', async () => {
+  // WHEN
+  await garbageCollector(GarbageCollectionAction.DELETE).garbageCollect();
+
+  // THEN
+  expect(deleteObjects).toHaveBeenCalledWith({
+    Bucket: 'BUCKET_NAME',
+    Delete: { Objects: [{ Key: `${UNREFERENCED_HASH}.zip` }], Quiet: true },
+  });
+  expect(batchDeleteImage).toHaveBeenCalledWith({
+    repositoryName: 'REPOSITORY',
+    imageIds: [{ imageDigest: 'sha256:unreferenced' }],
+  });
+});
+
+test('tags unreferenced objects and images', async () => {
+  // WHEN
+  await garbageCollector(GarbageCollectionAction.TAG).garbageCollect();
+
+  // THEN
+  expect(putObjectTagging).toHaveBeenCalledWith({
+    Bucket: 'BUCKET_NAME',
+    Key: `${UNREFERENCED_HASH}.zip`,
+    Tagging: {
+      TagSet: [
+        { Key: 'existing', Value: 'tag' },
+        { Key: 'aws-cdk:unreferenced', Value: expect.any(String) },
+      ],
+    },
+  });
+  expect(putImage).toHaveBeenCalledWith({
+    repositoryName: 'REPOSITORY',
+    imageManifest: 'MANIFEST',
+    imageManifestMediaType: 'MEDIA_TYPE',
+    imageTag: expect.stringMatching(/^aws-cdk-unreferenced-\d+-unreferenced$/),
+  });
+});
+
+test('only collects the requested type of assets', async () => {
+  // WHEN
+  const result = await garbageCollector(GarbageCollectionAction.DELETE, GarbageCollectionType.S3).garbageCollect();
+
+  // THEN
+  expect(result.images).toEqual([]);
+  expect(describeImages).not.toHaveBeenCalled();
+  expect(deleteObjects).toHaveBeenCalled();
+});
+
+test('grace period protects recent assets', async () => {
+  // WHEN
+  const result = await garbageCollector(GarbageCollectionAction.PRINT, GarbageCollectionType.S3, 0).garbageCollect();
+
+  // THEN
+  expect(result.files.map(f => f.location)).toEqual([
+    `s3://BUCKET_NAME/${UNREFERENCED_HASH}.zip`,
+    `s3://BUCKET_NAME/${RECENT_HASH}.zip`,
+  ]);
+});
+
+function garbageCollector(action: GarbageCollectionAction, type?: GarbageCollectionType, gracePeriodDays = 1) {
+  return new GarbageCollector({
+    sdkProvider,
+    environment: mockResolvedEnvironment(),
+    action,
+    type,
+    gracePeriodDays,
+  });
+}
@@ -0,0 +1,270 @@
+import { tryHotswapDeployment } from '../../lib/api/hotswap-deployments';
+import { CloudFormationStack } from '../../lib/api/util/cloudformation';
+import { testStack } from '../util';
+import { mockResolvedEnvironment, MockSdk } from '../util/mock-sdk';
+
+const STACK_NAME = 'withlambda';
+
+let sdk: MockSdk;
+let deployedTemplate: any;
+let mockUpdateFunctionCode: jest.Mock;
+let mockUpdateStateMachine: jest.Mock;
+let mockRegisterTaskDefinition: jest.Mock;
+let mockUpdateService: jest.Mock;
+beforeEach(() => {
+  sdk = new MockSdk();
+  deployedTemplate = {};
+  sdk.stubCloudFormation({
+    getTemplate: () => ({ TemplateBody: JSON.stringify(deployedTemplate) }),
+    listStackResources: () => ({
+      StackResourceSummaries: [
+        {
+          LogicalResourceId: 'Func',
+          PhysicalResourceId: 'my-function',
+          ResourceType: 'AWS::Lambda::Function',
+          ResourceStatus: 'UPDATE_COMPLETE',
+          LastUpdatedTimestamp: new Date(),
+        },
+        {
+          LogicalResourceId: 'Machine',
+          PhysicalResourceId: 'arn:aws:states:bermuda-triangle-1337:123456789:stateMachine:my-machine',
+          ResourceType: 'AWS::StepFunctions::StateMachine',
+          ResourceStatus: 'UPDATE_COMPLETE',
+          LastUpdatedTimestamp: new Date(),
+        },
+        {
+          LogicalResourceId: 'TaskDef',
+          PhysicalResourceId: 'arn:aws:ecs:bermuda-triangle-1337:123456789:task-definition/my-task:1',
+          ResourceType: 'AWS::ECS::TaskDefinition',
+          ResourceStatus: 'UPDATE_COMPLETE',
+          LastUpdatedTimestamp: new Date(),
+        },
+        {
+          LogicalResourceId: 'Service',
+          PhysicalResourceId: 'arn:aws:ecs:bermuda-triangle-1337:123456789:service/my-cluster/my-service',
+          ResourceType: 'AWS::ECS::Service',
+          ResourceStatus: 'UPDATE_COMPLETE',
+          LastUpdatedTimestamp: new Date(),
+        },
+      ],
+    }),
+  });
+
+  mockUpdateFunctionCode = jest.fn().mockReturnValue({});
+  sdk.stubLambda({ updateFunctionCode: mockUpdateFunctionCode });
+  mockUpdateStateMachine = jest.fn().mockReturnValue({});
+  sdk.stubStepFunctions({ updateStateMachine: mockUpdateStateMachine });
+  mockRegisterTaskDefinition = jest.fn().mockReturnValue({
+    taskDefinition: { taskDefinitionArn: 'arn:aws:ecs:bermuda-triangle-1337:123456789:task-definition/my-task:2' },
+  });
+  mockUpdateService = jest.fn().mockReturnValue({});
+  sdk.stubEcs({
+    describeTaskDefinition: () => ({
+      taskDefinition: {
+        family: 'my-task',
+        taskDefinitionArn: 'arn:aws:ecs:bermuda-triangle-1337:123456789:task-definition/my-task:1',
+        containerDefinitions: [{ name: 'web', image: 'old-image', memory: 512 }],
+      },
+    }),
+    registerTaskDefinition: mockRegisterTaskDefinition,
+    updateService: mockUpdateService,
+  });
+});
+
+test('updates the code of a Lambda function directly', async () => {
+  // GIVEN
+  deployedTemplate = templateWithFunction({ S3Bucket: 'bucket', S3Key: 'old-key' });
+
+  // WHEN
+  const result = await tryHotswap(templateWithFunction({ S3Bucket: 'bucket', S3Key: 'new-key' }));
+
+  // THEN
+  expect(result).toBeDefined();
+  expect(mockUpdateFunctionCode).toHaveBeenCalledWith({
+    FunctionName: 'my-function',
+    S3Bucket: 'bucket',
+    S3Key: 'new-key',
+  });
+});
+
+test('falls back to a full deployment if the code of a function was removed', async () => {
+  // GIVEN
+  deployedTemplate = templateWithFunction({ S3Bucket: 'bucket', S3Key: 'old-key' });
+  const newTemplate = templateWithFunction({ S3Bucket: 'bucket', S3Key: 'old-key' });
+  delete newTemplate.Resources.Func.Properties.Code;
+
+  // WHEN
+  const result = await tryHotswap(newTemplate);
+
+  // THEN
+  expect(result).toBeUndefined();
+  expect(mockUpdateFunctionCode).not.toHaveBeenCalled();
+});
+
+test('evaluates the new definition of a state machine', async () => {
+  // GIVEN
+  deployedTemplate = templateWithStateMachine('{ "StartAt": "Old" }');
+
+  // WHEN
+  const result = await tryHotswap(templateWithStateMachine({
+    'Fn::Join': ['', ['{ "Function": "', { 'Fn::GetAtt': ['Func', 'Arn'] }, '" }']],
+  }));
+
+  // THEN
+  expect(result).toBeDefined();
+  expect(mockUpdateStateMachine).toHaveBeenCalledWith({
+    stateMachineArn: 'arn:aws:states:bermuda-triangle-1337:123456789:stateMachine:my-machine',
+    definition: '{ "Function": "arn:aws:lambda:bermuda-triangle-1337:123456789:function:my-function" }',
+  });
+});
+
+test('registers a task definition with the new image and redeploys its services', async () => {
+  // GIVEN
+  deployedTemplate = templateWithTaskDefinition('old-image');
+
+  // WHEN
+  const result = await tryHotswap(templateWithTaskDefinition('new-image'));
+
+  // THEN
+  expect(result).toBeDefined();
+  expect(mockRegisterTaskDefinition).toHaveBeenCalledWith(expect.objectContaining({
+    family: 'my-task',
+    containerDefinitions: [{ name: 'web', image: 'new-image', memory: 512 }],
+  }));
+  expect(mockUpdateService).toHaveBeenCalledWith({
+    cluster: 'my-cluster',
+    service: 'arn:aws:ecs:bermuda-triangle-1337:123456789:service/my-cluster/my-service',
+    taskDefinition: 'arn:aws:ecs:bermuda-triangle-1337:123456789:task-definition/my-task:2',
+    forceNewDeployment: true,
+  });
+});
+
+test('falls back to a full deployment if a container changed in other ways than its image', async () => {
+  // GIVEN
+  deployedTemplate = templateWithTaskDefinition('old-image');
+  const newTemplate = templateWithTaskDefinition('new-image');
+  newTemplate.Resources.TaskDef.Properties.ContainerDefinitions[0].Memory = 1024;
+
+  // WHEN
+  const result = await tryHotswap(newTemplate);
+
+  // THEN
+  expect(result).toBeUndefined();
+  expect(mockRegisterTaskDefinition).not.toHaveBeenCalled();
+  expect(mockUpdateService).not.toHaveBeenCalled();
+});
+
+test('falls back to a full deployment if other properties of a function changed', async () => {
+  // GIVEN
+  deployedTemplate = templateWithFunction({ S3Bucket: 'bucket', S3Key: 'old-key' });
+  const newTemplate = templateWithFunction({ S3Bucket: 'bucket', S3Key: 'new-key' });
+  newTemplate.Resources.Func.Properties.Timeout = 30;
+
+  // WHEN
+  const result = await tryHotswap(newTemplate);
+
+  // THEN
+  expect(result).toBeUndefined();
+  expect(mockUpdateFunctionCode).not.toHaveBeenCalled();
+});
+
+test('falls back to a full deployment if an unsupported resource changed', async () => {
+  // GIVEN
+  deployedTemplate = templateWithFunction({ S3Bucket: 'bucket', S3Key: 'old-key' });
+  const newTemplate = templateWithFunction({ S3Bucket: 'bucket', S3Key: 'new-key' });
+  newTemplate.Resources.Queue = { Type: 'AWS::SQS::Queue' };
+
+  // WHEN
+  const result = await tryHotswap(newTemplate);
+
+  // THEN
+  expect(result).toBeUndefined();
+  expect(mockUpdateFunctionCode).not.toHaveBeenCalled();
+});
+
+test('falls back to a full deployment if an expression cannot be evaluated', async () => {
+  // GIVEN
+  deployedTemplate = templateWithFunction({ S3Bucket: 'bucket', S3Key: 'old-key' });
+
+  // WHEN
+  const result = await tryHotswap(templateWithFunction({
+    S3Bucket: { 'Fn::ImportValue': 'SomeExport' },
+    S3Key: 'new-key',
+  }));
+
+  // THEN
+  expect(result).toBeUndefined();
+  expect(mockUpdateFunctionCode).not.toHaveBeenCalled();
+});
+
+test('falls back to a full deployment if the stack does not exist', async () => {
+  // WHEN
+  const result = await tryHotswapDeployment({
+    stackArtifact: testStack({ stackName: STACK_NAME, template: templateWithFunction({ S3Bucket: 'bucket', S3Key: 'key' }) }),
+    cloudFormationStack: CloudFormationStack.doesNotExist(sdk.cloudFormation(), STACK_NAME),
+    parameters: {},
+    resolvedEnvironment: mockResolvedEnvironment(),
+    urlSuffix: 'amazonaws.com',
+    sdk,
+  });
+
+  // THEN
+  expect(result).toBeUndefined();
+});
+
+function tryHotswap(template: any) {
+  return tryHotswapDeployment({
+    stackArtifact: testStack({ stackName: STACK_NAME, template }),
+    cloudFormationStack: CloudFormationStack.fromStaticInformation(sdk.cloudFormation(), STACK_NAME, {
+      StackName: STACK_NAME,
+      StackId: `arn:aws:cloudformation:bermuda-triangle-1337:123456789:stack/${STACK_NAME}/abcd`,
+      StackStatus: 'UPDATE_COMPLETE',
+      CreationTime: new Date(),
+    }),
+    parameters: {},
+    resolvedEnvironment: mockResolvedEnvironment(),
+    urlSuffix: 'amazonaws.com',
+    sdk,
+  });
+}
+
+function templateWithFunction(code: any): any {
+  return {
+    Resources: {
+      Func: {
+        Type: 'AWS::Lambda::Function',
+        Properties: { Code: code, Handler: 'index.handler', Runtime: 'nodejs14.x' },
+      },
+    },
+  };
+}
+
+function templateWithStateMachine(definitionString: any): any {
+  return {
+    Resources: {
+      ...templateWithFunction({ S3Bucket: 'bucket', S3Key: 'key' }).Resources,
+      Machine: {
+        Type: 'AWS::StepFunctions::StateMachine',
+        Properties: { DefinitionString: definitionString },
+      },
+    },
+  };
+}
+
+function templateWithTaskDefinition(image: any): any {
+  return {
+    Resources: {
+      TaskDef: {
+        Type: 'AWS::ECS::TaskDefinition',
+        Properties: {
+          Family: 'my-task',
+          ContainerDefinitions: [{ Name: 'web', Image: image, Memory: 512 }],
+        },
+      },
+      Service: {
+        Type: 'AWS::ECS::Service',
+        Properties: { Cluster: 'my-cluster', TaskDefinition: { Ref: 'TaskDef' } },
+      },
+    },
+  };
+}
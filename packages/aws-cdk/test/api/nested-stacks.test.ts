@@ -0,0 +1,84 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { hasNestedStacks, loadNestedStackTemplates } from '../../lib/api/nested-stacks';
+import { MockSdk } from '../util/mock-sdk';
+
+const PARENT_TEMPLATE = {
+  Resources: {
+    Nested: {
+      Type: 'AWS::CloudFormation::Stack',
+      Properties: { TemplateURL: 'https://bucket/nested.template.json' },
+      Metadata: { 'aws:asset:path': 'Parent.Nested.nested.template.json', 'aws:asset:property': 'TemplateURL' },
+    },
+  },
+};
+
+const NESTED_TEMPLATE = {
+  Resources: {
+    Queue: { Type: 'AWS::SQS::Queue' },
+  },
+};
+
+let sdk: MockSdk;
+let assemblyDirectory: string;
+let getTemplate: jest.Mock;
+
+beforeEach(async () => {
+  sdk = new MockSdk();
+  assemblyDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'cdk-nested-stacks-'));
+  await fs.writeJson(path.join(assemblyDirectory, 'Parent.Nested.nested.template.json'), NESTED_TEMPLATE);
+
+  getTemplate = jest.fn().mockReturnValue({ TemplateBody: JSON.stringify({ Resources: { Topic: { Type: 'AWS::SNS::Topic' } } }) });
+  sdk.stubCloudFormation({
+    listStackResources: () => ({
+      StackResourceSummaries: [{
+        LogicalResourceId: 'Nested',
+        PhysicalResourceId: 'arn:aws:cloudformation:here:123456789012:stack/Parent-Nested-1234/abcd',
+        ResourceType: 'AWS::CloudFormation::Stack',
+        ResourceStatus: 'CREATE_COMPLETE',
+        LastUpdatedTimestamp: new Date(),
+      }],
+    }),
+    describeStacks: ({ StackName }) => ({
+      Stacks: [{ StackName: StackName!, StackId: StackName, StackStatus: 'CREATE_COMPLETE', CreationTime: new Date() }],
+    }),
+    getTemplate,
+  });
+});
+
+afterEach(async () => {
+  await fs.remove(assemblyDirectory);
+});
+
+test('recognizes templates with nested stacks', () => {
+  expect(hasNestedStacks(PARENT_TEMPLATE)).toBe(true);
+  expect(hasNestedStacks(NESTED_TEMPLATE)).toBe(false);
+});
+
+test('loads the generated and deployed templates of nested stacks', async () => {
+  // WHEN
+  const templates = await loadNestedStackTemplates(sdk.cloudFormation(), assemblyDirectory, PARENT_TEMPLATE, 'Parent');
+
+  // THEN
+  expect(templates).toEqual({
+    Nested: {
+      deployedTemplate: { Resources: { Topic: { Type: 'AWS::SNS::Topic' } } },
+      generatedTemplate: NESTED_TEMPLATE,
+      nestedStackTemplates: {},
+    },
+  });
+  expect(getTemplate).toHaveBeenCalledWith({
+    StackName: 'arn:aws:cloudformation:here:123456789012:stack/Parent-Nested-1234/abcd',
+    TemplateStage: 'Original',
+  });
+});
+
+test('nested stacks of a stack that has not been deployed have empty deployed templates', async () => {
+  // WHEN
+  const templates = await loadNestedStackTemplates(sdk.cloudFormation(), assemblyDirectory, PARENT_TEMPLATE, undefined);
+
+  // THEN
+  expect(templates.Nested.deployedTemplate).toEqual({});
+  expect(getTemplate).not.toHaveBeenCalled();
+});
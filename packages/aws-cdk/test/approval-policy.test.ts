@@ -0,0 +1,77 @@
+import { diffTemplate } from '@aws-cdk/cloudformation-diff';
+import { ApprovalRuleAction, evaluateApprovalPolicy, parseApprovalPolicy, ResourceChangeKind } from '../lib/approval-policy';
+
+const OLD_TEMPLATE = {
+  Resources: {
+    Database: { Type: 'AWS::RDS::DBInstance', Properties: { DBInstanceClass: 'db.t3.micro', DBInstanceIdentifier: 'db1' } },
+    Table: { Type: 'AWS::DynamoDB::Table', Properties: { TableName: 'Table' } },
+    RetainedBucket: { Type: 'AWS::S3::Bucket', DeletionPolicy: 'Retain' },
+    Topic: { Type: 'AWS::SNS::Topic' },
+    CDKMetadata: { Type: 'AWS::CDK::Metadata', Properties: { Analytics: 'v1' } },
+  },
+};
+
+const NEW_TEMPLATE = {
+  Resources: {
+    // Replaced, because the identifier changes
+    Database: { Type: 'AWS::RDS::DBInstance', Properties: { DBInstanceClass: 'db.t3.micro', DBInstanceIdentifier: 'db2' } },
+    Queue: { Type: 'AWS::SQS::Queue' },
+    Topic: { Type: 'AWS::SNS::Topic', Properties: { DisplayName: 'Topic' } },
+    CDKMetadata: { Type: 'AWS::CDK::Metadata', Properties: { Analytics: 'v2' } },
+  },
+};
+
+describe('parseApprovalPolicy', () => {
+  test('accepts a list of rules', () => {
+    const rules = [
+      { resourceType: 'AWS::RDS::*', changes: ['replace', 'remove'] },
+      { stateful: true, action: 'block', description: 'No data loss' },
+    ];
+    expect(parseApprovalPolicy(rules)).toEqual(rules);
+  });
+
+  test('has no rules by default', () => {
+    expect(parseApprovalPolicy(undefined)).toEqual([]);
+  });
+
+  test.each([
+    [{ resourceType: 'AWS::RDS::*' }, /list of rules/],
+    [['AWS::RDS::*'], /rule 0 .* a rule must be an object/],
+    [[{ changes: ['delete'] }], /'changes' must be a list of: add, update, replace, remove/],
+    [[{ action: 'deny' }], /'action' must be one of: require-approval, block/],
+    [[{ stateful: 'yes' }], /'stateful' must be a boolean/],
+  ])('rejects invalid policy %j', (policy, error) => {
+    expect(() => parseApprovalPolicy(policy)).toThrow(error);
+  });
+});
+
+describe('evaluateApprovalPolicy', () => {
+  const diff = diffTemplate(OLD_TEMPLATE, NEW_TEMPLATE);
+
+  test('matches changes by kind', () => {
+    const matches = evaluateApprovalPolicy([{}], diff);
+    expect(matches.map(m => [m.logicalId, m.change])).toEqual([
+      ['Table', ResourceChangeKind.REMOVE],
+      ['Queue', ResourceChangeKind.ADD],
+      ['Database', ResourceChangeKind.REPLACE],
+      ['Topic', ResourceChangeKind.UPDATE],
+    ]);
+  });
+
+  test('matches resource types with wildcards', () => {
+    const rule = { resourceType: 'AWS::RDS::*', changes: [ResourceChangeKind.REPLACE, ResourceChangeKind.REMOVE] };
+    expect(evaluateApprovalPolicy([rule], diff)).toEqual([
+      { rule, logicalId: 'Database', resourceType: 'AWS::RDS::DBInstance', change: ResourceChangeKind.REPLACE },
+    ]);
+  });
+
+  test('matches stateful resources', () => {
+    const rule = { stateful: true, changes: [ResourceChangeKind.REMOVE], action: ApprovalRuleAction.BLOCK };
+    expect(evaluateApprovalPolicy([rule], diff).map(m => m.logicalId)).toEqual(['Table']);
+  });
+
+  test('does not count retained resources as removed', () => {
+    const matches = evaluateApprovalPolicy([{ changes: [ResourceChangeKind.REMOVE] }], diff);
+    expect(matches.map(m => m.logicalId)).not.toContain('RetainedBucket');
+  });
+});
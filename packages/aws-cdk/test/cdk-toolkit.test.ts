@@ -1,10 +1,20 @@
+const mockChokidarWatcherOn = jest.fn();
+const mockChokidarWatch = jest.fn(() => ({ on: mockChokidarWatcherOn }));
+mockChokidarWatcherOn.mockReturnValue({ on: mockChokidarWatcherOn });
+jest.mock('chokidar', () => ({
+  watch: mockChokidarWatch,
+}));
+
 import * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import * as cxapi from '@aws-cdk/cx-api';
 import { Bootstrapper } from '../lib/api/bootstrap';
 import { CloudFormationDeployments, DeployStackOptions } from '../lib/api/cloudformation-deployments';
 import { DeployStackResult } from '../lib/api/deploy-stack';
 import { Template } from '../lib/api/util/cloudformation';
+import { ApprovalRuleAction, ResourceChangeKind } from '../lib/approval-policy';
 import { CdkToolkit, Tag } from '../lib/cdk-toolkit';
+import { RequireApproval } from '../lib/diff';
+import { PluginHost } from '../lib/plugin';
 import { MockCloudExecutable, TestStackArtifact, instanceMockFrom } from './util';
 
 let cloudExecutable: MockCloudExecutable;
@@ -136,6 +146,230 @@ describe('deploy', () => {
       expect(mockSynthesize).not.toHaveBeenCalled();
     });
   });
+
+  describe('plug-in hooks', () => {
+    afterEach(() => {
+      PluginHost.instance.hooks.splice(0);
+    });
+
+    test('are invoked before and after each stack deployment', async () => {
+      // GIVEN
+      const events = new Array<string>();
+      PluginHost.instance.registerHooks({
+        preDeploy: async (stack) => { events.push(`pre ${stack.stackName}`); },
+        postDeploy: async (stack, result) => { events.push(`post ${stack.stackName} ${result.stackArn}`); },
+      });
+      const toolkit = defaultToolkitSetup();
+
+      // WHEN
+      await toolkit.deploy({ stackNames: ['Test-Stack-A', 'Test-Stack-B'] });
+
+      // THEN
+      expect(events).toEqual([
+        'pre Test-Stack-A',
+        'post Test-Stack-A arn:aws:cloudformation:::stack/Test-Stack-A/MockedOut',
+        'pre Test-Stack-B',
+        'post Test-Stack-B arn:aws:cloudformation:::stack/Test-Stack-B/MockedOut',
+      ]);
+    });
+
+    test('a failing pre-deploy hook prevents the deployment', async () => {
+      // GIVEN
+      const cloudFormation = new FakeCloudFormation({ 'Test-Stack-A': { Foo: 'Bar' } });
+      const deployStack = jest.spyOn(cloudFormation, 'deployStack');
+      PluginHost.instance.registerHooks({
+        preDeploy: () => { throw new Error('Stack does not comply with policy'); },
+      });
+      const toolkit = new CdkToolkit({
+        cloudExecutable,
+        configuration: cloudExecutable.configuration,
+        sdkProvider: cloudExecutable.sdkProvider,
+        cloudFormation,
+      });
+
+      // WHEN
+      await expect(toolkit.deploy({ stackNames: ['Test-Stack-A'] })).rejects.toThrow(/Stack does not comply with policy/);
+
+      // THEN
+      expect(deployStack).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('approval policy', () => {
+  let cloudFormation: FakeCloudFormation;
+  let deployStack: jest.SpyInstance;
+  let toolkit: CdkToolkit;
+  beforeEach(() => {
+    cloudExecutable = new MockCloudExecutable({
+      stacks: [{
+        ...MockStack.MOCK_STACK_A,
+        template: { Resources: { Bucket: { Type: 'AWS::S3::Bucket' } } },
+      }],
+    });
+    cloudFormation = new FakeCloudFormation({ 'Test-Stack-A': { Foo: 'Bar' } });
+    deployStack = jest.spyOn(cloudFormation, 'deployStack');
+    toolkit = new CdkToolkit({
+      cloudExecutable,
+      configuration: cloudExecutable.configuration,
+      sdkProvider: cloudExecutable.sdkProvider,
+      cloudFormation,
+    });
+  });
+
+  test('blocks changes that match a blocking rule', async () => {
+    // WHEN
+    const deployment = toolkit.deploy({
+      stackNames: ['Test-Stack-A'],
+      approvalPolicy: [{ resourceType: 'AWS::S3::*', changes: [ResourceChangeKind.ADD], action: ApprovalRuleAction.BLOCK }],
+    });
+
+    // THEN
+    await expect(deployment).rejects.toThrow(/Test-Stack-A: deployment blocked by the approval policy/);
+    expect(deployStack).not.toHaveBeenCalled();
+  });
+
+  test('fails without a terminal when changes require approval', async () => {
+    // WHEN
+    const deployment = toolkit.deploy({
+      stackNames: ['Test-Stack-A'],
+      approvalPolicy: [{ resourceType: 'AWS::S3::Bucket' }],
+    });
+
+    // THEN
+    await expect(deployment).rejects.toThrow(/The approval policy requires approval for 1 changes to Test-Stack-A/);
+    expect(deployStack).not.toHaveBeenCalled();
+  });
+
+  test('fails without a terminal when changes require approval, even with --require-approval never', async () => {
+    // WHEN
+    const deployment = toolkit.deploy({
+      stackNames: ['Test-Stack-A'],
+      requireApproval: RequireApproval.Never,
+      approvalPolicy: [{ resourceType: 'AWS::S3::Bucket' }],
+    });
+
+    // THEN
+    await expect(deployment).rejects.toThrow(/The approval policy requires approval for 1 changes to Test-Stack-A/);
+    expect(deployStack).not.toHaveBeenCalled();
+  });
+
+  test('deploys changes that require approval when they are approved up front', async () => {
+    // WHEN
+    await toolkit.deploy({
+      stackNames: ['Test-Stack-A'],
+      requireApproval: RequireApproval.Never,
+      approvalPolicy: [{ resourceType: 'AWS::S3::Bucket' }],
+      approvePolicyChanges: true,
+    });
+
+    // THEN
+    expect(deployStack).toHaveBeenCalled();
+  });
+
+  test('deploys changes that match no rule', async () => {
+    // WHEN
+    await toolkit.deploy({
+      stackNames: ['Test-Stack-A'],
+      approvalPolicy: [{ resourceType: 'AWS::S3::Bucket', changes: [ResourceChangeKind.REMOVE], action: ApprovalRuleAction.BLOCK }],
+    });
+
+    // THEN
+    expect(deployStack).toHaveBeenCalled();
+  });
+});
+
+describe('watch', () => {
+  beforeEach(() => {
+    mockChokidarWatch.mockClear();
+    mockChokidarWatcherOn.mockClear();
+  });
+
+  test('uses the include and exclude patterns from cdk.json', async () => {
+    // GIVEN
+    cloudExecutable.configuration.settings.set(['watch'], {
+      include: 'lib/**',
+      exclude: ['test/**'],
+    });
+    const toolkit = defaultToolkitSetup();
+
+    // WHEN
+    await toolkit.watch({ stackNames: ['Test-Stack-A'] });
+
+    // THEN
+    expect(mockChokidarWatch).toHaveBeenCalledWith(['lib/**'], expect.objectContaining({
+      ignored: expect.arrayContaining(['test/**', 'cdk.context.json', '**/node_modules/**']),
+    }));
+  });
+
+  test('watches everything by default', async () => {
+    // GIVEN
+    const toolkit = defaultToolkitSetup();
+
+    // WHEN
+    await toolkit.watch({ stackNames: ['Test-Stack-A'] });
+
+    // THEN
+    expect(mockChokidarWatch).toHaveBeenCalledWith(['**'], expect.anything());
+  });
+
+  test('deploys when ready, and only redeploys changed stacks', async () => {
+    // GIVEN
+    const toolkit = defaultToolkitSetup();
+    const deploy = jest.spyOn(toolkit, 'deploy').mockResolvedValue(undefined);
+    await toolkit.watch({ stackNames: ['Test-Stack-A', 'Test-Stack-B'] });
+    const onReady = mockChokidarWatcherOn.mock.calls.find(([event]) => event === 'ready')![1];
+
+    // WHEN
+    await onReady();
+    await onReady();
+
+    // THEN
+    expect(deploy).toHaveBeenCalledTimes(1);
+    expect(deploy).toHaveBeenCalledWith(expect.objectContaining({
+      stackNames: ['Test-Stack-A', 'Test-Stack-B'],
+      exclusively: true,
+    }));
+  });
+});
+
+describe('bootstrap stack from the app', () => {
+  const bootstrapStack: TestStackArtifact = {
+    stackName: 'Bootstrap',
+    template: { Resources: { CdkBootstrapVersion: { Type: 'AWS::SSM::Parameter', Properties: { Type: 'String', Value: '5' } } } },
+  };
+
+  test('is found among the stacks of the app', async () => {
+    // GIVEN
+    cloudExecutable = new MockCloudExecutable({ stacks: [MockStack.MOCK_STACK_A, bootstrapStack] });
+    cloudExecutable.configuration.settings.set(['app'], 'something');
+    const toolkit = defaultToolkitSetup();
+
+    // WHEN
+    const stack = await toolkit.bootstrapStackFromApp();
+
+    // THEN
+    expect(stack.templateFullPath).toMatch(/Bootstrap\.template\.json$/);
+  });
+
+  test('fails if the app does not define one', async () => {
+    // GIVEN
+    cloudExecutable.configuration.settings.set(['app'], 'something');
+    const toolkit = defaultToolkitSetup();
+
+    // THEN
+    await expect(toolkit.bootstrapStackFromApp()).rejects.toThrow('The app does not define a bootstrap stack');
+  });
+
+  test('fails if the app defines more than one', async () => {
+    // GIVEN
+    cloudExecutable = new MockCloudExecutable({ stacks: [bootstrapStack, { ...bootstrapStack, stackName: 'OtherBootstrap' }] });
+    cloudExecutable.configuration.settings.set(['app'], 'something');
+    const toolkit = defaultToolkitSetup();
+
+    // THEN
+    await expect(toolkit.bootstrapStackFromApp()).rejects.toThrow(/more than one bootstrap stack \(Bootstrap, OtherBootstrap\)/);
+  });
 });
 
 describe('synth', () => {
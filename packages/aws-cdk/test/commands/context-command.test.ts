@@ -1,5 +1,7 @@
 import { realHandler } from '../../lib/commands/context';
+import { registerContextProvider } from '../../lib/context-providers';
 import { Configuration } from '../../lib/settings';
+import { MockSdkProvider } from '../util/mock-sdk';
 
 test('context list', async() => {
   // GIVEN
@@ -62,3 +64,51 @@ test('context reset can remove a context key using number', async () => {
     foo: 'bar',
   });
 });
+
+describe('context refresh', () => {
+  const lookedUpAt = '2021-01-01T00:00:00.000Z';
+  let getValue: jest.Mock;
+  let configuration: Configuration;
+  beforeEach(() => {
+    getValue = jest.fn();
+    registerContextProvider('testprovider', class {
+      public getValue = getValue;
+    });
+
+    configuration = new Configuration();
+    configuration.context.set('foo', 'old');
+    configuration.context.setLookup('foo', { provider: 'testprovider', props: { account: '1234', region: 'us-east-1' }, lookedUpAt });
+    configuration.context.set('bar', 'not looked up');
+  });
+
+  test('looks up all looked-up values again', async () => {
+    // GIVEN
+    getValue.mockResolvedValue('new');
+
+    // WHEN
+    await realHandler({ configuration, args: { refresh: '' }, aws: new MockSdkProvider() } as any);
+
+    // THEN
+    expect(getValue).toHaveBeenCalledWith({ account: '1234', region: 'us-east-1' });
+    expect(configuration.context.all).toEqual({ foo: 'new', bar: 'not looked up' });
+    expect(configuration.context.lookup('foo')?.lookedUpAt).not.toEqual(lookedUpAt);
+  });
+
+  test('keeps the current value if the lookup fails', async () => {
+    // GIVEN
+    getValue.mockRejectedValue(new Error('Access denied'));
+
+    // WHEN
+    await expect(realHandler({ configuration, args: { refresh: 'foo' }, aws: new MockSdkProvider() } as any))
+      .rejects.toThrow(/Unable to refresh 1 context value\(s\): foo/);
+
+    // THEN
+    expect(configuration.context.get('foo')).toEqual('old');
+    expect(configuration.context.lookup('foo')?.lookedUpAt).toEqual(lookedUpAt);
+  });
+
+  test('cannot refresh values that were not looked up', async () => {
+    await expect(realHandler({ configuration, args: { refresh: 'bar' }, aws: new MockSdkProvider() } as any))
+      .rejects.toThrow(/Unable to refresh 1 context value\(s\): bar/);
+  });
+});
@@ -0,0 +1,45 @@
+import * as aws from 'aws-sdk';
+import * as AWS from 'aws-sdk-mock';
+import { DbSubnetGroupContextProviderPlugin } from '../../lib/context-providers/db-subnet-groups';
+import { MockSdkProvider } from '../util/mock-sdk';
+
+AWS.setSDK(require.resolve('aws-sdk'));
+
+const mockSDK = new MockSdkProvider();
+
+type AwsCallback<T> = (err: Error | null, val: T) => void;
+
+afterEach(done => {
+  AWS.restore();
+  done();
+});
+
+test('looks up the VPC and subnets of the subnet group', async () => {
+  // GIVEN
+  const provider = new DbSubnetGroupContextProviderPlugin(mockSDK);
+
+  AWS.mock('RDS', 'describeDBSubnetGroups', (params: aws.RDS.DescribeDBSubnetGroupsMessage, cb: AwsCallback<aws.RDS.DBSubnetGroupMessage>) => {
+    expect(params).toEqual({ DBSubnetGroupName: 'my-subnet-group' });
+    cb(null, {
+      DBSubnetGroups: [{
+        DBSubnetGroupName: 'my-subnet-group',
+        VpcId: 'vpc-1234',
+        Subnets: [{ SubnetIdentifier: 'subnet-1111' }, { SubnetIdentifier: 'subnet-2222' }],
+      }],
+    });
+  });
+
+  // WHEN
+  const result = await provider.getValue({
+    account: '1234',
+    region: 'us-east-1',
+    subnetGroupName: 'my-subnet-group',
+  });
+
+  // THEN
+  expect(result).toEqual({
+    subnetGroupName: 'my-subnet-group',
+    vpcId: 'vpc-1234',
+    subnetIds: ['subnet-1111', 'subnet-2222'],
+  });
+});
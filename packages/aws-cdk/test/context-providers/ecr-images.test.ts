@@ -0,0 +1,83 @@
+import * as aws from 'aws-sdk';
+import * as AWS from 'aws-sdk-mock';
+import { EcrImageContextProviderPlugin } from '../../lib/context-providers/ecr-images';
+import { MockSdkProvider } from '../util/mock-sdk';
+
+AWS.setSDK(require.resolve('aws-sdk'));
+
+const mockSDK = new MockSdkProvider();
+
+type AwsCallback<T> = (err: Error | null, val: T) => void;
+
+afterEach(done => {
+  AWS.restore();
+  done();
+});
+
+test('looks up the image with the given tag', async () => {
+  // GIVEN
+  const provider = new EcrImageContextProviderPlugin(mockSDK);
+
+  AWS.mock('ECR', 'describeImages', (params: aws.ECR.DescribeImagesRequest, cb: AwsCallback<aws.ECR.DescribeImagesResponse>) => {
+    expect(params).toEqual({ repositoryName: 'my-repo', imageIds: [{ imageTag: 'v1' }] });
+    cb(null, { imageDetails: [{ imageDigest: 'sha256:1111', imageTags: ['v1', 'stable'] }] });
+  });
+
+  // WHEN
+  const result = await provider.getValue({
+    account: '1234',
+    region: 'us-east-1',
+    repositoryName: 'my-repo',
+    imageTag: 'v1',
+  });
+
+  // THEN
+  expect(result).toEqual({ imageDigest: 'sha256:1111', imageTags: ['v1', 'stable'] });
+});
+
+test('looks up the most recently pushed image without a tag', async () => {
+  // GIVEN
+  const provider = new EcrImageContextProviderPlugin(mockSDK);
+
+  AWS.mock('ECR', 'describeImages', (params: aws.ECR.DescribeImagesRequest, cb: AwsCallback<aws.ECR.DescribeImagesResponse>) => {
+    if (!params.nextToken) {
+      cb(null, {
+        imageDetails: [{ imageDigest: 'sha256:1111', imagePushedAt: new Date('2021-01-01T00:00:00Z') }],
+        nextToken: 'page2',
+      });
+    } else {
+      cb(null, {
+        imageDetails: [
+          { imageDigest: 'sha256:3333', imageTags: ['latest'], imagePushedAt: new Date('2021-03-01T00:00:00Z') },
+          { imageDigest: 'sha256:2222', imagePushedAt: new Date('2021-02-01T00:00:00Z') },
+        ],
+      });
+    }
+  });
+
+  // WHEN
+  const result = await provider.getValue({
+    account: '1234',
+    region: 'us-east-1',
+    repositoryName: 'my-repo',
+  });
+
+  // THEN
+  expect(result).toEqual({ imageDigest: 'sha256:3333', imageTags: ['latest'] });
+});
+
+test('errors when the repository has no images', async () => {
+  // GIVEN
+  const provider = new EcrImageContextProviderPlugin(mockSDK);
+
+  AWS.mock('ECR', 'describeImages', (_params: aws.ECR.DescribeImagesRequest, cb: AwsCallback<aws.ECR.DescribeImagesResponse>) => {
+    cb(null, { imageDetails: [] });
+  });
+
+  // WHEN
+  await expect(provider.getValue({
+    account: '1234',
+    region: 'us-east-1',
+    repositoryName: 'my-repo',
+  })).rejects.toThrow(/No images found/);
+});
@@ -1,4 +1,6 @@
+import * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import * as contextproviders from '../../lib/context-providers';
+import { PluginHost } from '../../lib/plugin';
 import { Context, TRANSIENT_CONTEXT_KEY } from '../../lib/settings';
 import { MockSdkProvider } from '../util/mock-sdk';
 
@@ -6,6 +8,10 @@ const mockSDK = new MockSdkProvider();
 
 const TEST_PROVIDER: any = 'testprovider';
 
+afterEach(() => {
+  delete PluginHost.instance.contextProviderPlugins['my-lookup'];
+});
+
 test('errors are reported into the context value', async () => {
   // GIVEN
   contextproviders.registerContextProvider(TEST_PROVIDER, class {
@@ -44,3 +50,30 @@ test('errors are marked transient', async () => {
   // THEN - error is marked transient
   expect(context.get('asdf')[TRANSIENT_CONTEXT_KEY]).toBeTruthy();
 });
+
+test('plug-in context providers are looked up by name', async () => {
+  // GIVEN
+  const getValue = jest.fn().mockResolvedValue('plugin value');
+  PluginHost.instance.registerContextProvider('my-lookup', { getValue });
+  const context = new Context();
+  const props = { account: '1234', region: 'us-east-1', pluginName: 'my-lookup', properties: { key: 'value' } };
+
+  // WHEN
+  await contextproviders.provideContextValues([
+    { key: 'asdf', props, provider: cxschema.ContextProvider.PLUGIN_PROVIDER },
+  ], context, mockSDK);
+
+  // THEN
+  expect(getValue).toHaveBeenCalledWith(props);
+  expect(context.get('asdf')).toEqual('plugin value');
+});
+
+test('unknown plug-in context providers are reported', async () => {
+  // GIVEN
+  const context = new Context();
+
+  // WHEN
+  await expect(contextproviders.provideContextValues([
+    { key: 'asdf', props: { account: '1234', region: 'us-east-1', pluginName: 'not-loaded' }, provider: cxschema.ContextProvider.PLUGIN_PROVIDER },
+  ], context, mockSDK)).rejects.toThrow(/Unrecognized plug-in context provider name: not-loaded/);
+});
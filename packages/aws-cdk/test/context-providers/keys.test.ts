@@ -0,0 +1,61 @@
+import * as aws from 'aws-sdk';
+import * as AWS from 'aws-sdk-mock';
+import { KeyContextProviderPlugin } from '../../lib/context-providers/keys';
+import { MockSdkProvider } from '../util/mock-sdk';
+
+AWS.setSDK(require.resolve('aws-sdk'));
+
+const mockSDK = new MockSdkProvider();
+
+type AwsCallback<T> = (err: Error | null, val: T) => void;
+
+afterEach(done => {
+  AWS.restore();
+  done();
+});
+
+test('looks up the key the alias points to', async () => {
+  // GIVEN
+  const provider = new KeyContextProviderPlugin(mockSDK);
+
+  AWS.mock('KMS', 'listAliases', (params: aws.KMS.ListAliasesRequest, cb: AwsCallback<aws.KMS.ListAliasesResponse>) => {
+    if (!params.Marker) {
+      cb(null, {
+        Aliases: [{ AliasName: 'alias/other', TargetKeyId: 'other-key' }],
+        Truncated: true,
+        NextMarker: 'page2',
+      });
+    } else {
+      expect(params.Marker).toEqual('page2');
+      cb(null, {
+        Aliases: [{ AliasName: 'alias/my-key', TargetKeyId: '1234abcd-12ab-34cd-56ef-1234567890ab' }],
+      });
+    }
+  });
+
+  // WHEN
+  const result = await provider.getValue({
+    account: '1234',
+    region: 'us-east-1',
+    aliasName: 'alias/my-key',
+  });
+
+  // THEN
+  expect(result).toEqual({ keyId: '1234abcd-12ab-34cd-56ef-1234567890ab' });
+});
+
+test('errors when the alias does not exist', async () => {
+  // GIVEN
+  const provider = new KeyContextProviderPlugin(mockSDK);
+
+  AWS.mock('KMS', 'listAliases', (_params: aws.KMS.ListAliasesRequest, cb: AwsCallback<aws.KMS.ListAliasesResponse>) => {
+    cb(null, { Aliases: [{ AliasName: 'alias/other', TargetKeyId: 'other-key' }] });
+  });
+
+  // WHEN
+  await expect(provider.getValue({
+    account: '1234',
+    region: 'us-east-1',
+    aliasName: 'alias/my-key',
+  })).rejects.toThrow(/Could not find any key with alias named alias\/my-key/);
+});
@@ -0,0 +1,35 @@
+import * as aws from 'aws-sdk';
+import * as AWS from 'aws-sdk-mock';
+import { SecretContextProviderPlugin } from '../../lib/context-providers/secrets';
+import { MockSdkProvider } from '../util/mock-sdk';
+
+AWS.setSDK(require.resolve('aws-sdk'));
+
+const mockSDK = new MockSdkProvider();
+
+type AwsCallback<T> = (err: Error | null, val: T) => void;
+
+afterEach(done => {
+  AWS.restore();
+  done();
+});
+
+test('looks up the complete ARN of the secret', async () => {
+  // GIVEN
+  const provider = new SecretContextProviderPlugin(mockSDK);
+
+  AWS.mock('SecretsManager', 'describeSecret', (params: aws.SecretsManager.DescribeSecretRequest, cb: AwsCallback<aws.SecretsManager.DescribeSecretResponse>) => {
+    expect(params).toEqual({ SecretId: 'my-secret' });
+    cb(null, { ARN: 'arn:aws:secretsmanager:us-east-1:1234:secret:my-secret-AbCdEf', Name: 'my-secret' });
+  });
+
+  // WHEN
+  const result = await provider.getValue({
+    account: '1234',
+    region: 'us-east-1',
+    secretName: 'my-secret',
+  });
+
+  // THEN
+  expect(result).toEqual({ secretArn: 'arn:aws:secretsmanager:us-east-1:1234:secret:my-secret-AbCdEf' });
+});
@@ -139,3 +139,35 @@ test('transient values arent saved to disk', async () => {
   // THEN
   expect(config2.context.get('some_key')).toEqual(undefined);
 });
+
+test('lookup records are saved alongside the context, but are not context values', async () => {
+  // GIVEN
+  const lookup = { provider: 'vpc-provider', props: { account: '1234', region: 'us-east-1' }, lookedUpAt: '2021-01-01T00:00:00.000Z' };
+  const config1 = await new Configuration({ readUserContext: false }).load();
+  config1.context.set('some_key', 'some_value');
+  config1.context.setLookup('some_key', lookup);
+  await config1.saveContext();
+
+  // WHEN
+  const config2 = await new Configuration({ readUserContext: false }).load();
+
+  // THEN
+  expect(config2.context.lookup('some_key')).toEqual(lookup);
+  expect(config2.context.all).toEqual({ some_key: 'some_value' });
+});
+
+test('unsetting a context value removes its lookup record', async () => {
+  // GIVEN
+  await fs.writeJSON('cdk.context.json', {
+    'some_key': 'some_value',
+    '$lookups': { some_key: { provider: 'vpc-provider', props: {}, lookedUpAt: '2021-01-01T00:00:00.000Z' } },
+  });
+  const config = await new Configuration({ readUserContext: false }).load();
+
+  // WHEN
+  config.context.unset('some_key');
+  await config.saveContext();
+
+  // THEN
+  expect(await fs.readJSON('cdk.context.json')).toEqual({ $lookups: {} });
+});
@@ -0,0 +1,134 @@
+import * as cxapi from '@aws-cdk/cx-api';
+import { deployStacks } from '../lib/deploy';
+import * as logging from '../lib/logging';
+import { testAssembly } from './util';
+
+let events: string[];
+let inProgress: number;
+let maxInProgress: number;
+beforeEach(() => {
+  events = [];
+  inProgress = 0;
+  maxInProgress = 0;
+});
+
+function stacks(...specs: Array<[string, string[]]>): cxapi.CloudFormationStackArtifact[] {
+  return testAssembly({
+    stacks: specs.map(([stackName, depends]) => ({ stackName, depends })),
+  }).stacks;
+}
+
+function fakeDeploy(failing: string[] = []) {
+  return async (stack: cxapi.CloudFormationStackArtifact) => {
+    events.push(`start ${stack.id}`);
+    inProgress++;
+    maxInProgress = Math.max(maxInProgress, inProgress);
+
+    await new Promise(ok => setTimeout(ok, 10));
+
+    inProgress--;
+    if (failing.includes(stack.id)) {
+      events.push(`fail ${stack.id}`);
+      throw new Error(`${stack.id} failed`);
+    }
+    events.push(`end ${stack.id}`);
+  };
+}
+
+test('concurrency of 1 deploys stacks one after another', async () => {
+  // WHEN
+  await deployStacks(stacks(['A', []], ['B', []], ['C', []]), { concurrency: 1, deployStack: fakeDeploy() });
+
+  // THEN
+  expect(events).toEqual(['start A', 'end A', 'start B', 'end B', 'start C', 'end C']);
+});
+
+test('independent stacks are deployed concurrently', async () => {
+  // WHEN
+  await deployStacks(stacks(['A', []], ['B', []], ['C', []]), { concurrency: 2, deployStack: fakeDeploy() });
+
+  // THEN
+  expect(maxInProgress).toEqual(2);
+  expect(events.slice(0, 2)).toEqual(['start A', 'start B']);
+  expect(events).toContain('end C');
+});
+
+test('stacks wait for their dependencies', async () => {
+  // WHEN
+  await deployStacks(stacks(['A', []], ['B', ['A']], ['C', []]), { concurrency: 3, deployStack: fakeDeploy() });
+
+  // THEN
+  expect(events.slice(0, 2)).toEqual(['start A', 'start C']);
+  expect(events.indexOf('start B')).toBeGreaterThan(events.indexOf('end A'));
+});
+
+test('a failure stops new deployments but lets running ones finish', async () => {
+  // WHEN
+  const deployment = deployStacks(stacks(['A', []], ['B', []], ['C', []]), { concurrency: 2, deployStack: fakeDeploy(['A']) });
+
+  // THEN
+  await expect(deployment).rejects.toThrow('A failed');
+  expect(events).toContain('end B');
+  expect(events).not.toContain('start C');
+});
+
+test('continueOnError deploys everything that does not depend on a failed stack', async () => {
+  // WHEN
+  const deployment = deployStacks(stacks(['A', []], ['B', ['A']], ['C', []]), {
+    concurrency: 1,
+    deployStack: fakeDeploy(['A']),
+    continueOnError: true,
+  });
+
+  // THEN
+  await expect(deployment).rejects.toThrow('A failed');
+  expect(events).toEqual(['start A', 'fail A', 'start C', 'end C']);
+});
+
+test('continueOnError skips stacks that come before the stack they depend on', async () => {
+  // GIVEN
+  const [a, b, c] = stacks(['A', []], ['B', ['A']], ['C', ['B']]);
+
+  // WHEN
+  const deployment = deployStacks([c, a, b], {
+    concurrency: 1,
+    deployStack: fakeDeploy(['A']),
+    continueOnError: true,
+  });
+
+  // THEN
+  await expect(deployment).rejects.toThrow('A failed');
+  expect(events).toEqual(['start A', 'fail A']);
+});
+
+test('skipped stacks are reported', async () => {
+  // GIVEN
+  const warning = jest.spyOn(logging, 'warning').mockImplementation(() => undefined);
+
+  try {
+    // WHEN
+    const deployment = deployStacks(stacks(['A', []], ['B', ['A']], ['C', ['B']]), {
+      concurrency: 1,
+      deployStack: fakeDeploy(['A']),
+      continueOnError: true,
+    });
+
+    // THEN
+    await expect(deployment).rejects.toThrow('A failed');
+    expect(warning.mock.calls.map(args => args[1])).toEqual([expect.stringContaining('B'), expect.stringContaining('C')]);
+  } finally {
+    warning.mockRestore();
+  }
+});
+
+test('multiple failures are reported together', async () => {
+  // WHEN
+  const deployment = deployStacks(stacks(['A', []], ['B', []]), {
+    concurrency: 2,
+    deployStack: fakeDeploy(['A', 'B']),
+    continueOnError: true,
+  });
+
+  // THEN
+  await expect(deployment).rejects.toThrow('Failed to deploy stacks: A, B');
+});
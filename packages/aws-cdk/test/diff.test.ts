@@ -4,6 +4,7 @@ import * as cxschema from '@aws-cdk/cloud-assembly-schema';
 import { CloudFormationStackArtifact } from '@aws-cdk/cx-api';
 import { CloudFormationDeployments } from '../lib/api/cloudformation-deployments';
 import { CdkToolkit } from '../lib/cdk-toolkit';
+import { replacementsFromChangeSet } from '../lib/diff';
 import { instanceMockFrom, MockCloudExecutable } from './util';
 
 let cloudExecutable: MockCloudExecutable;
@@ -111,6 +112,122 @@ test('exits with 1 with diff in first stack, but not in second stack and fail se
   expect(exitCode).toBe(1);
 });
 
+test('writes machine-readable differences with json set to true', async () => {
+  // GIVEN
+  const buffer = new StringWritable();
+
+  // WHEN
+  const exitCode = await toolkit.diff({
+    stackNames: ['A', 'D'],
+    stream: buffer,
+    json: true,
+    fail: true,
+  });
+
+  // THEN
+  const output = JSON.parse(buffer.data);
+  expect(output.stacks).toEqual([
+    expect.objectContaining({ stackName: 'A', differenceCount: 1 }),
+    expect.objectContaining({ stackName: 'D', differenceCount: 0 }),
+  ]);
+  expect(output.stacks[0].diff.unknown).toEqual([
+    { id: 'resource', changeType: 'ADDITION', newValue: 'A' },
+  ]);
+  expect(exitCode).toBe(1);
+});
+
+test('renders the differences of nested stacks under their resources', async () => {
+  // GIVEN
+  const buffer = new StringWritable();
+  cloudFormation.readCurrentNestedStackTemplates.mockResolvedValue({
+    Nested: {
+      deployedTemplate: {},
+      generatedTemplate: { Resources: { Topic: { Type: 'AWS::SNS::Topic' } } },
+      nestedStackTemplates: {},
+    },
+  });
+
+  // WHEN
+  const exitCode = await toolkit.diff({
+    stackNames: ['D'],
+    stream: buffer,
+    fail: true,
+  });
+
+  // THEN
+  const plainTextOutput = buffer.data.replace(/\x1B\[[0-?]*[ -/]*[@-~]/g, '');
+  expect(plainTextOutput).toContain('[ ] AWS::CloudFormation::Stack Nested');
+  expect(plainTextOutput).toContain('    [+] AWS::SNS::Topic Topic');
+  expect(plainTextOutput).not.toContain('Nested stack');
+  expect(exitCode).toBe(1);
+});
+
+describe('with changeSet set to true', () => {
+  test('creates a change set for every stack', async () => {
+    // GIVEN
+    const buffer = new StringWritable();
+    cloudFormation.describeStackChanges.mockResolvedValue([]);
+
+    // WHEN
+    await toolkit.diff({
+      stackNames: ['A', 'D'],
+      stream: buffer,
+      changeSet: true,
+    });
+
+    // THEN
+    expect(cloudFormation.describeStackChanges).toHaveBeenCalledTimes(2);
+    expect(cloudFormation.describeStackChanges).toHaveBeenCalledWith(expect.objectContaining({ stackName: 'A' }));
+    expect(cloudFormation.describeStackChanges).toHaveBeenCalledWith(expect.objectContaining({ stackName: 'D' }));
+  });
+
+  test('still diffs if the change set cannot be created', async () => {
+    // GIVEN
+    const buffer = new StringWritable();
+    cloudFormation.describeStackChanges.mockRejectedValue(new Error('Access denied'));
+
+    // WHEN
+    const exitCode = await toolkit.diff({
+      stackNames: ['A'],
+      stream: buffer,
+      changeSet: true,
+      fail: true,
+    });
+
+    // THEN
+    expect(buffer.data).toContain('Stack');
+    expect(exitCode).toBe(1);
+  });
+
+  test('takes replacement details from the change set', () => {
+    // WHEN
+    const replacements = replacementsFromChangeSet([
+      {
+        ResourceChange: {
+          Action: 'Modify',
+          LogicalResourceId: 'Queue',
+          Replacement: 'Conditional',
+          Details: [
+            { Target: { Attribute: 'Properties', Name: 'QueueName', RequiresRecreation: 'Never' } },
+            { Target: { Attribute: 'Properties', Name: 'DelaySeconds', RequiresRecreation: 'Conditionally' } },
+            { Target: { Attribute: 'Properties', Name: 'DelaySeconds', RequiresRecreation: 'Never' } },
+            { Target: { Attribute: 'Tags', RequiresRecreation: 'Never' } },
+          ],
+        },
+      },
+      { ResourceChange: { Action: 'Add', LogicalResourceId: 'Topic' } },
+    ]);
+
+    // THEN
+    expect(replacements).toEqual({
+      Queue: {
+        replacement: 'Conditional',
+        propertyReplacements: { QueueName: 'Never', DelaySeconds: 'Conditionally' },
+      },
+    });
+  });
+});
+
 test('throws an error during diffs on stack with error metadata', async () => {
   const buffer = new StringWritable();
 
@@ -121,6 +238,101 @@ test('throws an error during diffs on stack with error metadata', async () => {
   })).rejects.toThrow(/Found errors/);
 });
 
+describe('drift', () => {
+  beforeEach(() => {
+    cloudFormation.stackExists.mockResolvedValue(true);
+    cloudFormation.detectStackDrift.mockImplementation((stackArtifact: CloudFormationStackArtifact) => Promise.resolve(
+      stackArtifact.stackName === 'A' ? [
+        {
+          StackId: 'stack-id',
+          LogicalResourceId: 'MyBucket',
+          ResourceType: 'AWS::S3::Bucket',
+          StackResourceDriftStatus: 'MODIFIED',
+          Timestamp: new Date(),
+          PropertyDifferences: [{
+            PropertyPath: '/Properties/VersioningConfiguration/Status',
+            ExpectedValue: 'Enabled',
+            ActualValue: 'Suspended',
+            DifferenceType: 'NOT_EQUAL',
+          }],
+        },
+        {
+          StackId: 'stack-id',
+          LogicalResourceId: 'MyQueue',
+          ResourceType: 'AWS::SQS::Queue',
+          StackResourceDriftStatus: 'IN_SYNC',
+          Timestamp: new Date(),
+        },
+      ] : []));
+  });
+
+  test('renders drifted properties', async () => {
+    // GIVEN
+    const buffer = new StringWritable();
+
+    // WHEN
+    const exitCode = await toolkit.drift({
+      stackNames: ['A'],
+      stream: buffer,
+    });
+
+    // THEN
+    const plainTextOutput = buffer.data.replace(/\x1B\[[0-?]*[ -/]*[@-~]/g, '');
+    expect(plainTextOutput).toContain('[~] AWS::S3::Bucket MyBucket');
+    expect(plainTextOutput).toContain('/Properties/VersioningConfiguration/Status');
+    expect(plainTextOutput).toContain('Suspended');
+    expect(plainTextOutput).not.toContain('MyQueue');
+    expect(exitCode).toBe(0);
+  });
+
+  test('exits with 1 with drift and fail set to true', async () => {
+    // GIVEN
+    const buffer = new StringWritable();
+
+    // WHEN
+    const exitCode = await toolkit.drift({
+      stackNames: ['A', 'D'],
+      stream: buffer,
+      fail: true,
+    });
+
+    // THEN
+    expect(exitCode).toBe(1);
+  });
+
+  test('exits with 0 without drift and fail set to true', async () => {
+    // GIVEN
+    const buffer = new StringWritable();
+
+    // WHEN
+    const exitCode = await toolkit.drift({
+      stackNames: ['D'],
+      stream: buffer,
+      fail: true,
+    });
+
+    // THEN
+    expect(exitCode).toBe(0);
+  });
+
+  test('skips stacks that are not deployed', async () => {
+    // GIVEN
+    const buffer = new StringWritable();
+    cloudFormation.stackExists.mockResolvedValue(false);
+
+    // WHEN
+    const exitCode = await toolkit.drift({
+      stackNames: ['A'],
+      stream: buffer,
+      fail: true,
+    });
+
+    // THEN
+    expect(cloudFormation.detectStackDrift).not.toHaveBeenCalled();
+    expect(exitCode).toBe(0);
+  });
+});
+
 class StringWritable extends Writable {
   public data: string;
   private readonly _decoder: NodeStringDecoder;
@@ -0,0 +1,137 @@
+import * as promptly from 'promptly';
+import { findResourcesToImport, makeResourcesToImport, resolveResourceIdentifiers } from '../lib/import';
+import { testStack } from './util';
+
+jest.mock('promptly', () => ({
+  prompt: jest.fn().mockResolvedValue('prompted-name'),
+}));
+
+const CURRENT_TEMPLATE = {
+  Resources: {
+    Queue: { Type: 'AWS::SQS::Queue' },
+  },
+};
+
+const SUMMARIES = [
+  { ResourceType: 'AWS::SQS::Queue', ResourceIdentifiers: ['QueueUrl'], LogicalResourceIds: ['Queue'] },
+  { ResourceType: 'AWS::S3::Bucket', ResourceIdentifiers: ['BucketName'], LogicalResourceIds: ['Bucket'] },
+];
+
+function stackWithResources(resources: any) {
+  return testStack({
+    stackName: 'Test-Stack',
+    template: { Resources: { ...CURRENT_TEMPLATE.Resources, ...resources } },
+  });
+}
+
+describe('findResourcesToImport', () => {
+  test('returns added resources with their identifier properties', () => {
+    // GIVEN
+    const stack = stackWithResources({
+      Bucket: { Type: 'AWS::S3::Bucket', DeletionPolicy: 'Retain' },
+    });
+
+    // WHEN
+    const resources = findResourcesToImport(CURRENT_TEMPLATE, stack, SUMMARIES);
+
+    // THEN
+    expect(resources).toEqual([{
+      logicalId: 'Bucket',
+      resourceType: 'AWS::S3::Bucket',
+      resourceDefinition: { Type: 'AWS::S3::Bucket', DeletionPolicy: 'Retain' },
+      identifierProperties: ['BucketName'],
+    }]);
+  });
+
+  test('fails if an added resource cannot be imported', () => {
+    // GIVEN
+    const stack = stackWithResources({
+      Topic: { Type: 'AWS::SNS::Topic', DeletionPolicy: 'Retain' },
+    });
+
+    // THEN
+    expect(() => findResourcesToImport(CURRENT_TEMPLATE, stack, SUMMARIES)).toThrow(/Topic \(AWS::SNS::Topic\)/);
+  });
+
+  test('fails if an added resource has no DeletionPolicy', () => {
+    // GIVEN
+    const stack = stackWithResources({
+      Bucket: { Type: 'AWS::S3::Bucket' },
+    });
+
+    // THEN
+    expect(() => findResourcesToImport(CURRENT_TEMPLATE, stack, SUMMARIES)).toThrow(/must have a DeletionPolicy/);
+  });
+
+  test('fails if other resources changed', () => {
+    // GIVEN
+    const stack = stackWithResources({
+      Queue: { Type: 'AWS::SQS::Queue', Properties: { DelaySeconds: 5 } },
+      Bucket: { Type: 'AWS::S3::Bucket', DeletionPolicy: 'Retain' },
+    });
+
+    // THEN
+    expect(() => findResourcesToImport(CURRENT_TEMPLATE, stack, SUMMARIES)).toThrow(/cannot be updated or removed during an import.*Queue/);
+  });
+});
+
+describe('resolveResourceIdentifiers', () => {
+  const resources = [{
+    logicalId: 'Bucket',
+    resourceType: 'AWS::S3::Bucket',
+    resourceDefinition: { Type: 'AWS::S3::Bucket', DeletionPolicy: 'Retain' },
+    identifierProperties: ['BucketName'],
+  }];
+
+  test('takes identifiers from the mapping first', async () => {
+    // WHEN
+    const mapping = await resolveResourceIdentifiers(resources, {
+      mapping: { Bucket: { BucketName: 'mapped-name' } },
+    });
+
+    // THEN
+    expect(mapping).toEqual({ Bucket: { BucketName: 'mapped-name' } });
+  });
+
+  test('takes identifiers from the template', async () => {
+    // WHEN
+    const mapping = await resolveResourceIdentifiers([{
+      ...resources[0],
+      resourceDefinition: { ...resources[0].resourceDefinition, Properties: { BucketName: 'template-name' } },
+    }]);
+
+    // THEN
+    expect(mapping).toEqual({ Bucket: { BucketName: 'template-name' } });
+  });
+
+  test('prompts for missing identifiers', async () => {
+    // WHEN
+    const mapping = await resolveResourceIdentifiers(resources);
+
+    // THEN
+    expect(promptly.prompt).toHaveBeenCalledWith(expect.stringContaining('BucketName'));
+    expect(mapping).toEqual({ Bucket: { BucketName: 'prompted-name' } });
+  });
+
+  test('fails on missing identifiers if not interactive', async () => {
+    await expect(resolveResourceIdentifiers(resources, { mapping: {}, interactive: false }))
+      .rejects.toThrow(/No value for 'BucketName' of resource 'Bucket'/);
+  });
+});
+
+test('makeResourcesToImport', () => {
+  // WHEN
+  const resourcesToImport = makeResourcesToImport([{
+    logicalId: 'Bucket',
+    resourceType: 'AWS::S3::Bucket',
+    resourceDefinition: {},
+    identifierProperties: ['BucketName'],
+  }], { Bucket: { BucketName: 'my-bucket' } });
+
+  // THEN
+  expect(resourcesToImport).toEqual([{
+    LogicalResourceId: 'Bucket',
+    ResourceType: 'AWS::S3::Bucket',
+    ResourceIdentifier: { BucketName: 'my-bucket' },
+  }]);
+});
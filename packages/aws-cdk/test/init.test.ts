@@ -8,6 +8,7 @@ jest.mock('../lib/version', () => ({
   versionNumber: () => mockMajorVersion,
 }));
 
+import * as childProcess from 'child_process';
 import * as os from 'os';
 import * as path from 'path';
 import * as cxapi from '@aws-cdk/cx-api';
@@ -105,6 +106,88 @@ test('when no version number is present (e.g., local development), the v1 templa
   expect((await availableInitTemplates()).length).toBeGreaterThan(0);
 });
 
+describe('templates from other sources', () => {
+  let templatesDir: string;
+  let workDir: string;
+  beforeEach(async () => {
+    mockMajorVersion = '1.0.0';
+    templatesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aws-cdk-templates'));
+    workDir = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'aws-cdk-test')), 'my-project');
+    await fs.mkdirp(workDir);
+
+    for (const name of ['service', 'pipeline']) {
+      await fs.outputJson(path.join(templatesDir, name, 'info.json'), { description: `Company ${name}`, aliases: [`company-${name}`] });
+      await fs.outputFile(path.join(templatesDir, name, 'typescript', 'lib', '%name%-stack.template.ts'), 'export class %name.PascalCased%Stack {}');
+    }
+  });
+
+  afterEach(async () => {
+    await fs.remove(templatesDir);
+    await fs.remove(path.dirname(workDir));
+  });
+
+  test('a template is created from a local directory', async () => {
+    await cliInit(undefined, 'typescript', false, true, workDir, { fromPath: path.join(templatesDir, 'service') });
+
+    expect(await fs.readFile(path.join(workDir, 'lib', 'my-project-stack.ts'), { encoding: 'utf-8' })).toEqual('export class MyProjectStack {}');
+  });
+
+  test('a template is selected from a directory of templates by name or alias', async () => {
+    await cliInit('company-pipeline', 'typescript', false, true, workDir, { fromPath: templatesDir });
+
+    expect(await fs.pathExists(path.join(workDir, 'lib', 'my-project-stack.ts'))).toBeTruthy();
+  });
+
+  test('a template must be selected from a directory of multiple templates', async () => {
+    await expect(cliInit(undefined, 'typescript', false, true, workDir, { fromPath: templatesDir }))
+      .rejects.toThrow(/contains multiple templates, select one of: pipeline, service/);
+  });
+
+  test.each(['templates.git', 'templates'])('a template is created from a git repository named %s', async (repoName) => {
+    // GIVEN
+    const cdkHome = process.env.CDK_HOME;
+    process.env.CDK_HOME = path.join(templatesDir, '.cdk');
+    const repoDir = path.join(path.dirname(workDir), repoName);
+    git(templatesDir, 'init', '--quiet');
+    git(templatesDir, 'add', '.');
+    git(templatesDir, '-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '--quiet', '--message=templates', '--no-gpg-sign');
+    git(templatesDir, 'clone', '--quiet', '--bare', templatesDir, repoDir);
+
+    try {
+      // WHEN
+      await cliInit('service', 'typescript', false, true, workDir, { fromGitUrl: repoDir });
+    } finally {
+      if (cdkHome === undefined) {
+        delete process.env.CDK_HOME;
+      } else {
+        process.env.CDK_HOME = cdkHome;
+      }
+    }
+
+    // THEN
+    expect(await fs.readFile(path.join(workDir, 'lib', 'my-project-stack.ts'), { encoding: 'utf-8' })).toEqual('export class MyProjectStack {}');
+  });
+
+  test('a local directory is not cloned, even if its name ends in .git', async () => {
+    const localDir = path.join(path.dirname(workDir), 'company.git');
+    await fs.copy(path.join(templatesDir, 'service'), localDir);
+
+    await cliInit(undefined, 'typescript', false, true, workDir, { fromPath: localDir });
+
+    expect(await fs.readFile(path.join(workDir, 'lib', 'my-project-stack.ts'), { encoding: 'utf-8' })).toEqual('export class MyProjectStack {}');
+  });
+
+  test('templates from configured sources are offered alongside the built-in ones', async () => {
+    const templates = await availableInitTemplates([templatesDir, path.join(templatesDir, 'does-not-exist')]);
+
+    expect(templates.map(t => t.name)).toEqual(expect.arrayContaining(['app', 'lib', 'pipeline', 'service']));
+  });
+
+  function git(cwd: string, ...args: string[]) {
+    childProcess.execFileSync('git', args, { cwd, stdio: 'ignore' });
+  }
+});
+
 function cliTest(name: string, handler: (dir: string) => void | Promise<any>): void {
   test(name, () => withTempDir(handler));
 }
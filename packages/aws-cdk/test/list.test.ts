@@ -0,0 +1,89 @@
+import { GraphFormat, renderDependencyGraph, stackDetails, StackDetails } from '../lib/list';
+import { testAssembly } from './util';
+
+describe('stackDetails', () => {
+  test('lists dependencies, assets and termination protection', () => {
+    // GIVEN
+    const assembly = testAssembly({
+      stacks: [{
+        stackName: 'Shared',
+      },
+      {
+        stackName: 'Service',
+        depends: ['Shared'],
+        terminationProtection: true,
+        assets: [{
+          sourceHash: 'source-hash',
+          path: __filename,
+          id: 'SomeStackSomeResource4567',
+          packaging: 'file',
+          s3BucketParameter: 'BucketParameter',
+          s3KeyParameter: 'KeyParameter',
+          artifactHashParameter: 'ArtifactHashParameter',
+        }],
+      }],
+    });
+    const shared = assembly.getStackArtifact('Shared');
+    const service = assembly.getStackArtifact('Service');
+
+    // WHEN
+    const details = stackDetails([shared, service], new Map([[service, 'Prod/Service']]));
+
+    // THEN
+    expect(details).toEqual([
+      expect.objectContaining({
+        id: 'Shared',
+        hierarchicalId: 'Shared',
+        dependencies: [],
+        assets: [],
+        terminationProtection: false,
+      }),
+      expect.objectContaining({
+        id: 'Service',
+        hierarchicalId: 'Prod/Service',
+        name: 'Service',
+        dependencies: ['Shared'],
+        assets: ['SomeStackSomeResource4567'],
+        terminationProtection: true,
+      }),
+    ]);
+  });
+});
+
+describe('renderDependencyGraph', () => {
+  const stacks: StackDetails[] = [
+    stackWithDependencies('Shared', []),
+    stackWithDependencies('Prod/Service', ['Shared']),
+  ];
+
+  test('as DOT', () => {
+    expect(renderDependencyGraph(stacks, GraphFormat.DOT)).toEqual([
+      'digraph {',
+      '  "Shared";',
+      '  "Prod/Service";',
+      '  "Prod/Service" -> "Shared";',
+      '}',
+    ].join('\n'));
+  });
+
+  test('as Mermaid', () => {
+    expect(renderDependencyGraph(stacks, GraphFormat.MERMAID)).toEqual([
+      'graph TD',
+      '  stack0["Shared"]',
+      '  stack1["Prod/Service"]',
+      '  stack1 --> stack0',
+    ].join('\n'));
+  });
+});
+
+function stackWithDependencies(hierarchicalId: string, dependencies: string[]): StackDetails {
+  return {
+    id: hierarchicalId.replace('/', ''),
+    hierarchicalId,
+    name: hierarchicalId.replace('/', '-'),
+    environment: { name: 'aws://123456789012/here', account: '123456789012', region: 'here' },
+    dependencies,
+    assets: [],
+    terminationProtection: false,
+  };
+}
@@ -0,0 +1,41 @@
+import { parseCommandLineArguments } from '../lib/parse-command-line-arguments';
+
+describe('import', () => {
+  test('--role-arn does not record the resource mapping', async () => {
+    // WHEN
+    const argv = await parseCommandLineArguments(['import', 'MyStack', '--role-arn', 'arn:aws:iam::123456789012:role/Role']);
+
+    // THEN
+    expect(argv.roleArn).toEqual('arn:aws:iam::123456789012:role/Role');
+    expect(argv.recordResourceMapping).toBeUndefined();
+  });
+
+  test('-r is the role ARN', async () => {
+    // WHEN
+    const argv = await parseCommandLineArguments(['import', 'MyStack', '-r', 'arn:aws:iam::123456789012:role/Role']);
+
+    // THEN
+    expect(argv.roleArn).toEqual('arn:aws:iam::123456789012:role/Role');
+    expect(argv.recordResourceMapping).toBeUndefined();
+  });
+
+  test('--record-resource-mapping', async () => {
+    // WHEN
+    const argv = await parseCommandLineArguments(['import', 'MyStack', '--record-resource-mapping', 'mapping.json']);
+
+    // THEN
+    expect(argv.recordResourceMapping).toEqual('mapping.json');
+    expect(argv.roleArn).toBeUndefined();
+  });
+});
+
+describe('deploy', () => {
+  test('--with-tag selects stacks and --tags applies tags', async () => {
+    // WHEN
+    const argv = await parseCommandLineArguments(['deploy', '--with-tag', 'team=payments', '--tags', 'owner=me']);
+
+    // THEN
+    expect(argv.withTag).toEqual(['team=payments']);
+    expect(argv.tags).toEqual(['owner=me']);
+  });
+});
@@ -0,0 +1,89 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { findResourceRenames, recordResourceRenames } from '../lib/refactor';
+import { testStack } from './util';
+
+const TABLE = {
+  Type: 'AWS::DynamoDB::Table',
+  Properties: {
+    KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+    AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+  },
+};
+
+const CURRENT_TEMPLATE = {
+  Resources: {
+    TableOld1234: TABLE,
+  },
+};
+
+const stack = testStack({
+  stackName: 'Test-Stack',
+  template: { Resources: { StorageTableNew5678: TABLE } },
+});
+
+describe('findResourceRenames', () => {
+  test('returns the resources that were removed and added under another logical ID', () => {
+    expect(findResourceRenames(CURRENT_TEMPLATE, stack).renames).toEqual([
+      { oldLogicalId: 'TableOld1234', newLogicalId: 'StorageTableNew5678', resourceType: 'AWS::DynamoDB::Table', similarity: 1 },
+    ]);
+  });
+
+  test('returns nothing if the stack is not deployed', () => {
+    expect(findResourceRenames({}, stack).renames).toEqual([]);
+  });
+});
+
+describe('recordResourceRenames', () => {
+  let configFile: string;
+
+  beforeEach(async () => {
+    configFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'cdk-refactor-')), 'cdk.json');
+    await fs.writeJson(configFile, {
+      app: 'node bin/app.js',
+      context: {
+        '@aws-cdk/core:logicalIdRenames': { 'Test-Stack': { QueueNew: 'QueueOld' } },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(path.dirname(configFile));
+  });
+
+  test('adds the renames to the context, keeping the existing ones', async () => {
+    // GIVEN
+    const stackWithQueue = testStack({
+      stackName: 'Test-Stack',
+      template: { Resources: { StorageTableNew5678: TABLE, QueueOld: { Type: 'AWS::SQS::Queue' } } },
+    });
+
+    // WHEN
+    await recordResourceRenames(configFile, [findResourceRenames(CURRENT_TEMPLATE, stackWithQueue)]);
+
+    // THEN
+    expect(await fs.readJson(configFile)).toEqual({
+      app: 'node bin/app.js',
+      context: {
+        '@aws-cdk/core:logicalIdRenames': {
+          'Test-Stack': { QueueNew: 'QueueOld', StorageTableNew5678: 'TableOld1234' },
+        },
+      },
+    });
+  });
+
+  test('removes the renames of resources that are no longer in the template', async () => {
+    // WHEN
+    const changed = await recordResourceRenames(configFile, [findResourceRenames({ Resources: {} }, stack)]);
+
+    // THEN
+    expect(changed).toBe(true);
+    expect(await fs.readJson(configFile)).toEqual({
+      app: 'node bin/app.js',
+      context: {
+        '@aws-cdk/core:logicalIdRenames': { 'Test-Stack': {} },
+      },
+    });
+  });
+});
@@ -22,6 +22,15 @@ export interface TestStackArtifact {
 export interface TestAssembly {
   stacks: TestStackArtifact[];
   missing?: cxschema.MissingContext[];
+  nestedAssemblies?: TestNestedAssembly[];
+}
+
+export interface TestNestedAssembly {
+  /**
+   * The construct path of the stage
+   */
+  displayName: string;
+  stacks: TestStackArtifact[];
 }
 
 export class MockCloudExecutable extends CloudExecutable {
@@ -50,6 +59,18 @@ function clone(obj: any) {
 export function testAssembly(assembly: TestAssembly): cxapi.CloudAssembly {
   const builder = new cxapi.CloudAssemblyBuilder();
 
+  addTestStacks(builder, assembly);
+
+  for (const nested of assembly.nestedAssemblies ?? []) {
+    const nestedBuilder = builder.createNestedAssembly(`assembly-${nested.displayName.replace(/\//g, '-')}`, nested.displayName);
+    addTestStacks(nestedBuilder, { stacks: nested.stacks });
+    nestedBuilder.buildAssembly();
+  }
+
+  return builder.buildAssembly();
+}
+
+function addTestStacks(builder: cxapi.CloudAssemblyBuilder, assembly: TestAssembly) {
   for (const stack of assembly.stacks) {
     const templateFile = `${stack.stackName}.template.json`;
     const template = stack.template ?? DEFAULT_FAKE_TEMPLATE;
@@ -81,8 +102,6 @@ export function testAssembly(assembly: TestAssembly): cxapi.CloudAssembly {
       },
     });
   }
-
-  return builder.buildAssembly();
 }
 
 /**
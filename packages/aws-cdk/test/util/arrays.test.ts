@@ -1,4 +1,4 @@
-import { flatMap, flatten, partition } from '../../lib/util';
+import { chunks, flatMap, flatten, partition } from '../../lib/util';
 
 test('flatten combines arrays', () => {
   const output = flatten([
@@ -24,3 +24,8 @@ test('partition splits the collection in twain', () => {
   expect(evens).toEqual([2, 4]);
   expect(xs).toEqual([1, 3, 5]);
 });
+
+test('chunks splits the collection into lists of at most the given size', () => {
+  expect(chunks([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  expect(chunks([], 2)).toEqual([]);
+});
@@ -102,6 +102,12 @@ export class MockSdk implements ISDK {
   public readonly route53 = jest.fn();
   public readonly ecr = jest.fn();
   public readonly elbv2 = jest.fn();
+  public readonly lambda = jest.fn();
+  public readonly stepFunctions = jest.fn();
+  public readonly ecs = jest.fn();
+  public readonly kms = jest.fn();
+  public readonly secretsManager = jest.fn();
+  public readonly rds = jest.fn();
 
   public currentAccount(): Promise<Account> {
     return Promise.resolve({ accountId: '123456789012', partition: 'aws' });
@@ -121,12 +127,40 @@ export class MockSdk implements ISDK {
     this.ecr.mockReturnValue(partialAwsService<AWS.ECR>(stubs));
   }
 
+  /**
+   * Replace the S3 client with the given object
+   */
+  public stubS3(stubs: SyncHandlerSubsetOf<AWS.S3>) {
+    this.s3.mockReturnValue(partialAwsService<AWS.S3>(stubs));
+  }
+
   /**
    * Replace the SSM client with the given object
    */
   public stubSsm(stubs: SyncHandlerSubsetOf<AWS.SSM>) {
     this.ssm.mockReturnValue(partialAwsService<AWS.SSM>(stubs));
   }
+
+  /**
+   * Replace the Lambda client with the given object
+   */
+  public stubLambda(stubs: SyncHandlerSubsetOf<AWS.Lambda>) {
+    this.lambda.mockReturnValue(partialAwsService<AWS.Lambda>(stubs));
+  }
+
+  /**
+   * Replace the Step Functions client with the given object
+   */
+  public stubStepFunctions(stubs: SyncHandlerSubsetOf<AWS.StepFunctions>) {
+    this.stepFunctions.mockReturnValue(partialAwsService<AWS.StepFunctions>(stubs));
+  }
+
+  /**
+   * Replace the ECS client with the given object
+   */
+  public stubEcs(stubs: SyncHandlerSubsetOf<AWS.ECS>) {
+    this.ecs.mockReturnValue(partialAwsService<AWS.ECS>(stubs));
+  }
 }
 
 /**
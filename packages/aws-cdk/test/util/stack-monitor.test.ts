@@ -100,6 +100,29 @@ test('do a final request after the monitor is stopped', async () => {
   expect(printer.eventIds).toEqual(['101', '102']);
 });
 
+test('read the events of nested stacks', async () => {
+  await testMonitorWithEventCalls([
+    (request) => {
+      expect(request.StackName).toBe('StackName');
+      return {
+        StackEvents: [{ ...event(101), ResourceType: 'AWS::CloudFormation::Stack', LogicalResourceId: 'Nested', PhysicalResourceId: 'NestedStackId' }],
+      };
+    },
+    (request) => {
+      expect(request.StackName).toBe('NestedStackId');
+      return {
+        StackEvents: [{ ...event(102), StackId: 'NestedStackId', LogicalResourceId: 'Queue' }],
+      };
+    },
+  ]);
+
+  // Events of the nested stack are marked with its logical ID
+  expect(printer.activities.map(a => [a.event.EventId, a.nestedStackPath])).toEqual([
+    ['101', undefined],
+    ['102', 'Nested'],
+  ]);
+});
+
 const T0 = 1597837230504;
 
 // Events 0-99 are before we started paying attention
@@ -28,12 +28,16 @@ async function main() {
       }))
     .command('publish [ASSET..]', 'Publish assets in the given manifest', command => command
       .option('profile', { type: 'string', describe: 'Profile to use from AWS Credentials file' })
+      .option('plugin', { type: 'array', describe: 'Name or path of a plug-in module that provides additional asset handlers (can be specified multiple times)', nargs: 1, requiresArg: true })
+      .option('parallelism', { type: 'number', describe: 'Number of assets to build, and to publish, at the same time', default: 1, requiresArg: true })
       .positional('ASSET', { type: 'string', array: true, describe: 'Assets to publish (format: "ASSET[:DEST]"), default all' })
     , wrapHandler(async args => {
       await publish({
         path: args.path,
         assets: args.ASSET,
         profile: args.profile,
+        parallelism: args.parallelism,
+        plugins: args.plugin?.map(p => `${p}`),
       });
     }))
     .demandCommand()
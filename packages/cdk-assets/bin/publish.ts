@@ -1,7 +1,7 @@
 import * as os from 'os';
 import {
   AssetManifest, AssetPublishing, ClientOptions, DestinationPattern, EventType, IAws,
-  IPublishProgress, IPublishProgressListener,
+  IPublishProgress, IPublishProgressListener, loadPlugin,
 } from '../lib';
 import { Account } from '../lib/aws';
 import { log, LogLevel, VERSION } from './logging';
@@ -10,7 +10,13 @@ export async function publish(args: {
   path: string;
   assets?: string[];
   profile?: string;
+  parallelism?: number;
+  plugins?: string[];
 }) {
+  for (const plugin of args.plugins ?? []) {
+    loadPlugin(plugin);
+    log('verbose', `Loaded plug-in ${plugin}`);
+  }
 
   let manifest = AssetManifest.fromPath(args.path);
   log('verbose', `Loaded manifest from ${args.path}: ${manifest.entries.length} assets found`);
@@ -25,6 +31,7 @@ export async function publish(args: {
     aws: new DefaultAwsClient(args.profile),
     progressListener: new ConsoleProgress(),
     throwOnError: false,
+    parallelism: args.parallelism,
   });
 
   await pub.publish();
@@ -79,7 +86,11 @@ class DefaultAwsClient implements IAws {
   }
 
   public async s3Client(options: ClientOptions) {
-    return new this.AWS.S3(await this.awsOptions(options));
+    return new this.AWS.S3({
+      ...await this.awsOptions(options),
+      // S3-compatible object stores generally do not support virtual-hosted-style bucket addressing
+      ...options.endpointUrl ? { endpoint: options.endpointUrl, s3ForcePathStyle: true } : {},
+    });
   }
 
   public async ecrClient(options: ClientOptions) {
@@ -0,0 +1,38 @@
+import { IAws } from './aws';
+import { EventType } from './progress';
+
+/**
+ * Publishes a single asset to a single destination
+ */
+export interface IAssetHandler {
+  /**
+   * Prepare the asset for publishing
+   *
+   * Checks whether the asset has already been published, and builds
+   * it if not.
+   */
+  build(): Promise<void>;
+
+  /**
+   * Upload the built asset to its destination
+   *
+   * Does nothing if the asset was found to be published already.
+   */
+  publish(): Promise<void>;
+}
+
+/**
+ * The services the publisher makes available to asset handlers
+ */
+export interface IHandlerHost {
+  readonly aws: IAws;
+
+  /**
+   * Whether publishing has been aborted
+   *
+   * Handlers should check this between long-running steps.
+   */
+  readonly aborted: boolean;
+
+  emitMessage(type: EventType, m: string): void;
+}
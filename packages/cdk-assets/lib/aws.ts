@@ -16,6 +16,13 @@ export interface ClientOptions {
   region?: string;
   assumeRoleArn?: string;
   assumeRoleExternalId?: string;
+
+  /**
+   * Send requests to this URL instead of the AWS endpoint (S3 only)
+   *
+   * Used for S3-compatible object stores.
+   */
+  endpointUrl?: string;
 }
 
 /**
@@ -0,0 +1,72 @@
+import { IAssetHandler, IHandlerHost } from './asset-handler';
+import { AssetManifest, IManifestEntry } from './asset-manifest';
+import { registerBuiltinHandlers } from './private/handlers';
+
+/**
+ * Creates the handler for an asset
+ *
+ * @param workDir the directory of the asset manifest, which relative source paths are relative to
+ * @param asset   the asset and destination to publish
+ * @param host    services made available by the publisher
+ */
+export type AssetHandlerFactory = (workDir: string, asset: IManifestEntry, host: IHandlerHost) => IAssetHandler;
+
+/**
+ * The destination types used for destinations that do not specify one, by asset type
+ */
+const DEFAULT_DESTINATION_TYPES: Record<string, string> = {
+  'file': 's3',
+  'docker-image': 'ecr',
+};
+
+/**
+ * A registry of asset handlers, by asset type and destination type
+ *
+ * The asset type is the kind of source ('file' or 'docker-image'), the destination
+ * type is the `type` of the destination in the asset manifest. New registries
+ * come with the built-in handlers registered.
+ */
+export class AssetHandlerRegistry {
+  /**
+   * The registry used by publishers that are not given one, and that plugins register their handlers in
+   */
+  public static readonly instance = new AssetHandlerRegistry();
+
+  private readonly factories = new Map<string, AssetHandlerFactory>();
+
+  constructor() {
+    registerBuiltinHandlers(this);
+  }
+
+  /**
+   * Register the handler for assets of the given type published to destinations of the given type
+   *
+   * Replaces the handler previously registered for the same types, if any.
+   */
+  public register(assetType: string, destinationType: string, factory: AssetHandlerFactory): void {
+    this.factories.set(registryKey(assetType, destinationType), factory);
+  }
+
+  /**
+   * Whether a handler is registered for the given asset and destination types
+   */
+  public has(assetType: string, destinationType: string): boolean {
+    return this.factories.has(registryKey(assetType, destinationType));
+  }
+
+  /**
+   * Create the handler for the given asset from the manifest
+   */
+  public makeHandler(manifest: AssetManifest, asset: IManifestEntry, host: IHandlerHost): IAssetHandler {
+    const destinationType = (asset.genericDestination as { type?: string }).type ?? DEFAULT_DESTINATION_TYPES[asset.type];
+    const factory = this.factories.get(registryKey(asset.type, destinationType));
+    if (!factory) {
+      throw new Error(`No handler for ${asset.type} assets with destination type '${destinationType}'. Are you missing a plugin?`);
+    }
+    return factory(manifest.directory, asset, host);
+  }
+}
+
+function registryKey(assetType: string, destinationType: string) {
+  return `${assetType}/${destinationType}`;
+}
@@ -2,3 +2,6 @@ export * from './publishing';
 export * from './asset-manifest';
 export * from './aws';
 export * from './progress';
+export * from './asset-handler';
+export * from './handler-registry';
+export * from './plugin';
@@ -0,0 +1,52 @@
+import { AssetHandlerRegistry } from './handler-registry';
+
+/**
+ * The contract for cdk-assets plug-ins
+ *
+ * A plug-in is a module that exports these members, for example:
+ *
+ *   import { AssetHandlerRegistry } from 'cdk-assets';
+ *
+ *   export const version = '1';
+ *
+ *   export function init(registry: AssetHandlerRegistry) {
+ *     registry.register('file', 'my-store', (workDir, asset, host) => new MyStoreHandler(workDir, asset, host));
+ *   }
+ */
+export interface AssetsPlugin {
+  /**
+   * The version of the plug-in interface used by the plug-in
+   */
+  readonly version: '1';
+
+  /**
+   * Invoked right after the plug-in has been loaded, to register its handlers
+   */
+  init(registry: AssetHandlerRegistry): void;
+}
+
+/**
+ * Load a plug-in and let it register its handlers
+ *
+ * @param moduleSpec the path (relative to the working directory) or name of the plug-in module
+ * @param registry   the registry to register the handlers in
+ */
+export function loadPlugin(moduleSpec: string, registry: AssetHandlerRegistry = AssetHandlerRegistry.instance) {
+  let plugin: unknown;
+  try {
+    // Resolve relative paths against the working directory, not against this file
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    plugin = require(require.resolve(moduleSpec, { paths: [process.cwd()] }));
+  } catch (e) {
+    throw new Error(`Unable to load plug-in '${moduleSpec}': ${e.message}`);
+  }
+
+  if (!isPlugin(plugin)) {
+    throw new Error(`Module '${moduleSpec}' is not a valid cdk-assets plug-in, or has an unsupported version`);
+  }
+  plugin.init(registry);
+}
+
+function isPlugin(x: any): x is AssetsPlugin {
+  return x != null && x.version === '1' && typeof x.init === 'function';
+}
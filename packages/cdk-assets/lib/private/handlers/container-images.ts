@@ -1,22 +1,27 @@
 import * as path from 'path';
 import { DockerImageDestination } from '@aws-cdk/cloud-assembly-schema';
+import { IAssetHandler, IHandlerHost } from '../../asset-handler';
 import { DockerImageManifestEntry } from '../../asset-manifest';
 import { EventType } from '../../progress';
-import { IAssetHandler, IHandlerHost } from '../asset-handler';
 import { Docker } from '../docker';
 import { replaceAwsPlaceholders } from '../placeholders';
 import { shell } from '../shell';
 
 export class ContainerImageAssetHandler implements IAssetHandler {
-  private readonly docker = new Docker(m => this.host.emitMessage(EventType.DEBUG, m));
+  protected readonly docker = new Docker(m => this.host.emitMessage(EventType.DEBUG, m));
+
+  /**
+   * Set by build() if the image still needs to be pushed
+   */
+  protected pendingPush?: { readonly localTagName: string; readonly imageUri: string };
 
   constructor(
     private readonly workDir: string,
-    private readonly asset: DockerImageManifestEntry,
-    private readonly host: IHandlerHost) {
+    protected readonly asset: DockerImageManifestEntry,
+    protected readonly host: IHandlerHost) {
   }
 
-  public async publish(): Promise<void> {
+  public async build(): Promise<void> {
     const destination = await replaceAwsPlaceholders(this.asset.destination, this.host.aws);
     const ecr = await this.host.aws.ecrClient(destination);
     const account = (await this.host.aws.discoverCurrentAccount()).accountId;
@@ -34,18 +39,33 @@ export class ContainerImageAssetHandler implements IAssetHandler {
     // Login before build so that the Dockerfile can reference images in the ECR repo
     await this.docker.login(ecr);
 
-    const localTagName = this.asset.source.executable
-      ? await this.buildExternalAsset(this.asset.source.executable)
-      : await this.buildDirectoryAsset();
-
+    const localTagName = await this.buildLocalImage();
     if (localTagName === undefined || this.host.aborted) {
       return;
     }
 
+    this.pendingPush = { localTagName, imageUri };
+  }
+
+  public async publish(): Promise<void> {
+    if (!this.pendingPush || this.host.aborted) { return; }
+    const { localTagName, imageUri } = this.pendingPush;
+
     this.host.emitMessage(EventType.UPLOAD, `Push ${imageUri}`);
-    if (this.host.aborted) { return; }
     await this.docker.tag(localTagName, imageUri);
     await this.docker.push(imageUri);
+    this.pendingPush = undefined;
+  }
+
+  /**
+   * Build the image locally, returning its local tag
+   *
+   * Returns undefined if publishing was aborted.
+   */
+  protected async buildLocalImage(): Promise<string | undefined> {
+    return this.asset.source.executable
+      ? this.buildExternalAsset(this.asset.source.executable)
+      : this.buildDirectoryAsset();
   }
 
   /**
@@ -125,6 +145,37 @@ export class ContainerImageAssetHandler implements IAssetHandler {
   }
 }
 
+/**
+ * Publishes Docker images to any OCI-compliant registry
+ *
+ * Unlike ECR, there is no way to log in to an arbitrary registry or to check
+ * whether the image exists without pulling it, so the registry must have been
+ * logged into with `docker login`, and the image is always pushed (layers
+ * that are already in the registry are not uploaded again).
+ */
+export class OciImageAssetHandler extends ContainerImageAssetHandler {
+  constructor(workDir: string, asset: DockerImageManifestEntry, host: IHandlerHost) {
+    super(workDir, asset, host);
+
+    if (!asset.destination.registry) {
+      throw new Error(`'registry' is required for destinations of type '${asset.destination.type}'`);
+    }
+  }
+
+  public async build(): Promise<void> {
+    const destination = this.asset.destination;
+    const imageUri = `${destination.registry}/${destination.repositoryName}:${destination.imageTag}`;
+    if (this.host.aborted) { return; }
+
+    const localTagName = await this.buildLocalImage();
+    if (localTagName === undefined || this.host.aborted) {
+      return;
+    }
+
+    this.pendingPush = { localTagName, imageUri };
+  }
+}
+
 async function imageExists(ecr: AWS.ECR, repositoryName: string, imageTag: string) {
   try {
     await ecr.describeImages({ repositoryName, imageIds: [{ imageTag }] }).promise();
@@ -1,10 +1,10 @@
 import { createReadStream, promises as fs } from 'fs';
 import * as path from 'path';
-import { FileAssetPackaging, FileSource } from '@aws-cdk/cloud-assembly-schema';
+import { FileAssetPackaging, FileDestination, FileSource } from '@aws-cdk/cloud-assembly-schema';
+import { IAssetHandler, IHandlerHost } from '../../asset-handler';
 import { FileManifestEntry } from '../../asset-manifest';
 import { EventType } from '../../progress';
 import { zipDirectory } from '../archive';
-import { IAssetHandler, IHandlerHost } from '../asset-handler';
 import { pathExists } from '../fs-extra';
 import { replaceAwsPlaceholders } from '../placeholders';
 import { shell } from '../shell';
@@ -12,30 +12,45 @@ import { shell } from '../shell';
 export class FileAssetHandler implements IAssetHandler {
   private readonly fileCacheRoot: string;
 
+  /**
+   * Set by build() if the asset still needs to be uploaded
+   */
+  private pendingUpload?: PendingUpload;
+
   constructor(
     private readonly workDir: string,
     private readonly asset: FileManifestEntry,
-    private readonly host: IHandlerHost) {
+    private readonly host: IHandlerHost,
+    private readonly options: FileAssetHandlerOptions = {}) {
     this.fileCacheRoot = path.join(workDir, '.cache');
+
+    if (options.customEndpoint && !asset.destination.endpointUrl) {
+      throw new Error(`'endpointUrl' is required for destinations of type '${asset.destination.type}'`);
+    }
   }
 
-  public async publish(): Promise<void> {
+  public async build(): Promise<void> {
     const destination = await replaceAwsPlaceholders(this.asset.destination, this.host.aws);
-    const s3Url = `s3://${destination.bucketName}/${destination.objectKey}`;
+    const s3Url = destination.endpointUrl
+      ? `${destination.endpointUrl.replace(/\/$/, '')}/${destination.bucketName}/${destination.objectKey}`
+      : `s3://${destination.bucketName}/${destination.objectKey}`;
 
     const s3 = await this.host.aws.s3Client(destination);
     this.host.emitMessage(EventType.CHECK, `Check ${s3Url}`);
 
-    // A thunk for describing the current account. Used when we need to format an error
-    // message, not in the success case.
-    const account = async () => (await this.host.aws.discoverCurrentAccount())?.accountId;
-    switch (await bucketOwnership(s3, destination.bucketName)) {
-      case BucketOwnership.MINE:
-        break;
-      case BucketOwnership.DOES_NOT_EXIST:
-        throw new Error(`No bucket named '${destination.bucketName}'. Is account ${await account()} bootstrapped?`);
-      case BucketOwnership.SOMEONE_ELSES_OR_NO_ACCESS:
-        throw new Error(`Bucket named '${destination.bucketName}' exists, but not in account ${await account()}. Wrong account?`);
+    // Buckets in S3-compatible object stores do not belong to AWS accounts
+    if (!this.options.customEndpoint) {
+      // A thunk for describing the current account. Used when we need to format an error
+      // message, not in the success case.
+      const account = async () => (await this.host.aws.discoverCurrentAccount())?.accountId;
+      switch (await bucketOwnership(s3, destination.bucketName)) {
+        case BucketOwnership.MINE:
+          break;
+        case BucketOwnership.DOES_NOT_EXIST:
+          throw new Error(`No bucket named '${destination.bucketName}'. Is account ${await account()} bootstrapped?`);
+        case BucketOwnership.SOMEONE_ELSES_OR_NO_ACCESS:
+          throw new Error(`Bucket named '${destination.bucketName}' exists, but not in account ${await account()}. Wrong account?`);
+      }
     }
 
     if (await objectExists(s3, destination.bucketName, destination.objectKey)) {
@@ -44,16 +59,24 @@ export class FileAssetHandler implements IAssetHandler {
     }
 
     if (this.host.aborted) { return; }
-    const publishFile = this.asset.source.executable ?
+    const packaged = this.asset.source.executable ?
       await this.externalPackageFile(this.asset.source.executable) : await this.packageFile(this.asset.source);
 
+    this.pendingUpload = { s3, destination, s3Url, packaged };
+  }
+
+  public async publish(): Promise<void> {
+    if (!this.pendingUpload || this.host.aborted) { return; }
+    const { s3, destination, s3Url, packaged } = this.pendingUpload;
+
     this.host.emitMessage(EventType.UPLOAD, `Upload ${s3Url}`);
     await s3.upload({
       Bucket: destination.bucketName,
       Key: destination.objectKey,
-      Body: createReadStream(publishFile.packagedPath),
-      ContentType: publishFile.contentType,
+      Body: createReadStream(packaged.packagedPath),
+      ContentType: packaged.contentType,
     }).promise();
+    this.pendingUpload = undefined;
   }
 
   private async packageFile(source: FileSource): Promise<PackagedFileAsset> {
@@ -92,6 +115,15 @@ export class FileAssetHandler implements IAssetHandler {
   }
 }
 
+export interface FileAssetHandlerOptions {
+  /**
+   * Whether the destination is an S3-compatible object store at a custom endpoint, rather than Amazon S3
+   *
+   * @default false
+   */
+  readonly customEndpoint?: boolean;
+}
+
 enum BucketOwnership {
   DOES_NOT_EXIST,
   MINE,
@@ -142,3 +174,13 @@ interface PackagedFileAsset {
    */
   readonly contentType?: string;
 }
+
+/**
+ * A packaged asset and the location it must be uploaded to
+ */
+interface PendingUpload {
+  readonly s3: AWS.S3;
+  readonly destination: FileDestination;
+  readonly s3Url: string;
+  readonly packaged: PackagedFileAsset;
+}
@@ -1,15 +1,22 @@
-import { AssetManifest, DockerImageManifestEntry, FileManifestEntry, IManifestEntry } from '../../asset-manifest';
-import { IAssetHandler, IHandlerHost } from '../asset-handler';
-import { ContainerImageAssetHandler } from './container-images';
+import { DockerImageManifestEntry, FileManifestEntry, IManifestEntry } from '../../asset-manifest';
+import { AssetHandlerRegistry } from '../../handler-registry';
+import { ContainerImageAssetHandler, OciImageAssetHandler } from './container-images';
 import { FileAssetHandler } from './files';
 
-export function makeAssetHandler(manifest: AssetManifest, asset: IManifestEntry, host: IHandlerHost): IAssetHandler {
-  if (asset instanceof FileManifestEntry) {
-    return new FileAssetHandler(manifest.directory, asset, host);
-  }
-  if (asset instanceof DockerImageManifestEntry) {
-    return new ContainerImageAssetHandler(manifest.directory, asset, host);
-  }
+export function registerBuiltinHandlers(registry: AssetHandlerRegistry) {
+  registry.register('file', 's3', (workDir, asset, host) =>
+    new FileAssetHandler(workDir, requireEntry(asset, FileManifestEntry), host));
+  registry.register('file', 's3-compatible', (workDir, asset, host) =>
+    new FileAssetHandler(workDir, requireEntry(asset, FileManifestEntry), host, { customEndpoint: true }));
+  registry.register('docker-image', 'ecr', (workDir, asset, host) =>
+    new ContainerImageAssetHandler(workDir, requireEntry(asset, DockerImageManifestEntry), host));
+  registry.register('docker-image', 'oci', (workDir, asset, host) =>
+    new OciImageAssetHandler(workDir, requireEntry(asset, DockerImageManifestEntry), host));
+}
 
-  throw new Error(`Unrecognized asset type: '${asset}'`);
+function requireEntry<A extends IManifestEntry>(asset: IManifestEntry, ctor: new (...args: any[]) => A): A {
+  if (!(asset instanceof ctor)) {
+    throw new Error(`Unrecognized asset type: '${asset}'`);
+  }
+  return asset;
 }
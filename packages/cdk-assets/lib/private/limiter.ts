@@ -0,0 +1,43 @@
+/**
+ * Limits the number of asynchronous operations that run at the same time
+ *
+ * Operations beyond the limit wait their turn, and are started in the
+ * order in which they were submitted.
+ */
+export class Limiter {
+  private running = 0;
+  private readonly waiting = new Array<() => void>();
+
+  constructor(private readonly limit: number) {
+  }
+
+  /**
+   * Run the given operation as soon as there is room for it
+   */
+  public async run<A>(operation: () => Promise<A>): Promise<A> {
+    await this.acquire();
+    try {
+      return await operation();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.running < this.limit) {
+      this.running++;
+      return Promise.resolve();
+    }
+    return new Promise(ok => this.waiting.push(ok));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand our slot straight to the next operation in line
+      next();
+    } else {
+      this.running--;
+    }
+  }
+}
@@ -70,7 +70,10 @@ export interface IPublishProgress {
   readonly message: string;
 
   /**
-   * Asset currently being packaged (if any)
+   * Asset the current event is about (if any)
+   *
+   * Assets may be built and published in parallel, so consecutive events
+   * are not necessarily about the same asset.
    */
   readonly currentAsset?: IManifestEntry;
 
@@ -81,6 +84,9 @@ export interface IPublishProgress {
 
   /**
    * Abort the current publishing operation
+   *
+   * Assets that are being built or published at the time of the abort are
+   * reported as failed; assets that have not been started yet are skipped.
    */
   abort(): void;
 }
@@ -1,6 +1,7 @@
 import { AssetManifest, IManifestEntry } from './asset-manifest';
 import { IAws } from './aws';
-import { makeAssetHandler } from './private/handlers';
+import { AssetHandlerRegistry } from './handler-registry';
+import { Limiter } from './private/limiter';
 import { EventType, IPublishProgress, IPublishProgressListener } from './progress';
 
 export interface AssetPublishingOptions {
@@ -22,6 +23,24 @@ export interface AssetPublishingOptions {
    * @default true
    */
   readonly throwOnError?: boolean;
+
+  /**
+   * How many assets to build, and how many to publish, at the same time
+   *
+   * Building and publishing are separate phases: an asset is queued for
+   * publishing as soon as it has been built, so uploads of some assets can
+   * happen while others are still being built.
+   *
+   * @default 1
+   */
+  readonly parallelism?: number;
+
+  /**
+   * The handlers to publish the assets with
+   *
+   * @default AssetHandlerRegistry.instance
+   */
+  readonly handlerRegistry?: AssetHandlerRegistry;
 }
 
 /**
@@ -46,11 +65,12 @@ export class AssetPublishing implements IPublishProgress {
   public message: string = 'Starting';
 
   /**
-   * The current asset for the IPublishProgress interface
+   * The asset the most recent event was about, for the IPublishProgress interface
    */
   public currentAsset?: IManifestEntry;
   public readonly failures = new Array<FailedAsset>();
   private readonly assets: IManifestEntry[];
+  private readonly parallelism: number;
 
   private readonly totalOperations: number;
   private completedOperations: number = 0;
@@ -58,41 +78,22 @@ export class AssetPublishing implements IPublishProgress {
 
   constructor(private readonly manifest: AssetManifest, private readonly options: AssetPublishingOptions) {
     this.assets = manifest.entries;
-    this.totalOperations = this.assets.length;
+    this.parallelism = options.parallelism ?? 1;
+    if (this.parallelism < 1) {
+      throw new Error(`parallelism must be at least 1, got: ${this.parallelism}`);
+    }
+    // Every asset is built and then published
+    this.totalOperations = this.assets.length * 2;
   }
 
   /**
    * Publish all assets from the manifest
    */
   public async publish(): Promise<void> {
-    const self = this;
+    const builds = new Limiter(this.parallelism);
+    const uploads = new Limiter(this.parallelism);
 
-    for (const asset of this.assets) {
-      if (this.aborted) { break; }
-      this.currentAsset = asset;
-
-      try {
-        if (this.progressEvent(EventType.START, `Publishing ${asset.id}`)) { break; }
-
-        const handler = makeAssetHandler(this.manifest, asset, {
-          aws: this.options.aws,
-          get aborted() { return self.aborted; },
-          emitMessage(t, m) { self.progressEvent(t, m); },
-        });
-        await handler.publish();
-
-        if (this.aborted) {
-          throw new Error('Aborted');
-        }
-
-        this.completedOperations++;
-        if (this.progressEvent(EventType.SUCCESS, `Published ${asset.id}`)) { break; }
-      } catch (e) {
-        this.failures.push({ asset, error: e });
-        this.completedOperations++;
-        if (this.progressEvent(EventType.FAIL, e.message)) { break; }
-      }
-    }
+    await Promise.all(this.assets.map(asset => this.publishAsset(asset, builds, uploads)));
 
     if ((this.options.throwOnError ?? true) && this.failures.length > 0) {
       throw new Error(`Error publishing: ${this.failures.map(e => e.error.message)}`);
@@ -112,13 +113,59 @@ export class AssetPublishing implements IPublishProgress {
     return this.failures.length > 0;
   }
 
+  /**
+   * Build and publish a single asset, recording a failure if either phase fails
+   *
+   * Assets that have not started building when an abort is requested are skipped.
+   */
+  private async publishAsset(asset: IManifestEntry, builds: Limiter, uploads: Limiter): Promise<void> {
+    const self = this;
+    let remainingOperations = 2;
+
+    try {
+      const registry = this.options.handlerRegistry ?? AssetHandlerRegistry.instance;
+      const handler = registry.makeHandler(this.manifest, asset, {
+        aws: this.options.aws,
+        get aborted() { return self.aborted; },
+        emitMessage(t, m) { self.progressEvent(t, m, asset); },
+      });
+
+      const started = await builds.run(async () => {
+        if (this.aborted || this.progressEvent(EventType.START, `Publishing ${asset.id}`, asset)) { return false; }
+        await handler.build();
+        return true;
+      });
+      if (!started) { return; }
+
+      if (this.aborted) {
+        throw new Error('Aborted');
+      }
+      remainingOperations--;
+      this.completedOperations++;
+
+      await uploads.run(() => handler.publish());
+
+      if (this.aborted) {
+        throw new Error('Aborted');
+      }
+      remainingOperations--;
+      this.completedOperations++;
+      this.progressEvent(EventType.SUCCESS, `Published ${asset.id}`, asset);
+    } catch (e) {
+      this.failures.push({ asset, error: e });
+      this.completedOperations += remainingOperations;
+      this.progressEvent(EventType.FAIL, e.message, asset);
+    }
+  }
+
   /**
    * Publish a progress event to the listener, if present.
    *
-   * Returns whether an abort is requested. Helper to get rid of repetitive code in publish().
+   * Returns whether an abort is requested. Helper to get rid of repetitive code in publishAsset().
    */
-  private progressEvent(event: EventType, message: string): boolean {
+  private progressEvent(event: EventType, message: string, asset: IManifestEntry): boolean {
     this.message = message;
+    this.currentAsset = asset;
     if (this.options.progressListener) { this.options.progressListener.onPublishEvent(event, this); }
     return this.aborted;
   }
@@ -0,0 +1,141 @@
+jest.mock('child_process');
+
+import { Manifest } from '@aws-cdk/cloud-assembly-schema';
+import * as mockfs from 'mock-fs';
+import { AssetHandlerRegistry, AssetManifest, AssetPublishing, IAssetHandler, loadPlugin } from '../lib';
+import { mockAws, mockedApiResult, mockUpload } from './mock-aws';
+import { mockSpawn } from './mock-child_process';
+
+let aws: ReturnType<typeof mockAws>;
+beforeEach(() => {
+  jest.resetAllMocks();
+
+  mockfs({
+    '/custom/cdk.out/assets.json': JSON.stringify({
+      version: Manifest.version(),
+      files: {
+        theAsset: {
+          source: {
+            path: 'some_file',
+          },
+          destinations: {
+            theDestination: {
+              type: 'my-store',
+              bucketName: 'some_bucket',
+              objectKey: 'some_key',
+              properties: { shelf: 'top' },
+            },
+          },
+        },
+      },
+    }),
+    '/custom/cdk.out/some_file': 'FILE_CONTENTS',
+    '/s3compatible/cdk.out/assets.json': JSON.stringify({
+      version: Manifest.version(),
+      files: {
+        theAsset: {
+          source: {
+            path: 'some_file',
+          },
+          destinations: {
+            theDestination: {
+              type: 's3-compatible',
+              endpointUrl: 'http://localhost:9000',
+              bucketName: 'some_bucket',
+              objectKey: 'some_key',
+            },
+          },
+        },
+      },
+    }),
+    '/s3compatible/cdk.out/some_file': 'FILE_CONTENTS',
+    '/oci/cdk.out/assets.json': JSON.stringify({
+      version: Manifest.version(),
+      dockerImages: {
+        theAsset: {
+          source: {
+            directory: 'dockerdir',
+          },
+          destinations: {
+            theDestination: {
+              type: 'oci',
+              registry: 'localhost:5000',
+              repositoryName: 'repo',
+              imageTag: 'abcdef',
+            },
+          },
+        },
+      },
+    }),
+    '/oci/cdk.out/dockerdir/Dockerfile': 'FROM scratch',
+  });
+
+  aws = mockAws();
+});
+
+afterEach(() => {
+  mockfs.restore();
+});
+
+test('destinations are published by the handler registered for their type', async () => {
+  // GIVEN
+  const handler: IAssetHandler = {
+    build: jest.fn().mockResolvedValue(undefined),
+    publish: jest.fn().mockResolvedValue(undefined),
+  };
+  const factory = jest.fn().mockReturnValue(handler);
+  const handlerRegistry = new AssetHandlerRegistry();
+  handlerRegistry.register('file', 'my-store', factory);
+
+  // WHEN
+  const pub = new AssetPublishing(AssetManifest.fromPath('/custom/cdk.out'), { aws, handlerRegistry });
+  await pub.publish();
+
+  // THEN
+  expect(factory).toHaveBeenCalledWith('/custom/cdk.out', expect.objectContaining({
+    destination: expect.objectContaining({ properties: { shelf: 'top' } }),
+  }), expect.anything());
+  expect(handler.build).toHaveBeenCalled();
+  expect(handler.publish).toHaveBeenCalled();
+  expect(aws.s3Client).not.toHaveBeenCalled();
+});
+
+test('publishing fails for destination types without a handler', async () => {
+  const pub = new AssetPublishing(AssetManifest.fromPath('/custom/cdk.out'), { aws, handlerRegistry: new AssetHandlerRegistry() });
+
+  await expect(pub.publish()).rejects.toThrow(/No handler for file assets with destination type 'my-store'. Are you missing a plugin\?/);
+});
+
+test('s3-compatible destinations are uploaded to the endpoint without checking bucket ownership', async () => {
+  aws.mockS3.listObjectsV2 = mockedApiResult({ Contents: undefined });
+  aws.mockS3.upload = mockUpload('FILE_CONTENTS');
+
+  const pub = new AssetPublishing(AssetManifest.fromPath('/s3compatible/cdk.out'), { aws });
+  await pub.publish();
+
+  expect(aws.s3Client).toHaveBeenCalledWith(expect.objectContaining({ endpointUrl: 'http://localhost:9000' }));
+  expect(aws.mockS3.getBucketLocation).not.toHaveBeenCalled();
+  expect(aws.mockS3.upload).toHaveBeenCalledWith(expect.objectContaining({
+    Bucket: 'some_bucket',
+    Key: 'some_key',
+  }));
+});
+
+test('oci destinations are pushed to the registry without using ECR', async () => {
+  const expectAllSpawns = mockSpawn(
+    { commandLine: ['docker', 'inspect', 'cdkasset-theasset'], exitCode: 1 },
+    { commandLine: ['docker', 'build', '--tag', 'cdkasset-theasset', '.'], cwd: '/oci/cdk.out/dockerdir' },
+    { commandLine: ['docker', 'tag', 'cdkasset-theasset', 'localhost:5000/repo:abcdef'] },
+    { commandLine: ['docker', 'push', 'localhost:5000/repo:abcdef'] },
+  );
+
+  const pub = new AssetPublishing(AssetManifest.fromPath('/oci/cdk.out'), { aws });
+  await pub.publish();
+
+  expectAllSpawns();
+  expect(aws.ecrClient).not.toHaveBeenCalled();
+});
+
+test('loading a module that does not exist fails', () => {
+  expect(() => loadPlugin('./does-not-exist', new AssetHandlerRegistry())).toThrow(/Unable to load plug-in '.\/does-not-exist'/);
+});
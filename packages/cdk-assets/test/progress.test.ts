@@ -1,7 +1,7 @@
 import { Manifest } from '@aws-cdk/cloud-assembly-schema';
 import * as mockfs from 'mock-fs';
 import { AssetManifest, AssetPublishing, EventType, IPublishProgress, IPublishProgressListener } from '../lib';
-import { mockAws, mockedApiResult, mockUpload } from './mock-aws';
+import { mockAws, mockedApiFailure, mockedApiResult, mockUpload } from './mock-aws';
 
 let aws: ReturnType<typeof mockAws>;
 beforeEach(() => {
@@ -70,14 +70,56 @@ test('test abort', async () => {
   expect(allMessages).not.toContain('theAsset:theDestination2');
 });
 
+test('events are attributed to the asset they are about', async () => {
+  const progressListener = new FakeListener();
+
+  const pub = new AssetPublishing(AssetManifest.fromPath('/simple/cdk.out'), { aws, progressListener, parallelism: 2 });
+  await pub.publish();
+
+  expect(progressListener.events).toContainEqual(['check', 'theAsset:theDestination1', 'Check s3://some_bucket/some_key']);
+  expect(progressListener.events).toContainEqual(['check', 'theAsset:theDestination2', 'Check s3://some_bucket/some_key2']);
+  expect(progressListener.events).toContainEqual(['success', 'theAsset:theDestination2', 'Published theAsset:theDestination2']);
+  expect(pub.percentComplete).toEqual(100);
+});
+
+test('with parallelism, assets are started before others have finished', async () => {
+  const progressListener = new FakeListener();
+
+  const pub = new AssetPublishing(AssetManifest.fromPath('/simple/cdk.out'), { aws, progressListener, parallelism: 2 });
+  await pub.publish();
+
+  const types = progressListener.events.map(([type]) => type);
+  expect(types.lastIndexOf(EventType.START)).toBeLessThan(types.indexOf(EventType.SUCCESS));
+});
+
+test('a failing asset does not stop the others', async () => {
+  aws.mockS3.listObjectsV2 = jest.fn().mockImplementation(request => request.Prefix === 'some_key'
+    ? mockedApiFailure('AccessDenied', 'Nope')()
+    : mockedApiResult({ Contents: undefined })());
+
+  const pub = new AssetPublishing(AssetManifest.fromPath('/simple/cdk.out'), { aws, parallelism: 2 });
+  await expect(pub.publish()).rejects.toThrow(/Nope/);
+
+  expect(pub.failures.map(f => f.asset.id.toString())).toEqual(['theAsset:theDestination1']);
+  expect(aws.mockS3.upload).toHaveBeenCalledWith(expect.objectContaining({ Key: 'some_key2' }));
+  expect(pub.percentComplete).toEqual(100);
+});
+
+test('parallelism must be at least 1', () => {
+  expect(() => new AssetPublishing(AssetManifest.fromPath('/simple/cdk.out'), { aws, parallelism: 0 }))
+    .toThrow(/parallelism must be at least 1/);
+});
+
 class FakeListener implements IPublishProgressListener {
   public readonly messages = new Array<string>();
+  public readonly events = new Array<[EventType, string | undefined, string]>();
 
   constructor(private readonly doAbort = false) {
   }
 
-  public onPublishEvent(_type: EventType, event: IPublishProgress): void {
+  public onPublishEvent(type: EventType, event: IPublishProgress): void {
     this.messages.push(event.message);
+    this.events.push([type, event.currentAsset?.id.toString(), event.message]);
 
     if (this.doAbort) {
       event.abort();